@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  apiFootballKeys,
+  apiHandballKeys,
+  apiMmaKeys,
+} from '@sudobility/sports_api_client';
+import { heavymathKeys } from '../queryKeys';
+
+const walletAddress = '0x1234567890abcdef';
+
+describe('heavymathKeys', () => {
+  it('should return the sports_api_client keys read by the sports hooks', () => {
+    const params = { date: '2025-01-01' };
+
+    expect(heavymathKeys.sports.football.matches(params)).toEqual(
+      apiFootballKeys.fixtures.list(params)
+    );
+    expect(heavymathKeys.sports.handball.games(params)).toEqual(
+      apiHandballKeys.games.list(params)
+    );
+    expect(heavymathKeys.sports.mma.fighters()).toEqual(
+      apiMmaKeys.fighters.list()
+    );
+  });
+
+  it('should return the root key of every sport', () => {
+    expect(heavymathKeys.sports.football.all()).toEqual(apiFootballKeys.all);
+    expect(heavymathKeys.sports.handball.all()).toEqual(apiHandballKeys.all);
+  });
+
+  it('should nest favorites and positions under the library root', () => {
+    expect(
+      heavymathKeys.favorites.list(walletAddress, 'sports', 'football', 'match')
+    ).toEqual([
+      'heavymath',
+      'favorites',
+      walletAddress,
+      'sports',
+      'football',
+      'match',
+    ]);
+    expect(heavymathKeys.positions(walletAddress)).toEqual([
+      'heavymath',
+      'markets',
+      'positions',
+      walletAddress,
+    ]);
+  });
+
+  it('should match only library queries of the wallet', () => {
+    const isWalletQuery = heavymathKeys.isWalletQuery(walletAddress);
+
+    expect(
+      isWalletQuery({ queryKey: heavymathKeys.positions(walletAddress) })
+    ).toBe(true);
+    expect(
+      isWalletQuery({
+        queryKey: heavymathKeys.auctions.bidder(1, walletAddress),
+      })
+    ).toBe(true);
+    expect(
+      isWalletQuery({ queryKey: heavymathKeys.positions('0xother') })
+    ).toBe(false);
+    expect(isWalletQuery({ queryKey: ['other-lib', walletAddress] })).toBe(
+      false
+    );
+  });
+
+  it('should key and match wallets in any case', () => {
+    const checksummed = '0xAbCdEf0123456789';
+
+    expect(heavymathKeys.positions(checksummed)).toEqual(
+      heavymathKeys.positions(checksummed.toLowerCase())
+    );
+    expect(heavymathKeys.favorites.wallet(checksummed)).toEqual([
+      'heavymath',
+      'favorites',
+      '0xabcdef0123456789',
+    ]);
+    expect(
+      heavymathKeys.isWalletQuery(checksummed)({
+        queryKey: heavymathKeys.auctions.bidder(1, checksummed.toLowerCase()),
+      })
+    ).toBe(true);
+    expect(
+      heavymathKeys.isWalletQuery(checksummed.toLowerCase())({
+        queryKey: heavymathKeys.positions(checksummed),
+      })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { ContractTransactionError } from '../../utils';
+import { useContractTransaction } from '../useContractTransaction';
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+const walletRequiredMessage = 'Connect a wallet to test';
+
+describe('useContractTransaction', () => {
+  it('should go through the stages and confirm once mined', async () => {
+    let mine: (receipt: { status: string }) => void = () => {};
+    const onConfirmed = vi.fn();
+    const { result } = renderHook(
+      () =>
+        useContractTransaction<number>('0xabc', {
+          walletRequiredMessage,
+          submit: vi.fn().mockResolvedValue('0xhash'),
+          waitForTransaction: () => new Promise(resolve => (mine = resolve)),
+          onConfirmed,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    let pending: Promise<string> = Promise.resolve('');
+    await act(async () => {
+      pending = result.current.submit(7);
+    });
+
+    expect(result.current.stage).toBe('submitted');
+    expect(result.current.txHash).toBe('0xhash');
+
+    await act(async () => {
+      mine({ status: 'success' });
+      await pending;
+    });
+
+    expect(result.current.stage).toBe('confirmed');
+    expect(onConfirmed).toHaveBeenCalledWith(7, '0xhash');
+  });
+
+  it('should throw validation errors as they are, without signing', async () => {
+    const invalid = new Error('Stake too low');
+    const submit = vi.fn();
+    const { result } = renderHook(
+      () =>
+        useContractTransaction<number>('0xabc', {
+          walletRequiredMessage,
+          validate: () => {
+            throw invalid;
+          },
+          submit,
+          waitForTransaction: vi.fn(),
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.submit(7)).rejects.toBe(invalid);
+    });
+
+    expect(submit).not.toHaveBeenCalled();
+    expect(result.current.stage).toBe('failed');
+    expect(result.current.error).toBe(invalid);
+  });
+
+  it('should decode reverts and reset to idle', async () => {
+    const { result } = renderHook(
+      () =>
+        useContractTransaction<number>('0xabc', {
+          walletRequiredMessage,
+          submit: vi.fn().mockResolvedValue('0xhash'),
+          waitForTransaction: vi.fn().mockResolvedValue({ status: 'reverted' }),
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.submit(7)).rejects.toBeInstanceOf(
+        ContractTransactionError
+      );
+    });
+    expect(result.current.stage).toBe('failed');
+
+    act(() => result.current.reset());
+
+    expect(result.current.stage).toBe('idle');
+    expect(result.current.txHash).toBeUndefined();
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should reject without a wallet', async () => {
+    const { result } = renderHook(
+      () =>
+        useContractTransaction<number>(undefined, {
+          walletRequiredMessage,
+          submit: vi.fn(),
+          waitForTransaction: vi.fn(),
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.submit(7)).rejects.toThrow(
+        walletRequiredMessage
+      );
+    });
+  });
+});
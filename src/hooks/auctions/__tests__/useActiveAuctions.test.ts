@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useActiveAuctions } from '../useActiveAuctions';
+
+const future = (seconds: number) =>
+  BigInt(Math.floor(Date.now() / 1000) + seconds);
+
+const auction = (id: bigint, overrides: Record<string, unknown> = {}) => ({
+  id,
+  seller: '0xseller',
+  title: `Lot ${id}`,
+  startingPrice: 100n,
+  reservePrice: 500n,
+  minIncrement: 50n,
+  highestBid: 600n,
+  highestBidder: '0xother',
+  endTime: future(3600),
+  settled: false,
+  ...overrides,
+});
+
+const mockClient = {
+  chainId: 1,
+  getActiveAuctions: vi.fn(),
+  getBidderAuctions: vi.fn(),
+};
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useActiveAuctions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getActiveAuctions.mockResolvedValue([
+      auction(1n),
+      auction(2n, { endTime: future(60), highestBidder: '0xwallet' }),
+      auction(3n, { endTime: future(7200) }),
+    ]);
+    mockClient.getBidderAuctions.mockResolvedValue([auction(1n), auction(2n)]);
+  });
+
+  it('should list auctions ending soonest first with the wallet status', async () => {
+    const { result } = renderHook(
+      () => useActiveAuctions(mockClient as any, '0xWallet'),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.auctions.map(a => a.id)).toEqual([2n, 1n, 3n]);
+    expect(result.current.auctions.map(a => a.walletStatus)).toEqual([
+      'leading',
+      'outbid',
+      'none',
+    ]);
+    expect(result.current.auctions[0].minimumBid).toBe(650n);
+    expect(result.current.auctions[0].reserveMet).toBe(true);
+    expect(mockClient.getBidderAuctions).toHaveBeenCalledWith('0xWallet');
+  });
+
+  it('should list auctions without a wallet', async () => {
+    const { result } = renderHook(
+      () => useActiveAuctions(mockClient as any, undefined),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.auctions).toHaveLength(3));
+
+    expect(mockClient.getBidderAuctions).not.toHaveBeenCalled();
+    expect(result.current.auctions.every(a => a.walletStatus === 'none')).toBe(
+      true
+    );
+  });
+});
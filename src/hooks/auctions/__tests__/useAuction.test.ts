@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useAuction } from '../useAuction';
+
+const mockClient = {
+  chainId: 1,
+  getAuction: vi.fn(),
+  getBids: vi.fn(),
+};
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useAuction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getAuction.mockResolvedValue({
+      id: 1n,
+      seller: '0xseller',
+      title: 'Signed jersey',
+      startingPrice: 100n,
+      reservePrice: 500n,
+      minIncrement: 50n,
+      highestBid: 300n,
+      highestBidder: '0xother',
+      endTime: BigInt(Math.floor(Date.now() / 1000) + 3600),
+      settled: false,
+    });
+    mockClient.getBids.mockResolvedValue([
+      { bidder: '0xWallet', amount: 200n, timestamp: 1n },
+      { bidder: '0xother', amount: 300n, timestamp: 2n },
+    ]);
+  });
+
+  it('should return the auction, its bids and the wallet status', async () => {
+    const { result } = renderHook(
+      () => useAuction(mockClient as any, '0xwallet', 1n),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.bids).toHaveLength(2);
+    expect(result.current.auction?.walletStatus).toBe('outbid');
+    expect(result.current.auction?.minimumBid).toBe(350n);
+    expect(result.current.auction?.reserveMet).toBe(false);
+  });
+
+  it('should not fetch without an auction id', () => {
+    renderHook(() => useAuction(mockClient as any, '0xwallet', undefined), {
+      wrapper: createWrapper(),
+    });
+
+    expect(mockClient.getAuction).not.toHaveBeenCalled();
+    expect(mockClient.getBids).not.toHaveBeenCalled();
+  });
+});
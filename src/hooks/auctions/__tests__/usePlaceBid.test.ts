@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { usePlaceBid } from '../usePlaceBid';
+import { auctionKeys } from '../auctionQueries';
+import { BidValidationError } from '../../../utils';
+
+const mockWalletAddress = '0x1234567890abcdef';
+
+const mockClient = {
+  chainId: 1,
+  getAuction: vi.fn(),
+  getBidTokenBalance: vi.fn(),
+  placeBid: vi.fn(),
+  waitForTransaction: vi.fn(),
+};
+
+let queryClient: QueryClient;
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('usePlaceBid', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getAuction.mockResolvedValue({
+      id: 1n,
+      startingPrice: 100n,
+      reservePrice: 500n,
+      minIncrement: 50n,
+      highestBid: 300n,
+      highestBidder: '0xother',
+      endTime: BigInt(Math.floor(Date.now() / 1000) + 3600),
+      settled: false,
+    });
+    mockClient.getBidTokenBalance.mockResolvedValue(1000n);
+    mockClient.placeBid.mockResolvedValue('0xhash');
+    mockClient.waitForTransaction.mockResolvedValue({ status: 'success' });
+  });
+
+  it('should submit, confirm and invalidate the auction and lists', async () => {
+    const { result } = renderHook(
+      () => usePlaceBid(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+
+    await act(async () => {
+      await result.current.placeBid({ auctionId: 1n, amount: 350n });
+    });
+
+    expect(mockClient.placeBid).toHaveBeenCalledWith(1n, 350n);
+    expect(result.current.stage).toBe('confirmed');
+    expect(result.current.txHash).toBe('0xhash');
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: auctionKeys.detail(1, 1n),
+    });
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: auctionKeys.active(1),
+    });
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: auctionKeys.bidder(1, mockWalletAddress),
+    });
+  });
+
+  it('should reject bids below the minimum increment', async () => {
+    const { result } = renderHook(
+      () => usePlaceBid(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    let error: unknown;
+    await act(async () => {
+      error = await result.current
+        .placeBid({ auctionId: 1n, amount: 320n })
+        .catch(err => err);
+    });
+
+    expect(error).toBeInstanceOf(BidValidationError);
+    expect((error as BidValidationError).code).toBe('BID_TOO_LOW');
+    expect(mockClient.placeBid).not.toHaveBeenCalled();
+    expect(result.current.stage).toBe('failed');
+  });
+
+  it('should decode reverts', async () => {
+    mockClient.placeBid.mockRejectedValueOnce({
+      reason: 'Bid below increment',
+    });
+
+    const { result } = renderHook(
+      () => usePlaceBid(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(
+        result.current.placeBid({ auctionId: 1n, amount: 350n })
+      ).rejects.toThrow('Bid below increment');
+    });
+  });
+});
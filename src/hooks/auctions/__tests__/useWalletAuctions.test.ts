@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useWalletAuctions } from '../useWalletAuctions';
+
+const future = BigInt(Math.floor(Date.now() / 1000) + 3600);
+
+const auction = (id: bigint, highestBidder: string, endTime: bigint) => ({
+  id,
+  seller: '0xseller',
+  title: `Lot ${id}`,
+  startingPrice: 100n,
+  reservePrice: 500n,
+  minIncrement: 50n,
+  highestBid: 600n,
+  highestBidder,
+  endTime,
+  settled: false,
+});
+
+const mockClient = {
+  chainId: 1,
+  getBidderAuctions: vi.fn(),
+};
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useWalletAuctions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getBidderAuctions.mockResolvedValue([
+      auction(1n, '0xwallet', future),
+      auction(2n, '0xother', future),
+      auction(3n, '0xwallet', 1n),
+      auction(4n, '0xother', 1n),
+    ]);
+  });
+
+  it('should group auctions by the wallet status', async () => {
+    const { result } = renderHook(
+      () => useWalletAuctions(mockClient as any, '0xwallet'),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.auctions).toHaveLength(4));
+
+    expect(result.current.leading.map(a => a.id)).toEqual([1n]);
+    expect(result.current.outbid.map(a => a.id)).toEqual([2n]);
+    expect(result.current.won.map(a => a.id)).toEqual([3n]);
+    expect(result.current.auctions[3].walletStatus).toBe('lost');
+  });
+
+  it('should not fetch without a wallet', () => {
+    renderHook(() => useWalletAuctions(mockClient as any, undefined), {
+      wrapper: createWrapper(),
+    });
+
+    expect(mockClient.getBidderAuctions).not.toHaveBeenCalled();
+  });
+});
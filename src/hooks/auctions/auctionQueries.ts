@@ -0,0 +1,26 @@
+/**
+ * Query keys shared by the auction hooks
+ */
+
+import type { AuctionChainId } from '../../types';
+
+/**
+ * Query keys of the auction hooks; ids are strings since keys are hashed as JSON
+ */
+export const auctionKeys = {
+  all: ['heavymath', 'auctions'] as const,
+  chain: (chainId: AuctionChainId) => [...auctionKeys.all, chainId] as const,
+  active: (chainId: AuctionChainId) =>
+    [...auctionKeys.chain(chainId), 'active'] as const,
+  detail: (chainId: AuctionChainId, auctionId: bigint) =>
+    [...auctionKeys.chain(chainId), auctionId.toString()] as const,
+  bids: (chainId: AuctionChainId, auctionId: bigint) =>
+    [...auctionKeys.detail(chainId, auctionId), 'bids'] as const,
+  /** Auctions a wallet has bid on, keyed by the lowercased address */
+  bidder: (chainId: AuctionChainId, walletAddress: string) =>
+    [
+      ...auctionKeys.chain(chainId),
+      'bidder',
+      walletAddress.toLowerCase(),
+    ] as const,
+};
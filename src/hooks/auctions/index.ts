@@ -0,0 +1,9 @@
+/**
+ * Auction hooks built on auctions_contracts
+ */
+
+export * from './auctionQueries';
+export * from './useActiveAuctions';
+export * from './useAuction';
+export * from './useWalletAuctions';
+export * from './usePlaceBid';
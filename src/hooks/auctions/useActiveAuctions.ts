@@ -0,0 +1,113 @@
+/**
+ * Hook listing running auctions from auctions_contracts
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Auction, AuctionData, AuctionsContractClient } from '../../types';
+import { toAuction } from '../../utils';
+import { auctionKeys } from './auctionQueries';
+
+/**
+ * Options for the auction list hooks
+ */
+export interface UseAuctionsOptions {
+  enabled?: boolean;
+  /** Refetch interval in milliseconds, e.g. to follow bids */
+  refetchInterval?: number | false;
+}
+
+/**
+ * Return type for the auction list hooks
+ */
+export interface UseAuctionsResult {
+  auctions: Auction[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  refetch: () => Promise<unknown>;
+}
+
+/**
+ * Hook to list auctions still accepting bids, ending soonest first
+ *
+ * With a wallet, each auction also reports whether the wallet is leading
+ * or has been outbid.
+ *
+ * @param auctionsClient - auctions_contracts client for the auctions' chain
+ * @param walletAddress - Wallet to report the status of (optional)
+ * @param options - Query options
+ * @returns Active auctions with their minimum bid and reserve state
+ *
+ * @example
+ * ```typescript
+ * function AuctionList() {
+ *   const { auctions } = useActiveAuctions(auctionsClient, walletAddress, {
+ *     refetchInterval: 15_000,
+ *   });
+ *
+ *   return auctions.map(auction => (
+ *     <AuctionCard
+ *       key={auction.id.toString()}
+ *       auction={auction}
+ *       outbid={auction.walletStatus === 'outbid'}
+ *     />
+ *   ));
+ * }
+ * ```
+ */
+export function useActiveAuctions(
+  auctionsClient: AuctionsContractClient,
+  walletAddress: string | undefined,
+  options: UseAuctionsOptions = {}
+): UseAuctionsResult {
+  const { enabled = true, refetchInterval } = options;
+  const { chainId } = auctionsClient;
+
+  const activeQuery = useQuery<AuctionData[]>({
+    queryKey: auctionKeys.active(chainId),
+    queryFn: () => auctionsClient.getActiveAuctions(),
+    enabled,
+    refetchInterval,
+  });
+
+  // Auctions the wallet bid on, to tell outbid from not bidding
+  const bidderQuery = useQuery<AuctionData[]>({
+    queryKey: auctionKeys.bidder(chainId, walletAddress ?? ''),
+    queryFn: () => auctionsClient.getBidderAuctions(walletAddress as string),
+    enabled: enabled && !!walletAddress,
+    refetchInterval,
+  });
+
+  const auctions = useMemo(() => {
+    const bidOn = new Set(
+      (bidderQuery.data ?? []).map(auction => auction.id.toString())
+    );
+    const now = Date.now();
+
+    return (activeQuery.data ?? [])
+      .map(auction =>
+        toAuction(
+          chainId,
+          auction,
+          walletAddress,
+          bidOn.has(auction.id.toString()),
+          now
+        )
+      )
+      .filter(auction => auction.isActive)
+      .sort((a, b) =>
+        a.endTime < b.endTime ? -1 : a.endTime > b.endTime ? 1 : 0
+      );
+  }, [chainId, walletAddress, activeQuery.data, bidderQuery.data]);
+
+  const error = activeQuery.error ?? bidderQuery.error;
+
+  return {
+    auctions,
+    isLoading: activeQuery.isLoading || bidderQuery.isLoading,
+    isError: error !== null,
+    error,
+    refetch: activeQuery.refetch,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Hook for a single auction and its bids
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type {
+  Auction,
+  AuctionBid,
+  AuctionData,
+  AuctionsContractClient,
+} from '../../types';
+import { toAuction } from '../../utils';
+import { auctionKeys } from './auctionQueries';
+import type { UseAuctionsOptions } from './useActiveAuctions';
+
+/**
+ * Options for useAuction hook
+ */
+export type UseAuctionOptions = UseAuctionsOptions;
+
+/**
+ * Return type for useAuction hook
+ */
+export interface UseAuctionResult {
+  auction: Auction | undefined;
+  /** Bids, oldest first */
+  bids: AuctionBid[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  refetch: () => Promise<unknown>;
+}
+
+/**
+ * Hook to fetch an auction with its bids and reserve state
+ *
+ * @param auctionsClient - auctions_contracts client for the auction's chain
+ * @param walletAddress - Wallet to report the status of (optional)
+ * @param auctionId - Auction id, the queries are disabled while undefined
+ * @param options - Query options
+ * @returns The auction, its bids and the wallet's status
+ *
+ * @example
+ * ```typescript
+ * function AuctionDetail({ auctionId }: { auctionId: bigint }) {
+ *   const { auction, bids } = useAuction(
+ *     auctionsClient,
+ *     walletAddress,
+ *     auctionId,
+ *     { refetchInterval: 10_000 }
+ *   );
+ *
+ *   if (!auction) return <Spinner />;
+ *   return <BidHistory bids={bids} minimumBid={auction.minimumBid} />;
+ * }
+ * ```
+ */
+export function useAuction(
+  auctionsClient: AuctionsContractClient,
+  walletAddress: string | undefined,
+  auctionId: bigint | undefined,
+  options: UseAuctionOptions = {}
+): UseAuctionResult {
+  const { enabled = true, refetchInterval } = options;
+  const { chainId } = auctionsClient;
+  const isEnabled = enabled && auctionId !== undefined;
+
+  const auctionQuery = useQuery<AuctionData>({
+    queryKey: auctionKeys.detail(chainId, auctionId ?? -1n),
+    queryFn: () => auctionsClient.getAuction(auctionId as bigint),
+    enabled: isEnabled,
+    refetchInterval,
+  });
+
+  const bidsQuery = useQuery<AuctionBid[]>({
+    queryKey: auctionKeys.bids(chainId, auctionId ?? -1n),
+    queryFn: () => auctionsClient.getBids(auctionId as bigint),
+    enabled: isEnabled,
+    refetchInterval,
+  });
+
+  const bids = useMemo(() => bidsQuery.data ?? [], [bidsQuery.data]);
+
+  const auction = useMemo(() => {
+    if (!auctionQuery.data) return undefined;
+    const wallet = walletAddress?.toLowerCase();
+    const hasBid = bids.some(bid => bid.bidder.toLowerCase() === wallet);
+    return toAuction(chainId, auctionQuery.data, walletAddress, hasBid);
+  }, [chainId, walletAddress, auctionQuery.data, bids]);
+
+  const error = auctionQuery.error ?? bidsQuery.error;
+
+  return {
+    auction,
+    bids,
+    isLoading: auctionQuery.isLoading || bidsQuery.isLoading,
+    isError: error !== null,
+    error,
+    refetch: auctionQuery.refetch,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Hook to bid on an auction through auctions_contracts
+ */
+
+import { useQueryClient } from '@tanstack/react-query';
+import type { AuctionData, AuctionsContractClient } from '../../types';
+import { validateBid } from '../../utils';
+import {
+  type ContractTxStage,
+  useContractTransaction,
+  type UseContractTransactionResult,
+} from '../useContractTransaction';
+import { auctionKeys } from './auctionQueries';
+
+/**
+ * Lifecycle of a bid transaction, see ContractTxStage
+ */
+export type BidTxStage = ContractTxStage;
+
+/**
+ * Bid a wallet wants to place
+ */
+export interface BidInput {
+  auctionId: bigint;
+  /** Bid in the token's smallest unit */
+  amount: bigint;
+}
+
+/**
+ * Return type for usePlaceBid hook
+ */
+export interface UsePlaceBidResult extends Omit<
+  UseContractTransactionResult<BidInput>,
+  'submit' | 'error'
+> {
+  /** Validate and submit a bid, resolves with the tx hash once mined */
+  placeBid: (input: BidInput) => Promise<string>;
+  /** BidValidationError, or ContractTransactionError with the revert reason */
+  error: Error | null;
+}
+
+/**
+ * Hook to place a bid with validation and transaction lifecycle states
+ *
+ * Before submitting, the auction is re-read and the bid is checked against
+ * the end time, the minimum increment over the highest bid and the wallet's
+ * bid token balance. Once mined, the auction, its bids and the auction
+ * lists are invalidated.
+ *
+ * @param auctionsClient - auctions_contracts client with a connected wallet
+ * @param walletAddress - Address of the connected wallet
+ * @returns Mutation function and its lifecycle state
+ *
+ * @example
+ * ```typescript
+ * function BidButton({ auction }: { auction: Auction }) {
+ *   const { placeBid, stage, error } = usePlaceBid(
+ *     auctionsClient,
+ *     walletAddress
+ *   );
+ *
+ *   return (
+ *     <Button
+ *       loading={stage === 'awaitingSignature' || stage === 'submitted'}
+ *       onPress={() =>
+ *         placeBid({ auctionId: auction.id, amount: auction.minimumBid })
+ *       }
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function usePlaceBid(
+  auctionsClient: AuctionsContractClient,
+  walletAddress: string | undefined
+): UsePlaceBidResult {
+  const queryClient = useQueryClient();
+  const { chainId } = auctionsClient;
+
+  const { submit, ...transaction } = useContractTransaction<BidInput>(
+    walletAddress,
+    {
+      walletRequiredMessage: 'Connect a wallet to place a bid',
+      validate: async (input, wallet) => {
+        const [auction, balance] = await Promise.all([
+          queryClient.fetchQuery<AuctionData>({
+            queryKey: auctionKeys.detail(chainId, input.auctionId),
+            queryFn: () => auctionsClient.getAuction(input.auctionId),
+            staleTime: 0,
+          }),
+          auctionsClient.getBidTokenBalance(wallet),
+        ]);
+        const validationError = validateBid(auction, input.amount, balance);
+        if (validationError) throw validationError;
+      },
+      submit: input => auctionsClient.placeBid(input.auctionId, input.amount),
+      waitForTransaction: hash => auctionsClient.waitForTransaction(hash),
+      onConfirmed: input => {
+        queryClient.invalidateQueries({
+          queryKey: auctionKeys.detail(chainId, input.auctionId),
+        });
+        queryClient.invalidateQueries({
+          queryKey: auctionKeys.active(chainId),
+        });
+        if (walletAddress) {
+          queryClient.invalidateQueries({
+            queryKey: auctionKeys.bidder(chainId, walletAddress),
+          });
+        }
+      },
+    }
+  );
+
+  return { placeBid: submit, ...transaction };
+}
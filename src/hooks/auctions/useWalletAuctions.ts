@@ -0,0 +1,81 @@
+/**
+ * Hook tracking the auctions a wallet has bid on
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Auction, AuctionData, AuctionsContractClient } from '../../types';
+import { toAuction } from '../../utils';
+import { auctionKeys } from './auctionQueries';
+import type {
+  UseAuctionsOptions,
+  UseAuctionsResult,
+} from './useActiveAuctions';
+
+/**
+ * Return type for useWalletAuctions hook
+ */
+export interface UseWalletAuctionsResult extends UseAuctionsResult {
+  /** Running auctions the wallet leads */
+  leading: Auction[];
+  /** Running auctions where the wallet has been outbid */
+  outbid: Auction[];
+  /** Ended auctions the wallet won */
+  won: Auction[];
+}
+
+/**
+ * Hook to track a wallet's bids: leading, outbid, won or lost
+ *
+ * @param auctionsClient - auctions_contracts client for the auctions' chain
+ * @param walletAddress - Wallet to track, the query is disabled while undefined
+ * @param options - Query options
+ * @returns Every auction the wallet bid on, plus the ones needing attention
+ *
+ * @example
+ * ```typescript
+ * function OutbidBadge() {
+ *   const { outbid } = useWalletAuctions(auctionsClient, walletAddress, {
+ *     refetchInterval: 30_000,
+ *   });
+ *   return outbid.length > 0 ? <Badge count={outbid.length} /> : null;
+ * }
+ * ```
+ */
+export function useWalletAuctions(
+  auctionsClient: AuctionsContractClient,
+  walletAddress: string | undefined,
+  options: UseAuctionsOptions = {}
+): UseWalletAuctionsResult {
+  const { enabled = true, refetchInterval } = options;
+  const { chainId } = auctionsClient;
+
+  const query = useQuery<AuctionData[]>({
+    queryKey: auctionKeys.bidder(chainId, walletAddress ?? ''),
+    queryFn: () => auctionsClient.getBidderAuctions(walletAddress as string),
+    enabled: enabled && !!walletAddress,
+    refetchInterval,
+  });
+
+  const grouped = useMemo(() => {
+    const now = Date.now();
+    const auctions = (query.data ?? []).map(auction =>
+      toAuction(chainId, auction, walletAddress, true, now)
+    );
+
+    return {
+      auctions,
+      leading: auctions.filter(a => a.walletStatus === 'leading'),
+      outbid: auctions.filter(a => a.walletStatus === 'outbid'),
+      won: auctions.filter(a => a.walletStatus === 'won'),
+    };
+  }, [chainId, walletAddress, query.data]);
+
+  return {
+    ...grouped,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
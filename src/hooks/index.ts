@@ -3,3 +3,7 @@
  */
 
 export * from './sports';
+export * from './markets';
+export * from './auctions';
+export * from './queryKeys';
+export * from './useContractTransaction';
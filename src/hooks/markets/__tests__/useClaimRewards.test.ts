@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useClaimRefund, useClaimRewards } from '../useClaimRewards';
+
+const mockClient = {
+  chainId: 1,
+  claimWinnings: vi.fn(),
+  claimRefund: vi.fn(),
+  claimWinningsBatch: undefined as any,
+  waitForTransaction: vi.fn(),
+};
+
+let queryClient: QueryClient;
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useClaimRewards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.claimWinningsBatch = undefined;
+    mockClient.claimWinnings.mockImplementation(
+      async (marketId: bigint) => `0x${marketId}`
+    );
+    mockClient.claimRefund.mockResolvedValue('0xrefund');
+    mockClient.waitForTransaction.mockResolvedValue({ status: 'success' });
+  });
+
+  it('should claim each market when the contract has no batch claim', async () => {
+    const wrapper = createWrapper();
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHook(
+      () => useClaimRewards(mockClient as any, '0xabc'),
+      { wrapper }
+    );
+
+    let results: any;
+    await act(async () => {
+      results = await result.current.claim([1n, 2n, 1n]);
+    });
+
+    expect(mockClient.claimWinnings).toHaveBeenCalledTimes(2);
+    expect(results).toEqual([
+      { marketId: 1n, status: 'claimed', txHash: '0x1', error: null },
+      { marketId: 2n, status: 'claimed', txHash: '0x2', error: null },
+    ]);
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: ['heavymath', 'markets', 'positions', '0xabc'],
+    });
+  });
+
+  it('should claim in one transaction when the contract allows it', async () => {
+    mockClient.claimWinningsBatch = vi.fn().mockResolvedValue('0xbatch');
+
+    const { result } = renderHook(
+      () => useClaimRewards(mockClient as any, '0xabc'),
+      { wrapper: createWrapper() }
+    );
+
+    let results: any;
+    await act(async () => {
+      results = await result.current.claim([1n, 2n]);
+    });
+
+    expect(mockClient.claimWinningsBatch).toHaveBeenCalledWith([1n, 2n]);
+    expect(mockClient.claimWinnings).not.toHaveBeenCalled();
+    expect(results.map((r: any) => r.txHash)).toEqual(['0xbatch', '0xbatch']);
+  });
+
+  it('should report reverts per market and skip the rest after a rejection', async () => {
+    mockClient.claimWinnings
+      .mockRejectedValueOnce({ reason: 'Already claimed' })
+      .mockRejectedValueOnce({ code: 4001 });
+
+    const { result } = renderHook(
+      () => useClaimRewards(mockClient as any, '0xabc'),
+      { wrapper: createWrapper() }
+    );
+
+    let results: any;
+    await act(async () => {
+      results = await result.current.claim([1n, 2n, 3n]);
+    });
+
+    expect(results.map((r: any) => r.status)).toEqual([
+      'failed',
+      'failed',
+      'skipped',
+    ]);
+    expect(results[0].error.message).toBe('Already claimed');
+    expect(results[1].error.message).toBe('Transaction rejected in wallet');
+    expect(mockClient.claimWinnings).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail without a connected wallet', async () => {
+    const { result } = renderHook(
+      () => useClaimRewards(mockClient as any, undefined),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.claim([1n])).rejects.toThrow(
+        'Connect a wallet to claim'
+      );
+    });
+
+    expect(mockClient.claimWinnings).not.toHaveBeenCalled();
+  });
+});
+
+describe('useClaimRefund', () => {
+  it('should claim refunds', async () => {
+    vi.clearAllMocks();
+    mockClient.claimRefund.mockResolvedValue('0xrefund');
+    mockClient.waitForTransaction.mockResolvedValue({ status: 'reverted' });
+
+    const { result } = renderHook(
+      () => useClaimRefund(mockClient as any, '0xabc'),
+      { wrapper: createWrapper() }
+    );
+
+    let results: any;
+    await act(async () => {
+      results = await result.current.claim([4n]);
+    });
+
+    expect(mockClient.claimRefund).toHaveBeenCalledWith(4n);
+    expect(results[0].status).toBe('failed');
+    expect(results[0].error.message).toBe('Transaction reverted');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useClaimableRewards } from '../useClaimableRewards';
+
+const mockIndexerClient = {
+  getWalletPredictions: vi.fn(),
+  getMarket: vi.fn(),
+};
+
+const markets: Record<string, any> = {
+  won: { status: 'Resolved', outcome: 'Home' },
+  lost: { status: 'Resolved', outcome: 'Away' },
+  cancelled: { status: 'Cancelled', outcome: null },
+  open: { status: 'Active', outcome: null },
+};
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useClaimableRewards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockIndexerClient.getWalletPredictions.mockResolvedValue(
+      Object.keys(markets).map(marketId => ({
+        id: `p-${marketId}`,
+        marketId,
+        outcome: 'Home',
+        amount: '100',
+        hasClaimed: false,
+        claimedAmount: null,
+      }))
+    );
+    mockIndexerClient.getMarket.mockImplementation(async (id: string) => ({
+      id,
+      marketId: '1',
+      chainId: 1,
+      title: id,
+      ...markets[id],
+    }));
+  });
+
+  it('should split claimable positions into winnings and refunds', async () => {
+    const { result } = renderHook(
+      () => useClaimableRewards(mockIndexerClient as any, '0xabc'),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.claimable).toHaveLength(2));
+
+    expect(result.current.winnings.map(p => p.marketId)).toEqual(['won']);
+    expect(result.current.refunds.map(p => p.marketId)).toEqual(['cancelled']);
+    // Winnings are unknown without pools
+    expect(result.current.totalClaimable).toBe(100n);
+  });
+
+  it('should only list claims on the contracts client chain', async () => {
+    mockIndexerClient.getMarket.mockImplementation(async (id: string) => ({
+      id,
+      marketId: '1',
+      chainId: id === 'cancelled' ? 137 : 1,
+      title: id,
+      ...markets[id],
+    }));
+    const contractsClient = {
+      chainId: 1,
+      getMarket: vi.fn().mockResolvedValue({
+        status: 'Resolved',
+        dealerFeeBps: 0n,
+        outcomes: ['Home', 'Away'],
+      }),
+      getOutcomePools: vi.fn().mockResolvedValue([100n, 300n]),
+    };
+
+    const { result } = renderHook(
+      () =>
+        useClaimableRewards(mockIndexerClient as any, '0xabc', {
+          contractsClient: contractsClient as any,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.totalClaimable).toBe(400n));
+
+    expect(result.current.claimable.map(p => p.marketId)).toEqual(['won']);
+    expect(result.current.refunds).toEqual([]);
+  });
+});
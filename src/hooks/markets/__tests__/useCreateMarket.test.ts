@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useCreateMarket } from '../useCreateMarket';
+import { marketKeys } from '../marketQueries';
+import { MarketValidationError } from '../../../utils';
+
+const mockClient = {
+  chainId: 1,
+  createMarket: vi.fn(),
+  waitForTransaction: vi.fn(),
+};
+
+let queryClient: QueryClient;
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+const params = () => ({
+  tokenId: 3n,
+  category: 1n,
+  subCategory: 0n,
+  deadline: BigInt(Math.floor(Date.now() / 1000) + 3600),
+  description: 'Arsenal vs Chelsea - Winner',
+  dealerFeeBps: 200n,
+  outcomes: ['Arsenal', 'Draw', 'Chelsea'],
+  resolutionSource: {
+    provider: 'api-sports' as const,
+    sport: 'football' as const,
+    eventId: 1001,
+    eventKey: 'football:1001',
+    leagueId: 39,
+    marketType: 'matchWinner' as const,
+    line: null,
+  },
+});
+
+describe('useCreateMarket', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.createMarket.mockResolvedValue('0xhash');
+    mockClient.waitForTransaction.mockResolvedValue({ status: 'success' });
+  });
+
+  it('should submit, confirm and invalidate the event lookup', async () => {
+    const { result } = renderHook(
+      () => useCreateMarket(mockClient as any, '0xdealer'),
+      { wrapper: createWrapper() }
+    );
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+
+    await act(async () => {
+      await result.current.createMarket(params());
+    });
+
+    expect(mockClient.createMarket).toHaveBeenCalledWith(params());
+    expect(result.current.stage).toBe('confirmed');
+    expect(result.current.txHash).toBe('0xhash');
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: marketKeys.byEvent(1, 'football:1001'),
+    });
+  });
+
+  it('should not submit parameters that are no longer valid', async () => {
+    const { result } = renderHook(
+      () => useCreateMarket(mockClient as any, '0xdealer'),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(
+        result.current.createMarket({ ...params(), deadline: 1n })
+      ).rejects.toBeInstanceOf(MarketValidationError);
+    });
+
+    expect(mockClient.createMarket).not.toHaveBeenCalled();
+    expect(result.current.stage).toBe('failed');
+  });
+
+  it('should decode reverts', async () => {
+    mockClient.createMarket.mockRejectedValueOnce({
+      shortMessage: 'execution reverted: Not a dealer',
+    });
+
+    const { result } = renderHook(
+      () => useCreateMarket(mockClient as any, '0xdealer'),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.createMarket(params())).rejects.toThrow(
+        'Not a dealer'
+      );
+    });
+
+    expect(result.current.stage).toBe('failed');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useMarket } from '../useMarket';
+
+const mockMarketData = {
+  dealer: '0xdealer',
+  tokenId: 1n,
+  category: 1n,
+  subCategory: 2n,
+  deadline: 1_900_000_000n,
+  description: 'Arsenal vs Chelsea',
+  dealerFeeBps: 100n,
+  status: 'Active',
+  resolution: null,
+  outcomes: ['Home', 'Draw', 'Away'],
+};
+
+const mockClient = {
+  chainId: 1,
+  getMarket: vi.fn(),
+  getOutcomePools: vi.fn(),
+};
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useMarket', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getMarket.mockResolvedValue(mockMarketData);
+    mockClient.getOutcomePools.mockResolvedValue([500n, 200n, 300n]);
+  });
+
+  it('should return the market with its outcome pools', async () => {
+    const { result } = renderHook(() => useMarket(mockClient as any, 7n), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => expect(result.current.market).toBeDefined());
+
+    expect(mockClient.getMarket).toHaveBeenCalledWith(7n);
+    expect(mockClient.getOutcomePools).toHaveBeenCalledWith(7n);
+    expect(result.current.market).toMatchObject({
+      id: 7n,
+      chainId: 1,
+      description: 'Arsenal vs Chelsea',
+      totalPool: 1000n,
+    });
+    expect(result.current.market?.outcomes).toEqual([
+      { index: 0, label: 'Home', pool: 500n },
+      { index: 1, label: 'Draw', pool: 200n },
+      { index: 2, label: 'Away', pool: 300n },
+    ]);
+  });
+
+  it('should treat missing pools as empty', async () => {
+    mockClient.getOutcomePools.mockResolvedValue([500n]);
+
+    const { result } = renderHook(() => useMarket(mockClient as any, 7n), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => expect(result.current.market).toBeDefined());
+
+    expect(result.current.market?.outcomes.map(o => o.pool)).toEqual([
+      500n,
+      0n,
+      0n,
+    ]);
+  });
+
+  it('should not fetch without a market id', () => {
+    const { result } = renderHook(
+      () => useMarket(mockClient as any, undefined),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.isLoading).toBe(false);
+    expect(mockClient.getMarket).not.toHaveBeenCalled();
+  });
+
+  it('should surface contract errors', async () => {
+    const error = new Error('execution reverted');
+    mockClient.getMarket.mockRejectedValue(error);
+
+    const { result } = renderHook(() => useMarket(mockClient as any, 7n), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error).toBe(error);
+    expect(result.current.market).toBeUndefined();
+  });
+});
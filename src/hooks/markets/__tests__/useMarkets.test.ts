@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useMarkets } from '../useMarkets';
+
+const mockClient = {
+  chainId: 1,
+  getMarket: vi.fn(),
+  getOutcomePools: vi.fn(),
+};
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useMarkets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getMarket.mockImplementation(async (marketId: bigint) => ({
+      description: `Market ${marketId}`,
+      status: 'Active',
+      deadline: 1_900_000_000n,
+      resolution: null,
+      outcomes: ['Yes', 'No'],
+    }));
+    mockClient.getOutcomePools.mockResolvedValue([10n, 30n]);
+  });
+
+  it('should return the markets in the order of the ids', async () => {
+    const { result } = renderHook(
+      () => useMarkets(mockClient as any, [3n, 1n]),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.markets).toHaveLength(2));
+
+    expect(result.current.markets.map(market => market.id)).toEqual([3n, 1n]);
+    expect(result.current.markets[0].totalPool).toBe(40n);
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('should surface the first failing market', async () => {
+    const error = new Error('Market does not exist');
+    mockClient.getMarket.mockRejectedValueOnce(error);
+
+    const { result } = renderHook(
+      () => useMarkets(mockClient as any, [3n, 1n]),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error).toBe(error);
+  });
+
+  it('should not fetch when disabled', () => {
+    renderHook(() => useMarkets(mockClient as any, [3n], { enabled: false }), {
+      wrapper: createWrapper(),
+    });
+
+    expect(mockClient.getMarket).not.toHaveBeenCalled();
+  });
+});
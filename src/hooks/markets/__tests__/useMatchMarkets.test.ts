@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useMatchMarkets } from '../useMatchMarkets';
+
+const future = BigInt(Math.floor(Date.now() / 1000) + 3600);
+
+const mockMarkets: Record<string, object> = {
+  '11': { status: 'Active', deadline: future, outcomes: ['Home', 'Away'] },
+  '12': { status: 'Resolved', deadline: 1n, outcomes: ['Over', 'Under'] },
+};
+
+const mockMarketIdsByEvent: Record<string, bigint[]> = {
+  'football:1001': [11n, 12n],
+  'football:1002': [],
+};
+
+const mockClient = {
+  chainId: 1,
+  getMarketIdsByEvent: vi.fn(),
+  getMarket: vi.fn(),
+  getOutcomePools: vi.fn(),
+};
+
+const fixture = (id: number) => ({
+  fixture: { id, timestamp: 0, status: { short: 'NS', long: 'Not Started' } },
+  league: { id: 39, name: 'Premier League', logo: null },
+  teams: {
+    home: { id: 1, name: 'Home', logo: null },
+    away: { id: 2, name: 'Away', logo: null },
+  },
+  goals: { home: null, away: null },
+  favorited: id === 1001,
+});
+
+const mockMatches = [fixture(1001), fixture(1002)] as any[];
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useMatchMarkets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getMarketIdsByEvent.mockImplementation(
+      async (eventKey: string) => mockMarketIdsByEvent[eventKey]
+    );
+    mockClient.getMarket.mockImplementation(
+      async (marketId: bigint) => mockMarkets[marketId.toString()]
+    );
+    mockClient.getOutcomePools.mockResolvedValue([40n, 60n]);
+  });
+
+  it('should look up markets by event key', async () => {
+    const { result } = renderHook(
+      () => useMatchMarkets(mockClient as any, 'football', mockMatches),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(mockClient.getMarketIdsByEvent).toHaveBeenCalledWith(
+      'football:1001'
+    );
+    expect(mockClient.getMarketIdsByEvent).toHaveBeenCalledWith(
+      'football:1002'
+    );
+  });
+
+  it('should enrich each item with its markets, pools and open state', async () => {
+    const { result } = renderHook(
+      () => useMatchMarkets(mockClient as any, 'football', mockMatches),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() =>
+      expect(result.current.items[0].markets).toHaveLength(2)
+    );
+
+    const [withMarkets, withoutMarkets] = result.current.items;
+    expect(withMarkets).toMatchObject({
+      eventKey: 'football:1001',
+      marketIds: [11n, 12n],
+      totalPool: 200n,
+      isOpen: true,
+      favorited: true,
+    });
+    expect(withoutMarkets).toMatchObject({
+      eventKey: 'football:1002',
+      marketIds: [],
+      markets: [],
+      totalPool: 0n,
+      isOpen: false,
+    });
+  });
+
+  it('should surface lookup errors', async () => {
+    const error = new Error('Lookup failed');
+    mockClient.getMarketIdsByEvent.mockRejectedValue(error);
+
+    const { result } = renderHook(
+      () => useMatchMarkets(mockClient as any, 'football', mockMatches),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error).toBe(error);
+  });
+
+  it('should not fetch when disabled', () => {
+    renderHook(
+      () =>
+        useMatchMarkets(mockClient as any, 'football', mockMatches, {
+          enabled: false,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockClient.getMarketIdsByEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import type { SportEvent } from '../../../types';
+import { useModelOdds } from '../useModelOdds';
+
+const event = (
+  id: number,
+  home: number,
+  away: number,
+  score: [number, number] | null,
+  sport: SportEvent['sport'] = 'football'
+): SportEvent => ({
+  key: `${sport}:${id}`,
+  id,
+  sport,
+  league: null,
+  participants: [
+    { id: home, name: `Team ${home}`, logo: null, winner: null },
+    { id: away, name: `Team ${away}`, logo: null, winner: null },
+  ],
+  startTime: id * 1000,
+  status: score
+    ? { short: 'FT', long: 'Match Finished', phase: 'finished' }
+    : { short: 'NS', long: 'Not Started', phase: 'scheduled' },
+  score: score ? { home: score[0], away: score[1] } : null,
+});
+
+const history = [
+  event(1, 40, 34, [3, 0]),
+  event(2, 34, 40, [0, 2]),
+  event(3, 40, 50, [2, 1]),
+  event(4, 50, 34, [1, 0]),
+  event(5, 34, 50, [1, 1]),
+  event(6, 50, 40, [0, 1]),
+];
+const upcoming = event(7, 40, 34, null);
+
+const mockClient = {
+  chainId: 1,
+  getMarket: vi.fn(),
+  getOutcomePools: vi.fn(),
+};
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useModelOdds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getMarket.mockResolvedValue({
+      dealer: '0xdealer',
+      tokenId: 1n,
+      category: 1n,
+      subCategory: 0n,
+      deadline: 1_900_000_000n,
+      description: 'Team 40 vs Team 34 - Winner',
+      dealerFeeBps: 0n,
+      status: 'Active',
+      resolution: null,
+      outcomes: ['Team 40', 'Draw', 'Team 34'],
+      resolutionSource: {
+        provider: 'api-sports',
+        sport: 'football',
+        eventId: 7,
+        eventKey: 'football:7',
+        leagueId: 39,
+        marketType: 'matchWinner',
+        line: null,
+      },
+    });
+    // The crowd backs the weaker side
+    mockClient.getOutcomePools.mockResolvedValue([200n, 200n, 600n]);
+  });
+
+  it('should flag outcomes the market underprices', async () => {
+    const { result } = renderHook(
+      () => useModelOdds(mockClient as any, 3n, upcoming, history),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.prediction?.model).toBe('poisson');
+    await waitFor(() => expect(result.current.outcomes).toHaveLength(3));
+
+    expect(result.current.outcomes[2].impliedProbability).toBe(0.6);
+    expect(result.current.mispriced[0]).toMatchObject({
+      index: 0,
+      label: 'Team 40',
+    });
+    expect(result.current.mispriced.map(o => o.index)).not.toContain(2);
+  });
+
+  it('should apply the mispricing threshold', async () => {
+    const { result } = renderHook(
+      () =>
+        useModelOdds(mockClient as any, 3n, upcoming, history, {
+          minEdge: 100,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.outcomes).toHaveLength(3));
+    expect(result.current.mispriced).toEqual([]);
+  });
+
+  it('should not compare over/under markets', async () => {
+    const market = await mockClient.getMarket();
+    mockClient.getMarket.mockResolvedValue({
+      ...market,
+      description: 'Team 40 vs Team 34 - Total over/under 2.5',
+      outcomes: ['Over 2.5', 'Under 2.5'],
+      resolutionSource: {
+        ...market.resolutionSource,
+        marketType: 'overUnder',
+        line: 2.5,
+      },
+    });
+    mockClient.getOutcomePools.mockResolvedValue([100n, 900n]);
+
+    const { result } = renderHook(
+      () => useModelOdds(mockClient as any, 4n, upcoming, history),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.market).toBeDefined());
+    expect(result.current.prediction).not.toBeNull();
+    expect(result.current.outcomes).toEqual([]);
+    expect(result.current.mispriced).toEqual([]);
+  });
+
+  it('should keep the model without a market', () => {
+    const { result } = renderHook(
+      () => useModelOdds(mockClient as any, undefined, upcoming, history),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockClient.getMarket).not.toHaveBeenCalled();
+    expect(result.current.model?.gameCount).toBe(6);
+    expect(result.current.outcomes).toEqual([]);
+  });
+
+  it('should skip sports without teams', () => {
+    const fight = event(8, 1, 2, null, 'mma');
+    const { result } = renderHook(
+      () => useModelOdds(mockClient as any, undefined, fight, []),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.model).toBeNull();
+    expect(result.current.prediction).toBeNull();
+  });
+});
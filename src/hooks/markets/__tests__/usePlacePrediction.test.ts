@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { usePlacePrediction } from '../usePlacePrediction';
+import { marketKeys } from '../marketQueries';
+import { PredictionValidationError } from '../../../utils';
+
+const mockWalletAddress = '0x1234567890abcdef';
+
+const mockClient = {
+  chainId: 1,
+  getMarket: vi.fn(),
+  getOutcomePools: vi.fn(),
+  getStakeBalance: vi.fn(),
+  placePrediction: vi.fn(),
+  waitForTransaction: vi.fn(),
+};
+
+let queryClient: QueryClient;
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+const input = { marketId: 7n, outcome: 1, amount: 50n };
+
+describe('usePlacePrediction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getMarket.mockResolvedValue({
+      status: 'Active',
+      deadline: BigInt(Math.floor(Date.now() / 1000) + 3600),
+      resolution: null,
+      outcomes: ['Home', 'Away'],
+    });
+    mockClient.getOutcomePools.mockResolvedValue([100n, 100n]);
+    mockClient.getStakeBalance.mockResolvedValue(1000n);
+    mockClient.placePrediction.mockResolvedValue('0xhash');
+    mockClient.waitForTransaction.mockResolvedValue({ status: 'success' });
+  });
+
+  it('should submit, confirm and invalidate the market and positions', async () => {
+    const { result } = renderHook(
+      () => usePlacePrediction(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+
+    await act(async () => {
+      await expect(result.current.placePrediction(input)).resolves.toBe(
+        '0xhash'
+      );
+    });
+
+    expect(mockClient.getStakeBalance).toHaveBeenCalledWith(mockWalletAddress);
+    expect(mockClient.placePrediction).toHaveBeenCalledWith(7n, 1, 50n);
+    expect(mockClient.waitForTransaction).toHaveBeenCalledWith('0xhash');
+    expect(result.current.stage).toBe('confirmed');
+    expect(result.current.txHash).toBe('0xhash');
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: marketKeys.detail(1, 7n),
+    });
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: marketKeys.positions(mockWalletAddress),
+    });
+  });
+
+  it('should expose the submitted stage with the tx hash while mining', async () => {
+    let resolveReceipt: (value: unknown) => void = () => {};
+    mockClient.waitForTransaction.mockReturnValue(
+      new Promise(resolve => (resolveReceipt = resolve))
+    );
+
+    const { result } = renderHook(
+      () => usePlacePrediction(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    let pending: Promise<string> = Promise.resolve('');
+    await act(async () => {
+      pending = result.current.placePrediction(input);
+      await vi.waitFor(() =>
+        expect(mockClient.waitForTransaction).toHaveBeenCalled()
+      );
+    });
+
+    expect(result.current.stage).toBe('submitted');
+    expect(result.current.txHash).toBe('0xhash');
+
+    await act(async () => {
+      resolveReceipt({ status: 'success' });
+      await pending;
+    });
+
+    expect(result.current.stage).toBe('confirmed');
+  });
+
+  it('should fail validation without asking for a signature', async () => {
+    mockClient.getStakeBalance.mockResolvedValue(10n);
+
+    const { result } = renderHook(
+      () => usePlacePrediction(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(
+        result.current.placePrediction(input)
+      ).rejects.toBeInstanceOf(PredictionValidationError);
+    });
+
+    expect(mockClient.placePrediction).not.toHaveBeenCalled();
+    expect(result.current.stage).toBe('failed');
+    expect((result.current.error as PredictionValidationError).code).toBe(
+      'INSUFFICIENT_BALANCE'
+    );
+  });
+
+  it('should decode the revert reason of a failed transaction', async () => {
+    mockClient.placePrediction.mockRejectedValue({
+      shortMessage: 'The contract function reverted.',
+      cause: { reason: 'Market closed' },
+    });
+
+    const { result } = renderHook(
+      () => usePlacePrediction(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.placePrediction(input)).rejects.toThrow(
+        'Market closed'
+      );
+    });
+
+    expect(result.current.stage).toBe('failed');
+    expect(result.current.error?.message).toBe('Market closed');
+  });
+
+  it('should fail when the transaction reverts on-chain', async () => {
+    mockClient.waitForTransaction.mockResolvedValue({ status: 'reverted' });
+
+    const { result } = renderHook(
+      () => usePlacePrediction(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.placePrediction(input)).rejects.toThrow(
+        'Transaction reverted'
+      );
+    });
+
+    expect(result.current.stage).toBe('failed');
+    expect(result.current.txHash).toBe('0xhash');
+  });
+
+  it('should return to idle on reset', async () => {
+    mockClient.getStakeBalance.mockResolvedValue(0n);
+
+    const { result } = renderHook(
+      () => usePlacePrediction(mockClient as any, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await result.current.placePrediction(input).catch(() => {});
+    });
+    act(() => result.current.reset());
+
+    expect(result.current.stage).toBe('idle');
+    expect(result.current.error).toBeNull();
+  });
+});
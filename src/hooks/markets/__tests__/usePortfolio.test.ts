@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { usePortfolio } from '../usePortfolio';
+
+const mockIndexerClient = {
+  getWalletPredictions: vi.fn(),
+  getMarket: vi.fn(),
+};
+
+const mockContractsClient = {
+  chainId: 1,
+  getMarket: vi.fn(),
+  getOutcomePools: vi.fn(),
+};
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('usePortfolio', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockIndexerClient.getWalletPredictions.mockResolvedValue([
+      {
+        id: 'p1',
+        marketId: 'm1',
+        outcome: 'Home',
+        amount: '100',
+        hasClaimed: false,
+        claimedAmount: null,
+      },
+      {
+        id: 'p2',
+        marketId: 'm2',
+        outcome: 'Away',
+        amount: '50',
+        hasClaimed: false,
+        claimedAmount: null,
+      },
+    ]);
+    mockIndexerClient.getMarket.mockImplementation(async (id: string) =>
+      id === 'm1'
+        ? {
+            id,
+            marketId: '7',
+            chainId: 1,
+            title: 'Resolved',
+            status: 'Resolved',
+            outcome: 'Home',
+          }
+        : {
+            id,
+            marketId: '8',
+            chainId: 1,
+            title: 'Open',
+            status: 'Active',
+            outcome: null,
+          }
+    );
+    mockContractsClient.getMarket.mockResolvedValue({
+      status: 'Active',
+      deadline: 1_900_000_000n,
+      dealerFeeBps: 0n,
+      resolution: null,
+      outcomes: ['Home', 'Away'],
+    });
+    mockContractsClient.getOutcomePools.mockResolvedValue([100n, 300n]);
+  });
+
+  it('should list positions with open markets first', async () => {
+    const { result } = renderHook(
+      () => usePortfolio(mockIndexerClient as any, '0xabc'),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.positions).toHaveLength(2));
+
+    expect(mockIndexerClient.getWalletPredictions).toHaveBeenCalledWith(
+      '0xabc'
+    );
+    expect(result.current.positions.map(position => position.id)).toEqual([
+      'p2',
+      'p1',
+    ]);
+    expect(result.current.positions[1].won).toBe(true);
+    expect(result.current.positions[1].claimable).toBeNull();
+    expect(result.current.totals.totalStaked).toBe(150n);
+  });
+
+  it('should value positions with pools from the contracts client', async () => {
+    const { result } = renderHook(
+      () =>
+        usePortfolio(mockIndexerClient as any, '0xabc', {
+          contractsClient: mockContractsClient as any,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() =>
+      expect(result.current.totals.claimable).toBeGreaterThan(0n)
+    );
+
+    expect(mockContractsClient.getMarket).toHaveBeenCalledWith(7n);
+    expect(result.current.positions[0].potentialPayout).toBe(
+      (50n * 400n) / 300n
+    );
+    expect(result.current.totals.claimable).toBe(400n);
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('should match pools to markets whose indexer id is not in decimal', async () => {
+    mockIndexerClient.getMarket.mockImplementation(async (id: string) => ({
+      id,
+      marketId: '0x08',
+      chainId: 1,
+      title: 'Open',
+      status: 'Active',
+      outcome: null,
+    }));
+
+    const { result } = renderHook(
+      () =>
+        usePortfolio(mockIndexerClient as any, '0xabc', {
+          contractsClient: mockContractsClient as any,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() =>
+      expect(
+        result.current.positions.map(position => position.potentialPayout)
+      ).toEqual([400n, (50n * 400n) / 300n])
+    );
+
+    expect(mockContractsClient.getMarket).toHaveBeenCalledWith(8n);
+  });
+
+  it('should not fetch without a wallet', () => {
+    const { result } = renderHook(
+      () => usePortfolio(mockIndexerClient as any, undefined),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockIndexerClient.getWalletPredictions).not.toHaveBeenCalled();
+    expect(result.current.positions).toEqual([]);
+  });
+
+  it('should surface indexer errors', async () => {
+    const error = new Error('Indexer unavailable');
+    mockIndexerClient.getWalletPredictions.mockRejectedValueOnce(error);
+
+    const { result } = renderHook(
+      () => usePortfolio(mockIndexerClient as any, '0xabc'),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error).toBe(error);
+  });
+});
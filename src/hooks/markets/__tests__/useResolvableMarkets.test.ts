@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useResolvableMarkets } from '../useResolvableMarkets';
+
+const winnerSource = (eventKey: string) => ({
+  provider: 'api-sports',
+  sport: 'football',
+  eventId: Number(eventKey.split(':')[1]),
+  eventKey,
+  leagueId: 39,
+  marketType: 'matchWinner',
+  line: null,
+});
+
+const mockMarkets: Record<string, object> = {
+  '11': {
+    status: 'Active',
+    deadline: 1n,
+    outcomes: ['Home', 'Draw', 'Away'],
+    resolutionSource: winnerSource('football:1001'),
+  },
+  '12': {
+    status: 'Resolved',
+    deadline: 1n,
+    outcomes: ['Home', 'Away'],
+    resolutionSource: winnerSource('football:1001'),
+  },
+  // Created without resolution metadata
+  '13': {
+    status: 'Active',
+    deadline: 1n,
+    outcomes: ['Home', 'Away'],
+    resolutionSource: null,
+  },
+  '14': {
+    status: 'Active',
+    deadline: 1n,
+    outcomes: ['Home', 'Away'],
+    resolutionSource: winnerSource('football:1002'),
+  },
+};
+
+const mockMarketIdsByEvent: Record<string, bigint[]> = {
+  'football:1001': [11n, 12n, 13n],
+  'football:1002': [14n],
+};
+
+const mockClient = {
+  chainId: 1,
+  getMarketIdsByEvent: vi.fn(),
+  getMarket: vi.fn(),
+  getOutcomePools: vi.fn(),
+};
+
+const fixture = (id: number, short: string) => ({
+  fixture: { id, timestamp: 0, status: { short, long: short } },
+  league: { id: 39, name: 'Premier League', logo: null },
+  teams: {
+    home: { id: 1, name: 'Home', logo: null, winner: true },
+    away: { id: 2, name: 'Away', logo: null, winner: false },
+  },
+  goals: { home: 2, away: 0 },
+  score: { fulltime: { home: 2, away: 0 } },
+});
+
+const mockMatches = [fixture(1001, 'FT'), fixture(1002, '2H')] as any[];
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useResolvableMarkets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockClient.getMarketIdsByEvent.mockImplementation(
+      async (eventKey: string) => mockMarketIdsByEvent[eventKey]
+    );
+    mockClient.getMarket.mockImplementation(
+      async (marketId: bigint) => mockMarkets[marketId.toString()]
+    );
+    mockClient.getOutcomePools.mockResolvedValue([10n, 10n, 10n]);
+  });
+
+  it('should list active markets of finished events with a proposal', async () => {
+    const { result } = renderHook(
+      () => useResolvableMarkets(mockClient as any, 'football', mockMatches),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.markets).toHaveLength(1));
+
+    const [resolvable] = result.current.markets;
+    expect(resolvable.market.id).toBe(11n);
+    expect(resolvable.eventKey).toBe('football:1001');
+    expect(resolvable.item).toBe(mockMatches[0]);
+    expect(resolvable.proposal).toEqual({
+      action: 'resolve',
+      outcome: 0,
+      outcomeLabel: 'Home',
+      reason: 'Home won 2-0',
+    });
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * Prediction market hooks built on heavymath_contracts
+ */
+
+export * from './marketQueries';
+export * from './useMarket';
+export * from './useMarkets';
+export * from './usePlacePrediction';
+export * from './useMatchMarkets';
+export * from './usePortfolio';
+export * from './useClaimableRewards';
+export * from './useClaimRewards';
+export * from './useCreateMarket';
+export * from './useResolvableMarkets';
+export * from './useModelOdds';
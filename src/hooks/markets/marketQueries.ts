@@ -0,0 +1,59 @@
+/**
+ * Query keys and fetchers shared by the market hooks
+ */
+
+import type {
+  Market,
+  MarketChainId,
+  MarketContractData,
+  MarketsContractClient,
+} from '../../types';
+
+/**
+ * Query keys of the market hooks; ids are strings since keys are hashed as JSON
+ */
+export const marketKeys = {
+  all: ['heavymath', 'markets'] as const,
+  chain: (chainId: MarketChainId) => [...marketKeys.all, chainId] as const,
+  detail: (chainId: MarketChainId, marketId: bigint) =>
+    [...marketKeys.chain(chainId), marketId.toString()] as const,
+  byEvent: (chainId: MarketChainId, eventKey: string) =>
+    [...marketKeys.chain(chainId), 'event', eventKey] as const,
+  /** Indexed market, keyed by its indexer id across chains */
+  indexed: (id: string) => [...marketKeys.all, 'indexed', id] as const,
+  /** Positions of a wallet across chains, keyed by the lowercased address */
+  positions: (walletAddress: string) =>
+    [...marketKeys.all, 'positions', walletAddress.toLowerCase()] as const,
+};
+
+/**
+ * Read a market and its outcome pools from the contracts client
+ *
+ * @param client - Contracts client to read from
+ * @param marketId - On-chain market id
+ * @returns The market with one pool per outcome
+ */
+export async function fetchMarket(
+  client: MarketsContractClient,
+  marketId: bigint
+): Promise<Market> {
+  const [data, pools]: [MarketContractData, readonly bigint[]] =
+    await Promise.all([
+      client.getMarket(marketId),
+      client.getOutcomePools(marketId),
+    ]);
+
+  const outcomes = data.outcomes.map((label, index) => ({
+    index,
+    label,
+    pool: pools[index] ?? 0n,
+  }));
+
+  return {
+    ...data,
+    id: marketId,
+    chainId: client.chainId,
+    outcomes,
+    totalPool: outcomes.reduce((total, outcome) => total + outcome.pool, 0n),
+  };
+}
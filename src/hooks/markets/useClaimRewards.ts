@@ -0,0 +1,176 @@
+/**
+ * Hooks to claim winnings and refunds through heavymath_contracts
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ClaimKind, ClaimResult, ClaimsContractClient } from '../../types';
+import { ContractTransactionError, isUserRejection } from '../../utils';
+import { marketKeys } from './marketQueries';
+
+/**
+ * Return type for useClaimRewards and useClaimRefund hooks
+ */
+export interface UseClaimResult {
+  /** Claim the given on-chain markets, resolves with one result per market */
+  claim: (marketIds: readonly bigint[]) => Promise<ClaimResult[]>;
+  /** Results of the last claim */
+  results: ClaimResult[] | undefined;
+  /** Error that prevented claiming at all, e.g. no connected wallet */
+  error: Error | null;
+  isPending: boolean;
+  reset: () => void;
+}
+
+// Sign and mine one claim transaction
+async function submitClaim(
+  contractsClient: ClaimsContractClient,
+  sign: () => Promise<string>
+): Promise<string> {
+  try {
+    const hash = await sign();
+    const receipt = await contractsClient.waitForTransaction(hash);
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted');
+    }
+    return hash;
+  } catch (err) {
+    throw new ContractTransactionError(err);
+  }
+}
+
+/**
+ * Claim markets in one batch transaction when the contract allows it,
+ * otherwise one transaction per market
+ */
+async function claimMarkets(
+  contractsClient: ClaimsContractClient,
+  kind: ClaimKind,
+  marketIds: readonly bigint[]
+): Promise<ClaimResult[]> {
+  const claimOne =
+    kind === 'winnings'
+      ? contractsClient.claimWinnings.bind(contractsClient)
+      : contractsClient.claimRefund.bind(contractsClient);
+  const claimBatch =
+    kind === 'winnings'
+      ? contractsClient.claimWinningsBatch?.bind(contractsClient)
+      : contractsClient.claimRefundBatch?.bind(contractsClient);
+
+  if (claimBatch && marketIds.length > 1) {
+    try {
+      const txHash = await submitClaim(contractsClient, () =>
+        claimBatch(marketIds)
+      );
+      return marketIds.map(marketId => ({
+        marketId,
+        status: 'claimed',
+        txHash,
+        error: null,
+      }));
+    } catch (err) {
+      return marketIds.map(marketId => ({
+        marketId,
+        status: 'failed',
+        txHash: null,
+        error: err as Error,
+      }));
+    }
+  }
+
+  const results: ClaimResult[] = [];
+  let rejected = false;
+  for (const marketId of marketIds) {
+    // Don't keep prompting once the user declined
+    if (rejected) {
+      results.push({ marketId, status: 'skipped', txHash: null, error: null });
+      continue;
+    }
+    try {
+      const txHash = await submitClaim(contractsClient, () =>
+        claimOne(marketId)
+      );
+      results.push({ marketId, status: 'claimed', txHash, error: null });
+    } catch (err) {
+      const error = err as ContractTransactionError;
+      rejected = isUserRejection(error.originalError);
+      results.push({ marketId, status: 'failed', txHash: null, error });
+    }
+  }
+  return results;
+}
+
+function useClaim(
+  kind: ClaimKind,
+  contractsClient: ClaimsContractClient,
+  walletAddress: string | undefined
+): UseClaimResult {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ClaimResult[], Error, readonly bigint[]>({
+    mutationFn: async marketIds => {
+      if (!walletAddress) {
+        throw new Error('Connect a wallet to claim');
+      }
+      const unique = new Map(marketIds.map(id => [id.toString(), id]));
+      return claimMarkets(contractsClient, kind, [...unique.values()]);
+    },
+    onSuccess: results => {
+      if (!walletAddress) return;
+      if (results.some(result => result.status === 'claimed')) {
+        queryClient.invalidateQueries({
+          queryKey: marketKeys.positions(walletAddress),
+        });
+      }
+    },
+  });
+
+  return {
+    claim: mutation.mutateAsync,
+    results: mutation.data,
+    error: mutation.error,
+    isPending: mutation.isPending,
+    reset: mutation.reset,
+  };
+}
+
+/**
+ * Hook to claim winnings of resolved markets
+ *
+ * Markets are claimed in a single transaction when the contract exposes a
+ * batch claim, otherwise one by one; if the wallet declines one of them the
+ * rest are skipped. Failures are reported per market rather than thrown.
+ * The wallet's portfolio is invalidated once anything was claimed.
+ *
+ * @param contractsClient - heavymath_contracts client with a connected wallet
+ * @param walletAddress - Address of the connected wallet
+ * @returns Claim function and per-market results
+ *
+ * @example
+ * ```typescript
+ * const { claim, results } = useClaimRewards(contractsClient, walletAddress);
+ * const outcome = await claim(winnings.map(p => p.onchainMarketId));
+ * const failed = outcome.filter(result => result.status === 'failed');
+ * ```
+ */
+export function useClaimRewards(
+  contractsClient: ClaimsContractClient,
+  walletAddress: string | undefined
+): UseClaimResult {
+  return useClaim('winnings', contractsClient, walletAddress);
+}
+
+/**
+ * Hook to claim back stakes of cancelled or abandoned markets
+ *
+ * Behaves like useClaimRewards.
+ *
+ * @param contractsClient - heavymath_contracts client with a connected wallet
+ * @param walletAddress - Address of the connected wallet
+ * @returns Claim function and per-market results
+ */
+export function useClaimRefund(
+  contractsClient: ClaimsContractClient,
+  walletAddress: string | undefined
+): UseClaimResult {
+  return useClaim('refund', contractsClient, walletAddress);
+}
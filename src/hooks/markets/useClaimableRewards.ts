@@ -0,0 +1,99 @@
+/**
+ * Hook listing the winnings and refunds a wallet can claim
+ */
+
+import { useMemo } from 'react';
+import type { ClaimablePosition, PortfolioIndexerClient } from '../../types';
+import { getClaimKind } from '../../utils';
+import { usePortfolio, type UsePortfolioOptions } from './usePortfolio';
+
+/**
+ * Options for useClaimableRewards hook
+ */
+export type UseClaimableRewardsOptions = UsePortfolioOptions;
+
+/**
+ * Return type for useClaimableRewards hook
+ */
+export interface UseClaimableRewardsResult {
+  /**
+   * Every position with something to claim, across markets; only those on
+   * the contracts client's chain when one is given
+   */
+  claimable: ClaimablePosition[];
+  /** Unclaimed winning positions of resolved markets */
+  winnings: ClaimablePosition[];
+  /** Unclaimed stakes of cancelled or abandoned markets */
+  refunds: ClaimablePosition[];
+  /** Sum of the known claimable amounts */
+  totalClaimable: bigint;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook to list claimable winnings and refunds of a wallet
+ *
+ * Built on usePortfolio, so it shares its queries and is refreshed by the
+ * claim hooks. With a contracts client, only claims on its chain are listed,
+ * so they can be passed to the claim hooks of the same client; without one,
+ * every chain is listed but winnings amounts are unknown.
+ *
+ * @param indexerClient - IndexerClient instance, as taken by the favorites hooks
+ * @param walletAddress - Wallet to list claims for
+ * @param options - Contracts client and query options
+ * @returns Claimable positions split by kind, and their total
+ *
+ * @example
+ * ```typescript
+ * function ClaimBanner() {
+ *   const { winnings, totalClaimable } = useClaimableRewards(
+ *     indexerClient,
+ *     walletAddress,
+ *     { contractsClient }
+ *   );
+ *   const { claim } = useClaimRewards(contractsClient, walletAddress);
+ *
+ *   if (winnings.length === 0) return null;
+ *   return (
+ *     <Button
+ *       title={`Claim ${formatUnits(totalClaimable, 18)}`}
+ *       onPress={() => claim(winnings.map(p => p.onchainMarketId))}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function useClaimableRewards(
+  indexerClient: PortfolioIndexerClient,
+  walletAddress: string | undefined,
+  options: UseClaimableRewardsOptions = {}
+): UseClaimableRewardsResult {
+  const { positions, isLoading, isError, error } = usePortfolio(
+    indexerClient,
+    walletAddress,
+    options
+  );
+  const chainId = options.contractsClient?.chainId;
+
+  const claims = useMemo(() => {
+    const claimable = positions.flatMap(position => {
+      const claimKind = getClaimKind(position);
+      const onChain = chainId === undefined || position.chainId === chainId;
+      return claimKind && onChain ? [{ ...position, claimKind }] : [];
+    });
+
+    return {
+      claimable,
+      winnings: claimable.filter(p => p.claimKind === 'winnings'),
+      refunds: claimable.filter(p => p.claimKind === 'refund'),
+      totalClaimable: claimable.reduce(
+        (total, position) => total + (position.claimable ?? 0n),
+        0n
+      ),
+    };
+  }, [positions, chainId]);
+
+  return { ...claims, isLoading, isError, error };
+}
@@ -0,0 +1,97 @@
+/**
+ * Hook to create a market through heavymath_contracts
+ */
+
+import { useQueryClient } from '@tanstack/react-query';
+import type {
+  CreateMarketParams,
+  MarketCreationContractClient,
+} from '../../types';
+import { validateMarketParams } from '../../utils';
+import {
+  type ContractTxStage,
+  useContractTransaction,
+  type UseContractTransactionResult,
+} from '../useContractTransaction';
+import { marketKeys } from './marketQueries';
+
+/**
+ * Lifecycle of a market creation transaction, see ContractTxStage
+ */
+export type CreateMarketTxStage = ContractTxStage;
+
+/**
+ * Return type for useCreateMarket hook
+ */
+export interface UseCreateMarketResult extends Omit<
+  UseContractTransactionResult<CreateMarketParams>,
+  'submit' | 'error'
+> {
+  /** Validate and submit a market, resolves with the tx hash once mined */
+  createMarket: (params: CreateMarketParams) => Promise<string>;
+  /** MarketValidationError, or ContractTransactionError with the revert reason */
+  error: Error | null;
+}
+
+/**
+ * Hook to create a market from parameters built with buildMarketParams
+ *
+ * Parameters are validated again on submit, since the close time may have
+ * passed while the creator was filling in the form. Once mined, the event's
+ * market lookup is invalidated so useMatchMarkets picks the market up.
+ *
+ * @param contractsClient - heavymath_contracts client with a connected wallet
+ * @param walletAddress - Address of the connected dealer wallet
+ * @returns Mutation function and its lifecycle state
+ *
+ * @example
+ * ```typescript
+ * function CreateWinnerMarket({ fixture }: { fixture: FootballFixtureResponse }) {
+ *   const { createMarket, stage, error } = useCreateMarket(
+ *     contractsClient,
+ *     walletAddress
+ *   );
+ *
+ *   const submit = () =>
+ *     createMarket(
+ *       buildMarketParams('football', fixture, {
+ *         type: 'matchWinner',
+ *         tokenId,
+ *         dealerFeeBps: 200n,
+ *         closeBeforeStart: 5 * 60_000,
+ *       })
+ *     );
+ *
+ *   return <Button loading={stage === 'submitted'} onPress={submit} />;
+ * }
+ * ```
+ */
+export function useCreateMarket(
+  contractsClient: MarketCreationContractClient,
+  walletAddress: string | undefined
+): UseCreateMarketResult {
+  const queryClient = useQueryClient();
+
+  const { submit, ...transaction } = useContractTransaction<CreateMarketParams>(
+    walletAddress,
+    {
+      walletRequiredMessage: 'Connect a wallet to create a market',
+      validate: params => {
+        const validationError = validateMarketParams(params);
+        if (validationError) throw validationError;
+      },
+      submit: params => contractsClient.createMarket(params),
+      waitForTransaction: hash => contractsClient.waitForTransaction(hash),
+      onConfirmed: params => {
+        queryClient.invalidateQueries({
+          queryKey: marketKeys.byEvent(
+            contractsClient.chainId,
+            params.resolutionSource.eventKey
+          ),
+        });
+      },
+    }
+  );
+
+  return { createMarket: submit, ...transaction };
+}
@@ -0,0 +1,70 @@
+/**
+ * Hook for a single prediction market read from heavymath_contracts
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { Market, MarketsContractClient } from '../../types';
+import { fetchMarket, marketKeys } from './marketQueries';
+
+/**
+ * Options for useMarket hook
+ */
+export interface UseMarketOptions {
+  enabled?: boolean;
+  /** Refetch interval in milliseconds, e.g. to follow pools while open */
+  refetchInterval?: number | false;
+}
+
+/**
+ * Return type for useMarket hook
+ */
+export interface UseMarketResult {
+  market: Market | undefined;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  refetch: () => Promise<unknown>;
+}
+
+/**
+ * Hook to fetch a prediction market with its outcome pools
+ *
+ * @param contractsClient - heavymath_contracts client for the market's chain
+ * @param marketId - On-chain market id, the query is disabled while undefined
+ * @param options - Query options
+ * @returns The market, or undefined while loading
+ *
+ * @example
+ * ```typescript
+ * function MarketCard({ marketId }: { marketId: bigint }) {
+ *   const { market, isLoading } = useMarket(contractsClient, marketId);
+ *
+ *   if (!market) return <Spinner />;
+ *   return market.outcomes.map(outcome => (
+ *     <OutcomeRow key={outcome.index} outcome={outcome} />
+ *   ));
+ * }
+ * ```
+ */
+export function useMarket(
+  contractsClient: MarketsContractClient,
+  marketId: bigint | undefined,
+  options: UseMarketOptions = {}
+): UseMarketResult {
+  const { enabled = true, refetchInterval } = options;
+
+  const query = useQuery({
+    queryKey: marketKeys.detail(contractsClient.chainId, marketId ?? -1n),
+    queryFn: () => fetchMarket(contractsClient, marketId as bigint),
+    enabled: enabled && marketId !== undefined,
+    refetchInterval,
+  });
+
+  return {
+    market: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
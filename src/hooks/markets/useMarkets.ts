@@ -0,0 +1,84 @@
+/**
+ * Hook for several prediction markets read from heavymath_contracts
+ */
+
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import type { Market, MarketsContractClient } from '../../types';
+import { fetchMarket, marketKeys } from './marketQueries';
+
+/**
+ * Options for useMarkets hook
+ */
+export interface UseMarketsOptions {
+  enabled?: boolean;
+  /** Refetch interval in milliseconds, e.g. to follow pools while open */
+  refetchInterval?: number | false;
+}
+
+/**
+ * Return type for useMarkets hook
+ */
+export interface UseMarketsResult {
+  /** Markets loaded so far, in the order of the requested ids */
+  markets: Market[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Combine the per-market queries; module level so react-query can memoize it
+ */
+function combineMarketQueries(
+  queries: UseQueryResult<Market, Error>[]
+): UseMarketsResult {
+  const failedQuery = queries.find(query => query.isError);
+
+  return {
+    markets: queries
+      .map(query => query.data)
+      .filter((market): market is Market => market !== undefined),
+    isLoading: queries.some(query => query.isLoading),
+    isError: failedQuery !== undefined,
+    error: failedQuery?.error ?? null,
+  };
+}
+
+/**
+ * Hook to fetch several prediction markets with their outcome pools
+ *
+ * Each market is cached under the same key as useMarket, so lists and
+ * detail screens share data.
+ *
+ * @param contractsClient - heavymath_contracts client for the markets' chain
+ * @param marketIds - On-chain market ids
+ * @param options - Query options
+ * @returns The loaded markets
+ *
+ * @example
+ * ```typescript
+ * function MarketList({ ids }: { ids: bigint[] }) {
+ *   const { markets } = useMarkets(contractsClient, ids);
+ *   return markets.map(market => (
+ *     <MarketCard key={market.id.toString()} market={market} />
+ *   ));
+ * }
+ * ```
+ */
+export function useMarkets(
+  contractsClient: MarketsContractClient,
+  marketIds: readonly bigint[],
+  options: UseMarketsOptions = {}
+): UseMarketsResult {
+  const { enabled = true, refetchInterval } = options;
+
+  return useQueries({
+    queries: marketIds.map(marketId => ({
+      queryKey: marketKeys.detail(contractsClient.chainId, marketId),
+      queryFn: () => fetchMarket(contractsClient, marketId),
+      enabled,
+      refetchInterval,
+    })),
+    combine: combineMarketQueries,
+  });
+}
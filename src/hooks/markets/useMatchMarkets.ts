@@ -0,0 +1,171 @@
+/**
+ * Hook linking sports fixtures and games to their prediction markets
+ */
+
+import { useMemo } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import type { Market, Sport, SportMarketsContractClient } from '../../types';
+import {
+  isMarketOpen,
+  type SportEventSourceMap,
+  toSportEvent,
+} from '../../utils';
+import { marketKeys } from './marketQueries';
+import { useMarkets } from './useMarkets';
+
+/**
+ * Markets of a fixture, game or fight
+ */
+export interface MatchMarketInfo {
+  /** Key the markets are registered under, e.g. 'football:1001' */
+  eventKey: string;
+  marketIds: bigint[];
+  /** Markets loaded so far, in the order of marketIds */
+  markets: Market[];
+  /** Sum of the pools of every loaded market */
+  totalPool: bigint;
+  /** Whether any market still accepts predictions */
+  isOpen: boolean;
+}
+
+/**
+ * Entity enriched with its markets
+ */
+export type WithMatchMarkets<T> = T & MatchMarketInfo;
+
+/**
+ * Options for useMatchMarkets hook
+ */
+export interface UseMatchMarketsOptions {
+  enabled?: boolean;
+  /** Refetch interval of the markets in milliseconds */
+  refetchInterval?: number | false;
+}
+
+/**
+ * Return type for useMatchMarkets hook
+ */
+export interface UseMatchMarketsResult<T> {
+  items: WithMatchMarkets<T>[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Combine the per-event id lookups; module level so react-query can memoize it
+ */
+function combineMarketIdQueries(
+  queries: UseQueryResult<readonly bigint[], Error>[]
+) {
+  const failedQuery = queries.find(query => query.isError);
+
+  return {
+    marketIds: queries.map(query => query.data ?? []),
+    isLoading: queries.some(query => query.isLoading),
+    error: failedQuery?.error ?? null,
+  };
+}
+
+/**
+ * Hook to enrich fixtures, games or fights with their prediction markets
+ *
+ * Accepts the items of any sport hook, e.g. `matches` from
+ * useFootballMatches, and keeps their own fields such as `favorited`.
+ *
+ * @param contractsClient - heavymath_contracts client for the markets' chain
+ * @param sport - Sport the items come from
+ * @param items - Fixtures, games or fights from the sports hooks
+ * @param options - Query options
+ * @returns Items with market ids, pool sizes and open state
+ *
+ * @example
+ * ```typescript
+ * function MatchList() {
+ *   const { matches } = useFootballMatches(indexerClient, walletAddress);
+ *   const { items } = useMatchMarkets(contractsClient, 'football', matches);
+ *
+ *   return items.map(match => (
+ *     <MatchCard
+ *       key={match.eventKey}
+ *       match={match}
+ *       showPredict={match.isOpen}
+ *     />
+ *   ));
+ * }
+ * ```
+ */
+export function useMatchMarkets<
+  S extends Sport,
+  T extends SportEventSourceMap[S],
+>(
+  contractsClient: SportMarketsContractClient,
+  sport: S,
+  items: readonly T[],
+  options: UseMatchMarketsOptions = {}
+): UseMatchMarketsResult<T> {
+  const { enabled = true, refetchInterval } = options;
+  const { chainId } = contractsClient;
+
+  const eventKeys = useMemo(
+    () => items.map(item => toSportEvent(sport, item).key),
+    [sport, items]
+  );
+
+  // Look up the markets registered for each event
+  const lookup = useQueries({
+    queries: eventKeys.map(eventKey => ({
+      queryKey: marketKeys.byEvent(chainId, eventKey),
+      queryFn: () => contractsClient.getMarketIdsByEvent(eventKey),
+      enabled,
+    })),
+    combine: combineMarketIdQueries,
+  });
+
+  const allMarketIds = useMemo(() => {
+    const unique = new Map<string, bigint>();
+    lookup.marketIds.flat().forEach(id => unique.set(id.toString(), id));
+    return [...unique.values()];
+  }, [lookup.marketIds]);
+
+  // Read every market once, shared with useMarket/useMarkets
+  const marketsQuery = useMarkets(contractsClient, allMarketIds, {
+    enabled,
+    refetchInterval,
+  });
+
+  const enriched = useMemo(() => {
+    const marketsById = new Map(
+      marketsQuery.markets.map(market => [market.id.toString(), market])
+    );
+    const now = Date.now();
+
+    return items.map((item, index) => {
+      const marketIds = [...lookup.marketIds[index]];
+      const markets = marketIds
+        .map(id => marketsById.get(id.toString()))
+        .filter((market): market is Market => market !== undefined);
+
+      return {
+        ...item,
+        eventKey: eventKeys[index],
+        marketIds,
+        markets,
+        totalPool: markets.reduce(
+          (total, market) => total + market.totalPool,
+          0n
+        ),
+        isOpen: markets.some(market => isMarketOpen(market, now)),
+      };
+    });
+  }, [items, eventKeys, lookup.marketIds, marketsQuery.markets]);
+
+  const error = lookup.error ?? marketsQuery.error;
+
+  return {
+    items: enriched,
+    isLoading: lookup.isLoading || marketsQuery.isLoading,
+    isError: error !== null,
+    error,
+  };
+}
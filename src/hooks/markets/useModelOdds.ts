@@ -0,0 +1,179 @@
+/**
+ * Hook comparing outcome model estimates with a market's on-chain odds
+ */
+
+import { useMemo } from 'react';
+import {
+  isTeamSport,
+  type Market,
+  type MarketsContractClient,
+  type OutcomeModel,
+  type OutcomePrediction,
+  type OutcomeValue,
+  type SportEvent,
+} from '../../types';
+import {
+  compareWithMarketOdds,
+  fitOutcomeModel,
+  type OutcomeModelOptions,
+} from '../../utils';
+import { useMarket } from './useMarket';
+
+/**
+ * Expected return from which an outcome is flagged as mispriced, unless
+ * overridden
+ */
+export const DEFAULT_MISPRICING_EDGE = 0.05;
+
+/**
+ * Options for useModelOdds hook
+ */
+export interface UseModelOddsOptions extends OutcomeModelOptions {
+  /** Defaults to DEFAULT_MISPRICING_EDGE */
+  minEdge?: number;
+  enabled?: boolean;
+  /** Refetch interval of the market in milliseconds */
+  refetchInterval?: number | false;
+}
+
+/**
+ * Return type for useModelOdds hook
+ */
+export interface UseModelOddsResult {
+  /** `null` for sports not played between two teams */
+  model: OutcomeModel | null;
+  prediction: OutcomePrediction | null;
+  market: Market | undefined;
+  /** Every outcome of a winner market of the event; empty for other markets */
+  outcomes: OutcomeValue[];
+  /** Outcomes whose edge reaches minEdge, best first */
+  mispriced: OutcomeValue[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook to compare the model odds of a game with its market's odds
+ *
+ * The sport's outcome model is fitted to `history` and refitted only when
+ * the history or the model options change. Only markets stored as winner
+ * markets, with outcomes named after the event's participants as
+ * buildMarketParams creates them, are compared.
+ *
+ * @param contractsClient - heavymath_contracts client for the market's chain
+ * @param marketId - On-chain market id, the market query is disabled while undefined
+ * @param event - Upcoming game the market is on
+ * @param history - Finished games of the sport to fit the model on, memoized
+ * @param options - Model options, mispricing threshold and query options
+ * @returns Model estimate, per-outcome value and mispriced outcomes
+ *
+ * @example
+ * ```typescript
+ * function ValueBadge({ fixture, marketId, pastFixtures }: Props) {
+ *   const event = useMemo(() => footballMatchToEvent(fixture), [fixture]);
+ *   const history = useMemo(
+ *     () => pastFixtures.map(footballMatchToEvent),
+ *     [pastFixtures]
+ *   );
+ *   const { mispriced } = useModelOdds(
+ *     contractsClient,
+ *     marketId,
+ *     event,
+ *     history
+ *   );
+ *
+ *   return mispriced.map(outcome => (
+ *     <Badge key={outcome.index} label={outcome.label} edge={outcome.edge} />
+ *   ));
+ * }
+ * ```
+ */
+export function useModelOdds(
+  contractsClient: MarketsContractClient,
+  marketId: bigint | undefined,
+  event: SportEvent | undefined,
+  history: readonly SportEvent[],
+  options: UseModelOddsOptions = {}
+): UseModelOddsResult {
+  const {
+    minEdge = DEFAULT_MISPRICING_EDGE,
+    enabled = true,
+    refetchInterval,
+    kind,
+    priorGoals,
+    iterations,
+    maxGoals,
+    kFactor,
+    homeAdvantage,
+    initialRating,
+  } = options;
+
+  const marketQuery = useMarket(contractsClient, marketId, {
+    enabled,
+    refetchInterval,
+  });
+
+  const sport = event?.sport;
+  const model = useMemo(() => {
+    if (!sport || !isTeamSport(sport)) return null;
+    return fitOutcomeModel(sport, history, {
+      kind,
+      priorGoals,
+      iterations,
+      maxGoals,
+      kFactor,
+      homeAdvantage,
+      initialRating,
+    });
+  }, [
+    sport,
+    history,
+    kind,
+    priorGoals,
+    iterations,
+    maxGoals,
+    kFactor,
+    homeAdvantage,
+    initialRating,
+  ]);
+
+  const homeTeamId = event?.participants[0].id;
+  const awayTeamId = event?.participants[1].id;
+  const prediction = useMemo(
+    () =>
+      model && homeTeamId !== undefined && awayTeamId !== undefined
+        ? model.predict(homeTeamId, awayTeamId)
+        : null,
+    [model, homeTeamId, awayTeamId]
+  );
+
+  const market = marketQuery.market;
+  const outcomes = useMemo(
+    () =>
+      (prediction &&
+        market &&
+        event &&
+        compareWithMarketOdds(prediction, market, event)) ??
+      [],
+    [prediction, market, event]
+  );
+  const mispriced = useMemo(
+    () =>
+      outcomes
+        .filter(outcome => outcome.edge !== null && outcome.edge >= minEdge)
+        .sort((a, b) => (b.edge ?? 0) - (a.edge ?? 0)),
+    [outcomes, minEdge]
+  );
+
+  return {
+    model,
+    prediction,
+    market,
+    outcomes,
+    mispriced,
+    isLoading: marketQuery.isLoading,
+    isError: marketQuery.isError,
+    error: marketQuery.error,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Hook to place a prediction through heavymath_contracts
+ */
+
+import { useQueryClient } from '@tanstack/react-query';
+import type { PredictionsContractClient } from '../../types';
+import { type PredictionInput, validatePrediction } from '../../utils';
+import {
+  type ContractTxStage,
+  useContractTransaction,
+  type UseContractTransactionResult,
+} from '../useContractTransaction';
+import { fetchMarket, marketKeys } from './marketQueries';
+
+/**
+ * Lifecycle of a prediction transaction, see ContractTxStage
+ */
+export type PredictionTxStage = ContractTxStage;
+
+/**
+ * Return type for usePlacePrediction hook
+ */
+export interface UsePlacePredictionResult extends Omit<
+  UseContractTransactionResult<PredictionInput>,
+  'submit' | 'error'
+> {
+  /** Validate and submit a prediction, resolves with the tx hash once mined */
+  placePrediction: (input: PredictionInput) => Promise<string>;
+  /** Validation error, or ContractTransactionError with the revert reason */
+  error: Error | null;
+}
+
+/**
+ * Hook to place a prediction with validation and transaction lifecycle states
+ *
+ * Before submitting, the market is re-read and the stake is checked against
+ * the outcome list, the market deadline and the wallet's stake token balance.
+ * Once mined, the market and the wallet's positions are invalidated.
+ *
+ * @param contractsClient - heavymath_contracts client with a connected wallet
+ * @param walletAddress - Address of the connected wallet
+ * @returns Mutation function and its lifecycle state
+ *
+ * @example
+ * ```typescript
+ * function StakeButton({ marketId }: { marketId: bigint }) {
+ *   const { placePrediction, stage, error } = usePlacePrediction(
+ *     contractsClient,
+ *     walletAddress
+ *   );
+ *
+ *   return (
+ *     <Button
+ *       loading={stage === 'awaitingSignature' || stage === 'submitted'}
+ *       onPress={() => placePrediction({ marketId, outcome: 0, amount })}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function usePlacePrediction(
+  contractsClient: PredictionsContractClient,
+  walletAddress: string | undefined
+): UsePlacePredictionResult {
+  const queryClient = useQueryClient();
+
+  const { submit, ...transaction } = useContractTransaction<PredictionInput>(
+    walletAddress,
+    {
+      walletRequiredMessage: 'Connect a wallet to place a prediction',
+      validate: async (input, wallet) => {
+        const [market, balance] = await Promise.all([
+          queryClient.fetchQuery({
+            queryKey: marketKeys.detail(
+              contractsClient.chainId,
+              input.marketId
+            ),
+            queryFn: () => fetchMarket(contractsClient, input.marketId),
+            staleTime: 0,
+          }),
+          contractsClient.getStakeBalance(wallet),
+        ]);
+        const validationError = validatePrediction(market, input, balance);
+        if (validationError) throw validationError;
+      },
+      submit: input =>
+        contractsClient.placePrediction(
+          input.marketId,
+          input.outcome,
+          input.amount
+        ),
+      waitForTransaction: hash => contractsClient.waitForTransaction(hash),
+      onConfirmed: input => {
+        queryClient.invalidateQueries({
+          queryKey: marketKeys.detail(contractsClient.chainId, input.marketId),
+        });
+        if (walletAddress) {
+          queryClient.invalidateQueries({
+            queryKey: marketKeys.positions(walletAddress),
+          });
+        }
+      },
+    }
+  );
+
+  return { placePrediction: submit, ...transaction };
+}
@@ -0,0 +1,173 @@
+/**
+ * Hook for a wallet's market positions and P&L
+ * Combines indexer predictions with on-chain pools from heavymath_contracts
+ */
+
+import { useMemo } from 'react';
+import {
+  useQueries,
+  useQuery,
+  type UseQueryResult,
+} from '@tanstack/react-query';
+import type { MarketData } from '@sudobility/heavymath_types';
+import type {
+  Market,
+  MarketsContractClient,
+  PortfolioIndexerClient,
+  PortfolioPosition,
+  PortfolioTotals,
+} from '../../types';
+import { buildPortfolioPosition, summarizePortfolio } from '../../utils';
+import { fetchMarket, marketKeys } from './marketQueries';
+
+/**
+ * Options for usePortfolio hook
+ */
+export interface UsePortfolioOptions {
+  /**
+   * Contracts client used to read outcome pools. Without it, or for markets
+   * on another chain, pool-dependent amounts are `null`.
+   */
+  contractsClient?: MarketsContractClient;
+  enabled?: boolean;
+}
+
+/**
+ * Return type for usePortfolio hook
+ */
+export interface UsePortfolioResult {
+  /** Positions, open markets first */
+  positions: PortfolioPosition[];
+  totals: PortfolioTotals;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Combine per-market queries into a lookup; module level for memoization
+ */
+function combineByKey<T>(keyOf: (data: T) => string) {
+  return (queries: UseQueryResult<T, Error>[]) => {
+    const byKey = new Map<string, T>();
+    queries.forEach(query => {
+      if (query.data !== undefined) byKey.set(keyOf(query.data), query.data);
+    });
+    return {
+      byKey,
+      isLoading: queries.some(query => query.isLoading),
+      error: queries.find(query => query.isError)?.error ?? null,
+    };
+  };
+}
+
+const combineIndexedMarkets = combineByKey<MarketData>(market => market.id);
+const combineContractMarkets = combineByKey<Market>(market =>
+  market.id.toString()
+);
+
+/**
+ * Hook to fetch every market position of a wallet
+ *
+ * Positions come from the indexer; when a contracts client is given, open
+ * positions also get their potential payout, and resolved ones their exact
+ * winnings.
+ *
+ * @param indexerClient - IndexerClient instance, as taken by the favorites hooks
+ * @param walletAddress - Wallet to list positions for
+ * @param options - Contracts client and query options
+ * @returns Positions, totals and P&L
+ *
+ * @example
+ * ```typescript
+ * function Portfolio() {
+ *   const { positions, totals } = usePortfolio(indexerClient, walletAddress, {
+ *     contractsClient,
+ *   });
+ *
+ *   return (
+ *     <>
+ *       <Totals totals={totals} />
+ *       {positions.map(position => (
+ *         <PositionRow key={position.id} position={position} />
+ *       ))}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function usePortfolio(
+  indexerClient: PortfolioIndexerClient,
+  walletAddress: string | undefined,
+  options: UsePortfolioOptions = {}
+): UsePortfolioResult {
+  const { contractsClient, enabled = true } = options;
+
+  // Fetch the wallet's predictions
+  const predictionsQuery = useQuery({
+    queryKey: marketKeys.positions(walletAddress ?? ''),
+    queryFn: () => indexerClient.getWalletPredictions(walletAddress as string),
+    enabled: enabled && !!walletAddress,
+  });
+  const predictions = predictionsQuery.data;
+
+  const marketIds = useMemo(
+    () => [...new Set((predictions ?? []).map(p => p.marketId))],
+    [predictions]
+  );
+
+  // Fetch the indexed market of every prediction
+  const indexed = useQueries({
+    queries: marketIds.map(id => ({
+      queryKey: marketKeys.indexed(id),
+      queryFn: () => indexerClient.getMarket(id),
+      enabled,
+    })),
+    combine: combineIndexedMarkets,
+  });
+
+  // Read pools of the markets on the contracts client's chain
+  const onchainIds = useMemo(() => {
+    if (!contractsClient) return [];
+    return [...indexed.byKey.values()]
+      .filter(market => market.chainId === contractsClient.chainId)
+      .map(market => BigInt(market.marketId));
+  }, [contractsClient, indexed.byKey]);
+
+  const onchain = useQueries({
+    queries: onchainIds.map(marketId => ({
+      queryKey: marketKeys.detail(contractsClient?.chainId ?? 0, marketId),
+      queryFn: () =>
+        fetchMarket(contractsClient as MarketsContractClient, marketId),
+      enabled,
+    })),
+    combine: combineContractMarkets,
+  });
+
+  const positions = useMemo(() => {
+    return (predictions ?? [])
+      .flatMap(prediction => {
+        const marketData = indexed.byKey.get(prediction.marketId);
+        if (!marketData) return [];
+        const market =
+          marketData.chainId === contractsClient?.chainId
+            ? onchain.byKey.get(BigInt(marketData.marketId).toString())
+            : undefined;
+        return [buildPortfolioPosition(prediction, marketData, market)];
+      })
+      .sort((a, b) => Number(a.settled) - Number(b.settled));
+  }, [predictions, indexed.byKey, onchain.byKey, contractsClient?.chainId]);
+
+  const totals = useMemo(() => summarizePortfolio(positions), [positions]);
+
+  const error = predictionsQuery.error ?? indexed.error ?? onchain.error;
+
+  return {
+    positions,
+    totals,
+    isLoading:
+      predictionsQuery.isLoading || indexed.isLoading || onchain.isLoading,
+    isError: error !== null,
+    error,
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Hook surfacing markets whose event has a final result
+ */
+
+import { useMemo } from 'react';
+import type {
+  Market,
+  MmaFightResult,
+  ResolutionProposal,
+  Sport,
+  SportMarketsContractClient,
+} from '../../types';
+import { proposeResolution, type SportEventSourceMap } from '../../utils';
+import {
+  useMatchMarkets,
+  type UseMatchMarketsOptions,
+} from './useMatchMarkets';
+
+/**
+ * Market ready to be resolved, with the proposed settlement
+ */
+export interface ResolvableMarket<T> {
+  /** Fixture, game or fight the market is about */
+  item: T;
+  eventKey: string;
+  market: Market;
+  proposal: ResolutionProposal;
+}
+
+/**
+ * Options for useResolvableMarkets hook
+ */
+export interface UseResolvableMarketsOptions extends UseMatchMarketsOptions {
+  /** Method and round of finished MMA fights, for method and round markets */
+  mmaResults?: readonly MmaFightResult[];
+}
+
+/**
+ * Return type for useResolvableMarkets hook
+ */
+export interface UseResolvableMarketsResult<T> {
+  markets: ResolvableMarket<T>[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook to list active markets whose event has finished, with the outcome
+ * to resolve them on
+ *
+ * Markets without stored resolution metadata, or whose result can't be
+ * mapped to an outcome, e.g. an MMA method market without the fight's
+ * result, are left out for manual review.
+ *
+ * @param contractsClient - heavymath_contracts client for the markets' chain
+ * @param sport - Sport the items come from
+ * @param items - Fixtures, games or fights from the sports hooks
+ * @param options - MMA results and query options
+ * @returns Markets ready to resolve, in the order of the items
+ *
+ * @example
+ * ```typescript
+ * function ResolutionQueue() {
+ *   const { matches } = useFootballMatches(indexerClient, walletAddress, {
+ *     params: { date: today },
+ *   });
+ *   const { markets } = useResolvableMarkets(
+ *     contractsClient,
+ *     'football',
+ *     matches
+ *   );
+ *
+ *   return markets.map(({ market, proposal }) => (
+ *     <ResolveRow
+ *       key={market.id.toString()}
+ *       market={market}
+ *       proposal={proposal}
+ *     />
+ *   ));
+ * }
+ * ```
+ */
+export function useResolvableMarkets<
+  S extends Sport,
+  T extends SportEventSourceMap[S],
+>(
+  contractsClient: SportMarketsContractClient,
+  sport: S,
+  items: readonly T[],
+  options: UseResolvableMarketsOptions = {}
+): UseResolvableMarketsResult<T> {
+  const { mmaResults, ...matchOptions } = options;
+  const {
+    items: enriched,
+    isLoading,
+    isError,
+    error,
+  } = useMatchMarkets(contractsClient, sport, items, matchOptions);
+
+  const markets = useMemo(() => {
+    const resultsById = new Map(
+      (mmaResults ?? []).map(result => [result.fightId, result])
+    );
+
+    return enriched.flatMap((entry, index) => {
+      const item = items[index];
+      const mmaResult =
+        sport === 'mma'
+          ? resultsById.get((item as SportEventSourceMap['mma']).id)
+          : undefined;
+
+      return entry.markets.flatMap(market => {
+        if (market.status !== 'Active') return [];
+        const proposal = proposeResolution(
+          sport,
+          item,
+          market.outcomes.map(outcome => outcome.label),
+          market.resolutionSource,
+          mmaResult
+        );
+        return proposal
+          ? [{ item, eventKey: entry.eventKey, market, proposal }]
+          : [];
+      });
+    });
+  }, [sport, items, enriched, mmaResults]);
+
+  return { markets, isLoading, isError, error };
+}
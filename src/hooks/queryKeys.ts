@@ -0,0 +1,105 @@
+/**
+ * Query keys of every hook in the library, for invalidating and prefetching
+ * from app code
+ */
+
+import type { QueryKey } from '@tanstack/react-query';
+import {
+  apiBaseballKeys,
+  apiBasketballKeys,
+  apiFootballKeys,
+  apiHandballKeys,
+  apiHockeyKeys,
+  apiMmaKeys,
+  apiNflKeys,
+  apiRugbyKeys,
+  apiVolleyballKeys,
+} from '@sudobility/sports_api_client';
+import { auctionKeys } from './auctions/auctionQueries';
+import { marketKeys } from './markets/marketQueries';
+import { sportFavoritesKeys } from './sports/sportQueries';
+
+// Entity lists of a sport, as keyed by its sports_api_client hooks
+interface SportApiListKeys {
+  all: QueryKey;
+  games: { list: (params?: object) => QueryKey };
+  leagues: { list: (params?: object) => QueryKey };
+  teams: { list: (params?: object) => QueryKey };
+}
+
+/**
+ * Keys of a sport with games, leagues and teams lists; the sports_api_client
+ * keys are only read when a key is built
+ */
+function gameSportKeys(getKeys: () => SportApiListKeys) {
+  return {
+    all: () => getKeys().all,
+    games: (params?: object) => getKeys().games.list(params),
+    leagues: (params?: object) => getKeys().leagues.list(params),
+    teams: (params?: object) => getKeys().teams.list(params),
+  };
+}
+
+/**
+ * Query keys of the library's hooks
+ *
+ * Sports lists are cached under the sports_api_client keys, listed here per
+ * sport and entity with the hook's params. Favorites keys hold the lists
+ * prefetched on the server; the favorites fetched by useFavorites stay under
+ * indexer_client's own keys.
+ *
+ * @example
+ * ```typescript
+ * // After a wallet switch
+ * queryClient.removeQueries({
+ *   predicate: heavymathKeys.isWalletQuery(previous),
+ * });
+ *
+ * // After a fixture update
+ * queryClient.invalidateQueries({
+ *   queryKey: heavymathKeys.sports.football.matches({ date }),
+ * });
+ * ```
+ */
+export const heavymathKeys = {
+  all: ['heavymath'] as const,
+  sports: {
+    football: {
+      all: () => apiFootballKeys.all,
+      matches: (params?: object) => apiFootballKeys.fixtures.list(params),
+      leagues: (params?: object) => apiFootballKeys.leagues.list(params),
+      teams: (params?: object) => apiFootballKeys.teams.list(params as object),
+    },
+    basketball: gameSportKeys(() => apiBasketballKeys),
+    nfl: gameSportKeys(() => apiNflKeys),
+    baseball: gameSportKeys(() => apiBaseballKeys),
+    hockey: gameSportKeys(() => apiHockeyKeys),
+    rugby: gameSportKeys(() => apiRugbyKeys),
+    mma: {
+      all: () => apiMmaKeys.all,
+      categories: (params?: object) => apiMmaKeys.categories.list(params),
+      fighters: (params?: object) => apiMmaKeys.fighters.list(params),
+      fights: (params?: object) => apiMmaKeys.fights.list(params),
+    },
+    handball: gameSportKeys(() => apiHandballKeys),
+    volleyball: gameSportKeys(() => apiVolleyballKeys),
+  },
+  favorites: sportFavoritesKeys,
+  markets: marketKeys,
+  /** Predictions of a wallet, as read by usePortfolio */
+  positions: marketKeys.positions,
+  auctions: auctionKeys,
+  /**
+   * Match the library's queries holding data of a wallet, for
+   * `invalidateQueries({ predicate })` or `removeQueries({ predicate })`;
+   * the address is matched in any case, as the keys hold it lowercased
+   */
+  isWalletQuery: (walletAddress: string) => {
+    const wallet = walletAddress.toLowerCase();
+    return (query: { queryKey: QueryKey }): boolean =>
+      query.queryKey[0] === 'heavymath' &&
+      query.queryKey.some(
+        part => typeof part === 'string' && part.toLowerCase() === wallet
+      );
+  },
+};
@@ -0,0 +1,590 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import {
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+} from '../createSportEntityHook';
+
+// Mock the indexer_client
+vi.mock('@sudobility/heavymath_indexer_client', () => ({
+  useFavorites: vi.fn(),
+}));
+
+import { useFavorites } from '@sudobility/heavymath_indexer_client';
+
+const mockUseFavorites = vi.mocked(useFavorites);
+
+interface MockEntity {
+  ref: { code: string };
+  name: string;
+  status?: string;
+}
+
+const mockEntities: MockEntity[] = [
+  { ref: { code: 'a' }, name: 'Alpha' },
+  { ref: { code: 'b' }, name: 'Beta' },
+];
+
+const mockUseApi = vi.fn();
+
+const useMockEntities = createSportEntityHook({
+  useApi: (options?: { enabled?: boolean }) => mockUseApi(options),
+  category: 'custom',
+  subcategory: 'mock',
+  type: 'entity',
+  listKey: 'entities',
+  getId: (entity: MockEntity) => entity.ref.code,
+});
+
+const useMockGames = createSportEntityHook({
+  useApi: (options?: { enabled?: boolean; live?: boolean }) =>
+    mockUseApi(options),
+  subcategory: 'mock',
+  type: 'game',
+  listKey: 'games',
+  getId: (entity: MockEntity) => entity.ref.code,
+  getStatus: (entity: MockEntity) => entity.status ?? 'NS',
+});
+
+const useMockNames = createSportEntityHook({
+  useApi: (options?: { enabled?: boolean }) => mockUseApi(options),
+  subcategory: 'mock',
+  type: 'name',
+  listKey: 'names',
+  getId: (entity: MockEntity) => entity.name,
+  toItem: (entity: MockEntity) => ({ label: entity.name.toUpperCase() }),
+});
+
+const useInfiniteMockEntities = createInfiniteSportEntityHook({
+  useApi: (options?: { enabled?: boolean; params?: { league?: number } }) =>
+    mockUseApi(options),
+  category: 'custom',
+  subcategory: 'mock',
+  type: 'entity',
+  listKey: 'entities',
+  getId: (entity: MockEntity) => entity.ref.code,
+});
+
+const mockIndexerClient = {} as any;
+const mockWalletAddress = '0x1234567890abcdef';
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('createSportEntityHook', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockUseApi.mockReturnValue({
+      data: { response: mockEntities },
+      isLoading: false,
+      isError: false,
+      error: null,
+    });
+
+    mockUseFavorites.mockReturnValue({
+      favorites: [
+        {
+          id: 7,
+          itemId: 'b',
+          category: 'custom',
+          subcategory: 'mock',
+          type: 'entity',
+        },
+      ],
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: vi.fn(), isPending: false },
+      removeFavorite: { mutateAsync: vi.fn(), isPending: false },
+      refresh: vi.fn(),
+    } as any);
+  });
+
+  it('should return the list under the configured key', () => {
+    const { result } = renderHook(
+      () => useMockEntities(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.entities).toHaveLength(2);
+    expect(result.current.entities[0]).toEqual({
+      ref: { code: 'a' },
+      name: 'Alpha',
+      favorited: false,
+    });
+    expect(result.current.entities[1].favorited).toBe(true);
+  });
+
+  it('should pass the configured filters to useFavorites', () => {
+    renderHook(() => useMockEntities(mockIndexerClient, mockWalletAddress), {
+      wrapper: createWrapper(),
+    });
+
+    expect(mockUseFavorites).toHaveBeenCalledWith(
+      mockIndexerClient,
+      mockWalletAddress,
+      { category: 'custom', subcategory: 'mock', type: 'entity' }
+    );
+  });
+
+  it('should default the favorites category to sports', () => {
+    renderHook(() => useMockNames(mockIndexerClient, mockWalletAddress), {
+      wrapper: createWrapper(),
+    });
+
+    expect(mockUseFavorites).toHaveBeenCalledWith(
+      mockIndexerClient,
+      mockWalletAddress,
+      { category: 'sports', subcategory: 'mock', type: 'name' }
+    );
+  });
+
+  it('should map entities with toItem', () => {
+    const { result } = renderHook(
+      () => useMockNames(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.names).toEqual([
+      { label: 'ALPHA', favorited: false },
+      { label: 'BETA', favorited: false },
+    ]);
+  });
+
+  it('should pass options through to the API hook', () => {
+    const options = { enabled: false };
+
+    renderHook(
+      () => useMockEntities(mockIndexerClient, mockWalletAddress, options),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockUseApi).toHaveBeenCalledWith(options);
+  });
+
+  it('should add and remove favorites using the extracted id', async () => {
+    const mockAdd = vi.fn().mockResolvedValue({});
+    const mockRemove = vi.fn().mockResolvedValue({});
+    mockUseFavorites.mockReturnValue({
+      favorites: [{ id: 7, itemId: 'b' }],
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: mockAdd, isPending: false },
+      removeFavorite: { mutateAsync: mockRemove, isPending: false },
+      refresh: vi.fn(),
+    } as any);
+
+    const { result } = renderHook(
+      () => useMockEntities(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await result.current.setFavorited('a', true);
+      await result.current.setFavorited('b', false);
+    });
+
+    expect(mockAdd).toHaveBeenCalledWith({
+      category: 'custom',
+      subcategory: 'mock',
+      type: 'entity',
+      id: 'a',
+    });
+    expect(mockRemove).toHaveBeenCalledWith(7);
+  });
+
+  it('should flip favorited immediately while the add is pending', async () => {
+    let resolveAdd: (value: unknown) => void = () => {};
+    const mockAdd = vi.fn(() => new Promise(resolve => (resolveAdd = resolve)));
+    mockUseFavorites.mockReturnValue({
+      favorites: [],
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: mockAdd, isPending: true },
+      removeFavorite: { mutateAsync: vi.fn(), isPending: false },
+      refresh: vi.fn(),
+    } as any);
+
+    const { result } = renderHook(
+      () => useMockEntities(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    let pending: Promise<void> = Promise.resolve();
+    act(() => {
+      pending = result.current.setFavorited('a', true);
+    });
+
+    expect(result.current.entities[0].favorited).toBe(true);
+
+    await act(async () => {
+      resolveAdd({});
+      await pending;
+    });
+
+    expect(result.current.entities[0].favorited).toBe(true);
+    expect(result.current.favoriteError).toBeNull();
+  });
+
+  it('should remove the favorite once a pending add lands', async () => {
+    let resolveAdd: (value: unknown) => void = () => {};
+    const mockAdd = vi.fn(() => new Promise(resolve => (resolveAdd = resolve)));
+    mockUseFavorites.mockReturnValue({
+      favorites: [],
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: mockAdd, isPending: true },
+      removeFavorite: { mutateAsync: vi.fn(), isPending: false },
+      refresh: vi.fn(),
+    } as any);
+    const bulkClient = {
+      getWalletFavorites: vi.fn().mockResolvedValue([{ id: 9, itemId: 'a' }]),
+      addFavorite: vi.fn(),
+      removeFavorite: vi.fn().mockResolvedValue(undefined),
+    };
+
+    const { result } = renderHook(
+      () => useMockEntities(bulkClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    let adding: Promise<void> = Promise.resolve();
+    let removing: Promise<void> = Promise.resolve();
+    act(() => {
+      adding = result.current.setFavorited('a', true);
+    });
+    act(() => {
+      removing = result.current.setFavorited('a', false);
+    });
+
+    expect(result.current.entities[0].favorited).toBe(false);
+    expect(bulkClient.removeFavorite).not.toHaveBeenCalled();
+
+    await act(async () => {
+      resolveAdd({});
+      await adding;
+      await removing;
+    });
+
+    expect(bulkClient.removeFavorite).toHaveBeenCalledWith(
+      mockWalletAddress,
+      9
+    );
+    expect(result.current.entities[0].favorited).toBe(false);
+    expect(result.current.favoriteError).toBeNull();
+  });
+
+  it('should roll back and surface the error when the mutation fails', async () => {
+    const failure = new Error('Indexer unavailable');
+    const mockRemove = vi.fn().mockRejectedValue(failure);
+    mockUseFavorites.mockReturnValue({
+      favorites: [{ id: 7, itemId: 'b' }],
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: vi.fn(), isPending: false },
+      removeFavorite: { mutateAsync: mockRemove, isPending: false },
+      refresh: vi.fn(),
+    } as any);
+
+    const { result } = renderHook(
+      () => useMockEntities(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.setFavorited('b', false)).rejects.toBe(
+        failure
+      );
+    });
+
+    expect(result.current.entities[1].favorited).toBe(true);
+    expect(result.current.favoriteError).toBe(failure);
+  });
+
+  it('should favorite many entities and report failures per id', async () => {
+    const bulkClient = {
+      getWalletFavorites: vi.fn().mockResolvedValue([{ id: 7, itemId: 'b' }]),
+      addFavorite: vi.fn().mockRejectedValue(new Error('Invalid signature')),
+      removeFavorite: vi.fn(),
+    };
+
+    const { result } = renderHook(
+      () =>
+        useMockEntities(bulkClient, mockWalletAddress, {
+          enabled: true,
+          favoritesConcurrency: 2,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockUseApi).toHaveBeenCalledWith({ enabled: true });
+
+    let results: any;
+    await act(async () => {
+      results = await result.current.setManyFavorited(['a', 'b', 'a'], true);
+    });
+
+    expect(bulkClient.addFavorite).toHaveBeenCalledTimes(1);
+    expect(bulkClient.addFavorite).toHaveBeenCalledWith(mockWalletAddress, {
+      category: 'custom',
+      subcategory: 'mock',
+      type: 'entity',
+      id: 'a',
+    });
+    expect(results).toEqual([
+      { id: 'a', status: 'failed', error: new Error('Invalid signature') },
+      { id: 'b', status: 'unchanged', error: null },
+    ]);
+    expect(result.current.entities[0].favorited).toBe(false);
+    expect(result.current.favoriteError).toEqual(
+      new Error('Invalid signature')
+    );
+  });
+
+  it('should reconcile with the server list once it arrives', async () => {
+    const mockAdd = vi.fn().mockResolvedValue({});
+    const favoritesState = {
+      favorites: [] as any[],
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: mockAdd, isPending: false },
+      removeFavorite: { mutateAsync: vi.fn(), isPending: false },
+      refresh: vi.fn(),
+    };
+    mockUseFavorites.mockImplementation(() => favoritesState as any);
+
+    const { result, rerender } = renderHook(
+      () => useMockEntities(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await result.current.setFavorited('a', true);
+    });
+    expect(result.current.entities[0].favorited).toBe(true);
+
+    // Server refetch returns the new favorite, then it is removed elsewhere
+    favoritesState.favorites = [{ id: 9, itemId: 'a' }];
+    rerender();
+    favoritesState.favorites = [];
+    rerender();
+
+    expect(result.current.entities[0].favorited).toBe(false);
+  });
+
+  it('should return favorited and total counts', () => {
+    const { result } = renderHook(
+      () => useMockEntities(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.favoritedCount).toBe(1);
+    expect(result.current.totalCount).toBe(2);
+  });
+
+  it('should only return favorites when favoritesOnly is set', () => {
+    const { result } = renderHook(
+      () =>
+        useMockEntities(mockIndexerClient, mockWalletAddress, {
+          favoritesOnly: true,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.entities.map(e => e.name)).toEqual(['Beta']);
+    expect(result.current.totalCount).toBe(2);
+  });
+
+  it('should sort favorites first, then by the custom comparator', () => {
+    mockUseApi.mockReturnValue({
+      data: {
+        response: [
+          { ref: { code: 'c' }, name: 'Charlie' },
+          ...mockEntities,
+          { ref: { code: 'd' }, name: 'Delta' },
+        ],
+      },
+      isLoading: false,
+      isError: false,
+      error: null,
+    });
+
+    const { result } = renderHook(
+      () =>
+        useMockEntities(mockIndexerClient, mockWalletAddress, {
+          sortFavoritesFirst: true,
+          compare: (a, b) => b.name.localeCompare(a.name),
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.entities.map(e => e.name)).toEqual([
+      'Beta',
+      'Delta',
+      'Charlie',
+      'Alpha',
+    ]);
+  });
+
+  it('should not pass list options to the API hook', () => {
+    renderHook(
+      () =>
+        useMockEntities(mockIndexerClient, mockWalletAddress, {
+          enabled: true,
+          favoritesOnly: true,
+          sortFavoritesFirst: true,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockUseApi).toHaveBeenCalledWith({ enabled: true });
+  });
+
+  it('should poll at a status-aware interval in live mode', () => {
+    renderHook(
+      () =>
+        useMockGames(mockIndexerClient, mockWalletAddress, {
+          enabled: true,
+          live: true,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    const apiOptions = mockUseApi.mock.calls[0][0];
+    expect(apiOptions).not.toHaveProperty('live');
+    expect(apiOptions.enabled).toBe(true);
+    expect(apiOptions.refetchIntervalInBackground).toBe(false);
+
+    const intervalFor = (statuses: string[]) =>
+      apiOptions.refetchInterval({
+        state: {
+          data: { response: statuses.map(status => ({ status })) },
+        },
+      });
+    expect(intervalFor(['NS', '2H'])).toBe(15_000);
+    expect(intervalFor(['NS'])).toBe(300_000);
+    expect(intervalFor(['FT'])).toBe(false);
+  });
+
+  it('should not poll when live mode is off', () => {
+    renderHook(
+      () =>
+        useMockGames(mockIndexerClient, mockWalletAddress, { enabled: true }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockUseApi).toHaveBeenCalledWith({ enabled: true });
+  });
+});
+
+describe('createInfiniteSportEntityHook', () => {
+  const manyEntities: MockEntity[] = ['a', 'b', 'c', 'd', 'e'].map(code => ({
+    ref: { code },
+    name: code.toUpperCase(),
+  }));
+
+  const mockFavorites = (itemIds: string[]) =>
+    mockUseFavorites.mockReturnValue({
+      favorites: itemIds.map((itemId, index) => ({ id: index + 1, itemId })),
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: vi.fn(), isPending: false },
+      removeFavorite: { mutateAsync: vi.fn(), isPending: false },
+      refresh: vi.fn(),
+    } as any);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockUseApi.mockReturnValue({
+      data: { response: manyEntities },
+      isLoading: false,
+      isError: false,
+      error: null,
+    });
+    mockFavorites(['b']);
+  });
+
+  it('should hand the list out a page at a time', () => {
+    const { result } = renderHook(
+      () =>
+        useInfiniteMockEntities(mockIndexerClient, mockWalletAddress, {
+          pageSize: 2,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.entities.map(e => e.ref.code)).toEqual(['a', 'b']);
+    expect(result.current.entities[1].favorited).toBe(true);
+    expect(result.current.hasNextPage).toBe(true);
+    expect(result.current.totalCount).toBe(5);
+    expect(mockUseApi).toHaveBeenCalledWith({});
+
+    act(() => result.current.fetchNextPage());
+    act(() => result.current.fetchNextPage());
+
+    expect(result.current.pages.map(page => page.length)).toEqual([2, 2, 1]);
+    expect(result.current.entities).toHaveLength(5);
+    expect(result.current.hasNextPage).toBe(false);
+
+    act(() => result.current.fetchNextPage());
+    expect(result.current.pages).toHaveLength(3);
+  });
+
+  it('should only rebuild the page whose favorites changed', () => {
+    const { result, rerender } = renderHook(
+      () =>
+        useInfiniteMockEntities(mockIndexerClient, mockWalletAddress, {
+          pageSize: 2,
+        }),
+      { wrapper: createWrapper() }
+    );
+    act(() => result.current.fetchNextPage());
+    const [firstPage, secondPage] = result.current.pages;
+
+    mockFavorites(['b', 'd']);
+    rerender();
+
+    expect(result.current.pages[0]).toBe(firstPage);
+    expect(result.current.pages[1]).not.toBe(secondPage);
+    expect(result.current.pages[1][1].favorited).toBe(true);
+    expect(result.current.favoritedCount).toBe(2);
+  });
+
+  it('should start over when the params change', () => {
+    const { result, rerender } = renderHook(
+      ({ league }) =>
+        useInfiniteMockEntities(mockIndexerClient, mockWalletAddress, {
+          params: { league },
+          pageSize: 2,
+        }),
+      { wrapper: createWrapper(), initialProps: { league: 1 } }
+    );
+    act(() => result.current.fetchNextPage());
+    expect(result.current.pages).toHaveLength(2);
+
+    rerender({ league: 2 });
+
+    expect(result.current.pages).toHaveLength(1);
+    expect(mockUseApi).toHaveBeenLastCalledWith({ params: { league: 2 } });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { createSportEntityHook } from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { sportFavoritesKeys } from '../sportQueries';
+
+// Mock the indexer_client
+vi.mock('@sudobility/heavymath_indexer_client', () => ({
+  useFavorites: vi.fn(),
+}));
+
+import { useFavorites } from '@sudobility/heavymath_indexer_client';
+
+const mockUseFavorites = vi.mocked(useFavorites);
+
+interface MockEntity {
+  id: number;
+}
+
+const mockResponse = { response: [{ id: 1 }, { id: 2 }] };
+
+const mockApiClient = {
+  getEntities: vi.fn(),
+};
+
+const mockIndexerClient = {
+  getWalletFavorites: vi.fn(),
+};
+
+const mockWalletAddress = '0x1234567890abcdef';
+
+const entitiesKey = (params?: object) => ['mock-api', 'entities', params ?? {}];
+
+const prefetchMockEntities = createSportPrefetch<
+  typeof mockApiClient,
+  { date?: string }
+>({
+  queryKey: entitiesKey,
+  queryFn: (client, params) => client.getEntities(params),
+  subcategory: 'mock',
+  type: 'entity',
+});
+
+describe('createSportPrefetch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApiClient.getEntities.mockResolvedValue(mockResponse);
+    mockIndexerClient.getWalletFavorites.mockResolvedValue([
+      { id: 7, itemId: '2' },
+    ]);
+  });
+
+  it('should cache the list under the API key and the wallet favorites', async () => {
+    const queryClient = new QueryClient();
+
+    await prefetchMockEntities(queryClient, mockApiClient, {
+      params: { date: '2025-01-01' },
+      indexerClient: mockIndexerClient,
+      walletAddress: mockWalletAddress,
+    });
+
+    expect(mockApiClient.getEntities).toHaveBeenCalledWith({
+      date: '2025-01-01',
+    });
+    expect(
+      queryClient.getQueryData(entitiesKey({ date: '2025-01-01' }))
+    ).toEqual(mockResponse);
+    expect(mockIndexerClient.getWalletFavorites).toHaveBeenCalledWith(
+      mockWalletAddress,
+      { category: 'sports', subcategory: 'mock', type: 'entity' }
+    );
+    expect(
+      queryClient.getQueryData(
+        sportFavoritesKeys.list(mockWalletAddress, 'sports', 'mock', 'entity')
+      )
+    ).toEqual([{ id: 7, itemId: '2' }]);
+  });
+
+  it('should skip favorites without a wallet', async () => {
+    const queryClient = new QueryClient();
+
+    await prefetchMockEntities(queryClient, mockApiClient, {
+      indexerClient: mockIndexerClient,
+    });
+
+    expect(mockIndexerClient.getWalletFavorites).not.toHaveBeenCalled();
+    expect(queryClient.getQueryData(entitiesKey())).toEqual(mockResponse);
+  });
+
+  it('should let the hook use prefetched favorites until useFavorites loads', async () => {
+    const queryClient = new QueryClient();
+    await prefetchMockEntities(queryClient, mockApiClient, {
+      indexerClient: mockIndexerClient,
+      walletAddress: mockWalletAddress,
+    });
+
+    mockUseFavorites.mockReturnValue({
+      favorites: [],
+      isLoading: true,
+      addFavorite: { mutateAsync: vi.fn(), isPending: false },
+      removeFavorite: { mutateAsync: vi.fn(), isPending: false },
+    } as any);
+
+    const useMockEntities = createSportEntityHook({
+      useApi: () => ({
+        data: queryClient.getQueryData<typeof mockResponse>(entitiesKey()),
+        isLoading: false,
+        isError: false,
+        error: null,
+      }),
+      subcategory: 'mock',
+      type: 'entity',
+      listKey: 'entities',
+      getId: (entity: MockEntity) => entity.id,
+    });
+
+    const { result } = renderHook(
+      () => useMockEntities({} as any, mockWalletAddress),
+      {
+        wrapper: ({ children }: { children: React.ReactNode }) =>
+          createElement(QueryClientProvider, { client: queryClient }, children),
+      }
+    );
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.favoritesLoading).toBe(true);
+    expect(result.current.entities.map(e => e.favorited)).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  it('should unfavorite a prefetched favorite before useFavorites loads', async () => {
+    const queryClient = new QueryClient();
+    await prefetchMockEntities(queryClient, mockApiClient, {
+      indexerClient: mockIndexerClient,
+      walletAddress: mockWalletAddress,
+    });
+
+    const removeFavorite = vi.fn().mockResolvedValue(undefined);
+    mockUseFavorites.mockReturnValue({
+      favorites: [],
+      isLoading: true,
+      addFavorite: { mutateAsync: vi.fn(), isPending: false },
+      removeFavorite: { mutateAsync: removeFavorite, isPending: false },
+    } as any);
+
+    const useMockEntities = createSportEntityHook({
+      useApi: () => ({
+        data: queryClient.getQueryData<typeof mockResponse>(entitiesKey()),
+        isLoading: false,
+        isError: false,
+        error: null,
+      }),
+      subcategory: 'mock',
+      type: 'entity',
+      listKey: 'entities',
+      getId: (entity: MockEntity) => entity.id,
+    });
+
+    const { result } = renderHook(
+      () => useMockEntities({} as any, mockWalletAddress),
+      {
+        wrapper: ({ children }: { children: React.ReactNode }) =>
+          createElement(QueryClientProvider, { client: queryClient }, children),
+      }
+    );
+
+    await act(async () => {
+      await result.current.setFavorited(2, false);
+    });
+
+    expect(removeFavorite).toHaveBeenCalledWith(7);
+    expect(result.current.entities.map(e => e.favorited)).toEqual([
+      false,
+      false,
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import {
+  onlineManager,
+  QueryClient,
+  QueryClientProvider,
+} from '@tanstack/react-query';
+import { createElement } from 'react';
+import {
+  createFavoritesQueue,
+  createLocalFavorites,
+  createMemoryStorage,
+} from '../../../utils';
+import { createSportEntityHook } from '../createSportEntityHook';
+
+// Mock the indexer_client
+vi.mock('@sudobility/heavymath_indexer_client', () => ({
+  useFavorites: vi.fn(),
+}));
+
+import { useFavorites } from '@sudobility/heavymath_indexer_client';
+
+const mockUseFavorites = vi.mocked(useFavorites);
+
+interface MockEntity {
+  id: number;
+}
+
+const mockAddFavorite = vi.fn();
+const mockRemoveFavorite = vi.fn();
+
+const mockWalletAddress = '0x1234567890abcdef';
+
+const useMockEntities = createSportEntityHook({
+  useApi: () => ({
+    data: { response: [{ id: 1 }, { id: 2 }] },
+    isLoading: false,
+    isError: false,
+    error: null,
+  }),
+  subcategory: 'mock',
+  type: 'entity',
+  listKey: 'entities',
+  getId: (entity: MockEntity) => entity.id,
+});
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+}
+
+describe('offline favorites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockAddFavorite.mockResolvedValue(undefined);
+    mockRemoveFavorite.mockResolvedValue(undefined);
+    mockUseFavorites.mockReturnValue({
+      favorites: [],
+      isLoading: false,
+      addFavorite: { mutateAsync: mockAddFavorite, isPending: false },
+      removeFavorite: { mutateAsync: mockRemoveFavorite, isPending: false },
+    } as any);
+  });
+
+  afterEach(() => {
+    onlineManager.setOnline(true);
+  });
+
+  it('should queue changes while offline and replay them when back online', async () => {
+    const favoritesQueue = createFavoritesQueue(createMemoryStorage());
+    onlineManager.setOnline(false);
+
+    const { result } = renderHook(
+      () => useMockEntities({} as any, mockWalletAddress, { favoritesQueue }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await result.current.setFavorited(2, true);
+    });
+
+    expect(mockAddFavorite).not.toHaveBeenCalled();
+    expect(result.current.entities.map(e => e.favorited)).toEqual([
+      false,
+      true,
+    ]);
+    expect(result.current.favoriteError).toBeNull();
+
+    act(() => {
+      onlineManager.setOnline(true);
+    });
+
+    await waitFor(() =>
+      expect(mockAddFavorite).toHaveBeenCalledWith({
+        category: 'sports',
+        subcategory: 'mock',
+        type: 'entity',
+        id: '2',
+      })
+    );
+    expect(result.current.entities[1].favorited).toBe(true);
+  });
+
+  it('should replay changes persisted by an earlier session', async () => {
+    const storage = createMemoryStorage();
+    const earlier = createFavoritesQueue(storage);
+    await earlier.ready;
+    earlier.enqueue(
+      {
+        walletAddress: mockWalletAddress,
+        category: 'sports',
+        subcategory: 'mock',
+        type: 'entity',
+      },
+      '1',
+      true,
+      []
+    );
+    await vi.waitFor(async () =>
+      expect(await storage.getItem('heavymath:favorites-queue')).not.toBeNull()
+    );
+
+    const favoritesQueue = createFavoritesQueue(storage);
+    const { result } = renderHook(
+      () => useMockEntities({} as any, mockWalletAddress, { favoritesQueue }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() =>
+      expect(result.current.entities[0].favorited).toBe(true)
+    );
+    await waitFor(() => expect(mockAddFavorite).toHaveBeenCalledTimes(1));
+  });
+
+  it('should roll back and throw when the indexer rejects a change', async () => {
+    const favoritesQueue = createFavoritesQueue(createMemoryStorage());
+    mockAddFavorite.mockRejectedValue(new Error('Invalid signature'));
+
+    const { result } = renderHook(
+      () => useMockEntities({} as any, mockWalletAddress, { favoritesQueue }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.setFavorited(1, true)).rejects.toThrow(
+        'Invalid signature'
+      );
+    });
+
+    expect(result.current.entities[0].favorited).toBe(false);
+    expect(result.current.favoriteError?.message).toBe('Invalid signature');
+    expect(favoritesQueue.getChanges()).toEqual([]);
+  });
+
+  it('should keep a change queued when the request fails to go out', async () => {
+    const favoritesQueue = createFavoritesQueue(createMemoryStorage());
+    mockAddFavorite.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const { result } = renderHook(
+      () => useMockEntities({} as any, mockWalletAddress, { favoritesQueue }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await result.current.setFavorited(1, true);
+    });
+
+    expect(result.current.entities[0].favorited).toBe(true);
+    expect(result.current.favoriteError).toBeNull();
+    expect(favoritesQueue.getChanges()).toHaveLength(1);
+  });
+});
+
+describe('local favorites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockUseFavorites.mockReturnValue({
+      favorites: [],
+      isLoading: false,
+      addFavorite: { mutateAsync: mockAddFavorite, isPending: false },
+      removeFavorite: { mutateAsync: mockRemoveFavorite, isPending: false },
+    } as any);
+  });
+
+  it('should keep favorites on the device while no wallet is connected', async () => {
+    const localFavorites = createLocalFavorites(createMemoryStorage());
+
+    const { result } = renderHook(
+      () => useMockEntities({} as any, undefined, { localFavorites }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await result.current.setFavorited(1, true);
+    });
+
+    expect(mockAddFavorite).not.toHaveBeenCalled();
+    expect(result.current.entities[0].favorited).toBe(true);
+    expect(result.current.favoritedCount).toBe(1);
+    expect(localFavorites.getFavorites()).toMatchObject([
+      { category: 'sports', subcategory: 'mock', type: 'entity', itemId: '1' },
+    ]);
+
+    await act(async () => {
+      await result.current.setFavorited(1, false);
+    });
+    expect(result.current.entities[0].favorited).toBe(false);
+  });
+
+  it('should use the wallet favorites once a wallet connects', async () => {
+    const localFavorites = createLocalFavorites(createMemoryStorage());
+    localFavorites.setFavorited(
+      { category: 'sports', subcategory: 'mock', type: 'entity' },
+      '1',
+      true
+    );
+    mockUseFavorites.mockReturnValue({
+      favorites: [{ id: 5, itemId: '2' }],
+      isLoading: false,
+      addFavorite: { mutateAsync: mockAddFavorite, isPending: false },
+      removeFavorite: { mutateAsync: mockRemoveFavorite, isPending: false },
+    } as any);
+
+    const { result } = renderHook(
+      () =>
+        useMockEntities({} as any, mockWalletAddress, {
+          localFavorites,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.entities.map(e => e.favorited)).toEqual([
+      false,
+      true,
+    ]);
+  });
+});
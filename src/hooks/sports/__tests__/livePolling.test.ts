@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LIVE_POLLING_INTERVALS,
+  getLivePollingInterval,
+} from '../livePolling';
+
+describe('getLivePollingInterval', () => {
+  it('should poll at the live interval while any game is in play', () => {
+    expect(getLivePollingInterval(['FT', 'NS', '2H'])).toBe(
+      DEFAULT_LIVE_POLLING_INTERVALS.live
+    );
+  });
+
+  it('should back off while games are only scheduled', () => {
+    expect(getLivePollingInterval(['FT', 'NS'])).toBe(
+      DEFAULT_LIVE_POLLING_INTERVALS.scheduled
+    );
+    expect(getLivePollingInterval([])).toBe(
+      DEFAULT_LIVE_POLLING_INTERVALS.scheduled
+    );
+  });
+
+  it('should stop polling once every game is finished', () => {
+    expect(getLivePollingInterval(['FT', 'PEN', 'CANC'])).toBe(false);
+  });
+
+  it('should apply custom intervals', () => {
+    expect(getLivePollingInterval(['Q1'], { live: 5_000 })).toBe(5_000);
+    expect(getLivePollingInterval(['NS'], { scheduled: false })).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useAllSportsFavorites } from '../useAllSportsFavorites';
+
+// Mock the sports_api_client clients, keeping the real query keys
+vi.mock('@sudobility/sports_api_client', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  useApiFootballClient: vi.fn(),
+  useApiBasketballClient: vi.fn(),
+  useApiNflClient: vi.fn(),
+  useApiBaseballClient: vi.fn(),
+  useApiHockeyClient: vi.fn(),
+  useApiRugbyClient: vi.fn(),
+  useApiMmaClient: vi.fn(),
+  useApiHandballClient: vi.fn(),
+  useApiVolleyballClient: vi.fn(),
+}));
+
+// Mock the indexer_client
+vi.mock('@sudobility/heavymath_indexer_client', () => ({
+  useFavorites: vi.fn(),
+}));
+
+import {
+  useApiBaseballClient,
+  useApiBasketballClient,
+  useApiFootballClient,
+  useApiHandballClient,
+  useApiHockeyClient,
+  useApiMmaClient,
+  useApiNflClient,
+  useApiRugbyClient,
+  useApiVolleyballClient,
+} from '@sudobility/sports_api_client';
+import { useFavorites } from '@sudobility/heavymath_indexer_client';
+
+const mockUseFavorites = vi.mocked(useFavorites);
+
+const mockFootballClient = {
+  getTeams: vi.fn(),
+  getFixtures: vi.fn(),
+  getLeagues: vi.fn(),
+};
+const mockMmaClient = {
+  getFighters: vi.fn(),
+  getFights: vi.fn(),
+};
+
+const mockFavorites = [
+  {
+    id: 1,
+    itemId: '33',
+    category: 'sports',
+    subcategory: 'football',
+    type: 'team',
+  },
+  {
+    id: 2,
+    itemId: '1001',
+    category: 'sports',
+    subcategory: 'football',
+    type: 'match',
+  },
+  {
+    id: 3,
+    itemId: 'Lightweight',
+    category: 'sports',
+    subcategory: 'mma',
+    type: 'category',
+  },
+  {
+    id: 4,
+    itemId: '77',
+    category: 'sports',
+    subcategory: 'mma',
+    type: 'fighter',
+  },
+  {
+    id: 5,
+    itemId: '9',
+    category: 'sports',
+    subcategory: 'cricket',
+    type: 'team',
+  },
+];
+
+const mockIndexerClient = {} as any;
+const mockWalletAddress = '0x1234567890abcdef';
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useAllSportsFavorites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(useApiFootballClient).mockReturnValue(mockFootballClient as any);
+    vi.mocked(useApiMmaClient).mockReturnValue(mockMmaClient as any);
+    [
+      useApiBasketballClient,
+      useApiNflClient,
+      useApiBaseballClient,
+      useApiHockeyClient,
+      useApiRugbyClient,
+      useApiHandballClient,
+      useApiVolleyballClient,
+    ].forEach(hook => vi.mocked(hook).mockReturnValue({} as any));
+
+    mockFootballClient.getTeams.mockResolvedValue({
+      response: [{ team: { id: 33, name: 'Manchester United' } }],
+    });
+    mockFootballClient.getFixtures.mockResolvedValue({
+      response: [{ fixture: { id: 1001 } }],
+    });
+    mockMmaClient.getFighters.mockResolvedValue({
+      response: [{ id: 77, name: 'Jon Jones' }],
+    });
+
+    mockUseFavorites.mockReturnValue({
+      favorites: mockFavorites,
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: vi.fn(), isPending: false },
+      removeFavorite: { mutateAsync: vi.fn(), isPending: false },
+      refresh: vi.fn(),
+    } as any);
+  });
+
+  it('should fetch all sports favorites of the wallet', () => {
+    renderHook(
+      () => useAllSportsFavorites(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockUseFavorites).toHaveBeenCalledWith(
+      mockIndexerClient,
+      mockWalletAddress,
+      { category: 'sports' }
+    );
+  });
+
+  it('should resolve favorites to entities grouped by sport and type', async () => {
+    const { result } = renderHook(
+      () => useAllSportsFavorites(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(mockFootballClient.getTeams).toHaveBeenCalledWith({ id: 33 });
+    expect(mockFootballClient.getFixtures).toHaveBeenCalledWith({
+      ids: '1001',
+    });
+    expect(mockMmaClient.getFighters).toHaveBeenCalledWith({ id: 77 });
+
+    const { groups } = result.current;
+    expect(groups.football.team[0].entity?.team.name).toBe('Manchester United');
+    expect(groups.football.match[0].entity?.fixture.id).toBe(1001);
+    expect(groups.football.league).toHaveLength(0);
+    expect(groups.mma.category[0].entity).toEqual({ name: 'Lightweight' });
+    expect(groups.mma.fighter[0].entity?.name).toBe('Jon Jones');
+  });
+
+  it('should fetch the favorite matches in one request', async () => {
+    const match = (id: number, itemId: string) => ({
+      id,
+      itemId,
+      category: 'sports',
+      subcategory: 'football',
+      type: 'match',
+    });
+    mockUseFavorites.mockReturnValue({
+      favorites: [match(1, '1002'), match(2, '1001'), match(3, '1003')],
+      isLoading: false,
+      isError: false,
+      error: null,
+    } as any);
+    mockFootballClient.getFixtures.mockResolvedValue({
+      response: [1001, 1002, 1003].map(id => ({ fixture: { id } })),
+    });
+
+    const { result } = renderHook(
+      () => useAllSportsFavorites(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(mockFootballClient.getFixtures).toHaveBeenCalledTimes(1);
+    expect(mockFootballClient.getFixtures).toHaveBeenCalledWith({
+      ids: '1001-1002-1003',
+    });
+    expect(
+      result.current.items.map(item => [
+        item.itemId,
+        (item.entity as { fixture: { id: number } }).fixture.id,
+      ])
+    ).toEqual([
+      ['1002', 1002],
+      ['1001', 1001],
+      ['1003', 1003],
+    ]);
+  });
+
+  it('should keep the items while the data is unchanged', async () => {
+    const { result, rerender } = renderHook(
+      () => useAllSportsFavorites(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    const { items } = result.current;
+
+    rerender();
+
+    expect(result.current.items).toBe(items);
+  });
+
+  it('should ignore favorites of unsupported sports', async () => {
+    const { result } = renderHook(
+      () => useAllSportsFavorites(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.items).toHaveLength(4);
+    expect(result.current.items.map(item => item.sport)).not.toContain(
+      'cricket'
+    );
+  });
+
+  it('should surface entity fetch errors', async () => {
+    const error = new Error('Failed to fetch teams');
+    mockFootballClient.getTeams.mockRejectedValue(error);
+
+    const { result } = renderHook(
+      () => useAllSportsFavorites(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error).toBe(error);
+    expect(result.current.groups.football.team[0].entity).toBeUndefined();
+  });
+
+  it('should not fetch entities when disabled', () => {
+    renderHook(
+      () =>
+        useAllSportsFavorites(mockIndexerClient, mockWalletAddress, {
+          enabled: false,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(mockFootballClient.getTeams).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { heavymathKeys } from '../../queryKeys';
+import { applyFavoritesInBulk, useFavoritesBulk } from '../useFavoritesBulk';
+
+const mockIndexerClient = {
+  getWalletFavorites: vi.fn(),
+  addFavorite: vi.fn(),
+  removeFavorite: vi.fn(),
+};
+
+const mockWalletAddress = '0x1234567890abcdef';
+
+const teams = { category: 'sports', subcategory: 'football', type: 'team' };
+
+let queryClient: QueryClient;
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('applyFavoritesInBulk', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockIndexerClient.getWalletFavorites.mockResolvedValue([
+      { id: 7, itemId: '33' },
+    ]);
+    mockIndexerClient.addFavorite.mockResolvedValue(undefined);
+    mockIndexerClient.removeFavorite.mockResolvedValue(undefined);
+  });
+
+  it('should only add the items that are not favorited yet', async () => {
+    const results = await applyFavoritesInBulk(
+      mockIndexerClient,
+      mockWalletAddress,
+      teams,
+      ['33', '40', '40', '50'],
+      true
+    );
+
+    expect(mockIndexerClient.addFavorite).toHaveBeenCalledTimes(2);
+    expect(mockIndexerClient.addFavorite).toHaveBeenCalledWith(
+      mockWalletAddress,
+      { ...teams, id: '40' }
+    );
+    expect(results.map(r => [r.id, r.status])).toEqual([
+      ['33', 'unchanged'],
+      ['40', 'updated'],
+      ['50', 'updated'],
+    ]);
+  });
+
+  it('should report failures per item', async () => {
+    mockIndexerClient.addFavorite.mockImplementation(
+      async (_wallet: string, favorite: { id: string }) => {
+        if (favorite.id === '40') throw new Error('Invalid signature');
+      }
+    );
+
+    const results = await applyFavoritesInBulk(
+      mockIndexerClient,
+      mockWalletAddress,
+      teams,
+      ['40', '50'],
+      true
+    );
+
+    expect(results).toEqual([
+      { id: '40', status: 'failed', error: new Error('Invalid signature') },
+      { id: '50', status: 'updated', error: null },
+    ]);
+  });
+
+  it('should limit the calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockIndexerClient.addFavorite.mockImplementation(async () => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      inFlight -= 1;
+    });
+
+    await applyFavoritesInBulk(
+      mockIndexerClient,
+      mockWalletAddress,
+      teams,
+      ['1', '2', '3', '4', '5'],
+      true,
+      2
+    );
+
+    expect(mockIndexerClient.addFavorite).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe('useFavoritesBulk', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockIndexerClient.getWalletFavorites.mockResolvedValue([
+      { id: 7, itemId: '33' },
+      { id: 8, itemId: '40' },
+    ]);
+    mockIndexerClient.addFavorite.mockResolvedValue(undefined);
+    mockIndexerClient.removeFavorite.mockResolvedValue(undefined);
+  });
+
+  it('should clear every favorite of a list and refetch once', async () => {
+    const wrapper = createWrapper();
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHook(
+      () => useFavoritesBulk(mockIndexerClient, mockWalletAddress),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await result.current.clearFavorites('football', 'team');
+    });
+
+    expect(mockIndexerClient.getWalletFavorites).toHaveBeenCalledWith(
+      mockWalletAddress,
+      teams
+    );
+    expect(mockIndexerClient.removeFavorite).toHaveBeenCalledWith(
+      mockWalletAddress,
+      7
+    );
+    expect(mockIndexerClient.removeFavorite).toHaveBeenCalledWith(
+      mockWalletAddress,
+      8
+    );
+    await waitFor(() =>
+      expect(result.current.results?.map(r => r.status)).toEqual([
+        'updated',
+        'updated',
+      ])
+    );
+    expect(invalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only refetch the favorites of the wallet', async () => {
+    const wrapper = createWrapper();
+    const favoritesKey = heavymathKeys.favorites.list(
+      mockWalletAddress,
+      'sports',
+      'football',
+      'team'
+    );
+    const indexerKey = ['favorites', mockWalletAddress, teams];
+    const positionsKey = heavymathKeys.positions(mockWalletAddress);
+    queryClient.setQueryData(favoritesKey, []);
+    queryClient.setQueryData(indexerKey, []);
+    queryClient.setQueryData(positionsKey, []);
+    const { result } = renderHook(
+      () => useFavoritesBulk(mockIndexerClient, mockWalletAddress),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await result.current.clearFavorites('football', 'team');
+    });
+
+    expect(queryClient.getQueryState(favoritesKey)?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(indexerKey)?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(positionsKey)?.isInvalidated).toBe(false);
+  });
+
+  it('should not refetch when nothing changed', async () => {
+    const wrapper = createWrapper();
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHook(
+      () => useFavoritesBulk(mockIndexerClient, mockWalletAddress),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await result.current.setManyFavorited(teams, ['33'], true);
+    });
+
+    expect(mockIndexerClient.addFavorite).not.toHaveBeenCalled();
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+
+  it('should fail without a wallet', async () => {
+    const { result } = renderHook(
+      () => useFavoritesBulk(mockIndexerClient, undefined),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(
+        result.current.clearFavorites('football', 'team')
+      ).rejects.toThrow('Connect a wallet to change favorites');
+    });
+
+    expect(mockIndexerClient.getWalletFavorites).not.toHaveBeenCalled();
+  });
+});
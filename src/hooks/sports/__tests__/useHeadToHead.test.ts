@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useFootballHeadToHead, useHockeyHeadToHead } from '../useHeadToHead';
+
+// Mock the sports_api_client
+vi.mock('@sudobility/sports_api_client', () => ({
+  useFootballFixturesHeadToHead: vi.fn(),
+  useBasketballGamesHeadToHead: vi.fn(),
+  useNflGamesHeadToHead: vi.fn(),
+  useBaseballGamesHeadToHead: vi.fn(),
+  useHockeyGamesHeadToHead: vi.fn(),
+  useRugbyGamesHeadToHead: vi.fn(),
+  useHandballH2H: vi.fn(),
+  useVolleyballH2H: vi.fn(),
+}));
+
+import {
+  useBaseballGamesHeadToHead,
+  useBasketballGamesHeadToHead,
+  useFootballFixturesHeadToHead,
+  useHandballH2H,
+  useHockeyGamesHeadToHead,
+  useNflGamesHeadToHead,
+  useRugbyGamesHeadToHead,
+  useVolleyballH2H,
+} from '@sudobility/sports_api_client';
+
+const mockUseFootballHeadToHead = vi.mocked(useFootballFixturesHeadToHead);
+const mockUseHockeyHeadToHead = vi.mocked(useHockeyGamesHeadToHead);
+
+const idleQuery = {
+  data: undefined,
+  isLoading: false,
+  isError: false,
+  error: null,
+};
+
+const fixture = (id: number, home: number, away: number, goals: number[]) => ({
+  fixture: { id, timestamp: id, status: { short: 'FT', long: 'Finished' } },
+  league: { id: 39, name: 'Premier League', logo: null },
+  teams: {
+    home: { id: home, name: `Team ${home}`, logo: null },
+    away: { id: away, name: `Team ${away}`, logo: null },
+  },
+  goals: { home: goals[0], away: goals[1] },
+});
+
+describe('head-to-head hooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    [
+      useBasketballGamesHeadToHead,
+      useNflGamesHeadToHead,
+      useBaseballGamesHeadToHead,
+      useHockeyGamesHeadToHead,
+      useRugbyGamesHeadToHead,
+      useHandballH2H,
+      useVolleyballH2H,
+    ].forEach(hook => vi.mocked(hook).mockReturnValue(idleQuery as any));
+
+    mockUseFootballHeadToHead.mockReturnValue({
+      ...idleQuery,
+      data: {
+        response: [
+          fixture(1, 33, 40, [2, 1]),
+          fixture(2, 40, 33, [0, 0]),
+          fixture(3, 40, 33, [3, 1]),
+        ],
+      },
+    } as any);
+  });
+
+  it('should compute both teams over their meetings', () => {
+    const { result } = renderHook(() => useFootballHeadToHead(33, 40));
+    const { headToHead } = result.current;
+
+    expect(headToHead.events.map(event => event.id)).toEqual([3, 2, 1]);
+    expect(headToHead.teamA.overall).toMatchObject({
+      won: 1,
+      drawn: 1,
+      lost: 1,
+    });
+    expect(headToHead.teamB.form).toBe('LDW');
+    expect(headToHead.teamB.home.scoredAverage).toBe(1.5);
+  });
+
+  it('should only mount the hook of its sport with the pair of teams', () => {
+    renderHook(() =>
+      useHockeyHeadToHead(6, 7, { season: 2024, enabled: false })
+    );
+
+    expect(mockUseHockeyHeadToHead).toHaveBeenCalledWith({
+      params: { h2h: '6-7', season: 2024 },
+      enabled: false,
+    });
+    expect(mockUseFootballHeadToHead).not.toHaveBeenCalled();
+  });
+
+  it('should limit football meetings without a season', () => {
+    renderHook(() => useFootballHeadToHead(33, 40, { last: 3 }));
+
+    expect(mockUseFootballHeadToHead).toHaveBeenCalledWith({
+      params: { h2h: '33-40', last: 3 },
+      enabled: true,
+    });
+  });
+});
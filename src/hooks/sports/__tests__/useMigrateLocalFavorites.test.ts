@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { createLocalFavorites, createMemoryStorage } from '../../../utils';
+import { useMigrateLocalFavorites } from '../useMigrateLocalFavorites';
+
+const mockIndexerClient = {
+  getWalletFavorites: vi.fn(),
+  addFavorite: vi.fn(),
+};
+
+const mockWalletAddress = '0x1234567890abcdef';
+
+const matches = { category: 'sports', subcategory: 'football', type: 'match' };
+const teams = { ...matches, type: 'team' };
+
+let queryClient: QueryClient;
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+async function createStore() {
+  const store = createLocalFavorites(createMemoryStorage());
+  await store.ready;
+  store.setFavorited(matches, '1', true);
+  store.setFavorited(matches, '2', true);
+  store.setFavorited(teams, '33', true);
+  return store;
+}
+
+describe('useMigrateLocalFavorites', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockIndexerClient.getWalletFavorites.mockImplementation(
+      async (_wallet: string, filter: { type: string }) =>
+        filter.type === 'match' ? [{ itemId: '2' }] : []
+    );
+    mockIndexerClient.addFavorite.mockResolvedValue(undefined);
+  });
+
+  it('should add the favorites the wallet does not have', async () => {
+    const store = await createStore();
+    const wrapper = createWrapper();
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHook(
+      () =>
+        useMigrateLocalFavorites(mockIndexerClient, mockWalletAddress, store),
+      { wrapper }
+    );
+
+    expect(result.current.localFavorites).toHaveLength(3);
+
+    let results: any;
+    await act(async () => {
+      results = await result.current.migrate();
+    });
+
+    expect(mockIndexerClient.addFavorite).toHaveBeenCalledTimes(2);
+    expect(mockIndexerClient.addFavorite).toHaveBeenCalledWith(
+      mockWalletAddress,
+      { ...matches, id: '1' }
+    );
+    expect(mockIndexerClient.addFavorite).toHaveBeenCalledWith(
+      mockWalletAddress,
+      { ...teams, id: '33' }
+    );
+    expect(results.map((r: any) => [r.favorite.itemId, r.status])).toEqual([
+      ['1', 'added'],
+      ['2', 'duplicate'],
+      ['33', 'added'],
+    ]);
+    expect(result.current.localFavorites).toEqual([]);
+    expect(invalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep favorites the indexer rejects', async () => {
+    const store = await createStore();
+    mockIndexerClient.addFavorite.mockImplementation(
+      async (_wallet: string, favorite: { id: string }) => {
+        if (favorite.id === '33') throw new Error('Invalid signature');
+      }
+    );
+    const { result } = renderHook(
+      () =>
+        useMigrateLocalFavorites(mockIndexerClient, mockWalletAddress, store),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await result.current.migrate();
+    });
+
+    await waitFor(() =>
+      expect(result.current.results?.[2]).toMatchObject({
+        status: 'failed',
+        error: new Error('Invalid signature'),
+      })
+    );
+    expect(result.current.localFavorites.map(f => f.itemId)).toEqual(['33']);
+  });
+
+  it('should not invalidate when nothing was added', async () => {
+    const store = createLocalFavorites(createMemoryStorage());
+    await store.ready;
+    store.setFavorited(matches, '2', true);
+    const wrapper = createWrapper();
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+    const { result } = renderHook(
+      () =>
+        useMigrateLocalFavorites(mockIndexerClient, mockWalletAddress, store),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await result.current.migrate();
+    });
+
+    expect(mockIndexerClient.addFavorite).not.toHaveBeenCalled();
+    expect(invalidate).not.toHaveBeenCalled();
+    expect(result.current.localFavorites).toEqual([]);
+  });
+
+  it('should fail without a wallet', async () => {
+    const store = await createStore();
+    const { result } = renderHook(
+      () => useMigrateLocalFavorites(mockIndexerClient, undefined, store),
+      { wrapper: createWrapper() }
+    );
+
+    await act(async () => {
+      await expect(result.current.migrate()).rejects.toThrow(
+        'Connect a wallet to migrate favorites'
+      );
+    });
+
+    expect(mockIndexerClient.getWalletFavorites).not.toHaveBeenCalled();
+    expect(result.current.localFavorites).toHaveLength(3);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { mmaCategoryToSearchEntry, teamToSearchEntry } from '../../../utils';
+import { useSportsSearch } from '../useSportsSearch';
+
+const entries = [
+  teamToSearchEntry('basketball', { id: 133, name: 'Boston Celtics' }),
+  teamToSearchEntry('hockey', { id: 6, name: 'Boston Bruins' }),
+  mmaCategoryToSearchEntry({ name: 'Bantamweight', favorited: true }),
+];
+
+describe('useSportsSearch', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should search once the query settles', () => {
+    vi.useFakeTimers();
+    const { result, rerender } = renderHook(
+      ({ query }) => useSportsSearch(query, entries, { debounceMs: 300 }),
+      { initialProps: { query: '' } }
+    );
+
+    rerender({ query: 'bost' });
+    expect(result.current.isDebouncing).toBe(true);
+    expect(result.current.results).toEqual([]);
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(result.current.isDebouncing).toBe(false);
+    expect(result.current.searchedQuery).toBe('bost');
+    expect(result.current.groups.map(group => group.sport)).toEqual([
+      'hockey',
+      'basketball',
+    ]);
+  });
+
+  it('should group results by sport and type', () => {
+    const { result } = renderHook(() =>
+      useSportsSearch('b', entries, { debounceMs: 0 })
+    );
+
+    expect(result.current.groups[0]).toMatchObject({
+      sport: 'mma',
+      type: 'category',
+    });
+    expect(result.current.results).toHaveLength(3);
+  });
+
+  it('should apply the filters', () => {
+    const { result } = renderHook(() =>
+      useSportsSearch('boston', entries, { sports: ['basketball'] })
+    );
+
+    expect(result.current.results.map(r => r.entry.name)).toEqual([
+      'Boston Celtics',
+    ]);
+  });
+});
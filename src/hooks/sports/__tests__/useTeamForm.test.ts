@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import {
+  useBasketballTeamForm,
+  useFootballTeamForm,
+  useHockeyTeamForm,
+} from '../useTeamForm';
+
+// Mock the sports_api_client
+vi.mock('@sudobility/sports_api_client', () => ({
+  useFootballFixtures: vi.fn(),
+  useBasketballGames: vi.fn(),
+  useNflGames: vi.fn(),
+  useBaseballGames: vi.fn(),
+  useHockeyGames: vi.fn(),
+  useRugbyGames: vi.fn(),
+  useHandballGames: vi.fn(),
+  useVolleyballGames: vi.fn(),
+}));
+
+import {
+  useBaseballGames,
+  useBasketballGames,
+  useFootballFixtures,
+  useHandballGames,
+  useHockeyGames,
+  useNflGames,
+  useRugbyGames,
+  useVolleyballGames,
+} from '@sudobility/sports_api_client';
+
+const mockUseFootballFixtures = vi.mocked(useFootballFixtures);
+const mockUseBasketballGames = vi.mocked(useBasketballGames);
+
+const idleQuery = {
+  data: undefined,
+  isLoading: false,
+  isError: false,
+  error: null,
+};
+
+const game = (id: number, home: number, away: number, scores: number[]) => ({
+  id,
+  timestamp: id,
+  status: { short: 'FT', long: 'Game Finished' },
+  league: { id: 12, name: 'NBA', logo: null },
+  teams: {
+    home: { id: home, name: `Team ${home}`, logo: null },
+    away: { id: away, name: `Team ${away}`, logo: null },
+  },
+  scores: { home: { total: scores[0] }, away: { total: scores[1] } },
+});
+
+describe('team form hooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    [
+      useFootballFixtures,
+      useNflGames,
+      useBaseballGames,
+      useHockeyGames,
+      useRugbyGames,
+      useHandballGames,
+      useVolleyballGames,
+    ].forEach(hook => vi.mocked(hook).mockReturnValue(idleQuery as any));
+
+    mockUseBasketballGames.mockReturnValue({
+      ...idleQuery,
+      data: {
+        response: [
+          game(1, 133, 134, [110, 100]),
+          game(2, 135, 133, [99, 98]),
+          game(3, 133, 136, [120, 101]),
+        ],
+      },
+    } as any);
+  });
+
+  it('should compute the form from the sport games', () => {
+    const { result } = renderHook(() =>
+      useBasketballTeamForm(133, { season: '2023-2024' })
+    );
+
+    expect(result.current.form.form).toBe('WLW');
+    expect(result.current.form.home.scoredAverage).toBe(115);
+    expect(result.current.form.away).toMatchObject({ played: 1, lost: 1 });
+  });
+
+  it('should only mount the hook of its sport', () => {
+    renderHook(() => useBasketballTeamForm(133, { season: '2023-2024' }));
+
+    expect(mockUseBasketballGames).toHaveBeenCalledWith({
+      params: { team: 133, season: '2023-2024' },
+      enabled: true,
+    });
+    expect(mockUseFootballFixtures).not.toHaveBeenCalled();
+    expect(vi.mocked(useHockeyGames)).not.toHaveBeenCalled();
+  });
+
+  it('should wait for a season where the API needs one', () => {
+    renderHook(() => useHockeyTeamForm(6));
+
+    expect(vi.mocked(useHockeyGames)).toHaveBeenCalledWith({
+      params: { team: 6, season: undefined },
+      enabled: false,
+    });
+  });
+
+  it('should ask football for the latest fixtures without a season', () => {
+    renderHook(() => useFootballTeamForm(33, { last: 10 }));
+
+    expect(mockUseFootballFixtures).toHaveBeenCalledWith({
+      params: { team: 33, last: 10 },
+      enabled: true,
+    });
+  });
+
+  it('should surface the sport query state', () => {
+    const error = new Error('API error');
+    mockUseBasketballGames.mockReturnValue({
+      ...idleQuery,
+      isError: true,
+      error,
+    } as any);
+
+    const { result } = renderHook(() =>
+      useBasketballTeamForm(133, { season: 2023 })
+    );
+
+    expect(result.current.isError).toBe(true);
+    expect(result.current.error).toBe(error);
+    expect(result.current.form.games).toEqual([]);
+  });
+});
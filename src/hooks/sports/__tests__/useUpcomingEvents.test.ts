@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { createElement } from 'react';
+import { useUpcomingEvents } from '../useUpcomingEvents';
+
+// Mock the sports_api_client
+vi.mock('@sudobility/sports_api_client', () => ({
+  useFootballFixtures: vi.fn(),
+  useBasketballGames: vi.fn(),
+  useNflGames: vi.fn(),
+  useBaseballGames: vi.fn(),
+  useHockeyGames: vi.fn(),
+  useRugbyGames: vi.fn(),
+  useMmaFights: vi.fn(),
+  useHandballGames: vi.fn(),
+  useVolleyballGames: vi.fn(),
+}));
+
+// Mock the indexer_client
+vi.mock('@sudobility/heavymath_indexer_client', () => ({
+  useFavorites: vi.fn(),
+}));
+
+import {
+  useBaseballGames,
+  useBasketballGames,
+  useFootballFixtures,
+  useHandballGames,
+  useHockeyGames,
+  useMmaFights,
+  useNflGames,
+  useRugbyGames,
+  useVolleyballGames,
+} from '@sudobility/sports_api_client';
+import { useFavorites } from '@sudobility/heavymath_indexer_client';
+
+const mockUseFootballFixtures = vi.mocked(useFootballFixtures);
+const mockUseBasketballGames = vi.mocked(useBasketballGames);
+const mockUseMmaFights = vi.mocked(useMmaFights);
+
+const teams = {
+  home: { id: 1, name: 'Home', logo: null },
+  away: { id: 2, name: 'Away', logo: null },
+};
+
+const mockFixtures = [
+  {
+    fixture: {
+      id: 1001,
+      timestamp: 300,
+      status: { short: 'NS', long: 'Not Started' },
+    },
+    league: { id: 39, name: 'Premier League', logo: null },
+    teams,
+    goals: { home: null, away: null },
+  },
+  {
+    fixture: {
+      id: 1002,
+      timestamp: 100,
+      status: { short: 'FT', long: 'Match Finished' },
+    },
+    league: { id: 39, name: 'Premier League', logo: null },
+    teams,
+    goals: { home: 1, away: 0 },
+  },
+];
+
+const mockBasketballGames = [
+  {
+    id: 5,
+    timestamp: 200,
+    status: { short: 'Q2', long: 'Quarter 2', timer: '4' },
+    league: { id: 12, name: 'NBA', logo: null },
+    teams,
+    scores: { home: { total: 30 }, away: { total: 28 } },
+  },
+];
+
+const mockIndexerClient = {} as any;
+const mockWalletAddress = '0x1234567890abcdef';
+
+const queryResult = (response: unknown[]) =>
+  ({
+    data: { response },
+    isLoading: false,
+    isError: false,
+    error: null,
+  }) as any;
+
+// Wrapper for QueryClientProvider
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+};
+
+describe('useUpcomingEvents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    [
+      useNflGames,
+      useBaseballGames,
+      useHockeyGames,
+      useRugbyGames,
+      useHandballGames,
+      useVolleyballGames,
+    ].forEach(hook => vi.mocked(hook).mockReturnValue(queryResult([])));
+    mockUseFootballFixtures.mockReturnValue(queryResult(mockFixtures));
+    mockUseBasketballGames.mockReturnValue(queryResult(mockBasketballGames));
+    mockUseMmaFights.mockReturnValue(queryResult([]));
+
+    vi.mocked(useFavorites).mockReturnValue({
+      favorites: [
+        {
+          id: 1,
+          itemId: '5',
+          category: 'sports',
+          subcategory: 'basketball',
+          type: 'game',
+        },
+        {
+          id: 2,
+          itemId: '1001',
+          category: 'sports',
+          subcategory: 'football',
+          type: 'team',
+        },
+      ],
+      isLoading: false,
+      isError: false,
+      error: null,
+      addFavorite: { mutateAsync: vi.fn(), isPending: false },
+      removeFavorite: { mutateAsync: vi.fn(), isPending: false },
+      refresh: vi.fn(),
+    } as any);
+  });
+
+  it('should merge unfinished events of every sport by start time', () => {
+    const { result } = renderHook(
+      () => useUpcomingEvents(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.events.map(event => event.key)).toEqual([
+      'basketball:5',
+      'football:1001',
+    ]);
+  });
+
+  it('should flag favorites by sport, type and id', () => {
+    const { result } = renderHook(
+      () => useUpcomingEvents(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.events.map(event => event.favorited)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it('should keep finished events when includeFinished is set', () => {
+    const { result } = renderHook(
+      () =>
+        useUpcomingEvents(mockIndexerClient, mockWalletAddress, {
+          includeFinished: true,
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.events[0].key).toBe('football:1002');
+    expect(result.current.events).toHaveLength(3);
+  });
+
+  it('should only fetch the selected sports for the given day', () => {
+    const { result } = renderHook(
+      () =>
+        useUpcomingEvents(mockIndexerClient, mockWalletAddress, {
+          sports: ['football'],
+          date: '2024-05-01',
+          timezone: 'Europe/London',
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    const params = { date: '2024-05-01', timezone: 'Europe/London' };
+    expect(mockUseFootballFixtures).toHaveBeenCalledWith({
+      params,
+      enabled: true,
+    });
+    expect(mockUseBasketballGames).toHaveBeenCalledWith({
+      params,
+      enabled: false,
+    });
+    expect(result.current.events.map(event => event.sport)).toEqual([
+      'football',
+    ]);
+  });
+
+  it('should surface errors of the included sports', () => {
+    const error = new Error('Failed to fetch fights');
+    mockUseMmaFights.mockReturnValue({
+      data: undefined,
+      isLoading: false,
+      isError: true,
+      error,
+    } as any);
+
+    const { result } = renderHook(
+      () => useUpcomingEvents(mockIndexerClient, mockWalletAddress),
+      { wrapper: createWrapper() }
+    );
+
+    expect(result.current.isError).toBe(true);
+    expect(result.current.error).toBe(error);
+  });
+});
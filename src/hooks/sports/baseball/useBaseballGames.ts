@@ -2,27 +2,35 @@
  * Hook for baseball games with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiBaseballClient,
   type BaseballGame,
   type BaseballGamesParams,
   useBaseballGames as useBaseballGamesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'baseball';
-const FAVORITES_TYPE = 'game';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 export interface BaseballGameWithFavorite extends BaseballGame {
   favorited: boolean;
 }
 
-export interface UseBaseballGamesOptions {
+export interface UseBaseballGamesOptions
+  extends
+    SportEntityListOptions<BaseballGameWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: BaseballGamesParams;
   enabled?: boolean;
 }
@@ -33,71 +41,67 @@ export interface UseBaseballGamesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (gameId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    gameIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useBaseballGames(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseBaseballGamesOptions
-): UseBaseballGamesResult {
-  const gamesQuery = useBaseballGamesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useBaseballGames: SportEntityHook<
+  UseBaseballGamesOptions | undefined,
+  UseBaseballGamesResult
+> = createSportEntityHook({
+  useApi: useBaseballGamesApi,
+  subcategory: 'baseball',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteBaseballGamesOptions
+  extends
+    Omit<
+      UseBaseballGamesOptions,
+      keyof SportEntityListOptions<BaseballGameWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const games = useMemo<BaseballGameWithFavorite[]>(() => {
-    const response = gamesQuery.data?.response ?? [];
-    return response.map(game => ({
-      ...game,
-      favorited: favoritedIds.has(String(game.id)),
-    }));
-  }, [gamesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteBaseballGamesResult
+  extends
+    UseBaseballGamesResult,
+    SportEntityPageResult<BaseballGameWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (gameId: number, favorited: boolean) => {
-      const itemId = String(gameId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useBaseballGames, handing the games out a page at a time
+ */
+export const useInfiniteBaseballGames: SportEntityHook<
+  UseInfiniteBaseballGamesOptions | undefined,
+  UseInfiniteBaseballGamesResult
+> = createInfiniteSportEntityHook({
+  useApi: useBaseballGamesApi,
+  subcategory: 'baseball',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  return {
-    games,
-    isLoading: gamesQuery.isLoading || favoritesLoading,
-    isError: gamesQuery.isError,
-    error: gamesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the games and favorites read by useBaseballGames, e.g. on the server
+ */
+export const prefetchBaseballGames = createSportPrefetch<
+  ApiBaseballClient,
+  BaseballGamesParams
+>({
+  queryKey: heavymathKeys.sports.baseball.games,
+  queryFn: (client, params) => client.getGames(params),
+  subcategory: 'baseball',
+  type: 'game',
+});
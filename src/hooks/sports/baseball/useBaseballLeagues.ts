@@ -2,27 +2,33 @@
  * Hook for baseball leagues with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiBaseballClient,
   type BaseballLeagueResponse,
   type BaseballLeaguesParams,
   useBaseballLeagues as useBaseballLeaguesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'baseball';
-const FAVORITES_TYPE = 'league';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface BaseballLeagueWithFavorite extends BaseballLeagueResponse {
   favorited: boolean;
 }
 
-export interface UseBaseballLeaguesOptions {
+export interface UseBaseballLeaguesOptions
+  extends
+    SportEntityListOptions<BaseballLeagueWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: BaseballLeaguesParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseBaseballLeaguesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (leagueId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    leagueIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useBaseballLeagues(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseBaseballLeaguesOptions
-): UseBaseballLeaguesResult {
-  const leaguesQuery = useBaseballLeaguesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useBaseballLeagues: SportEntityHook<
+  UseBaseballLeaguesOptions | undefined,
+  UseBaseballLeaguesResult
+> = createSportEntityHook({
+  useApi: useBaseballLeaguesApi,
+  subcategory: 'baseball',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteBaseballLeaguesOptions
+  extends
+    Omit<
+      UseBaseballLeaguesOptions,
+      keyof SportEntityListOptions<BaseballLeagueWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const leagues = useMemo<BaseballLeagueWithFavorite[]>(() => {
-    const response = leaguesQuery.data?.response ?? [];
-    return response.map(league => ({
-      ...league,
-      favorited: favoritedIds.has(String(league.id)),
-    }));
-  }, [leaguesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteBaseballLeaguesResult
+  extends
+    UseBaseballLeaguesResult,
+    SportEntityPageResult<BaseballLeagueWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (leagueId: number, favorited: boolean) => {
-      const itemId = String(leagueId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useBaseballLeagues, handing the leagues out a page at a time
+ */
+export const useInfiniteBaseballLeagues: SportEntityHook<
+  UseInfiniteBaseballLeaguesOptions | undefined,
+  UseInfiniteBaseballLeaguesResult
+> = createInfiniteSportEntityHook({
+  useApi: useBaseballLeaguesApi,
+  subcategory: 'baseball',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  return {
-    leagues,
-    isLoading: leaguesQuery.isLoading || favoritesLoading,
-    isError: leaguesQuery.isError,
-    error: leaguesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the leagues and favorites read by useBaseballLeagues, e.g. on the server
+ */
+export const prefetchBaseballLeagues = createSportPrefetch<
+  ApiBaseballClient,
+  BaseballLeaguesParams
+>({
+  queryKey: heavymathKeys.sports.baseball.leagues,
+  queryFn: (client, params) => client.getLeagues(params),
+  subcategory: 'baseball',
+  type: 'league',
+});
@@ -2,27 +2,33 @@
  * Hook for baseball teams with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiBaseballClient,
   type BaseballTeamResponse,
   type BaseballTeamsParams,
   useBaseballTeams as useBaseballTeamsApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'baseball';
-const FAVORITES_TYPE = 'team';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface BaseballTeamWithFavorite extends BaseballTeamResponse {
   favorited: boolean;
 }
 
-export interface UseBaseballTeamsOptions {
+export interface UseBaseballTeamsOptions
+  extends
+    SportEntityListOptions<BaseballTeamWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: BaseballTeamsParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseBaseballTeamsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (teamId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    teamIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useBaseballTeams(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseBaseballTeamsOptions
-): UseBaseballTeamsResult {
-  const teamsQuery = useBaseballTeamsApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useBaseballTeams: SportEntityHook<
+  UseBaseballTeamsOptions | undefined,
+  UseBaseballTeamsResult
+> = createSportEntityHook({
+  useApi: useBaseballTeamsApi,
+  subcategory: 'baseball',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteBaseballTeamsOptions
+  extends
+    Omit<
+      UseBaseballTeamsOptions,
+      keyof SportEntityListOptions<BaseballTeamWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const teams = useMemo<BaseballTeamWithFavorite[]>(() => {
-    const response = teamsQuery.data?.response ?? [];
-    return response.map(team => ({
-      ...team,
-      favorited: favoritedIds.has(String(team.id)),
-    }));
-  }, [teamsQuery.data?.response, favoritedIds]);
+export interface UseInfiniteBaseballTeamsResult
+  extends
+    UseBaseballTeamsResult,
+    SportEntityPageResult<BaseballTeamWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (teamId: number, favorited: boolean) => {
-      const itemId = String(teamId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useBaseballTeams, handing the teams out a page at a time
+ */
+export const useInfiniteBaseballTeams: SportEntityHook<
+  UseInfiniteBaseballTeamsOptions | undefined,
+  UseInfiniteBaseballTeamsResult
+> = createInfiniteSportEntityHook({
+  useApi: useBaseballTeamsApi,
+  subcategory: 'baseball',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  return {
-    teams,
-    isLoading: teamsQuery.isLoading || favoritesLoading,
-    isError: teamsQuery.isError,
-    error: teamsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the teams and favorites read by useBaseballTeams, e.g. on the server
+ */
+export const prefetchBaseballTeams = createSportPrefetch<
+  ApiBaseballClient,
+  BaseballTeamsParams
+>({
+  queryKey: heavymathKeys.sports.baseball.teams,
+  queryFn: (client, params) => client.getTeams(params),
+  subcategory: 'baseball',
+  type: 'team',
+});
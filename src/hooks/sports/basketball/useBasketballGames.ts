@@ -2,27 +2,35 @@
  * Hook for basketball games with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiBasketballClient,
   type BasketballGame,
   type BasketballGamesParams,
   useBasketballGames as useBasketballGamesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'basketball';
-const FAVORITES_TYPE = 'game';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 export interface BasketballGameWithFavorite extends BasketballGame {
   favorited: boolean;
 }
 
-export interface UseBasketballGamesOptions {
+export interface UseBasketballGamesOptions
+  extends
+    SportEntityListOptions<BasketballGameWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: BasketballGamesParams;
   enabled?: boolean;
 }
@@ -33,71 +41,67 @@ export interface UseBasketballGamesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (gameId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    gameIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useBasketballGames(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseBasketballGamesOptions
-): UseBasketballGamesResult {
-  const gamesQuery = useBasketballGamesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useBasketballGames: SportEntityHook<
+  UseBasketballGamesOptions | undefined,
+  UseBasketballGamesResult
+> = createSportEntityHook({
+  useApi: useBasketballGamesApi,
+  subcategory: 'basketball',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteBasketballGamesOptions
+  extends
+    Omit<
+      UseBasketballGamesOptions,
+      keyof SportEntityListOptions<BasketballGameWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const games = useMemo<BasketballGameWithFavorite[]>(() => {
-    const response = gamesQuery.data?.response ?? [];
-    return response.map(game => ({
-      ...game,
-      favorited: favoritedIds.has(String(game.id)),
-    }));
-  }, [gamesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteBasketballGamesResult
+  extends
+    UseBasketballGamesResult,
+    SportEntityPageResult<BasketballGameWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (gameId: number, favorited: boolean) => {
-      const itemId = String(gameId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useBasketballGames, handing the games out a page at a time
+ */
+export const useInfiniteBasketballGames: SportEntityHook<
+  UseInfiniteBasketballGamesOptions | undefined,
+  UseInfiniteBasketballGamesResult
+> = createInfiniteSportEntityHook({
+  useApi: useBasketballGamesApi,
+  subcategory: 'basketball',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  return {
-    games,
-    isLoading: gamesQuery.isLoading || favoritesLoading,
-    isError: gamesQuery.isError,
-    error: gamesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the games and favorites read by useBasketballGames, e.g. on the server
+ */
+export const prefetchBasketballGames = createSportPrefetch<
+  ApiBasketballClient,
+  BasketballGamesParams
+>({
+  queryKey: heavymathKeys.sports.basketball.games,
+  queryFn: (client, params) => client.getGames(params),
+  subcategory: 'basketball',
+  type: 'game',
+});
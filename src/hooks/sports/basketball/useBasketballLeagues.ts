@@ -2,27 +2,33 @@
  * Hook for basketball leagues with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiBasketballClient,
   type BasketballLeagueResponse,
   type BasketballLeaguesParams,
   useBasketballLeagues as useBasketballLeaguesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'basketball';
-const FAVORITES_TYPE = 'league';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface BasketballLeagueWithFavorite extends BasketballLeagueResponse {
   favorited: boolean;
 }
 
-export interface UseBasketballLeaguesOptions {
+export interface UseBasketballLeaguesOptions
+  extends
+    SportEntityListOptions<BasketballLeagueWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: BasketballLeaguesParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseBasketballLeaguesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (leagueId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    leagueIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useBasketballLeagues(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseBasketballLeaguesOptions
-): UseBasketballLeaguesResult {
-  const leaguesQuery = useBasketballLeaguesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useBasketballLeagues: SportEntityHook<
+  UseBasketballLeaguesOptions | undefined,
+  UseBasketballLeaguesResult
+> = createSportEntityHook({
+  useApi: useBasketballLeaguesApi,
+  subcategory: 'basketball',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteBasketballLeaguesOptions
+  extends
+    Omit<
+      UseBasketballLeaguesOptions,
+      keyof SportEntityListOptions<BasketballLeagueWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const leagues = useMemo<BasketballLeagueWithFavorite[]>(() => {
-    const response = leaguesQuery.data?.response ?? [];
-    return response.map(league => ({
-      ...league,
-      favorited: favoritedIds.has(String(league.id)),
-    }));
-  }, [leaguesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteBasketballLeaguesResult
+  extends
+    UseBasketballLeaguesResult,
+    SportEntityPageResult<BasketballLeagueWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (leagueId: number, favorited: boolean) => {
-      const itemId = String(leagueId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useBasketballLeagues, handing the leagues out a page at a time
+ */
+export const useInfiniteBasketballLeagues: SportEntityHook<
+  UseInfiniteBasketballLeaguesOptions | undefined,
+  UseInfiniteBasketballLeaguesResult
+> = createInfiniteSportEntityHook({
+  useApi: useBasketballLeaguesApi,
+  subcategory: 'basketball',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  return {
-    leagues,
-    isLoading: leaguesQuery.isLoading || favoritesLoading,
-    isError: leaguesQuery.isError,
-    error: leaguesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the leagues and favorites read by useBasketballLeagues, e.g. on the server
+ */
+export const prefetchBasketballLeagues = createSportPrefetch<
+  ApiBasketballClient,
+  BasketballLeaguesParams
+>({
+  queryKey: heavymathKeys.sports.basketball.leagues,
+  queryFn: (client, params) => client.getLeagues(params),
+  subcategory: 'basketball',
+  type: 'league',
+});
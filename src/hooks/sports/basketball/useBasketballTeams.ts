@@ -2,27 +2,33 @@
  * Hook for basketball teams with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiBasketballClient,
   type BasketballTeamResponse,
   type BasketballTeamsParams,
   useBasketballTeams as useBasketballTeamsApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'basketball';
-const FAVORITES_TYPE = 'team';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface BasketballTeamWithFavorite extends BasketballTeamResponse {
   favorited: boolean;
 }
 
-export interface UseBasketballTeamsOptions {
+export interface UseBasketballTeamsOptions
+  extends
+    SportEntityListOptions<BasketballTeamWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: BasketballTeamsParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseBasketballTeamsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (teamId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    teamIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useBasketballTeams(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseBasketballTeamsOptions
-): UseBasketballTeamsResult {
-  const teamsQuery = useBasketballTeamsApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useBasketballTeams: SportEntityHook<
+  UseBasketballTeamsOptions | undefined,
+  UseBasketballTeamsResult
+> = createSportEntityHook({
+  useApi: useBasketballTeamsApi,
+  subcategory: 'basketball',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteBasketballTeamsOptions
+  extends
+    Omit<
+      UseBasketballTeamsOptions,
+      keyof SportEntityListOptions<BasketballTeamWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const teams = useMemo<BasketballTeamWithFavorite[]>(() => {
-    const response = teamsQuery.data?.response ?? [];
-    return response.map(team => ({
-      ...team,
-      favorited: favoritedIds.has(String(team.id)),
-    }));
-  }, [teamsQuery.data?.response, favoritedIds]);
+export interface UseInfiniteBasketballTeamsResult
+  extends
+    UseBasketballTeamsResult,
+    SportEntityPageResult<BasketballTeamWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (teamId: number, favorited: boolean) => {
-      const itemId = String(teamId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useBasketballTeams, handing the teams out a page at a time
+ */
+export const useInfiniteBasketballTeams: SportEntityHook<
+  UseInfiniteBasketballTeamsOptions | undefined,
+  UseInfiniteBasketballTeamsResult
+> = createInfiniteSportEntityHook({
+  useApi: useBasketballTeamsApi,
+  subcategory: 'basketball',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  return {
-    teams,
-    isLoading: teamsQuery.isLoading || favoritesLoading,
-    isError: teamsQuery.isError,
-    error: teamsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the teams and favorites read by useBasketballTeams, e.g. on the server
+ */
+export const prefetchBasketballTeams = createSportPrefetch<
+  ApiBasketballClient,
+  BasketballTeamsParams
+>({
+  queryKey: heavymathKeys.sports.basketball.teams,
+  queryFn: (client, params) => client.getTeams(params),
+  subcategory: 'basketball',
+  type: 'team',
+});
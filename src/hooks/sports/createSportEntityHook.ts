@@ -0,0 +1,890 @@
+/**
+ * Factory for sports entity hooks with favorites support
+ * Combines any list hook from sports_api_client with useFavorites from indexer_client
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  type IndexerClient,
+  useFavorites,
+  type WalletFavoriteData,
+} from '@sudobility/heavymath_indexer_client';
+import {
+  type FavoriteBulkResult,
+  type FavoriteFilter,
+  type FavoriteScope,
+  SPORTS_FAVORITES_CATEGORY,
+} from '../../types';
+import { heavymathKeys } from '../queryKeys';
+import {
+  type SportFavoritesSyncOptions,
+  useFavoritesSync,
+  useLocalFavoriteIds,
+} from './favoritesSync';
+import { getLivePollingInterval, type SportLiveOptions } from './livePolling';
+import { invalidateWalletFavorites } from './sportQueries';
+import { applyFavoritesInBulk } from './useFavoritesBulk';
+
+/**
+ * Minimal shape of a sports_api_client list query consumed by the factory
+ */
+export interface SportApiListQuery<TEntity> {
+  data?: { response?: TEntity[] } | undefined;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Entity decorated with its favorite status
+ */
+export type WithFavorite<T> = T & { favorited: boolean };
+
+/**
+ * Favorites filtering and sorting applied to a hook's merged list
+ */
+export interface SportEntityListOptions<TItem extends { favorited: boolean }> {
+  /** Only return favorited entities */
+  favoritesOnly?: boolean;
+  /** Move favorited entities ahead of the rest, keeping relative order */
+  sortFavoritesFirst?: boolean;
+  /** Custom order, applied within the favorites-first partition if enabled */
+  compare?: (a: TItem, b: TItem) => number;
+}
+
+/**
+ * Configuration for createSportEntityHook
+ */
+export interface SportEntityHookConfig<
+  TEntity,
+  TOptions,
+  TId extends string | number,
+  TKey extends string,
+  TItem = TEntity,
+> {
+  /** List hook from sports_api_client, called with the hook options as-is */
+  useApi: (options: TOptions) => SportApiListQuery<TEntity>;
+  /** Favorites category, defaults to 'sports' */
+  category?: string;
+  /** Favorites subcategory, e.g. 'football' */
+  subcategory: string;
+  /** Favorites type, e.g. 'match' */
+  type: string;
+  /** Property name the merged list is returned under, e.g. 'matches' */
+  listKey: TKey;
+  /** Extracts the id used as the favorite itemId */
+  getId: (entity: TEntity) => TId;
+  /** Maps an API entity to the returned item, defaults to a shallow copy */
+  toItem?: (entity: TEntity) => TItem;
+  /** Extracts the short status code, enables the `live` option for games */
+  getStatus?: (entity: TEntity) => string;
+}
+
+/**
+ * Fields shared by every sports entity hook result
+ */
+export interface SportEntityHookBaseResult<TId extends string | number> {
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  setFavorited: (id: TId, favorited: boolean) => Promise<void>;
+  /**
+   * Set the favorite status of many entities, resolving with one result per
+   * distinct id. Failures are reported per id and do not reject.
+   */
+  setManyFavorited: (
+    ids: readonly TId[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<TId>[]>;
+  favoritesLoading: boolean;
+  addFavoritePending: boolean;
+  removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  /** Number of favorited entities in the API response */
+  favoritedCount: number;
+  /** Number of entities in the API response, before favoritesOnly */
+  totalCount: number;
+}
+
+/**
+ * Result of a hook created by createSportEntityHook
+ */
+export type SportEntityHookResult<
+  TKey extends string,
+  TItem,
+  TId extends string | number,
+> = Record<TKey, WithFavorite<TItem>[]> & SportEntityHookBaseResult<TId>;
+
+/**
+ * Signature of a sports entity hook; options may be omitted when optional
+ */
+export type SportEntityHook<TOptions, TResult> = (
+  indexerClient: IndexerClient,
+  walletAddress: string | undefined,
+  ...options: undefined extends TOptions
+    ? [options?: TOptions]
+    : [options: TOptions]
+) => TResult;
+
+/**
+ * Entities per page of the infinite hooks, unless overridden
+ */
+export const DEFAULT_SPORT_PAGE_SIZE = 50;
+
+/**
+ * Paging option of the infinite sports entity hooks
+ */
+export interface SportEntityPageOptions {
+  /** Entities per page, defaults to DEFAULT_SPORT_PAGE_SIZE */
+  pageSize?: number;
+}
+
+/**
+ * Paging fields of an infinite sports entity hook result
+ */
+export interface SportEntityPageResult<TItem> {
+  /** Loaded pages; a page keeps its identity until one of its items changes */
+  pages: TItem[][];
+  hasNextPage: boolean;
+  /** Load one more page, ignored once every page is loaded */
+  fetchNextPage: () => void;
+}
+
+/**
+ * Result of a hook created by createInfiniteSportEntityHook
+ */
+export type InfiniteSportEntityHookResult<
+  TKey extends string,
+  TItem,
+  TId extends string | number,
+> = SportEntityHookResult<TKey, TItem, TId> &
+  SportEntityPageResult<WithFavorite<TItem>>;
+
+/**
+ * Copy of an optimistic overrides map without the given item
+ */
+function withoutOverride(
+  overrides: Record<string, boolean>,
+  itemId: string
+): Record<string, boolean> {
+  if (!(itemId in overrides)) return overrides;
+  const next = { ...overrides };
+  delete next[itemId];
+  return next;
+}
+
+/**
+ * Filter and sort a merged list according to the list options
+ */
+function applyListOptions<TItem extends { favorited: boolean }>(
+  items: TItem[],
+  listOptions: SportEntityListOptions<TItem>
+): TItem[] {
+  const { favoritesOnly, sortFavoritesFirst, compare } = listOptions;
+  const filtered = favoritesOnly ? items.filter(item => item.favorited) : items;
+  if (!sortFavoritesFirst && !compare) return filtered;
+
+  return [...filtered].sort((a, b) => {
+    if (sortFavoritesFirst && a.favorited !== b.favorited) {
+      return a.favorited ? -1 : 1;
+    }
+    return compare ? compare(a, b) : 0;
+  });
+}
+
+/**
+ * Favorite status and favorite changes of one entity list
+ */
+type EntityFavorites<TId extends string | number> = Pick<
+  SportEntityHookBaseResult<TId>,
+  | 'setFavorited'
+  | 'setManyFavorited'
+  | 'favoritesLoading'
+  | 'addFavoritePending'
+  | 'removeFavoritePending'
+  | 'favoriteError'
+> & {
+  /** Item ids shown as favorited, with pending changes applied */
+  favoritedIds: Set<string>;
+  /** Neither wallet, prefetched nor local favorites are known yet */
+  awaitingFavorites: boolean;
+};
+
+/**
+ * Favorites of one entity list, shared by the list and infinite factories
+ */
+function useEntityFavorites<TId extends string | number>(
+  indexerClient: IndexerClient,
+  walletAddress: string | undefined,
+  filter: FavoriteFilter,
+  syncOptions: SportFavoritesSyncOptions
+): EntityFavorites<TId> {
+  const { category, subcategory, type } = filter;
+  const { favoritesQueue, localFavorites, favoritesConcurrency } = syncOptions;
+
+  // Fetch favorites for this sport and entity type
+  const {
+    favorites,
+    isLoading: favoritesLoading,
+    addFavorite,
+    removeFavorite,
+  } = useFavorites(indexerClient, walletAddress, {
+    category,
+    subcategory,
+    type,
+  });
+
+  // Favorites prefetched on the server, only read from the cache
+  const { data: prefetchedFavorites } = useQuery<WalletFavoriteData[]>({
+    queryKey: heavymathKeys.favorites.list(
+      walletAddress ?? '',
+      category,
+      subcategory,
+      type
+    ),
+    enabled: false,
+  });
+  const showPrefetched = favoritesLoading && prefetchedFavorites !== undefined;
+  const serverFavorites: WalletFavoriteData[] = showPrefetched
+    ? prefetchedFavorites
+    : favorites;
+
+  // Device-only favorites while no wallet is connected
+  const localIds = useLocalFavoriteIds(
+    walletAddress ? undefined : localFavorites,
+    { category, subcategory, type }
+  );
+
+  const queryClient = useQueryClient();
+
+  // Favorite changes applied locally until the server list agrees
+  const [overrides, setOverrides] = useState<Record<string, boolean>>({});
+  const [favoriteError, setFavoriteError] = useState<Error | null>(null);
+
+  // Adds in flight by item id, so a removal can wait for the favorite
+  const pendingAdds = useRef(new Map<string, Promise<unknown>>());
+
+  // Changes kept in the offline queue, when one is given
+  const scope = useMemo<FavoriteScope | null>(
+    () =>
+      walletAddress ? { walletAddress, category, subcategory, type } : null,
+    [walletAddress, category, subcategory, type]
+  );
+  const { queuedFavorites, queueFavorite, queueFavorites } = useFavoritesSync({
+    queue: favoritesQueue,
+    scope,
+    favorites: serverFavorites,
+    favoritesLoading,
+    add: change =>
+      addFavorite.mutateAsync({
+        category,
+        subcategory,
+        type,
+        id: change.itemId,
+      }),
+    remove: async (_change, favoriteId) => {
+      const favorite = serverFavorites.find(f => String(f.id) === favoriteId);
+      // Nothing left to remove when the server list no longer has it
+      if (favorite) await removeFavorite.mutateAsync(favorite.id);
+    },
+    onError: setFavoriteError,
+  });
+
+  // Create a set of favorited IDs for O(1) lookup
+  const serverFavoritedIds = useMemo<Set<string>>(() => {
+    if (localIds) return localIds;
+    return new Set(serverFavorites.map(f => f.itemId));
+  }, [serverFavorites, localIds]);
+
+  // Reconcile: drop overrides the server list now reflects
+  useEffect(() => {
+    setOverrides(current => {
+      const pending = Object.entries(current).filter(
+        ([itemId, favorited]) => serverFavoritedIds.has(itemId) !== favorited
+      );
+      return pending.length === Object.keys(current).length
+        ? current
+        : Object.fromEntries(pending);
+    });
+  }, [serverFavoritedIds]);
+
+  // Server favorites with queued changes and optimistic overrides applied
+  const favoritedIds = useMemo(() => {
+    const ids = new Set(serverFavoritedIds);
+    [...queuedFavorites, ...Object.entries(overrides)].forEach(
+      ([itemId, favorited]) => {
+        if (favorited) {
+          ids.add(itemId);
+        } else {
+          ids.delete(itemId);
+        }
+      }
+    );
+    return ids;
+  }, [serverFavoritedIds, queuedFavorites, overrides]);
+
+  // Set favorite status for an entity, optimistically
+  const setFavorited = useCallback(
+    async (id: TId, favorited: boolean) => {
+      const itemId = String(id);
+
+      setFavoriteError(null);
+
+      if (!walletAddress && localFavorites) {
+        localFavorites.setFavorited(
+          { category, subcategory, type },
+          itemId,
+          favorited
+        );
+        return;
+      }
+
+      // Queued changes survive going offline and are replayed in order
+      if (favoritesQueue && walletAddress) {
+        try {
+          await queueFavorite(itemId, favorited);
+        } catch (err) {
+          const error = err instanceof Error ? err : new Error(String(err));
+          setFavoriteError(error);
+          throw error;
+        }
+        return;
+      }
+
+      setOverrides(current => ({ ...current, [itemId]: favorited }));
+
+      try {
+        const pendingAdd = pendingAdds.current.get(itemId);
+        if (favorited) {
+          const add = addFavorite.mutateAsync({
+            category,
+            subcategory,
+            type,
+            id: itemId,
+          });
+          pendingAdds.current.set(itemId, add);
+          try {
+            await add;
+          } finally {
+            if (pendingAdds.current.get(itemId) === add) {
+              pendingAdds.current.delete(itemId);
+            }
+          }
+        } else if (pendingAdd && walletAddress) {
+          // The favorite only has an id once the add lands; remove it from
+          // a fresh server list then
+          await pendingAdd.catch(() => undefined);
+          const [result] = await applyFavoritesInBulk(
+            indexerClient,
+            walletAddress,
+            { category, subcategory, type },
+            [itemId],
+            false
+          );
+          if (result.error) throw result.error;
+          if (result.status === 'updated') {
+            void invalidateWalletFavorites(queryClient, walletAddress);
+          } else {
+            setOverrides(current => withoutOverride(current, itemId));
+          }
+        } else {
+          const favorite = serverFavorites.find(f => f.itemId === itemId);
+          if (favorite) {
+            await removeFavorite.mutateAsync(favorite.id);
+          } else {
+            // Nothing on the server to remove
+            setOverrides(current => withoutOverride(current, itemId));
+          }
+        }
+      } catch (err) {
+        // Roll back to the server state and surface the failure
+        setOverrides(current => withoutOverride(current, itemId));
+        const error = err instanceof Error ? err : new Error(String(err));
+        setFavoriteError(error);
+        throw error;
+      }
+    },
+    [
+      addFavorite,
+      removeFavorite,
+      serverFavorites,
+      indexerClient,
+      queryClient,
+      favoritesQueue,
+      localFavorites,
+      walletAddress,
+      queueFavorite,
+      category,
+      subcategory,
+      type,
+    ]
+  );
+
+  // Set favorite status for many entities, with a single refetch at the end
+  const setManyFavorited = useCallback(
+    async (
+      ids: readonly TId[],
+      favorited: boolean
+    ): Promise<FavoriteBulkResult<TId>[]> => {
+      const byItem = new Map(ids.map(id => [String(id), id]));
+      const changed = [...byItem.keys()].filter(
+        itemId => favoritedIds.has(itemId) !== favorited
+      );
+      const failed = new Map<string, Error>();
+
+      setFavoriteError(null);
+
+      if (!walletAddress && localFavorites) {
+        changed.forEach(itemId =>
+          localFavorites.setFavorited(
+            { category, subcategory, type },
+            itemId,
+            favorited
+          )
+        );
+      } else if (favoritesQueue && walletAddress) {
+        (await queueFavorites(changed, favorited)).forEach((error, itemId) =>
+          failed.set(itemId, error)
+        );
+      } else if (changed.length > 0) {
+        setOverrides(current => ({
+          ...current,
+          ...Object.fromEntries(changed.map(itemId => [itemId, favorited])),
+        }));
+
+        try {
+          if (!walletAddress) {
+            throw new Error('Connect a wallet to change favorites');
+          }
+          const results = await applyFavoritesInBulk(
+            indexerClient,
+            walletAddress,
+            { category, subcategory, type },
+            changed,
+            favorited,
+            favoritesConcurrency
+          );
+          results.forEach(result => {
+            if (result.error) failed.set(result.id, result.error);
+          });
+          // Roll back what the server did not take or already had
+          setOverrides(current =>
+            results
+              .filter(result => result.status !== 'updated')
+              .reduce(
+                (next, result) => withoutOverride(next, result.id),
+                current
+              )
+          );
+          if (results.some(result => result.status === 'updated')) {
+            void invalidateWalletFavorites(queryClient, walletAddress);
+          }
+        } catch (err) {
+          setOverrides(current => changed.reduce(withoutOverride, current));
+          const error = err instanceof Error ? err : new Error(String(err));
+          setFavoriteError(error);
+          throw error;
+        }
+      }
+
+      const firstError = failed.values().next().value;
+      if (firstError) setFavoriteError(firstError);
+
+      return [...byItem].map(([itemId, id]) => {
+        const error = failed.get(itemId) ?? null;
+        return {
+          id,
+          status: error
+            ? 'failed'
+            : changed.includes(itemId)
+              ? 'updated'
+              : 'unchanged',
+          error,
+        };
+      });
+    },
+    [
+      category,
+      favoritedIds,
+      favoritesConcurrency,
+      favoritesQueue,
+      indexerClient,
+      localFavorites,
+      queryClient,
+      queueFavorites,
+      subcategory,
+      type,
+      walletAddress,
+    ]
+  );
+
+  return {
+    favoritedIds,
+    awaitingFavorites: favoritesLoading && !showPrefetched && !localIds,
+    setFavorited,
+    setManyFavorited,
+    favoritesLoading,
+    addFavoritePending: addFavorite.isPending,
+    removeFavoritePending: removeFavorite.isPending,
+    favoriteError,
+  };
+}
+
+/**
+ * API hook options with status-aware polling added in live mode
+ */
+function withLiveOptions<TEntity>(
+  apiOptions: object,
+  live: SportLiveOptions['live'],
+  getStatus: ((entity: TEntity) => string) | undefined
+): object {
+  if (!live || !getStatus) return apiOptions;
+  // Poll at an interval matching the most active game in the response
+  return {
+    ...apiOptions,
+    refetchInterval: (query: {
+      state: { data?: SportApiListQuery<TEntity>['data'] };
+    }) =>
+      getLivePollingInterval(
+        (query.state.data?.response ?? []).map(getStatus),
+        live === true ? undefined : live
+      ),
+    refetchIntervalInBackground: false,
+  };
+}
+
+/**
+ * Create a hook that fetches a sports entity list with favorite status
+ *
+ * @param config - API hook, favorites filters, list key and id extractor
+ * @returns Hook taking (indexerClient, walletAddress, options)
+ *
+ * @example
+ * ```typescript
+ * export const useBaseballGames: SportEntityHook<
+ *   UseBaseballGamesOptions | undefined,
+ *   UseBaseballGamesResult
+ * > = createSportEntityHook({
+ *   useApi: useBaseballGamesApi,
+ *   subcategory: 'baseball',
+ *   type: 'game',
+ *   listKey: 'games',
+ *   getId: game => game.id,
+ * });
+ * ```
+ */
+export function createSportEntityHook<
+  TEntity,
+  TOptions,
+  TId extends string | number,
+  TKey extends string,
+  TItem = TEntity,
+>(
+  config: SportEntityHookConfig<TEntity, TOptions, TId, TKey, TItem>
+): SportEntityHook<TOptions, SportEntityHookResult<TKey, TItem, TId>> {
+  const {
+    useApi,
+    category = SPORTS_FAVORITES_CATEGORY,
+    subcategory,
+    type,
+    listKey,
+    getId,
+    toItem,
+    getStatus,
+  } = config;
+
+  function useSportEntities(
+    indexerClient: IndexerClient,
+    walletAddress: string | undefined,
+    options?: TOptions
+  ): SportEntityHookResult<TKey, TItem, TId> {
+    // List and live options are applied here, the rest goes to the API hook
+    const {
+      favoritesOnly,
+      sortFavoritesFirst,
+      compare,
+      live,
+      favoritesQueue,
+      localFavorites,
+      favoritesConcurrency,
+      ...apiOptions
+    } = (options ?? {}) as SportEntityListOptions<WithFavorite<TItem>> &
+      SportLiveOptions &
+      SportFavoritesSyncOptions;
+
+    // Fetch entities from sports API
+    const entitiesQuery = useApi(
+      (options === undefined
+        ? undefined
+        : withLiveOptions(apiOptions, live, getStatus)) as TOptions
+    );
+
+    const { favoritedIds, awaitingFavorites, ...favoriteFields } =
+      useEntityFavorites<TId>(
+        indexerClient,
+        walletAddress,
+        { category, subcategory, type },
+        { favoritesQueue, localFavorites, favoritesConcurrency }
+      );
+
+    // Combine entities with favorite status
+    const merged = useMemo<WithFavorite<TItem>[]>(() => {
+      const response = entitiesQuery.data?.response ?? [];
+      return response.map(entity => ({
+        ...(toItem ? toItem(entity) : (entity as unknown as TItem)),
+        favorited: favoritedIds.has(String(getId(entity))),
+      }));
+    }, [entitiesQuery.data?.response, favoritedIds]);
+
+    // Apply favorites filtering and sorting
+    const items = useMemo(
+      () =>
+        applyListOptions(merged, {
+          favoritesOnly,
+          sortFavoritesFirst,
+          compare,
+        }),
+      [merged, favoritesOnly, sortFavoritesFirst, compare]
+    );
+
+    const favoritedCount = useMemo(
+      () => merged.filter(item => item.favorited).length,
+      [merged]
+    );
+
+    return {
+      [listKey]: items,
+      isLoading: entitiesQuery.isLoading || awaitingFavorites,
+      isError: entitiesQuery.isError,
+      error: entitiesQuery.error,
+      ...favoriteFields,
+      favoritedCount,
+      totalCount: merged.length,
+    } as SportEntityHookResult<TKey, TItem, TId>;
+  }
+
+  return useSportEntities as SportEntityHook<
+    TOptions,
+    SportEntityHookResult<TKey, TItem, TId>
+  >;
+}
+
+/**
+ * Merged page of an infinite hook, with the favorite flags it was built from
+ */
+interface MergedPage<TItem> {
+  flags: string;
+  items: WithFavorite<TItem>[];
+}
+
+/**
+ * Merged pages of an infinite hook, with the inputs they were built from
+ */
+interface MergedPages<TEntity, TItem> {
+  response: TEntity[] | undefined;
+  size: number;
+  pageCount: number;
+  favoritedIds: ReadonlySet<string>;
+  pages: MergedPage<TItem>[];
+}
+
+/**
+ * Split the loaded entities into pages with their favorite flags
+ *
+ * Pages of `previous` are reused when built from the same response and page
+ * size and their favorites still match.
+ */
+function mergePages<TEntity, TItem, TId extends string | number>(
+  response: TEntity[] | undefined,
+  size: number,
+  pageCount: number,
+  favoritedIds: ReadonlySet<string>,
+  getId: (entity: TEntity) => TId,
+  toItem: ((entity: TEntity) => TItem) | undefined,
+  previous?: MergedPages<TEntity, TItem>
+): MergedPages<TEntity, TItem> {
+  const entities = response ?? [];
+  const reusable =
+    previous && previous.response === response && previous.size === size
+      ? previous.pages
+      : [];
+  const loaded = Math.min(pageCount, Math.ceil(entities.length / size));
+
+  const pages = Array.from({ length: loaded }, (_, index) => {
+    const slice = entities.slice(index * size, (index + 1) * size);
+    const flags = slice
+      .map(entity => (favoritedIds.has(String(getId(entity))) ? '1' : '0'))
+      .join('');
+    const page = reusable[index];
+    if (page && page.flags === flags) return page;
+    return {
+      flags,
+      items: slice.map((entity, position) => ({
+        ...(toItem ? toItem(entity) : (entity as unknown as TItem)),
+        favorited: flags[position] === '1',
+      })),
+    };
+  });
+
+  return { response, size, pageCount, favoritedIds, pages };
+}
+
+/**
+ * Create the infinite variant of a sports entity hook
+ *
+ * The endpoints behind these hooks return their lists whole (only the
+ * football players endpoint takes a `page`), so the list is fetched once,
+ * sharing the cache of the hook built from the same config, and handed out
+ * a page at a time. Favorites are merged per page: a favorite change only
+ * rebuilds the page holding it, so virtualized rows of the other pages keep
+ * their identity. Pages follow the API order; the list options of
+ * createSportEntityHook are not applied.
+ *
+ * @param config - Same config as createSportEntityHook
+ * @returns Hook taking (indexerClient, walletAddress, options)
+ *
+ * @example
+ * ```typescript
+ * export const useInfiniteMmaFighters: SportEntityHook<
+ *   UseInfiniteMmaFightersOptions | undefined,
+ *   UseInfiniteMmaFightersResult
+ * > = createInfiniteSportEntityHook({
+ *   useApi: useMmaFightersApi,
+ *   subcategory: 'mma',
+ *   type: 'fighter',
+ *   listKey: 'fighters',
+ *   getId: fighter => fighter.id,
+ * });
+ * ```
+ */
+export function createInfiniteSportEntityHook<
+  TEntity,
+  TOptions,
+  TId extends string | number,
+  TKey extends string,
+  TItem = TEntity,
+>(
+  config: SportEntityHookConfig<TEntity, TOptions, TId, TKey, TItem>
+): SportEntityHook<
+  TOptions,
+  // The item type comes from the config, not from the declared result
+  NoInfer<InfiniteSportEntityHookResult<TKey, TItem, TId>>
+> {
+  const {
+    useApi,
+    category = SPORTS_FAVORITES_CATEGORY,
+    subcategory,
+    type,
+    listKey,
+    getId,
+    toItem,
+    getStatus,
+  } = config;
+
+  function useInfiniteSportEntities(
+    indexerClient: IndexerClient,
+    walletAddress: string | undefined,
+    options?: TOptions
+  ): InfiniteSportEntityHookResult<TKey, TItem, TId> {
+    // Paging and live options are applied here, the rest goes to the API hook
+    const {
+      pageSize = DEFAULT_SPORT_PAGE_SIZE,
+      live,
+      favoritesQueue,
+      localFavorites,
+      favoritesConcurrency,
+      ...apiOptions
+    } = (options ?? {}) as SportEntityPageOptions &
+      SportLiveOptions &
+      SportFavoritesSyncOptions & { params?: unknown };
+    const size = Math.max(1, Math.floor(pageSize));
+
+    // Fetch entities from sports API
+    const entitiesQuery = useApi(
+      (options === undefined
+        ? undefined
+        : withLiveOptions(apiOptions, live, getStatus)) as TOptions
+    );
+    const response = entitiesQuery.data?.response;
+
+    const { favoritedIds, awaitingFavorites, ...favoriteFields } =
+      useEntityFavorites<TId>(
+        indexerClient,
+        walletAddress,
+        { category, subcategory, type },
+        { favoritesQueue, localFavorites, favoritesConcurrency }
+      );
+
+    // Back to the first page whenever the params change
+    const paramsKey = JSON.stringify(apiOptions.params ?? null);
+    const [paging, setPaging] = useState({ paramsKey, count: 1 });
+    const pageCount = paging.paramsKey === paramsKey ? paging.count : 1;
+    const hasNextPage = pageCount * size < (response?.length ?? 0);
+
+    const fetchNextPage = useCallback(() => {
+      if (!hasNextPage) return;
+      setPaging(current => ({
+        paramsKey,
+        count: (current.paramsKey === paramsKey ? current.count : 1) + 1,
+      }));
+    }, [hasNextPage, paramsKey]);
+
+    // Pages of the previous render, reused while their favorites match.
+    // Kept in state and rebuilt during render when an input changes, so no
+    // ref is read or written while rendering.
+    const [merged, setMerged] = useState(() =>
+      mergePages(response, size, pageCount, favoritedIds, getId, toItem)
+    );
+    let current = merged;
+    if (
+      merged.response !== response ||
+      merged.size !== size ||
+      merged.pageCount !== pageCount ||
+      merged.favoritedIds !== favoritedIds
+    ) {
+      current = mergePages(
+        response,
+        size,
+        pageCount,
+        favoritedIds,
+        getId,
+        toItem,
+        merged
+      );
+      setMerged(current);
+    }
+
+    const pages = useMemo(
+      () => current.pages.map(page => page.items),
+      [current]
+    );
+    const items = useMemo(() => pages.flat(), [pages]);
+
+    const favoritedCount = useMemo(
+      () =>
+        (response ?? []).filter(entity =>
+          favoritedIds.has(String(getId(entity)))
+        ).length,
+      [response, favoritedIds]
+    );
+
+    return {
+      [listKey]: items,
+      pages,
+      hasNextPage,
+      fetchNextPage,
+      isLoading: entitiesQuery.isLoading || awaitingFavorites,
+      isError: entitiesQuery.isError,
+      error: entitiesQuery.error,
+      ...favoriteFields,
+      favoritedCount,
+      totalCount: response?.length ?? 0,
+    } as InfiniteSportEntityHookResult<TKey, TItem, TId>;
+  }
+
+  return useInfiniteSportEntities as SportEntityHook<
+    TOptions,
+    InfiniteSportEntityHookResult<TKey, TItem, TId>
+  >;
+}
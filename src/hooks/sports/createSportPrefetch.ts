@@ -0,0 +1,128 @@
+/**
+ * Factory for server-side prefetch functions of the sports hooks
+ * Fills a QueryClient so the hooks render with data after hydration
+ */
+
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+import type { WalletFavoriteData } from '@sudobility/heavymath_indexer_client';
+import {
+  type FavoritesIndexerClient,
+  SPORTS_FAVORITES_CATEGORY,
+} from '../../types';
+import { heavymathKeys } from '../queryKeys';
+
+/**
+ * Options of a prefetch function, mirroring the matching hook's options
+ */
+export interface SportPrefetchOptions<TParams> {
+  /** Same params as passed to the hook, so the query keys match */
+  params?: TParams;
+  /** With walletAddress, also prefetches the wallet's favorites */
+  indexerClient?: FavoritesIndexerClient;
+  walletAddress?: string;
+  /** Skip fetching when the cached data is younger, in milliseconds */
+  staleTime?: number;
+}
+
+/**
+ * Prefetch function created by createSportPrefetch
+ */
+export type SportPrefetch<TClient, TParams> = (
+  queryClient: QueryClient,
+  apiClient: TClient,
+  options?: SportPrefetchOptions<TParams>
+) => Promise<void>;
+
+/**
+ * Configuration for createSportPrefetch, matching the hook's config
+ */
+export interface SportPrefetchConfig<TClient, TParams> {
+  /** List key factory from sports_api_client, e.g. apiFootballKeys.fixtures.list */
+  queryKey: (params: TParams) => QueryKey;
+  /** Fetches the list as the sports_api_client hook does */
+  queryFn: (apiClient: TClient, params: TParams) => Promise<unknown>;
+  /** Favorites category, defaults to 'sports' */
+  category?: string;
+  /** Favorites subcategory, e.g. 'football' */
+  subcategory: string;
+  /** Favorites type, e.g. 'match' */
+  type: string;
+}
+
+/**
+ * Create a function prefetching a sports hook's list and favorites
+ *
+ * The list is stored under the sports_api_client key its hook reads, and
+ * the wallet's favorites under heavymathKeys.favorites.list, which the hook
+ * shows and unfavorites from until useFavorites has loaded. Failed fetches are left for the client to retry.
+ *
+ * @param config - Key factory, fetcher and favorites filters of the hook
+ * @returns Function taking (queryClient, apiClient, options)
+ *
+ * @example
+ * ```typescript
+ * export const prefetchBaseballGames = createSportPrefetch<
+ *   ApiBaseballClient,
+ *   BaseballGamesParams
+ * >({
+ *   queryKey: apiBaseballKeys.games.list,
+ *   queryFn: (client, params) => client.getGames(params),
+ *   subcategory: 'baseball',
+ *   type: 'game',
+ * });
+ *
+ * // In a Next.js server component
+ * const queryClient = new QueryClient();
+ * await prefetchFootballMatches(queryClient, footballClient, {
+ *   params: { date: today },
+ *   indexerClient,
+ *   walletAddress,
+ * });
+ * return (
+ *   <HydrationBoundary state={dehydrate(queryClient)}>
+ *     <TodayMatches />
+ *   </HydrationBoundary>
+ * );
+ * ```
+ */
+export function createSportPrefetch<TClient, TParams>(
+  config: SportPrefetchConfig<TClient, TParams>
+): SportPrefetch<TClient, TParams> {
+  const {
+    queryKey,
+    queryFn,
+    category = SPORTS_FAVORITES_CATEGORY,
+    subcategory,
+    type,
+  } = config;
+
+  return async (queryClient, apiClient, options = {}) => {
+    const { indexerClient, walletAddress, staleTime } = options;
+    const params = options.params as TParams;
+
+    await Promise.all([
+      queryClient.prefetchQuery({
+        queryKey: queryKey(params),
+        queryFn: () => queryFn(apiClient, params),
+        staleTime,
+      }),
+      indexerClient && walletAddress
+        ? queryClient.prefetchQuery({
+            queryKey: heavymathKeys.favorites.list(
+              walletAddress,
+              category,
+              subcategory,
+              type
+            ),
+            queryFn: (): Promise<WalletFavoriteData[]> =>
+              indexerClient.getWalletFavorites(walletAddress, {
+                category,
+                subcategory,
+                type,
+              }),
+            staleTime,
+          })
+        : undefined,
+    ]);
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Offline and local favorites for the hooks built on createSportEntityHook
+ * Applies queued favorite changes and replays them when the connection returns,
+ * and reads device-only favorites while no wallet is connected
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from 'react';
+import { onlineManager } from '@tanstack/react-query';
+import type {
+  FavoriteFilter,
+  FavoriteScope,
+  FavoritesQueue,
+  FavoriteSyncResult,
+  LocalFavorite,
+  LocalFavoritesStore,
+  QueuedFavoriteChange,
+  ServerFavorite,
+} from '../../types';
+import { isInFavoriteScope, isNetworkError } from '../../utils';
+
+/**
+ * Offline and local favorites options of the sports entity hooks
+ */
+export interface SportFavoritesSyncOptions {
+  /**
+   * Queue from createFavoritesQueue. Favorite changes are then kept in its
+   * storage and replayed when the connection returns, instead of failing
+   * while offline. React Native apps must wire react-query's onlineManager
+   * to NetInfo for this to apply.
+   */
+  favoritesQueue?: FavoritesQueue;
+  /**
+   * Store from createLocalFavorites, read and changed instead of the
+   * indexer while `walletAddress` is undefined
+   */
+  localFavorites?: LocalFavoritesStore;
+  /**
+   * Indexer calls in flight at once during setManyFavorited, defaults to
+   * DEFAULT_FAVORITES_CONCURRENCY
+   */
+  favoritesConcurrency?: number;
+}
+
+/**
+ * Indexer calls replaying a change through the hook's favorites mutations
+ */
+interface FavoriteSyncMutations {
+  add: (change: QueuedFavoriteChange) => Promise<unknown>;
+  remove: (
+    change: QueuedFavoriteChange,
+    favoriteId: string
+  ) => Promise<unknown>;
+}
+
+/**
+ * Options for useFavoritesSync
+ */
+interface UseFavoritesSyncOptions extends FavoriteSyncMutations {
+  queue: FavoritesQueue | undefined;
+  /** `null` without a wallet, which disables the queue */
+  scope: FavoriteScope | null;
+  favorites: readonly ServerFavorite[];
+  favoritesLoading: boolean;
+  /** Called with changes the indexer rejected during a replay */
+  onError: (error: Error) => void;
+}
+
+const noChanges: readonly QueuedFavoriteChange[] = [];
+const noLocalFavorites: readonly LocalFavorite[] = [];
+
+const subscribeNone = () => () => undefined;
+const getNoChanges = () => noChanges;
+const getNoLocalFavorites = () => noLocalFavorites;
+const subscribeOnline = (listener: () => void) =>
+  onlineManager.subscribe(listener);
+const getOnline = () => onlineManager.isOnline();
+const getServerOnline = () => true;
+
+/**
+ * Queued favorite changes of a scope, replayed while online
+ *
+ * @returns The queued favorite state per item id, a function queueing a
+ * change that rejects only when the indexer refuses it, and one queueing a
+ * batch that resolves with the errors of the refused items
+ */
+export function useFavoritesSync({
+  queue,
+  scope,
+  favorites,
+  favoritesLoading,
+  add,
+  remove,
+  onError,
+}: UseFavoritesSyncOptions) {
+  const changes = useSyncExternalStore(
+    queue?.subscribe ?? subscribeNone,
+    queue?.getChanges ?? getNoChanges,
+    queue?.getChanges ?? getNoChanges
+  );
+  const online = useSyncExternalStore(
+    subscribeOnline,
+    getOnline,
+    getServerOnline
+  );
+
+  // Latest server list and mutations, read when a replay reaches a change
+  const latest = useRef({ favorites, add, remove, onError });
+  useEffect(() => {
+    latest.current = { favorites, add, remove, onError };
+  });
+
+  // Last queued state of every item, including changes awaiting the list
+  const queuedFavorites = useMemo(() => {
+    const byItem = new Map<string, boolean>();
+    if (!scope) return byItem;
+    changes.forEach(change => {
+      if (isInFavoriteScope(change, scope)) {
+        byItem.set(change.itemId, change.favorited);
+      }
+    });
+    return byItem;
+  }, [changes, scope]);
+
+  const replay = useCallback(async (): Promise<FavoriteSyncResult[]> => {
+    if (!queue || !scope) return [];
+    return queue.flush(scope, latest.current.favorites, {
+      add: change => latest.current.add(change),
+      remove: (change, favoriteId) => latest.current.remove(change, favoriteId),
+      isRetryable: error => !onlineManager.isOnline() || isNetworkError(error),
+    });
+  }, [queue, scope]);
+
+  // Replay on load, when back online and whenever the server list changes
+  const hasChanges = queuedFavorites.size > 0;
+  useEffect(() => {
+    if (!online || favoritesLoading || !hasChanges) return;
+    void replay().then(results => {
+      const failed = results.find(result => result.status === 'failed');
+      if (failed?.error) latest.current.onError(failed.error);
+    });
+  }, [online, favoritesLoading, hasChanges, favorites, replay]);
+
+  const queueFavorites = useCallback(
+    async (
+      itemIds: readonly string[],
+      favorited: boolean
+    ): Promise<Map<string, Error>> => {
+      const failed = new Map<string, Error>();
+      if (!queue || !scope) return failed;
+      await queue.ready;
+      const queued = itemIds.flatMap(itemId => {
+        const change = queue.enqueue(
+          scope,
+          itemId,
+          favorited,
+          latest.current.favorites
+        );
+        return change ? [change] : [];
+      });
+      if (queued.length === 0 || !onlineManager.isOnline()) return failed;
+
+      // One replay sends the whole batch
+      const results = await replay();
+      queued.forEach(change => {
+        const result = results.find(({ change: { id } }) => id === change.id);
+        if (result?.status === 'failed' && result.error) {
+          failed.set(change.itemId, result.error);
+        }
+      });
+      return failed;
+    },
+    [queue, scope, replay]
+  );
+
+  const queueFavorite = useCallback(
+    async (itemId: string, favorited: boolean) => {
+      const error = (await queueFavorites([itemId], favorited)).get(itemId);
+      if (error) throw error;
+    },
+    [queueFavorites]
+  );
+
+  return { queuedFavorites, queueFavorite, queueFavorites };
+}
+
+/**
+ * Item ids of the local favorites of one list
+ *
+ * @param store - Local favorites, or `undefined` when not in local mode
+ * @param filter - Category, subcategory and type of the list
+ * @returns The favorited item ids, or `null` without a store
+ */
+export function useLocalFavoriteIds(
+  store: LocalFavoritesStore | undefined,
+  filter: FavoriteFilter
+): Set<string> | null {
+  const favorites = useSyncExternalStore(
+    store?.subscribe ?? subscribeNone,
+    store?.getFavorites ?? getNoLocalFavorites,
+    store?.getFavorites ?? getNoLocalFavorites
+  );
+  const { category, subcategory, type } = filter;
+
+  return useMemo(() => {
+    if (!store) return null;
+    return new Set(
+      favorites
+        .filter(
+          favorite =>
+            favorite.category === category &&
+            favorite.subcategory === subcategory &&
+            favorite.type === type
+        )
+        .map(favorite => favorite.itemId)
+    );
+  }, [store, favorites, category, subcategory, type]);
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useFootballStandings } from '../useFootballStandings';
+
+// Mock the sports_api_client
+vi.mock('@sudobility/sports_api_client', () => ({
+  useFootballFixtures: vi.fn(),
+}));
+
+// Mock the indexer_client
+vi.mock('@sudobility/heavymath_indexer_client', () => ({
+  useFavorites: vi.fn(),
+}));
+
+import { useFootballFixtures } from '@sudobility/sports_api_client';
+import { useFavorites } from '@sudobility/heavymath_indexer_client';
+
+const mockUseFootballFixtures = vi.mocked(useFootballFixtures);
+const mockUseFavorites = vi.mocked(useFavorites);
+
+const fixture = (
+  id: number,
+  home: [number, string],
+  away: [number, string],
+  goals: [number, number]
+) => ({
+  fixture: { id, timestamp: id, status: { short: 'FT' } },
+  teams: {
+    home: { id: home[0], name: home[1], logo: '' },
+    away: { id: away[0], name: away[1], logo: '' },
+  },
+  goals: { home: goals[0], away: goals[1] },
+});
+
+const mockFixtures = [
+  fixture(1, [33, 'Manchester United'], [34, 'Newcastle'], [0, 2]),
+  fixture(2, [34, 'Newcastle'], [40, 'Liverpool'], [1, 1]),
+];
+
+const mockIndexerClient = {} as any;
+const mockWalletAddress = '0x1234567890abcdef';
+
+describe('useFootballStandings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockUseFootballFixtures.mockReturnValue({
+      data: { response: mockFixtures },
+      isLoading: false,
+      isError: false,
+      error: null,
+    } as any);
+
+    mockUseFavorites.mockReturnValue({
+      favorites: [
+        {
+          id: 1,
+          itemId: '33',
+          category: 'sports',
+          subcategory: 'football',
+          type: 'team',
+        },
+      ],
+      isLoading: false,
+    } as any);
+  });
+
+  it('should compute the table with favorited teams', () => {
+    const { result } = renderHook(() =>
+      useFootballStandings(mockIndexerClient, mockWalletAddress, 39, 2024)
+    );
+
+    expect(
+      result.current.standings.map(row => [row.team.id, row.points])
+    ).toEqual([
+      [34, 4],
+      [40, 1],
+      [33, 0],
+    ]);
+    expect(result.current.standings[2].favorited).toBe(true);
+    expect(result.current.standings[0].favorited).toBe(false);
+    expect(result.current.standings[0].team.logo).toBeNull();
+  });
+
+  it('should fetch the season fixtures of the league', () => {
+    renderHook(() =>
+      useFootballStandings(mockIndexerClient, mockWalletAddress, 140, 2023, {
+        enabled: false,
+      })
+    );
+
+    expect(mockUseFootballFixtures).toHaveBeenCalledWith({
+      params: { league: 140, season: 2023 },
+      enabled: false,
+    });
+    expect(mockUseFavorites).toHaveBeenCalledWith(
+      mockIndexerClient,
+      mockWalletAddress,
+      { category: 'sports', subcategory: 'football', type: 'team' }
+    );
+  });
+
+  it('should use the league rules with overrides', () => {
+    const { result } = renderHook(() =>
+      useFootballStandings(mockIndexerClient, mockWalletAddress, 140, 2024, {
+        rules: { pointsForWin: 2 },
+      })
+    );
+
+    expect(result.current.rules.tiebreakers[0]).toBe('headToHeadPoints');
+    expect(result.current.standings[0].points).toBe(3);
+  });
+
+  it('should surface fixture errors and loading', () => {
+    const error = new Error('API error');
+    mockUseFootballFixtures.mockReturnValue({
+      data: undefined,
+      isLoading: true,
+      isError: true,
+      error,
+    } as any);
+
+    const { result } = renderHook(() =>
+      useFootballStandings(mockIndexerClient, mockWalletAddress, 39, 2024)
+    );
+
+    expect(result.current.standings).toEqual([]);
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.isError).toBe(true);
+    expect(result.current.error).toBe(error);
+  });
+});
@@ -5,3 +5,4 @@
 export * from './useFootballLeagues';
 export * from './useFootballTeams';
 export * from './useFootballMatches';
+export * from './useFootballStandings';
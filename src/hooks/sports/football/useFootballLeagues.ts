@@ -3,21 +3,24 @@
  * Combines useFootballLeagues from sports_api_client with useFavorites from indexer_client
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiFootballClient,
   type FootballLeagueResponse,
   type FootballLeaguesParams,
   useFootballLeagues as useFootballLeaguesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'football';
-const FAVORITES_TYPE = 'league';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 /**
  * Football league with favorite status
@@ -29,7 +32,10 @@ export interface FootballLeagueWithFavorite extends FootballLeagueResponse {
 /**
  * Options for useFootballLeagues hook
  */
-export interface UseFootballLeaguesOptions {
+export interface UseFootballLeaguesOptions
+  extends
+    SportEntityListOptions<FootballLeagueWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: FootballLeaguesParams;
   enabled?: boolean;
 }
@@ -43,9 +49,16 @@ export interface UseFootballLeaguesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (leagueId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    leagueIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
 /**
@@ -75,72 +88,59 @@ export interface UseFootballLeaguesResult {
  * }
  * ```
  */
-export function useFootballLeagues(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseFootballLeaguesOptions
-): UseFootballLeaguesResult {
-  // Fetch leagues from sports API
-  const leaguesQuery = useFootballLeaguesApi(options);
-
-  // Fetch favorites for football leagues
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
-
-  // Create a set of favorited league IDs for O(1) lookup
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export const useFootballLeagues: SportEntityHook<
+  UseFootballLeaguesOptions | undefined,
+  UseFootballLeaguesResult
+> = createSportEntityHook({
+  useApi: useFootballLeaguesApi,
+  subcategory: 'football',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.league.id,
+});
 
-  // Combine leagues with favorite status
-  const leagues = useMemo<FootballLeagueWithFavorite[]>(() => {
-    const response = leaguesQuery.data?.response ?? [];
-    return response.map(league => ({
-      ...league,
-      favorited: favoritedIds.has(String(league.league.id)),
-    }));
-  }, [leaguesQuery.data?.response, favoritedIds]);
+/**
+ * Options for useInfiniteFootballLeagues hook
+ */
+export interface UseInfiniteFootballLeaguesOptions
+  extends
+    Omit<
+      UseFootballLeaguesOptions,
+      keyof SportEntityListOptions<FootballLeagueWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  // Set favorite status for a league
-  const setFavorited = useCallback(
-    async (leagueId: number, favorited: boolean) => {
-      const itemId = String(leagueId);
+/**
+ * Return type for useInfiniteFootballLeagues hook
+ */
+export interface UseInfiniteFootballLeaguesResult
+  extends
+    UseFootballLeaguesResult,
+    SportEntityPageResult<FootballLeagueWithFavorite> {}
 
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useFootballLeagues, handing the leagues out a page at a time
+ */
+export const useInfiniteFootballLeagues: SportEntityHook<
+  UseInfiniteFootballLeaguesOptions | undefined,
+  UseInfiniteFootballLeaguesResult
+> = createInfiniteSportEntityHook({
+  useApi: useFootballLeaguesApi,
+  subcategory: 'football',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.league.id,
+});
 
-  return {
-    leagues,
-    isLoading: leaguesQuery.isLoading || favoritesLoading,
-    isError: leaguesQuery.isError,
-    error: leaguesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the leagues and favorites read by useFootballLeagues, e.g. on the server
+ */
+export const prefetchFootballLeagues = createSportPrefetch<
+  ApiFootballClient,
+  FootballLeaguesParams
+>({
+  queryKey: heavymathKeys.sports.football.leagues,
+  queryFn: (client, params) => client.getLeagues(params),
+  subcategory: 'football',
+  type: 'league',
+});
@@ -3,21 +3,25 @@
  * Combines useFootballFixtures from sports_api_client with useFavorites from indexer_client
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiFootballClient,
   type FootballFixtureResponse,
   type FootballFixturesParams,
   useFootballFixtures,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'football';
-const FAVORITES_TYPE = 'match';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 /**
  * Football match (fixture) with favorite status
@@ -29,7 +33,11 @@ export interface FootballMatchWithFavorite extends FootballFixtureResponse {
 /**
  * Options for useFootballMatches hook
  */
-export interface UseFootballMatchesOptions {
+export interface UseFootballMatchesOptions
+  extends
+    SportEntityListOptions<FootballMatchWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: FootballFixturesParams;
   enabled?: boolean;
 }
@@ -43,9 +51,16 @@ export interface UseFootballMatchesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (fixtureId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    fixtureIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
 /**
@@ -58,12 +73,12 @@ export interface UseFootballMatchesResult {
  *
  * @example
  * ```typescript
- * // Get live matches
+ * // Get live matches, refreshed while they are in play
  * function LiveMatches() {
  *   const { matches, isLoading, setFavorited } = useFootballMatches(
  *     indexerClient,
  *     walletAddress,
- *     { params: { live: 'all' } }
+ *     { params: { live: 'all' }, live: true }
  *   );
  *
  *   return matches.map(match => (
@@ -87,72 +102,61 @@ export interface UseFootballMatchesResult {
  * }
  * ```
  */
-export function useFootballMatches(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseFootballMatchesOptions
-): UseFootballMatchesResult {
-  // Fetch fixtures from sports API
-  const fixturesQuery = useFootballFixtures(options);
-
-  // Fetch favorites for football matches
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
-
-  // Create a set of favorited fixture IDs for O(1) lookup
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export const useFootballMatches: SportEntityHook<
+  UseFootballMatchesOptions | undefined,
+  UseFootballMatchesResult
+> = createSportEntityHook({
+  useApi: useFootballFixtures,
+  subcategory: 'football',
+  type: 'match',
+  listKey: 'matches',
+  getId: fixture => fixture.fixture.id,
+  getStatus: fixture => fixture.fixture.status.short,
+});
 
-  // Combine matches with favorite status
-  const matches = useMemo<FootballMatchWithFavorite[]>(() => {
-    const response = fixturesQuery.data?.response ?? [];
-    return response.map(fixture => ({
-      ...fixture,
-      favorited: favoritedIds.has(String(fixture.fixture.id)),
-    }));
-  }, [fixturesQuery.data?.response, favoritedIds]);
+/**
+ * Options for useInfiniteFootballMatches hook
+ */
+export interface UseInfiniteFootballMatchesOptions
+  extends
+    Omit<
+      UseFootballMatchesOptions,
+      keyof SportEntityListOptions<FootballMatchWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  // Set favorite status for a match
-  const setFavorited = useCallback(
-    async (fixtureId: number, favorited: boolean) => {
-      const itemId = String(fixtureId);
+/**
+ * Return type for useInfiniteFootballMatches hook
+ */
+export interface UseInfiniteFootballMatchesResult
+  extends
+    UseFootballMatchesResult,
+    SportEntityPageResult<FootballMatchWithFavorite> {}
 
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useFootballMatches, handing the matches out a page at a time
+ */
+export const useInfiniteFootballMatches: SportEntityHook<
+  UseInfiniteFootballMatchesOptions | undefined,
+  UseInfiniteFootballMatchesResult
+> = createInfiniteSportEntityHook({
+  useApi: useFootballFixtures,
+  subcategory: 'football',
+  type: 'match',
+  listKey: 'matches',
+  getId: fixture => fixture.fixture.id,
+  getStatus: fixture => fixture.fixture.status.short,
+});
 
-  return {
-    matches,
-    isLoading: fixturesQuery.isLoading || favoritesLoading,
-    isError: fixturesQuery.isError,
-    error: fixturesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the matches and favorites read by useFootballMatches, e.g. on the server
+ */
+export const prefetchFootballMatches = createSportPrefetch<
+  ApiFootballClient,
+  FootballFixturesParams
+>({
+  queryKey: heavymathKeys.sports.football.matches,
+  queryFn: (client, params) => client.getFixtures(params),
+  subcategory: 'football',
+  type: 'match',
+});
@@ -0,0 +1,136 @@
+/**
+ * Hook for a football league table computed from the season's fixtures
+ * Combines useFootballFixtures from sports_api_client with useFavorites from indexer_client
+ */
+
+import { useMemo } from 'react';
+import { useFootballFixtures } from '@sudobility/sports_api_client';
+import {
+  type IndexerClient,
+  useFavorites,
+  type WalletFavoriteData,
+} from '@sudobility/heavymath_indexer_client';
+import {
+  SPORTS_FAVORITES_CATEGORY,
+  type StandingsRow,
+  type StandingsRules,
+} from '../../../types';
+import { computeFootballStandings, getStandingsRules } from '../../../utils';
+
+/**
+ * League table row with favorite status of the team
+ */
+export interface StandingsRowWithFavorite extends StandingsRow {
+  favorited: boolean;
+}
+
+/**
+ * Options for useFootballStandings hook
+ */
+export interface UseFootballStandingsOptions {
+  /** Rules replacing the league's, see getStandingsRules */
+  rules?: Partial<StandingsRules>;
+  enabled?: boolean;
+}
+
+/**
+ * Return type for useFootballStandings hook
+ */
+export interface UseFootballStandingsResult {
+  standings: StandingsRowWithFavorite[];
+  /** Rules the table was computed with */
+  rules: StandingsRules;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  favoritesLoading: boolean;
+}
+
+/**
+ * Hook to compute a football league table with favorite teams flagged
+ *
+ * The table is computed from the season's results with the league's points
+ * and tiebreakers, so it follows each result as soon as the fixtures
+ * refresh. Leagues played in groups need their fixtures split per group,
+ * see computeFootballStandings.
+ *
+ * @param indexerClient - IndexerClient instance for favorites operations
+ * @param walletAddress - User's wallet address for favorites
+ * @param leagueId - API-Football league id
+ * @param season - Season year, e.g. 2024
+ * @param options - Rule overrides and query options
+ * @returns Ranked rows with favorite status
+ *
+ * @example
+ * ```typescript
+ * function LeagueTable() {
+ *   const { standings, isLoading } = useFootballStandings(
+ *     indexerClient,
+ *     walletAddress,
+ *     39,
+ *     2024
+ *   );
+ *
+ *   return standings.map(row => <TableRow key={row.team.id} row={row} />);
+ * }
+ * ```
+ */
+export function useFootballStandings(
+  indexerClient: IndexerClient,
+  walletAddress: string | undefined,
+  leagueId: number,
+  season: number,
+  options: UseFootballStandingsOptions = {}
+): UseFootballStandingsResult {
+  const { rules: ruleOverrides, enabled = true } = options;
+
+  // Fetch every fixture of the season
+  const fixturesQuery = useFootballFixtures({
+    params: { league: leagueId, season },
+    enabled,
+  });
+
+  // Fetch favorite teams
+  const { favorites, isLoading: favoritesLoading } = useFavorites(
+    indexerClient,
+    walletAddress,
+    {
+      category: SPORTS_FAVORITES_CATEGORY,
+      subcategory: 'football',
+      type: 'team',
+    }
+  );
+
+  // Create a set of favorite team ids for O(1) lookup
+  const favoriteIds = useMemo(() => {
+    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
+  }, [favorites]);
+
+  const rulesKey = JSON.stringify(ruleOverrides ?? {});
+  const rules = useMemo(
+    () => getStandingsRules(leagueId, JSON.parse(rulesKey)),
+    [leagueId, rulesKey]
+  );
+
+  const table = useMemo(
+    () => computeFootballStandings(fixturesQuery.data?.response ?? [], rules),
+    [fixturesQuery.data?.response, rules]
+  );
+
+  // Merge favorite status
+  const standings = useMemo(() => {
+    return table.map(row => ({
+      ...row,
+      favorited: favoriteIds.has(row.team.id.toString()),
+    }));
+  }, [table, favoriteIds]);
+
+  return {
+    standings,
+    rules,
+    isLoading: fixturesQuery.isLoading || favoritesLoading,
+    isError: fixturesQuery.isError,
+    error: fixturesQuery.error,
+    favoritesLoading,
+  };
+}
@@ -3,21 +3,24 @@
  * Combines useFootballTeams from sports_api_client with useFavorites from indexer_client
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiFootballClient,
   type FootballTeamResponse,
   type FootballTeamsParams,
   useFootballTeams as useFootballTeamsApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'football';
-const FAVORITES_TYPE = 'team';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 /**
  * Football team with favorite status
@@ -29,7 +32,10 @@ export interface FootballTeamWithFavorite extends FootballTeamResponse {
 /**
  * Options for useFootballTeams hook
  */
-export interface UseFootballTeamsOptions {
+export interface UseFootballTeamsOptions
+  extends
+    SportEntityListOptions<FootballTeamWithFavorite>,
+    SportFavoritesSyncOptions {
   params: FootballTeamsParams;
   enabled?: boolean;
 }
@@ -43,9 +49,16 @@ export interface UseFootballTeamsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (teamId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    teamIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
 /**
@@ -75,72 +88,59 @@ export interface UseFootballTeamsResult {
  * }
  * ```
  */
-export function useFootballTeams(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options: UseFootballTeamsOptions
-): UseFootballTeamsResult {
-  // Fetch teams from sports API
-  const teamsQuery = useFootballTeamsApi(options);
-
-  // Fetch favorites for football teams
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
-
-  // Create a set of favorited team IDs for O(1) lookup
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export const useFootballTeams: SportEntityHook<
+  UseFootballTeamsOptions,
+  UseFootballTeamsResult
+> = createSportEntityHook({
+  useApi: useFootballTeamsApi,
+  subcategory: 'football',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.team.id,
+});
 
-  // Combine teams with favorite status
-  const teams = useMemo<FootballTeamWithFavorite[]>(() => {
-    const response = teamsQuery.data?.response ?? [];
-    return response.map(team => ({
-      ...team,
-      favorited: favoritedIds.has(String(team.team.id)),
-    }));
-  }, [teamsQuery.data?.response, favoritedIds]);
+/**
+ * Options for useInfiniteFootballTeams hook
+ */
+export interface UseInfiniteFootballTeamsOptions
+  extends
+    Omit<
+      UseFootballTeamsOptions,
+      keyof SportEntityListOptions<FootballTeamWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  // Set favorite status for a team
-  const setFavorited = useCallback(
-    async (teamId: number, favorited: boolean) => {
-      const itemId = String(teamId);
+/**
+ * Return type for useInfiniteFootballTeams hook
+ */
+export interface UseInfiniteFootballTeamsResult
+  extends
+    UseFootballTeamsResult,
+    SportEntityPageResult<FootballTeamWithFavorite> {}
 
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useFootballTeams, handing the teams out a page at a time
+ */
+export const useInfiniteFootballTeams: SportEntityHook<
+  UseInfiniteFootballTeamsOptions,
+  UseInfiniteFootballTeamsResult
+> = createInfiniteSportEntityHook({
+  useApi: useFootballTeamsApi,
+  subcategory: 'football',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.team.id,
+});
 
-  return {
-    teams,
-    isLoading: teamsQuery.isLoading || favoritesLoading,
-    isError: teamsQuery.isError,
-    error: teamsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the teams and favorites read by useFootballTeams, e.g. on the server
+ */
+export const prefetchFootballTeams = createSportPrefetch<
+  ApiFootballClient,
+  FootballTeamsParams
+>({
+  queryKey: heavymathKeys.sports.football.teams,
+  queryFn: (client, params) => client.getTeams(params),
+  subcategory: 'football',
+  type: 'team',
+});
@@ -2,27 +2,35 @@
  * Hook for handball games with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiHandballClient,
   type HandballGame,
   type HandballGamesParams,
   useHandballGames as useHandballGamesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'handball';
-const FAVORITES_TYPE = 'game';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 export interface HandballGameWithFavorite extends HandballGame {
   favorited: boolean;
 }
 
-export interface UseHandballGamesOptions {
+export interface UseHandballGamesOptions
+  extends
+    SportEntityListOptions<HandballGameWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: HandballGamesParams;
   enabled?: boolean;
 }
@@ -33,71 +41,67 @@ export interface UseHandballGamesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (gameId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    gameIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useHandballGames(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseHandballGamesOptions
-): UseHandballGamesResult {
-  const gamesQuery = useHandballGamesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useHandballGames: SportEntityHook<
+  UseHandballGamesOptions | undefined,
+  UseHandballGamesResult
+> = createSportEntityHook({
+  useApi: useHandballGamesApi,
+  subcategory: 'handball',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteHandballGamesOptions
+  extends
+    Omit<
+      UseHandballGamesOptions,
+      keyof SportEntityListOptions<HandballGameWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const games = useMemo<HandballGameWithFavorite[]>(() => {
-    const response = gamesQuery.data?.response ?? [];
-    return response.map(game => ({
-      ...game,
-      favorited: favoritedIds.has(String(game.id)),
-    }));
-  }, [gamesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteHandballGamesResult
+  extends
+    UseHandballGamesResult,
+    SportEntityPageResult<HandballGameWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (gameId: number, favorited: boolean) => {
-      const itemId = String(gameId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useHandballGames, handing the games out a page at a time
+ */
+export const useInfiniteHandballGames: SportEntityHook<
+  UseInfiniteHandballGamesOptions | undefined,
+  UseInfiniteHandballGamesResult
+> = createInfiniteSportEntityHook({
+  useApi: useHandballGamesApi,
+  subcategory: 'handball',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  return {
-    games,
-    isLoading: gamesQuery.isLoading || favoritesLoading,
-    isError: gamesQuery.isError,
-    error: gamesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the games and favorites read by useHandballGames, e.g. on the server
+ */
+export const prefetchHandballGames = createSportPrefetch<
+  ApiHandballClient,
+  HandballGamesParams
+>({
+  queryKey: heavymathKeys.sports.handball.games,
+  queryFn: (client, params) => client.getGames(params),
+  subcategory: 'handball',
+  type: 'game',
+});
@@ -2,27 +2,33 @@
  * Hook for handball leagues with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiHandballClient,
   type HandballLeagueResponse,
   type HandballLeaguesParams,
   useHandballLeagues as useHandballLeaguesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'handball';
-const FAVORITES_TYPE = 'league';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface HandballLeagueWithFavorite extends HandballLeagueResponse {
   favorited: boolean;
 }
 
-export interface UseHandballLeaguesOptions {
+export interface UseHandballLeaguesOptions
+  extends
+    SportEntityListOptions<HandballLeagueWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: HandballLeaguesParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseHandballLeaguesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (leagueId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    leagueIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useHandballLeagues(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseHandballLeaguesOptions
-): UseHandballLeaguesResult {
-  const leaguesQuery = useHandballLeaguesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useHandballLeagues: SportEntityHook<
+  UseHandballLeaguesOptions | undefined,
+  UseHandballLeaguesResult
+> = createSportEntityHook({
+  useApi: useHandballLeaguesApi,
+  subcategory: 'handball',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteHandballLeaguesOptions
+  extends
+    Omit<
+      UseHandballLeaguesOptions,
+      keyof SportEntityListOptions<HandballLeagueWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const leagues = useMemo<HandballLeagueWithFavorite[]>(() => {
-    const response = leaguesQuery.data?.response ?? [];
-    return response.map(league => ({
-      ...league,
-      favorited: favoritedIds.has(String(league.id)),
-    }));
-  }, [leaguesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteHandballLeaguesResult
+  extends
+    UseHandballLeaguesResult,
+    SportEntityPageResult<HandballLeagueWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (leagueId: number, favorited: boolean) => {
-      const itemId = String(leagueId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useHandballLeagues, handing the leagues out a page at a time
+ */
+export const useInfiniteHandballLeagues: SportEntityHook<
+  UseInfiniteHandballLeaguesOptions | undefined,
+  UseInfiniteHandballLeaguesResult
+> = createInfiniteSportEntityHook({
+  useApi: useHandballLeaguesApi,
+  subcategory: 'handball',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  return {
-    leagues,
-    isLoading: leaguesQuery.isLoading || favoritesLoading,
-    isError: leaguesQuery.isError,
-    error: leaguesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the leagues and favorites read by useHandballLeagues, e.g. on the server
+ */
+export const prefetchHandballLeagues = createSportPrefetch<
+  ApiHandballClient,
+  HandballLeaguesParams
+>({
+  queryKey: heavymathKeys.sports.handball.leagues,
+  queryFn: (client, params) => client.getLeagues(params),
+  subcategory: 'handball',
+  type: 'league',
+});
@@ -2,27 +2,33 @@
  * Hook for handball teams with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiHandballClient,
   type HandballTeamResponse,
   type HandballTeamsParams,
   useHandballTeams as useHandballTeamsApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'handball';
-const FAVORITES_TYPE = 'team';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface HandballTeamWithFavorite extends HandballTeamResponse {
   favorited: boolean;
 }
 
-export interface UseHandballTeamsOptions {
+export interface UseHandballTeamsOptions
+  extends
+    SportEntityListOptions<HandballTeamWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: HandballTeamsParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseHandballTeamsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (teamId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    teamIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useHandballTeams(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseHandballTeamsOptions
-): UseHandballTeamsResult {
-  const teamsQuery = useHandballTeamsApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useHandballTeams: SportEntityHook<
+  UseHandballTeamsOptions | undefined,
+  UseHandballTeamsResult
+> = createSportEntityHook({
+  useApi: useHandballTeamsApi,
+  subcategory: 'handball',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteHandballTeamsOptions
+  extends
+    Omit<
+      UseHandballTeamsOptions,
+      keyof SportEntityListOptions<HandballTeamWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const teams = useMemo<HandballTeamWithFavorite[]>(() => {
-    const response = teamsQuery.data?.response ?? [];
-    return response.map(team => ({
-      ...team,
-      favorited: favoritedIds.has(String(team.id)),
-    }));
-  }, [teamsQuery.data?.response, favoritedIds]);
+export interface UseInfiniteHandballTeamsResult
+  extends
+    UseHandballTeamsResult,
+    SportEntityPageResult<HandballTeamWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (teamId: number, favorited: boolean) => {
-      const itemId = String(teamId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useHandballTeams, handing the teams out a page at a time
+ */
+export const useInfiniteHandballTeams: SportEntityHook<
+  UseInfiniteHandballTeamsOptions | undefined,
+  UseInfiniteHandballTeamsResult
+> = createInfiniteSportEntityHook({
+  useApi: useHandballTeamsApi,
+  subcategory: 'handball',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  return {
-    teams,
-    isLoading: teamsQuery.isLoading || favoritesLoading,
-    isError: teamsQuery.isError,
-    error: teamsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the teams and favorites read by useHandballTeams, e.g. on the server
+ */
+export const prefetchHandballTeams = createSportPrefetch<
+  ApiHandballClient,
+  HandballTeamsParams
+>({
+  queryKey: heavymathKeys.sports.handball.teams,
+  queryFn: (client, params) => client.getTeams(params),
+  subcategory: 'handball',
+  type: 'team',
+});
@@ -2,27 +2,35 @@
  * Hook for hockey games with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiHockeyClient,
   type HockeyGame,
   type HockeyGamesParams,
   useHockeyGames as useHockeyGamesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'hockey';
-const FAVORITES_TYPE = 'game';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 export interface HockeyGameWithFavorite extends HockeyGame {
   favorited: boolean;
 }
 
-export interface UseHockeyGamesOptions {
+export interface UseHockeyGamesOptions
+  extends
+    SportEntityListOptions<HockeyGameWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: HockeyGamesParams;
   enabled?: boolean;
 }
@@ -33,71 +41,65 @@ export interface UseHockeyGamesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (gameId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    gameIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useHockeyGames(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseHockeyGamesOptions
-): UseHockeyGamesResult {
-  const gamesQuery = useHockeyGamesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useHockeyGames: SportEntityHook<
+  UseHockeyGamesOptions | undefined,
+  UseHockeyGamesResult
+> = createSportEntityHook({
+  useApi: useHockeyGamesApi,
+  subcategory: 'hockey',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteHockeyGamesOptions
+  extends
+    Omit<
+      UseHockeyGamesOptions,
+      keyof SportEntityListOptions<HockeyGameWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const games = useMemo<HockeyGameWithFavorite[]>(() => {
-    const response = gamesQuery.data?.response ?? [];
-    return response.map(game => ({
-      ...game,
-      favorited: favoritedIds.has(String(game.id)),
-    }));
-  }, [gamesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteHockeyGamesResult
+  extends UseHockeyGamesResult, SportEntityPageResult<HockeyGameWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (gameId: number, favorited: boolean) => {
-      const itemId = String(gameId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useHockeyGames, handing the games out a page at a time
+ */
+export const useInfiniteHockeyGames: SportEntityHook<
+  UseInfiniteHockeyGamesOptions | undefined,
+  UseInfiniteHockeyGamesResult
+> = createInfiniteSportEntityHook({
+  useApi: useHockeyGamesApi,
+  subcategory: 'hockey',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  return {
-    games,
-    isLoading: gamesQuery.isLoading || favoritesLoading,
-    isError: gamesQuery.isError,
-    error: gamesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the games and favorites read by useHockeyGames, e.g. on the server
+ */
+export const prefetchHockeyGames = createSportPrefetch<
+  ApiHockeyClient,
+  HockeyGamesParams
+>({
+  queryKey: heavymathKeys.sports.hockey.games,
+  queryFn: (client, params) => client.getGames(params),
+  subcategory: 'hockey',
+  type: 'game',
+});
@@ -2,27 +2,33 @@
  * Hook for hockey leagues with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiHockeyClient,
   type HockeyLeagueResponse,
   type HockeyLeaguesParams,
   useHockeyLeagues as useHockeyLeaguesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'hockey';
-const FAVORITES_TYPE = 'league';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface HockeyLeagueWithFavorite extends HockeyLeagueResponse {
   favorited: boolean;
 }
 
-export interface UseHockeyLeaguesOptions {
+export interface UseHockeyLeaguesOptions
+  extends
+    SportEntityListOptions<HockeyLeagueWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: HockeyLeaguesParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseHockeyLeaguesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (leagueId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    leagueIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useHockeyLeagues(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseHockeyLeaguesOptions
-): UseHockeyLeaguesResult {
-  const leaguesQuery = useHockeyLeaguesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useHockeyLeagues: SportEntityHook<
+  UseHockeyLeaguesOptions | undefined,
+  UseHockeyLeaguesResult
+> = createSportEntityHook({
+  useApi: useHockeyLeaguesApi,
+  subcategory: 'hockey',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteHockeyLeaguesOptions
+  extends
+    Omit<
+      UseHockeyLeaguesOptions,
+      keyof SportEntityListOptions<HockeyLeagueWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const leagues = useMemo<HockeyLeagueWithFavorite[]>(() => {
-    const response = leaguesQuery.data?.response ?? [];
-    return response.map(league => ({
-      ...league,
-      favorited: favoritedIds.has(String(league.id)),
-    }));
-  }, [leaguesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteHockeyLeaguesResult
+  extends
+    UseHockeyLeaguesResult,
+    SportEntityPageResult<HockeyLeagueWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (leagueId: number, favorited: boolean) => {
-      const itemId = String(leagueId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useHockeyLeagues, handing the leagues out a page at a time
+ */
+export const useInfiniteHockeyLeagues: SportEntityHook<
+  UseInfiniteHockeyLeaguesOptions | undefined,
+  UseInfiniteHockeyLeaguesResult
+> = createInfiniteSportEntityHook({
+  useApi: useHockeyLeaguesApi,
+  subcategory: 'hockey',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  return {
-    leagues,
-    isLoading: leaguesQuery.isLoading || favoritesLoading,
-    isError: leaguesQuery.isError,
-    error: leaguesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the leagues and favorites read by useHockeyLeagues, e.g. on the server
+ */
+export const prefetchHockeyLeagues = createSportPrefetch<
+  ApiHockeyClient,
+  HockeyLeaguesParams
+>({
+  queryKey: heavymathKeys.sports.hockey.leagues,
+  queryFn: (client, params) => client.getLeagues(params),
+  subcategory: 'hockey',
+  type: 'league',
+});
@@ -2,27 +2,33 @@
  * Hook for hockey teams with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiHockeyClient,
   type HockeyTeamResponse,
   type HockeyTeamsParams,
   useHockeyTeams as useHockeyTeamsApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'hockey';
-const FAVORITES_TYPE = 'team';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface HockeyTeamWithFavorite extends HockeyTeamResponse {
   favorited: boolean;
 }
 
-export interface UseHockeyTeamsOptions {
+export interface UseHockeyTeamsOptions
+  extends
+    SportEntityListOptions<HockeyTeamWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: HockeyTeamsParams;
   enabled?: boolean;
 }
@@ -33,71 +39,63 @@ export interface UseHockeyTeamsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (teamId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    teamIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useHockeyTeams(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseHockeyTeamsOptions
-): UseHockeyTeamsResult {
-  const teamsQuery = useHockeyTeamsApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useHockeyTeams: SportEntityHook<
+  UseHockeyTeamsOptions | undefined,
+  UseHockeyTeamsResult
+> = createSportEntityHook({
+  useApi: useHockeyTeamsApi,
+  subcategory: 'hockey',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteHockeyTeamsOptions
+  extends
+    Omit<
+      UseHockeyTeamsOptions,
+      keyof SportEntityListOptions<HockeyTeamWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const teams = useMemo<HockeyTeamWithFavorite[]>(() => {
-    const response = teamsQuery.data?.response ?? [];
-    return response.map(team => ({
-      ...team,
-      favorited: favoritedIds.has(String(team.id)),
-    }));
-  }, [teamsQuery.data?.response, favoritedIds]);
+export interface UseInfiniteHockeyTeamsResult
+  extends UseHockeyTeamsResult, SportEntityPageResult<HockeyTeamWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (teamId: number, favorited: boolean) => {
-      const itemId = String(teamId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useHockeyTeams, handing the teams out a page at a time
+ */
+export const useInfiniteHockeyTeams: SportEntityHook<
+  UseInfiniteHockeyTeamsOptions | undefined,
+  UseInfiniteHockeyTeamsResult
+> = createInfiniteSportEntityHook({
+  useApi: useHockeyTeamsApi,
+  subcategory: 'hockey',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  return {
-    teams,
-    isLoading: teamsQuery.isLoading || favoritesLoading,
-    isError: teamsQuery.isError,
-    error: teamsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the teams and favorites read by useHockeyTeams, e.g. on the server
+ */
+export const prefetchHockeyTeams = createSportPrefetch<
+  ApiHockeyClient,
+  HockeyTeamsParams
+>({
+  queryKey: heavymathKeys.sports.hockey.teams,
+  queryFn: (client, params) => client.getTeams(params),
+  subcategory: 'hockey',
+  type: 'team',
+});
@@ -2,6 +2,11 @@
  * Sports hooks with favorites support
  */
 
+export * from './createSportEntityHook';
+export * from './createSportPrefetch';
+export * from './sportQueries';
+export * from './livePolling';
+export type { SportFavoritesSyncOptions } from './favoritesSync';
 export * from './football';
 export * from './basketball';
 export * from './nfl';
@@ -11,3 +16,10 @@ export * from './rugby';
 export * from './mma';
 export * from './handball';
 export * from './volleyball';
+export * from './useAllSportsFavorites';
+export * from './useUpcomingEvents';
+export * from './useMigrateLocalFavorites';
+export * from './useSportsSearch';
+export * from './useTeamForm';
+export * from './useHeadToHead';
+export * from './useFavoritesBulk';
@@ -0,0 +1,62 @@
+/**
+ * Status-aware polling intervals for live game lists
+ * Shared by every game hook built on createSportEntityHook
+ */
+
+import { getGamePhase } from '../../utils';
+
+/**
+ * Polling intervals in milliseconds; `false` disables polling for that phase
+ */
+export interface LivePollingIntervals {
+  /** While any game is in play, defaults to 15 seconds */
+  live?: number | false;
+  /** While games are only scheduled or postponed, defaults to 5 minutes */
+  scheduled?: number | false;
+}
+
+/**
+ * Live mode option of the game hooks
+ */
+export interface SportLiveOptions {
+  /**
+   * Poll while games are in play, back off while they are scheduled and
+   * stop once they are all finished. Polling pauses while the app is
+   * backgrounded; React Native apps must wire react-query's focusManager
+   * to AppState for this to apply.
+   */
+  live?: boolean | LivePollingIntervals;
+}
+
+/**
+ * Default live polling intervals
+ */
+export const DEFAULT_LIVE_POLLING_INTERVALS = {
+  live: 15_000,
+  scheduled: 5 * 60_000,
+} as const satisfies Required<LivePollingIntervals>;
+
+/**
+ * Pick the polling interval for a list of games
+ *
+ * The most active phase wins: any live game polls at the live interval,
+ * otherwise any scheduled game (or an empty list, which may still fill up)
+ * polls at the scheduled interval. Lists of finished games do not poll.
+ *
+ * @param statuses - Short status codes of the returned games
+ * @param intervals - Overrides for the default intervals
+ * @returns Interval in milliseconds, or `false` to stop polling
+ */
+export function getLivePollingInterval(
+  statuses: readonly string[],
+  intervals: LivePollingIntervals = {}
+): number | false {
+  const live = intervals.live ?? DEFAULT_LIVE_POLLING_INTERVALS.live;
+  const scheduled =
+    intervals.scheduled ?? DEFAULT_LIVE_POLLING_INTERVALS.scheduled;
+  const phases = new Set(statuses.map(getGamePhase));
+
+  if (phases.has('live')) return live;
+  if (phases.has('scheduled') || phases.size === 0) return scheduled;
+  return false;
+}
@@ -3,27 +3,33 @@
  * Note: MMA categories are returned as strings from the API
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiMmaClient,
   type MmaCategoriesParams,
   useMmaCategories as useMmaCategoriesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'mma';
-const FAVORITES_TYPE = 'category';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface MmaCategoryWithFavorite {
   name: string;
   favorited: boolean;
 }
 
-export interface UseMmaCategoriesOptions {
+export interface UseMmaCategoriesOptions
+  extends
+    SportEntityListOptions<MmaCategoryWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: MmaCategoriesParams;
   enabled?: boolean;
 }
@@ -34,68 +40,67 @@ export interface UseMmaCategoriesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (categoryName: string, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    categoryNames: readonly string[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<string>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useMmaCategories(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseMmaCategoriesOptions
-): UseMmaCategoriesResult {
-  const categoriesQuery = useMmaCategoriesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useMmaCategories: SportEntityHook<
+  UseMmaCategoriesOptions | undefined,
+  UseMmaCategoriesResult
+> = createSportEntityHook({
+  useApi: useMmaCategoriesApi,
+  subcategory: 'mma',
+  type: 'category',
+  listKey: 'categories',
+  getId: categoryName => categoryName,
+  toItem: categoryName => ({ name: categoryName }),
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteMmaCategoriesOptions
+  extends
+    Omit<
+      UseMmaCategoriesOptions,
+      keyof SportEntityListOptions<MmaCategoryWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const categories = useMemo<MmaCategoryWithFavorite[]>(() => {
-    const response = categoriesQuery.data?.response ?? [];
-    return response.map(categoryName => ({
-      name: categoryName,
-      favorited: favoritedIds.has(categoryName),
-    }));
-  }, [categoriesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteMmaCategoriesResult
+  extends
+    UseMmaCategoriesResult,
+    SportEntityPageResult<MmaCategoryWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (categoryName: string, favorited: boolean) => {
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: categoryName,
-        });
-      } else {
-        const favorite = favorites.find(f => f.itemId === categoryName);
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useMmaCategories, handing the categories out a page at a time
+ */
+export const useInfiniteMmaCategories: SportEntityHook<
+  UseInfiniteMmaCategoriesOptions | undefined,
+  UseInfiniteMmaCategoriesResult
+> = createInfiniteSportEntityHook({
+  useApi: useMmaCategoriesApi,
+  subcategory: 'mma',
+  type: 'category',
+  listKey: 'categories',
+  getId: categoryName => categoryName,
+  toItem: categoryName => ({ name: categoryName }),
+});
 
-  return {
-    categories,
-    isLoading: categoriesQuery.isLoading || favoritesLoading,
-    isError: categoriesQuery.isError,
-    error: categoriesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the categories and favorites read by useMmaCategories, e.g. on the server
+ */
+export const prefetchMmaCategories = createSportPrefetch<
+  ApiMmaClient,
+  MmaCategoriesParams
+>({
+  queryKey: heavymathKeys.sports.mma.categories,
+  queryFn: (client, params) => client.getCategories(params),
+  subcategory: 'mma',
+  type: 'category',
+});
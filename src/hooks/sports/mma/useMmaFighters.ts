@@ -2,27 +2,33 @@
  * Hook for MMA fighters with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiMmaClient,
   type MmaFighter,
   type MmaFightersParams,
   useMmaFighters as useMmaFightersApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'mma';
-const FAVORITES_TYPE = 'fighter';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface MmaFighterWithFavorite extends MmaFighter {
   favorited: boolean;
 }
 
-export interface UseMmaFightersOptions {
+export interface UseMmaFightersOptions
+  extends
+    SportEntityListOptions<MmaFighterWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: MmaFightersParams;
   enabled?: boolean;
 }
@@ -33,71 +39,63 @@ export interface UseMmaFightersResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (fighterId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    fighterIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useMmaFighters(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseMmaFightersOptions
-): UseMmaFightersResult {
-  const fightersQuery = useMmaFightersApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useMmaFighters: SportEntityHook<
+  UseMmaFightersOptions | undefined,
+  UseMmaFightersResult
+> = createSportEntityHook({
+  useApi: useMmaFightersApi,
+  subcategory: 'mma',
+  type: 'fighter',
+  listKey: 'fighters',
+  getId: fighter => fighter.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteMmaFightersOptions
+  extends
+    Omit<
+      UseMmaFightersOptions,
+      keyof SportEntityListOptions<MmaFighterWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const fighters = useMemo<MmaFighterWithFavorite[]>(() => {
-    const response = fightersQuery.data?.response ?? [];
-    return response.map(fighter => ({
-      ...fighter,
-      favorited: favoritedIds.has(String(fighter.id)),
-    }));
-  }, [fightersQuery.data?.response, favoritedIds]);
+export interface UseInfiniteMmaFightersResult
+  extends UseMmaFightersResult, SportEntityPageResult<MmaFighterWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (fighterId: number, favorited: boolean) => {
-      const itemId = String(fighterId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useMmaFighters, handing the fighters out a page at a time
+ */
+export const useInfiniteMmaFighters: SportEntityHook<
+  UseInfiniteMmaFightersOptions | undefined,
+  UseInfiniteMmaFightersResult
+> = createInfiniteSportEntityHook({
+  useApi: useMmaFightersApi,
+  subcategory: 'mma',
+  type: 'fighter',
+  listKey: 'fighters',
+  getId: fighter => fighter.id,
+});
 
-  return {
-    fighters,
-    isLoading: fightersQuery.isLoading || favoritesLoading,
-    isError: fightersQuery.isError,
-    error: fightersQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the fighters and favorites read by useMmaFighters, e.g. on the server
+ */
+export const prefetchMmaFighters = createSportPrefetch<
+  ApiMmaClient,
+  MmaFightersParams
+>({
+  queryKey: heavymathKeys.sports.mma.fighters,
+  queryFn: (client, params) => client.getFighters(params),
+  subcategory: 'mma',
+  type: 'fighter',
+});
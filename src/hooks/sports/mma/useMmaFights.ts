@@ -2,27 +2,35 @@
  * Hook for MMA fights with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiMmaClient,
   type MmaFight,
   type MmaFightsParams,
   useMmaFights as useMmaFightsApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'mma';
-const FAVORITES_TYPE = 'fight';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 export interface MmaFightWithFavorite extends MmaFight {
   favorited: boolean;
 }
 
-export interface UseMmaFightsOptions {
+export interface UseMmaFightsOptions
+  extends
+    SportEntityListOptions<MmaFightWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: MmaFightsParams;
   enabled?: boolean;
 }
@@ -33,71 +41,65 @@ export interface UseMmaFightsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (fightId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    fightIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useMmaFights(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseMmaFightsOptions
-): UseMmaFightsResult {
-  const fightsQuery = useMmaFightsApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useMmaFights: SportEntityHook<
+  UseMmaFightsOptions | undefined,
+  UseMmaFightsResult
+> = createSportEntityHook({
+  useApi: useMmaFightsApi,
+  subcategory: 'mma',
+  type: 'fight',
+  listKey: 'fights',
+  getId: fight => fight.id,
+  getStatus: fight => fight.status.short,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteMmaFightsOptions
+  extends
+    Omit<
+      UseMmaFightsOptions,
+      keyof SportEntityListOptions<MmaFightWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const fights = useMemo<MmaFightWithFavorite[]>(() => {
-    const response = fightsQuery.data?.response ?? [];
-    return response.map(fight => ({
-      ...fight,
-      favorited: favoritedIds.has(String(fight.id)),
-    }));
-  }, [fightsQuery.data?.response, favoritedIds]);
+export interface UseInfiniteMmaFightsResult
+  extends UseMmaFightsResult, SportEntityPageResult<MmaFightWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (fightId: number, favorited: boolean) => {
-      const itemId = String(fightId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useMmaFights, handing the fights out a page at a time
+ */
+export const useInfiniteMmaFights: SportEntityHook<
+  UseInfiniteMmaFightsOptions | undefined,
+  UseInfiniteMmaFightsResult
+> = createInfiniteSportEntityHook({
+  useApi: useMmaFightsApi,
+  subcategory: 'mma',
+  type: 'fight',
+  listKey: 'fights',
+  getId: fight => fight.id,
+  getStatus: fight => fight.status.short,
+});
 
-  return {
-    fights,
-    isLoading: fightsQuery.isLoading || favoritesLoading,
-    isError: fightsQuery.isError,
-    error: fightsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the fights and favorites read by useMmaFights, e.g. on the server
+ */
+export const prefetchMmaFights = createSportPrefetch<
+  ApiMmaClient,
+  MmaFightsParams
+>({
+  queryKey: heavymathKeys.sports.mma.fights,
+  queryFn: (client, params) => client.getFights(params),
+  subcategory: 'mma',
+  type: 'fight',
+});
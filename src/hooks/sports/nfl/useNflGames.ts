@@ -2,27 +2,35 @@
  * Hook for NFL games with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiNflClient,
   type NflGame,
   type NflGamesParams,
   useNflGames as useNflGamesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'nfl';
-const FAVORITES_TYPE = 'game';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 export interface NflGameWithFavorite extends NflGame {
   favorited: boolean;
 }
 
-export interface UseNflGamesOptions {
+export interface UseNflGamesOptions
+  extends
+    SportEntityListOptions<NflGameWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: NflGamesParams;
   enabled?: boolean;
 }
@@ -33,71 +41,62 @@ export interface UseNflGamesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (gameId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    gameIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useNflGames(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseNflGamesOptions
-): UseNflGamesResult {
-  const gamesQuery = useNflGamesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useNflGames: SportEntityHook<
+  UseNflGamesOptions | undefined,
+  UseNflGamesResult
+> = createSportEntityHook({
+  useApi: useNflGamesApi,
+  subcategory: 'nfl',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteNflGamesOptions
+  extends
+    Omit<UseNflGamesOptions, keyof SportEntityListOptions<NflGameWithFavorite>>,
+    SportEntityPageOptions {}
 
-  const games = useMemo<NflGameWithFavorite[]>(() => {
-    const response = gamesQuery.data?.response ?? [];
-    return response.map(game => ({
-      ...game,
-      favorited: favoritedIds.has(String(game.id)),
-    }));
-  }, [gamesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteNflGamesResult
+  extends UseNflGamesResult, SportEntityPageResult<NflGameWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (gameId: number, favorited: boolean) => {
-      const itemId = String(gameId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useNflGames, handing the games out a page at a time
+ */
+export const useInfiniteNflGames: SportEntityHook<
+  UseInfiniteNflGamesOptions | undefined,
+  UseInfiniteNflGamesResult
+> = createInfiniteSportEntityHook({
+  useApi: useNflGamesApi,
+  subcategory: 'nfl',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  return {
-    games,
-    isLoading: gamesQuery.isLoading || favoritesLoading,
-    isError: gamesQuery.isError,
-    error: gamesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the games and favorites read by useNflGames, e.g. on the server
+ */
+export const prefetchNflGames = createSportPrefetch<
+  ApiNflClient,
+  NflGamesParams
+>({
+  queryKey: heavymathKeys.sports.nfl.games,
+  queryFn: (client, params) => client.getGames(params),
+  subcategory: 'nfl',
+  type: 'game',
+});
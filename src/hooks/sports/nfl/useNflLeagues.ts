@@ -2,27 +2,33 @@
  * Hook for NFL leagues with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiNflClient,
   type NflLeagueResponse,
   type NflLeaguesParams,
   useNflLeagues as useNflLeaguesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'nfl';
-const FAVORITES_TYPE = 'league';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface NflLeagueWithFavorite extends NflLeagueResponse {
   favorited: boolean;
 }
 
-export interface UseNflLeaguesOptions {
+export interface UseNflLeaguesOptions
+  extends
+    SportEntityListOptions<NflLeagueWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: NflLeaguesParams;
   enabled?: boolean;
 }
@@ -33,71 +39,63 @@ export interface UseNflLeaguesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (leagueId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    leagueIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useNflLeagues(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseNflLeaguesOptions
-): UseNflLeaguesResult {
-  const leaguesQuery = useNflLeaguesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useNflLeagues: SportEntityHook<
+  UseNflLeaguesOptions | undefined,
+  UseNflLeaguesResult
+> = createSportEntityHook({
+  useApi: useNflLeaguesApi,
+  subcategory: 'nfl',
+  type: 'league',
+  listKey: 'leagues',
+  getId: leagueResponse => leagueResponse.league.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteNflLeaguesOptions
+  extends
+    Omit<
+      UseNflLeaguesOptions,
+      keyof SportEntityListOptions<NflLeagueWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const leagues = useMemo<NflLeagueWithFavorite[]>(() => {
-    const response = leaguesQuery.data?.response ?? [];
-    return response.map(leagueResponse => ({
-      ...leagueResponse,
-      favorited: favoritedIds.has(String(leagueResponse.league.id)),
-    }));
-  }, [leaguesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteNflLeaguesResult
+  extends UseNflLeaguesResult, SportEntityPageResult<NflLeagueWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (leagueId: number, favorited: boolean) => {
-      const itemId = String(leagueId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useNflLeagues, handing the leagues out a page at a time
+ */
+export const useInfiniteNflLeagues: SportEntityHook<
+  UseInfiniteNflLeaguesOptions | undefined,
+  UseInfiniteNflLeaguesResult
+> = createInfiniteSportEntityHook({
+  useApi: useNflLeaguesApi,
+  subcategory: 'nfl',
+  type: 'league',
+  listKey: 'leagues',
+  getId: leagueResponse => leagueResponse.league.id,
+});
 
-  return {
-    leagues,
-    isLoading: leaguesQuery.isLoading || favoritesLoading,
-    isError: leaguesQuery.isError,
-    error: leaguesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the leagues and favorites read by useNflLeagues, e.g. on the server
+ */
+export const prefetchNflLeagues = createSportPrefetch<
+  ApiNflClient,
+  NflLeaguesParams
+>({
+  queryKey: heavymathKeys.sports.nfl.leagues,
+  queryFn: (client, params) => client.getLeagues(params),
+  subcategory: 'nfl',
+  type: 'league',
+});
@@ -2,27 +2,33 @@
  * Hook for NFL teams with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiNflClient,
   type NflTeamResponse,
   type NflTeamsParams,
   useNflTeams as useNflTeamsApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'nfl';
-const FAVORITES_TYPE = 'team';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface NflTeamWithFavorite extends NflTeamResponse {
   favorited: boolean;
 }
 
-export interface UseNflTeamsOptions {
+export interface UseNflTeamsOptions
+  extends
+    SportEntityListOptions<NflTeamWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: NflTeamsParams;
   enabled?: boolean;
 }
@@ -33,71 +39,60 @@ export interface UseNflTeamsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (teamId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    teamIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useNflTeams(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseNflTeamsOptions
-): UseNflTeamsResult {
-  const teamsQuery = useNflTeamsApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useNflTeams: SportEntityHook<
+  UseNflTeamsOptions | undefined,
+  UseNflTeamsResult
+> = createSportEntityHook({
+  useApi: useNflTeamsApi,
+  subcategory: 'nfl',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteNflTeamsOptions
+  extends
+    Omit<UseNflTeamsOptions, keyof SportEntityListOptions<NflTeamWithFavorite>>,
+    SportEntityPageOptions {}
 
-  const teams = useMemo<NflTeamWithFavorite[]>(() => {
-    const response = teamsQuery.data?.response ?? [];
-    return response.map(team => ({
-      ...team,
-      favorited: favoritedIds.has(String(team.id)),
-    }));
-  }, [teamsQuery.data?.response, favoritedIds]);
+export interface UseInfiniteNflTeamsResult
+  extends UseNflTeamsResult, SportEntityPageResult<NflTeamWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (teamId: number, favorited: boolean) => {
-      const itemId = String(teamId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useNflTeams, handing the teams out a page at a time
+ */
+export const useInfiniteNflTeams: SportEntityHook<
+  UseInfiniteNflTeamsOptions | undefined,
+  UseInfiniteNflTeamsResult
+> = createInfiniteSportEntityHook({
+  useApi: useNflTeamsApi,
+  subcategory: 'nfl',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  return {
-    teams,
-    isLoading: teamsQuery.isLoading || favoritesLoading,
-    isError: teamsQuery.isError,
-    error: teamsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the teams and favorites read by useNflTeams, e.g. on the server
+ */
+export const prefetchNflTeams = createSportPrefetch<
+  ApiNflClient,
+  NflTeamsParams
+>({
+  queryKey: heavymathKeys.sports.nfl.teams,
+  queryFn: (client, params) => client.getTeams(params),
+  subcategory: 'nfl',
+  type: 'team',
+});
@@ -2,27 +2,35 @@
  * Hook for rugby games with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiRugbyClient,
   type RugbyGame,
   type RugbyGamesParams,
   useRugbyGames as useRugbyGamesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'rugby';
-const FAVORITES_TYPE = 'game';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 export interface RugbyGameWithFavorite extends RugbyGame {
   favorited: boolean;
 }
 
-export interface UseRugbyGamesOptions {
+export interface UseRugbyGamesOptions
+  extends
+    SportEntityListOptions<RugbyGameWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: RugbyGamesParams;
   enabled?: boolean;
 }
@@ -33,71 +41,65 @@ export interface UseRugbyGamesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (gameId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    gameIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useRugbyGames(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseRugbyGamesOptions
-): UseRugbyGamesResult {
-  const gamesQuery = useRugbyGamesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useRugbyGames: SportEntityHook<
+  UseRugbyGamesOptions | undefined,
+  UseRugbyGamesResult
+> = createSportEntityHook({
+  useApi: useRugbyGamesApi,
+  subcategory: 'rugby',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteRugbyGamesOptions
+  extends
+    Omit<
+      UseRugbyGamesOptions,
+      keyof SportEntityListOptions<RugbyGameWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const games = useMemo<RugbyGameWithFavorite[]>(() => {
-    const response = gamesQuery.data?.response ?? [];
-    return response.map(game => ({
-      ...game,
-      favorited: favoritedIds.has(String(game.id)),
-    }));
-  }, [gamesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteRugbyGamesResult
+  extends UseRugbyGamesResult, SportEntityPageResult<RugbyGameWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (gameId: number, favorited: boolean) => {
-      const itemId = String(gameId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useRugbyGames, handing the games out a page at a time
+ */
+export const useInfiniteRugbyGames: SportEntityHook<
+  UseInfiniteRugbyGamesOptions | undefined,
+  UseInfiniteRugbyGamesResult
+> = createInfiniteSportEntityHook({
+  useApi: useRugbyGamesApi,
+  subcategory: 'rugby',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  return {
-    games,
-    isLoading: gamesQuery.isLoading || favoritesLoading,
-    isError: gamesQuery.isError,
-    error: gamesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the games and favorites read by useRugbyGames, e.g. on the server
+ */
+export const prefetchRugbyGames = createSportPrefetch<
+  ApiRugbyClient,
+  RugbyGamesParams
+>({
+  queryKey: heavymathKeys.sports.rugby.games,
+  queryFn: (client, params) => client.getGames(params),
+  subcategory: 'rugby',
+  type: 'game',
+});
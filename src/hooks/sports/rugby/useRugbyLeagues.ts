@@ -2,27 +2,33 @@
  * Hook for rugby leagues with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiRugbyClient,
   type RugbyLeagueResponse,
   type RugbyLeaguesParams,
   useRugbyLeagues as useRugbyLeaguesApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'rugby';
-const FAVORITES_TYPE = 'league';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface RugbyLeagueWithFavorite extends RugbyLeagueResponse {
   favorited: boolean;
 }
 
-export interface UseRugbyLeaguesOptions {
+export interface UseRugbyLeaguesOptions
+  extends
+    SportEntityListOptions<RugbyLeagueWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: RugbyLeaguesParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseRugbyLeaguesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (leagueId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    leagueIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useRugbyLeagues(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseRugbyLeaguesOptions
-): UseRugbyLeaguesResult {
-  const leaguesQuery = useRugbyLeaguesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useRugbyLeagues: SportEntityHook<
+  UseRugbyLeaguesOptions | undefined,
+  UseRugbyLeaguesResult
+> = createSportEntityHook({
+  useApi: useRugbyLeaguesApi,
+  subcategory: 'rugby',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteRugbyLeaguesOptions
+  extends
+    Omit<
+      UseRugbyLeaguesOptions,
+      keyof SportEntityListOptions<RugbyLeagueWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const leagues = useMemo<RugbyLeagueWithFavorite[]>(() => {
-    const response = leaguesQuery.data?.response ?? [];
-    return response.map(league => ({
-      ...league,
-      favorited: favoritedIds.has(String(league.id)),
-    }));
-  }, [leaguesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteRugbyLeaguesResult
+  extends
+    UseRugbyLeaguesResult,
+    SportEntityPageResult<RugbyLeagueWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (leagueId: number, favorited: boolean) => {
-      const itemId = String(leagueId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useRugbyLeagues, handing the leagues out a page at a time
+ */
+export const useInfiniteRugbyLeagues: SportEntityHook<
+  UseInfiniteRugbyLeaguesOptions | undefined,
+  UseInfiniteRugbyLeaguesResult
+> = createInfiniteSportEntityHook({
+  useApi: useRugbyLeaguesApi,
+  subcategory: 'rugby',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  return {
-    leagues,
-    isLoading: leaguesQuery.isLoading || favoritesLoading,
-    isError: leaguesQuery.isError,
-    error: leaguesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the leagues and favorites read by useRugbyLeagues, e.g. on the server
+ */
+export const prefetchRugbyLeagues = createSportPrefetch<
+  ApiRugbyClient,
+  RugbyLeaguesParams
+>({
+  queryKey: heavymathKeys.sports.rugby.leagues,
+  queryFn: (client, params) => client.getLeagues(params),
+  subcategory: 'rugby',
+  type: 'league',
+});
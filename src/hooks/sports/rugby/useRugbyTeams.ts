@@ -2,27 +2,33 @@
  * Hook for rugby teams with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiRugbyClient,
   type RugbyTeamResponse,
   type RugbyTeamsParams,
   useRugbyTeams as useRugbyTeamsApi,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'rugby';
-const FAVORITES_TYPE = 'team';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface RugbyTeamWithFavorite extends RugbyTeamResponse {
   favorited: boolean;
 }
 
-export interface UseRugbyTeamsOptions {
+export interface UseRugbyTeamsOptions
+  extends
+    SportEntityListOptions<RugbyTeamWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: RugbyTeamsParams;
   enabled?: boolean;
 }
@@ -33,71 +39,63 @@ export interface UseRugbyTeamsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (teamId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    teamIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useRugbyTeams(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseRugbyTeamsOptions
-): UseRugbyTeamsResult {
-  const teamsQuery = useRugbyTeamsApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useRugbyTeams: SportEntityHook<
+  UseRugbyTeamsOptions | undefined,
+  UseRugbyTeamsResult
+> = createSportEntityHook({
+  useApi: useRugbyTeamsApi,
+  subcategory: 'rugby',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteRugbyTeamsOptions
+  extends
+    Omit<
+      UseRugbyTeamsOptions,
+      keyof SportEntityListOptions<RugbyTeamWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const teams = useMemo<RugbyTeamWithFavorite[]>(() => {
-    const response = teamsQuery.data?.response ?? [];
-    return response.map(team => ({
-      ...team,
-      favorited: favoritedIds.has(String(team.id)),
-    }));
-  }, [teamsQuery.data?.response, favoritedIds]);
+export interface UseInfiniteRugbyTeamsResult
+  extends UseRugbyTeamsResult, SportEntityPageResult<RugbyTeamWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (teamId: number, favorited: boolean) => {
-      const itemId = String(teamId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useRugbyTeams, handing the teams out a page at a time
+ */
+export const useInfiniteRugbyTeams: SportEntityHook<
+  UseInfiniteRugbyTeamsOptions | undefined,
+  UseInfiniteRugbyTeamsResult
+> = createInfiniteSportEntityHook({
+  useApi: useRugbyTeamsApi,
+  subcategory: 'rugby',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  return {
-    teams,
-    isLoading: teamsQuery.isLoading || favoritesLoading,
-    isError: teamsQuery.isError,
-    error: teamsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the teams and favorites read by useRugbyTeams, e.g. on the server
+ */
+export const prefetchRugbyTeams = createSportPrefetch<
+  ApiRugbyClient,
+  RugbyTeamsParams
+>({
+  queryKey: heavymathKeys.sports.rugby.teams,
+  queryFn: (client, params) => client.getTeams(params),
+  subcategory: 'rugby',
+  type: 'team',
+});
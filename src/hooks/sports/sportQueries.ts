@@ -0,0 +1,58 @@
+/**
+ * Query keys owned by the sports hooks
+ *
+ * Sports lists are cached under the sports_api_client keys, so only the
+ * prefetched favorites need keys of their own.
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+
+/**
+ * Query keys of prefetched favorites, read by the sports hooks until
+ * useFavorites has loaded; wallet addresses are lowercased
+ */
+export const sportFavoritesKeys = {
+  all: ['heavymath', 'favorites'] as const,
+  wallet: (walletAddress: string) =>
+    [...sportFavoritesKeys.all, walletAddress.toLowerCase()] as const,
+  /** Favorites of one entity type, as listed by the indexer */
+  list: (
+    walletAddress: string,
+    category: string,
+    subcategory: string,
+    type: string
+  ) =>
+    [
+      ...sportFavoritesKeys.wallet(walletAddress),
+      category,
+      subcategory,
+      type,
+    ] as const,
+};
+
+/**
+ * Refetch the favorites of a wallet after changing them outside useFavorites
+ *
+ * Matches the wallet's queries with a favorites segment in their key: the
+ * prefetched lists above and indexer_client's favorites, whose keys are not
+ * exported. Its other queries, e.g. positions, keep their data. The
+ * address is matched in any case.
+ *
+ * @param queryClient - Client holding the favorites queries
+ * @param walletAddress - Wallet whose favorites changed
+ */
+export function invalidateWalletFavorites(
+  queryClient: QueryClient,
+  walletAddress: string
+): Promise<void> {
+  const wallet = walletAddress.toLowerCase();
+  return queryClient.invalidateQueries({
+    predicate: query =>
+      query.queryKey.some(
+        part => typeof part === 'string' && part.toLowerCase() === wallet
+      ) &&
+      query.queryKey.some(
+        part => typeof part === 'string' && /favorite/i.test(part)
+      ),
+  });
+}
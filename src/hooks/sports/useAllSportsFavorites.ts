@@ -0,0 +1,626 @@
+/**
+ * Hook for every sports favorite of a wallet, resolved to full entities
+ * Combines useFavorites from indexer_client with the sports_api_client clients
+ */
+
+import { useMemo } from 'react';
+import {
+  type QueryKey,
+  useQueries,
+  type UseQueryResult,
+} from '@tanstack/react-query';
+import {
+  type ApiBaseballClient,
+  apiBaseballKeys,
+  type ApiBasketballClient,
+  apiBasketballKeys,
+  type ApiFootballClient,
+  apiFootballKeys,
+  type ApiHandballClient,
+  apiHandballKeys,
+  type ApiHockeyClient,
+  apiHockeyKeys,
+  type ApiMmaClient,
+  apiMmaKeys,
+  type ApiNflClient,
+  apiNflKeys,
+  type ApiRugbyClient,
+  apiRugbyKeys,
+  type ApiVolleyballClient,
+  apiVolleyballKeys,
+  type BaseballGame,
+  type BaseballLeagueResponse,
+  type BaseballTeamResponse,
+  type BasketballGame,
+  type BasketballLeagueResponse,
+  type BasketballTeamResponse,
+  type FootballFixtureResponse,
+  type FootballFixturesParams,
+  type FootballLeagueResponse,
+  type FootballTeamResponse,
+  type HandballGame,
+  type HandballLeagueResponse,
+  type HandballTeamResponse,
+  type HockeyGame,
+  type HockeyLeagueResponse,
+  type HockeyTeamResponse,
+  type MmaFight,
+  type MmaFighter,
+  type NflGame,
+  type NflLeagueResponse,
+  type NflTeamResponse,
+  type RugbyGame,
+  type RugbyLeagueResponse,
+  type RugbyTeamResponse,
+  useApiBaseballClient,
+  useApiBasketballClient,
+  useApiFootballClient,
+  useApiHandballClient,
+  useApiHockeyClient,
+  useApiMmaClient,
+  useApiNflClient,
+  useApiRugbyClient,
+  useApiVolleyballClient,
+  type VolleyballGame,
+  type VolleyballLeagueResponse,
+  type VolleyballTeamResponse,
+} from '@sudobility/sports_api_client';
+import {
+  type IndexerClient,
+  useFavorites,
+  type WalletFavoriteData,
+} from '@sudobility/heavymath_indexer_client';
+import {
+  isSport,
+  type Sport,
+  SPORTS,
+  SPORTS_FAVORITES_CATEGORY,
+} from '../../types';
+import type { MmaCategoryWithFavorite } from './mma';
+
+/**
+ * Entity type for every favorites type of every sport
+ */
+export interface SportFavoriteEntityMap {
+  football: {
+    league: FootballLeagueResponse;
+    team: FootballTeamResponse;
+    match: FootballFixtureResponse;
+  };
+  basketball: {
+    league: BasketballLeagueResponse;
+    team: BasketballTeamResponse;
+    game: BasketballGame;
+  };
+  nfl: {
+    league: NflLeagueResponse;
+    team: NflTeamResponse;
+    game: NflGame;
+  };
+  baseball: {
+    league: BaseballLeagueResponse;
+    team: BaseballTeamResponse;
+    game: BaseballGame;
+  };
+  hockey: {
+    league: HockeyLeagueResponse;
+    team: HockeyTeamResponse;
+    game: HockeyGame;
+  };
+  rugby: {
+    league: RugbyLeagueResponse;
+    team: RugbyTeamResponse;
+    game: RugbyGame;
+  };
+  mma: {
+    category: Omit<MmaCategoryWithFavorite, 'favorited'>;
+    fighter: MmaFighter;
+    fight: MmaFight;
+  };
+  handball: {
+    league: HandballLeagueResponse;
+    team: HandballTeamResponse;
+    game: HandballGame;
+  };
+  volleyball: {
+    league: VolleyballLeagueResponse;
+    team: VolleyballTeamResponse;
+    game: VolleyballGame;
+  };
+}
+
+/**
+ * Favorites type of a sport, e.g. 'match' for football
+ */
+export type SportFavoriteType<S extends Sport = Sport> =
+  keyof SportFavoriteEntityMap[S] & string;
+
+/**
+ * A single favorite resolved to its sports API entity
+ */
+export type SportsFavoriteItem = {
+  [S in Sport]: {
+    [T in SportFavoriteType<S>]: {
+      sport: S;
+      type: T;
+      itemId: string;
+      favorite: WalletFavoriteData;
+      /** Undefined while loading or when the API no longer returns it */
+      entity: SportFavoriteEntityMap[S][T] | undefined;
+    };
+  }[SportFavoriteType<S>];
+}[Sport];
+
+/**
+ * Favorites grouped by sport, then by favorites type
+ */
+export type SportsFavoriteGroups = {
+  [S in Sport]: {
+    [T in SportFavoriteType<S>]: Extract<
+      SportsFavoriteItem,
+      { sport: S; type: T }
+    >[];
+  };
+};
+
+/**
+ * Options for useAllSportsFavorites hook
+ */
+export interface UseAllSportsFavoritesOptions {
+  enabled?: boolean;
+}
+
+/**
+ * Return type for useAllSportsFavorites hook
+ */
+export interface UseAllSportsFavoritesResult {
+  items: SportsFavoriteItem[];
+  groups: SportsFavoriteGroups;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  favoritesLoading: boolean;
+  entitiesLoading: boolean;
+}
+
+interface SportsApiClients {
+  football: ApiFootballClient;
+  basketball: ApiBasketballClient;
+  nfl: ApiNflClient;
+  baseball: ApiBaseballClient;
+  hockey: ApiHockeyClient;
+  rugby: ApiRugbyClient;
+  mma: ApiMmaClient;
+  handball: ApiHandballClient;
+  volleyball: ApiVolleyballClient;
+}
+
+type FavoriteResolver<TEntity> =
+  | {
+      /** Same key the sports_api_client hook uses for `{ params: { id } }` */
+      queryKey: (id: number) => QueryKey;
+      fetch: (
+        clients: SportsApiClients,
+        id: number
+      ) => Promise<{ response: TEntity[] }>;
+    }
+  | {
+      /** Same key the sports_api_client hook uses for `{ params: { ids } }` */
+      queryKeyMany: (ids: string) => QueryKey;
+      /** Fetches the entities of dash-separated ids in one request */
+      fetchMany: (
+        clients: SportsApiClients,
+        ids: string
+      ) => Promise<{ response: TEntity[] }>;
+      getId: (entity: TEntity) => number;
+      /** Ids the API takes in one request */
+      maxIds: number;
+    }
+  | {
+      /** Entity fully described by its itemId, no request needed */
+      fromItemId: (itemId: string) => TEntity;
+    };
+
+interface ResolvableFavorite {
+  favorite: WalletFavoriteData;
+  resolver: FavoriteResolver<unknown>;
+}
+
+type FetchedResolver = Exclude<
+  FavoriteResolver<unknown>,
+  { fromItemId: unknown }
+>;
+
+/**
+ * Sports API request resolving the favorites of one sport and type
+ */
+interface EntityRequest {
+  queryKey: QueryKey;
+  queryFn: () => Promise<{ response: unknown[] }>;
+  /** `${subcategory}:${type}` of the requested favorites */
+  scope: string;
+  /** Id of each entity of the response */
+  getId: (entity: unknown) => number;
+}
+
+type FavoriteResolvers = {
+  [S in Sport]: {
+    [T in SportFavoriteType<S>]: FavoriteResolver<SportFavoriteEntityMap[S][T]>;
+  };
+};
+
+const RESOLVERS: FavoriteResolvers = {
+  football: {
+    league: {
+      queryKey: id => apiFootballKeys.leagues.list({ id }),
+      fetch: (clients, id) => clients.football.getLeagues({ id }),
+    },
+    team: {
+      queryKey: id => apiFootballKeys.teams.list({ id }),
+      fetch: (clients, id) => clients.football.getTeams({ id }),
+    },
+    match: {
+      // Not in FootballFixturesParams, but passed on to the API as is
+      queryKeyMany: ids => apiFootballKeys.fixtures.list({ ids }),
+      fetchMany: (clients, ids) =>
+        clients.football.getFixtures({ ids } as FootballFixturesParams),
+      getId: fixture => fixture.fixture.id,
+      maxIds: 20,
+    },
+  },
+  basketball: {
+    league: {
+      queryKey: id => apiBasketballKeys.leagues.list({ id }),
+      fetch: (clients, id) => clients.basketball.getLeagues({ id }),
+    },
+    team: {
+      queryKey: id => apiBasketballKeys.teams.list({ id }),
+      fetch: (clients, id) => clients.basketball.getTeams({ id }),
+    },
+    game: {
+      queryKey: id => apiBasketballKeys.games.list({ id }),
+      fetch: (clients, id) => clients.basketball.getGames({ id }),
+    },
+  },
+  nfl: {
+    league: {
+      queryKey: id => apiNflKeys.leagues.list({ id }),
+      fetch: (clients, id) => clients.nfl.getLeagues({ id }),
+    },
+    team: {
+      queryKey: id => apiNflKeys.teams.list({ id }),
+      fetch: (clients, id) => clients.nfl.getTeams({ id }),
+    },
+    game: {
+      queryKey: id => apiNflKeys.games.list({ id }),
+      fetch: (clients, id) => clients.nfl.getGames({ id }),
+    },
+  },
+  baseball: {
+    league: {
+      queryKey: id => apiBaseballKeys.leagues.list({ id }),
+      fetch: (clients, id) => clients.baseball.getLeagues({ id }),
+    },
+    team: {
+      queryKey: id => apiBaseballKeys.teams.list({ id }),
+      fetch: (clients, id) => clients.baseball.getTeams({ id }),
+    },
+    game: {
+      queryKey: id => apiBaseballKeys.games.list({ id }),
+      fetch: (clients, id) => clients.baseball.getGames({ id }),
+    },
+  },
+  hockey: {
+    league: {
+      queryKey: id => apiHockeyKeys.leagues.list({ id }),
+      fetch: (clients, id) => clients.hockey.getLeagues({ id }),
+    },
+    team: {
+      queryKey: id => apiHockeyKeys.teams.list({ id }),
+      fetch: (clients, id) => clients.hockey.getTeams({ id }),
+    },
+    game: {
+      queryKey: id => apiHockeyKeys.games.list({ id }),
+      fetch: (clients, id) => clients.hockey.getGames({ id }),
+    },
+  },
+  rugby: {
+    league: {
+      queryKey: id => apiRugbyKeys.leagues.list({ id }),
+      fetch: (clients, id) => clients.rugby.getLeagues({ id }),
+    },
+    team: {
+      queryKey: id => apiRugbyKeys.teams.list({ id }),
+      fetch: (clients, id) => clients.rugby.getTeams({ id }),
+    },
+    game: {
+      queryKey: id => apiRugbyKeys.games.list({ id }),
+      fetch: (clients, id) => clients.rugby.getGames({ id }),
+    },
+  },
+  mma: {
+    category: {
+      fromItemId: itemId => ({ name: itemId }),
+    },
+    fighter: {
+      queryKey: id => apiMmaKeys.fighters.list({ id }),
+      fetch: (clients, id) => clients.mma.getFighters({ id }),
+    },
+    fight: {
+      queryKey: id => apiMmaKeys.fights.list({ id }),
+      fetch: (clients, id) => clients.mma.getFights({ id }),
+    },
+  },
+  handball: {
+    league: {
+      queryKey: id => apiHandballKeys.leagues.list({ id }),
+      fetch: (clients, id) => clients.handball.getLeagues({ id }),
+    },
+    team: {
+      queryKey: id => apiHandballKeys.teams.list({ id }),
+      fetch: (clients, id) => clients.handball.getTeams({ id }),
+    },
+    game: {
+      queryKey: id => apiHandballKeys.games.list({ id }),
+      fetch: (clients, id) => clients.handball.getGames({ id }),
+    },
+  },
+  volleyball: {
+    league: {
+      queryKey: id => apiVolleyballKeys.leagues.list({ id }),
+      fetch: (clients, id) => clients.volleyball.getLeagues({ id }),
+    },
+    team: {
+      queryKey: id => apiVolleyballKeys.teams.list({ id }),
+      fetch: (clients, id) => clients.volleyball.getTeams({ id }),
+    },
+    game: {
+      queryKey: id => apiVolleyballKeys.games.list({ id }),
+      fetch: (clients, id) => clients.volleyball.getGames({ id }),
+    },
+  },
+};
+
+/**
+ * Look up the resolver for a favorite, if its sport and type are supported
+ */
+function getResolver(
+  favorite: WalletFavoriteData
+): FavoriteResolver<unknown> | undefined {
+  const { subcategory, type } = favorite;
+  if (!isSport(subcategory)) return undefined;
+  const sportResolvers = RESOLVERS[subcategory] as Record<
+    string,
+    FavoriteResolver<unknown>
+  >;
+  return Object.prototype.hasOwnProperty.call(sportResolvers, type)
+    ? sportResolvers[type]
+    : undefined;
+}
+
+/**
+ * Requests resolving the favorites: one per batch of ids where the API
+ * takes several, one per favorite otherwise
+ */
+function toEntityRequests(
+  resolvable: readonly ResolvableFavorite[],
+  clients: SportsApiClients
+): EntityRequest[] {
+  const ids = new Map<FetchedResolver, Set<number>>();
+  const scopes = new Map<FetchedResolver, string>();
+  resolvable.forEach(({ favorite, resolver }) => {
+    const id = Number(favorite.itemId);
+    if ('fromItemId' in resolver || Number.isNaN(id)) return;
+    ids.set(resolver, (ids.get(resolver) ?? new Set()).add(id));
+    scopes.set(resolver, `${favorite.subcategory}:${favorite.type}`);
+  });
+
+  return [...ids].flatMap(([resolver, resolverIds]): EntityRequest[] => {
+    const scope = scopes.get(resolver) as string;
+    // Sorted so the keys do not depend on the favorites order
+    const sorted = [...resolverIds].sort((a, b) => a - b);
+    if ('fetch' in resolver) {
+      return sorted.map(id => ({
+        queryKey: resolver.queryKey(id),
+        queryFn: () => resolver.fetch(clients, id),
+        scope,
+        getId: () => id,
+      }));
+    }
+    const batches = Array.from(
+      { length: Math.ceil(sorted.length / resolver.maxIds) },
+      (_, index) =>
+        sorted
+          .slice(index * resolver.maxIds, (index + 1) * resolver.maxIds)
+          .join('-')
+    );
+    return batches.map(batch => ({
+      queryKey: resolver.queryKeyMany(batch),
+      queryFn: () => resolver.fetchMany(clients, batch),
+      scope,
+      getId: resolver.getId,
+    }));
+  });
+}
+
+/**
+ * Data, loading and error of the entity requests; the data array keeps its
+ * identity until a response changes
+ */
+function combineEntityQueries(
+  results: UseQueryResult<{ response: unknown[] }>[]
+) {
+  return {
+    data: results.map(result => result.data),
+    isLoading: results.some(result => result.isLoading),
+    error: results.find(result => result.error)?.error ?? null,
+  };
+}
+
+/**
+ * Create empty groups for every sport and favorites type
+ */
+function createEmptyGroups(): SportsFavoriteGroups {
+  const groups = {} as Record<string, Record<string, SportsFavoriteItem[]>>;
+  SPORTS.forEach(sport => {
+    groups[sport] = {};
+    Object.keys(RESOLVERS[sport]).forEach(type => {
+      groups[sport][type] = [];
+    });
+  });
+  return groups as unknown as SportsFavoriteGroups;
+}
+
+/**
+ * Hook to fetch every sports favorite of a wallet, resolved to full entities
+ *
+ * Requires every sports_api_client provider (ApiFootballProvider,
+ * ApiBasketballProvider, ...) to be mounted above the calling component.
+ *
+ * Football matches are fetched up to 20 at a time with the API's `ids`
+ * filter. The other lists only filter by a single id, so their favorites
+ * take a request each, cached under the same key as the sports hooks.
+ *
+ * @param indexerClient - IndexerClient instance for favorites operations
+ * @param walletAddress - User's wallet address for favorites
+ * @param options - Query options
+ * @returns Favorites as a flat list and grouped by sport and type
+ *
+ * @example
+ * ```typescript
+ * function MySports() {
+ *   const { items, isLoading } = useAllSportsFavorites(
+ *     indexerClient,
+ *     walletAddress
+ *   );
+ *
+ *   return items.map(item => (
+ *     <FavoriteRow key={item.favorite.id} item={item} />
+ *   ));
+ * }
+ * ```
+ */
+export function useAllSportsFavorites(
+  indexerClient: IndexerClient,
+  walletAddress: string | undefined,
+  options?: UseAllSportsFavoritesOptions
+): UseAllSportsFavoritesResult {
+  const enabled = options?.enabled ?? true;
+
+  // Fetch every sports favorite of the wallet
+  const {
+    favorites,
+    isLoading: favoritesLoading,
+    isError: favoritesIsError,
+    error: favoritesError,
+  } = useFavorites(indexerClient, walletAddress, {
+    category: SPORTS_FAVORITES_CATEGORY,
+  });
+
+  const football = useApiFootballClient();
+  const basketball = useApiBasketballClient();
+  const nfl = useApiNflClient();
+  const baseball = useApiBaseballClient();
+  const hockey = useApiHockeyClient();
+  const rugby = useApiRugbyClient();
+  const mma = useApiMmaClient();
+  const handball = useApiHandballClient();
+  const volleyball = useApiVolleyballClient();
+
+  const clients = useMemo<SportsApiClients>(
+    () => ({
+      football,
+      basketball,
+      nfl,
+      baseball,
+      hockey,
+      rugby,
+      mma,
+      handball,
+      volleyball,
+    }),
+    [
+      football,
+      basketball,
+      nfl,
+      baseball,
+      hockey,
+      rugby,
+      mma,
+      handball,
+      volleyball,
+    ]
+  );
+
+  // Favorites of supported sports and types, with their resolver
+  const resolvable = useMemo<ResolvableFavorite[]>(() => {
+    return favorites.flatMap((favorite: WalletFavoriteData) => {
+      const resolver = getResolver(favorite);
+      return resolver ? [{ favorite, resolver }] : [];
+    });
+  }, [favorites]);
+
+  // Favorites that need a sports API request, batched per sport and type
+  const requests = useMemo(
+    () => toEntityRequests(resolvable, clients),
+    [resolvable, clients]
+  );
+
+  const entityQueries = useQueries({
+    queries: requests.map(({ queryKey, queryFn }) => ({
+      queryKey,
+      queryFn,
+      enabled,
+    })),
+    combine: combineEntityQueries,
+  });
+  const entityData = entityQueries.data;
+
+  const items = useMemo<SportsFavoriteItem[]>(() => {
+    const fetched = new Map<string, unknown>();
+    requests.forEach(({ scope, getId }, index) => {
+      entityData[index]?.response.forEach(entity => {
+        fetched.set(`${scope}:${getId(entity)}`, entity);
+      });
+    });
+
+    return resolvable.map(({ favorite, resolver }) => {
+      const { subcategory, type, itemId } = favorite;
+      return {
+        sport: subcategory,
+        type,
+        itemId,
+        favorite,
+        entity:
+          'fromItemId' in resolver
+            ? resolver.fromItemId(itemId)
+            : fetched.get(`${subcategory}:${type}:${Number(itemId)}`),
+      } as SportsFavoriteItem;
+    });
+  }, [resolvable, requests, entityData]);
+
+  const groups = useMemo(() => {
+    const grouped = createEmptyGroups();
+    items.forEach(item => {
+      const sportGroups = grouped[item.sport] as Record<
+        string,
+        SportsFavoriteItem[]
+      >;
+      sportGroups[item.type].push(item);
+    });
+    return grouped;
+  }, [items]);
+
+  const entitiesLoading = entityQueries.isLoading;
+  const entityError = entityQueries.error;
+
+  return {
+    items,
+    groups,
+    isLoading: favoritesLoading || entitiesLoading,
+    isError: favoritesIsError || entityError !== null,
+    error: favoritesError ?? entityError,
+    favoritesLoading,
+    entitiesLoading,
+  };
+}
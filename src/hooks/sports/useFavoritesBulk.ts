@@ -0,0 +1,179 @@
+/**
+ * Hook for bulk favorite changes, e.g. following every team of a league
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { WalletFavoriteData } from '@sudobility/heavymath_indexer_client';
+import {
+  type FavoriteBulkResult,
+  type FavoriteFilter,
+  type FavoritesBulkClient,
+  SPORTS_FAVORITES_CATEGORY,
+} from '../../types';
+import { mapWithConcurrency } from '../../utils';
+import { invalidateWalletFavorites } from './sportQueries';
+
+/**
+ * Indexer calls in flight at once during a bulk change, unless overridden
+ */
+export const DEFAULT_FAVORITES_CONCURRENCY = 4;
+
+/**
+ * Favorite or unfavorite many items of one list
+ *
+ * The wallet's current favorites are read once; items already in the
+ * requested state are reported as unchanged. Failures are reported per item
+ * instead of stopping the batch.
+ *
+ * @param indexerClient - IndexerClient instance
+ * @param walletAddress - Wallet to change
+ * @param filter - Category, subcategory and type of the list
+ * @param itemIds - Items to change, or `null` for every current favorite
+ * @param favorited - Requested state
+ * @param concurrency - Calls in flight at once
+ * @returns One result per distinct item id, in order
+ */
+export async function applyFavoritesInBulk(
+  indexerClient: FavoritesBulkClient,
+  walletAddress: string,
+  filter: FavoriteFilter,
+  itemIds: readonly string[] | null,
+  favorited: boolean,
+  concurrency: number = DEFAULT_FAVORITES_CONCURRENCY
+): Promise<FavoriteBulkResult[]> {
+  const existing = await indexerClient.getWalletFavorites(
+    walletAddress,
+    filter
+  );
+  const favoriteIds = new Map<string, WalletFavoriteData['id']>(
+    existing.map((favorite: WalletFavoriteData) => [
+      favorite.itemId,
+      favorite.id,
+    ])
+  );
+  const ids = [...new Set(itemIds ?? favoriteIds.keys())];
+
+  return mapWithConcurrency(
+    ids,
+    concurrency,
+    async (id): Promise<FavoriteBulkResult> => {
+      const favoriteId = favoriteIds.get(id);
+      if ((favoriteId !== undefined) === favorited) {
+        return { id, status: 'unchanged', error: null };
+      }
+      try {
+        if (favoriteId === undefined) {
+          await indexerClient.addFavorite(walletAddress, { ...filter, id });
+        } else {
+          await indexerClient.removeFavorite(walletAddress, favoriteId);
+        }
+        return { id, status: 'updated', error: null };
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        return { id, status: 'failed', error };
+      }
+    }
+  );
+}
+
+/**
+ * Options for useFavoritesBulk hook
+ */
+export interface UseFavoritesBulkOptions {
+  /** Defaults to DEFAULT_FAVORITES_CONCURRENCY */
+  concurrency?: number;
+}
+
+/**
+ * Return type for useFavoritesBulk hook
+ */
+export interface UseFavoritesBulkResult {
+  /** Favorite or unfavorite many items of one list */
+  setManyFavorited: (
+    filter: FavoriteFilter,
+    itemIds: readonly string[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult[]>;
+  /** Unfavorite everything of one sport list, e.g. ('football', 'team') */
+  clearFavorites: (
+    subcategory: string,
+    type: string
+  ) => Promise<FavoriteBulkResult[]>;
+  /** Results of the last change */
+  results: FavoriteBulkResult[] | undefined;
+  /** Error that prevented the change, e.g. no connected wallet */
+  error: Error | null;
+  isPending: boolean;
+  reset: () => void;
+}
+
+interface BulkVariables {
+  filter: FavoriteFilter;
+  itemIds: readonly string[] | null;
+  favorited: boolean;
+}
+
+/**
+ * Hook to change many favorites of a wallet at once
+ *
+ * Runs with bounded concurrency and refetches the wallet's favorites once
+ * at the end, so every sports hook picks the changes up.
+ *
+ * @param indexerClient - IndexerClient instance, as taken by the sports hooks
+ * @param walletAddress - Wallet to change
+ * @param options - Concurrency
+ * @returns Bulk change functions and the last results
+ *
+ * @example
+ * ```typescript
+ * const { clearFavorites } = useFavoritesBulk(indexerClient, walletAddress);
+ *
+ * const results = await clearFavorites('football', 'team');
+ * const failed = results.filter(result => result.status === 'failed');
+ * ```
+ */
+export function useFavoritesBulk(
+  indexerClient: FavoritesBulkClient,
+  walletAddress: string | undefined,
+  options: UseFavoritesBulkOptions = {}
+): UseFavoritesBulkResult {
+  const { concurrency } = options;
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<FavoriteBulkResult[], Error, BulkVariables>({
+    mutationFn: async ({ filter, itemIds, favorited }) => {
+      if (!walletAddress) {
+        throw new Error('Connect a wallet to change favorites');
+      }
+      return applyFavoritesInBulk(
+        indexerClient,
+        walletAddress,
+        filter,
+        itemIds,
+        favorited,
+        concurrency
+      );
+    },
+    onSuccess: results => {
+      if (!walletAddress) return;
+      if (results.some(result => result.status !== 'unchanged')) {
+        invalidateWalletFavorites(queryClient, walletAddress);
+      }
+    },
+  });
+
+  return {
+    setManyFavorited: (filter, itemIds, favorited) =>
+      mutation.mutateAsync({ filter, itemIds, favorited }),
+    clearFavorites: (subcategory, type) =>
+      mutation.mutateAsync({
+        filter: { category: SPORTS_FAVORITES_CATEGORY, subcategory, type },
+        itemIds: null,
+        favorited: false,
+      }),
+    results: mutation.data,
+    error: mutation.error,
+    isPending: mutation.isPending,
+    reset: mutation.reset,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Hooks for the record of two teams against each other, one per team sport
+ * Combine the sports_api_client head-to-head hooks with the team form utils
+ */
+
+import { useMemo } from 'react';
+import {
+  useBaseballGamesHeadToHead,
+  useBasketballGamesHeadToHead,
+  useFootballFixturesHeadToHead,
+  useHandballH2H,
+  useHockeyGamesHeadToHead,
+  useNflGamesHeadToHead,
+  useRugbyGamesHeadToHead,
+  useVolleyballH2H,
+} from '@sudobility/sports_api_client';
+import type { HeadToHead, SportEvent, TeamSport } from '../../types';
+import {
+  computeHeadToHead,
+  DEFAULT_FORM_GAMES,
+  SPORT_EVENT_ADAPTERS,
+  type SportEventSourceMap,
+} from '../../utils';
+import type { SportApiListQuery } from './createSportEntityHook';
+
+/**
+ * Options for the head-to-head hooks
+ */
+export interface UseHeadToHeadOptions {
+  /** Only meetings of this season, e.g. 2024, or '2023-2024' for basketball */
+  season?: number | string;
+  /** Latest meetings to keep, defaults to DEFAULT_FORM_GAMES */
+  last?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Return type for the head-to-head hooks
+ */
+export interface UseHeadToHeadResult {
+  headToHead: HeadToHead;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Head-to-head hook of one sport
+ */
+export type HeadToHeadHook = (
+  teamA: number,
+  teamB: number,
+  options?: UseHeadToHeadOptions
+) => UseHeadToHeadResult;
+
+interface HeadToHeadHookConfig<S extends TeamSport, TParams> {
+  sport: S;
+  /** Head-to-head hook from sports_api_client */
+  useApi: (options: {
+    params: TParams;
+    enabled: boolean;
+  }) => SportApiListQuery<SportEventSourceMap[S]>;
+  /** Params listing the meetings of the `h2h` pair, e.g. '33-40' */
+  toParams: (
+    h2h: string,
+    season: UseHeadToHeadOptions['season'],
+    last: number
+  ) => TParams;
+}
+
+function toNumericSeason(
+  season: UseHeadToHeadOptions['season']
+): number | undefined {
+  return typeof season === 'string' ? Number.parseInt(season, 10) : season;
+}
+
+function createHeadToHeadHook<S extends TeamSport, TParams>(
+  config: HeadToHeadHookConfig<S, TParams>
+): HeadToHeadHook {
+  const { sport, useApi, toParams } = config;
+  const adapt = SPORT_EVENT_ADAPTERS[sport] as (
+    entity: SportEventSourceMap[S]
+  ) => SportEvent;
+
+  return function useSportHeadToHead(
+    teamA: number,
+    teamB: number,
+    options: UseHeadToHeadOptions = {}
+  ): UseHeadToHeadResult {
+    const { season, last = DEFAULT_FORM_GAMES, enabled = true } = options;
+
+    const query = useApi({
+      params: toParams(`${teamA}-${teamB}`, season, last),
+      enabled,
+    });
+    const response = query.data?.response;
+
+    const headToHead = useMemo(
+      () =>
+        computeHeadToHead((response ?? []).map(adapt), teamA, teamB, {
+          last,
+        }),
+      [response, teamA, teamB, last]
+    );
+
+    return {
+      headToHead,
+      isLoading: query.isLoading,
+      isError: query.isError,
+      error: query.error,
+    };
+  };
+}
+
+/**
+ * Hook to fetch the latest meetings of two football teams with each side's
+ * record
+ *
+ * Needs ApiFootballProvider from sports_api_client above the calling
+ * component. The season is an optional filter of the head-to-head
+ * endpoints; without it, football asks for the latest meetings directly.
+ *
+ * @param teamA - Id of the first team in API-Football
+ * @param teamB - Id of the second team
+ * @param options - Season, number of meetings and query options
+ * @returns Meetings and each team's results, averages and home/away splits
+ *
+ * @example
+ * ```typescript
+ * function Rivalry({ home, away }: { home: number; away: number }) {
+ *   const { headToHead } = useFootballHeadToHead(home, away, { last: 10 });
+ *   const { won, drawn, lost } = headToHead.teamA.overall;
+ *   return <Record won={won} drawn={drawn} lost={lost} />;
+ * }
+ * ```
+ */
+export const useFootballHeadToHead: HeadToHeadHook = createHeadToHeadHook({
+  sport: 'football',
+  useApi: useFootballFixturesHeadToHead,
+  toParams: (h2h, season, last) => {
+    const numericSeason = toNumericSeason(season);
+    return numericSeason === undefined
+      ? { h2h, last }
+      : { h2h, season: numericSeason };
+  },
+});
+
+/**
+ * Hook to fetch the meetings of two basketball teams, see
+ * useFootballHeadToHead; needs ApiBasketballProvider
+ */
+export const useBasketballHeadToHead: HeadToHeadHook = createHeadToHeadHook({
+  sport: 'basketball',
+  useApi: useBasketballGamesHeadToHead,
+  toParams: (h2h, season) => ({
+    h2h,
+    season: season === undefined ? undefined : String(season),
+  }),
+});
+
+/**
+ * Hook to fetch the meetings of two NFL teams, see useFootballHeadToHead;
+ * needs ApiNflProvider
+ */
+export const useNflHeadToHead: HeadToHeadHook = createHeadToHeadHook({
+  sport: 'nfl',
+  useApi: useNflGamesHeadToHead,
+  toParams: (h2h, season) => ({ h2h, season: toNumericSeason(season) }),
+});
+
+/**
+ * Hook to fetch the meetings of two baseball teams, see
+ * useFootballHeadToHead; needs ApiBaseballProvider
+ */
+export const useBaseballHeadToHead: HeadToHeadHook = createHeadToHeadHook({
+  sport: 'baseball',
+  useApi: useBaseballGamesHeadToHead,
+  toParams: (h2h, season) => ({ h2h, season: toNumericSeason(season) }),
+});
+
+/**
+ * Hook to fetch the meetings of two hockey teams, see useFootballHeadToHead;
+ * needs ApiHockeyProvider
+ */
+export const useHockeyHeadToHead: HeadToHeadHook = createHeadToHeadHook({
+  sport: 'hockey',
+  useApi: useHockeyGamesHeadToHead,
+  toParams: (h2h, season) => ({ h2h, season: toNumericSeason(season) }),
+});
+
+/**
+ * Hook to fetch the meetings of two rugby teams, see useFootballHeadToHead;
+ * needs ApiRugbyProvider
+ */
+export const useRugbyHeadToHead: HeadToHeadHook = createHeadToHeadHook({
+  sport: 'rugby',
+  useApi: useRugbyGamesHeadToHead,
+  toParams: (h2h, season) => ({ h2h, season }),
+});
+
+/**
+ * Hook to fetch the meetings of two handball teams, see
+ * useFootballHeadToHead; needs ApiHandballProvider
+ */
+export const useHandballHeadToHead: HeadToHeadHook = createHeadToHeadHook({
+  sport: 'handball',
+  useApi: useHandballH2H,
+  toParams: (h2h, season) => ({ h2h, season: toNumericSeason(season) }),
+});
+
+/**
+ * Hook to fetch the meetings of two volleyball teams, see
+ * useFootballHeadToHead; needs ApiVolleyballProvider
+ */
+export const useVolleyballHeadToHead: HeadToHeadHook = createHeadToHeadHook({
+  sport: 'volleyball',
+  useApi: useVolleyballH2H,
+  toParams: (h2h, season) => ({ h2h, season: toNumericSeason(season) }),
+});
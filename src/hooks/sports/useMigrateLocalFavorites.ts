@@ -0,0 +1,158 @@
+/**
+ * Hook to move device-only favorites to a connected wallet
+ */
+
+import { useSyncExternalStore } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { WalletFavoriteData } from '@sudobility/heavymath_indexer_client';
+import type {
+  FavoritesMigrationClient,
+  LocalFavorite,
+  LocalFavoriteMigrationResult,
+  LocalFavoritesStore,
+} from '../../types';
+import { invalidateWalletFavorites } from './sportQueries';
+
+/**
+ * Return type for useMigrateLocalFavorites hook
+ */
+export interface UseMigrateLocalFavoritesResult {
+  /** Upload the local favorites, resolves with one result per favorite */
+  migrate: () => Promise<LocalFavoriteMigrationResult[]>;
+  /** Local favorites still waiting to be migrated */
+  localFavorites: readonly LocalFavorite[];
+  /** Results of the last migration */
+  results: LocalFavoriteMigrationResult[] | undefined;
+  /** Error that prevented migrating at all, e.g. no connected wallet */
+  error: Error | null;
+  isPending: boolean;
+  reset: () => void;
+}
+
+/**
+ * Add the local favorites the wallet does not have yet, one list at a time
+ */
+async function migrateFavorites(
+  indexerClient: FavoritesMigrationClient,
+  walletAddress: string,
+  favorites: readonly LocalFavorite[]
+): Promise<LocalFavoriteMigrationResult[]> {
+  const lists = new Map<string, LocalFavorite[]>();
+  favorites.forEach(favorite => {
+    const key = JSON.stringify([
+      favorite.category,
+      favorite.subcategory,
+      favorite.type,
+    ]);
+    lists.set(key, [...(lists.get(key) ?? []), favorite]);
+  });
+
+  const results: LocalFavoriteMigrationResult[] = [];
+  for (const list of lists.values()) {
+    const { category, subcategory, type } = list[0];
+    const existing = await indexerClient.getWalletFavorites(walletAddress, {
+      category,
+      subcategory,
+      type,
+    });
+    const existingIds = new Set(
+      existing.map((favorite: WalletFavoriteData) => favorite.itemId)
+    );
+
+    for (const favorite of list) {
+      if (existingIds.has(favorite.itemId)) {
+        results.push({ favorite, status: 'duplicate', error: null });
+        continue;
+      }
+      try {
+        await indexerClient.addFavorite(walletAddress, {
+          category,
+          subcategory,
+          type,
+          id: favorite.itemId,
+        });
+        results.push({ favorite, status: 'added', error: null });
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        results.push({ favorite, status: 'failed', error });
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * Hook to migrate favorites made without a wallet once one connects
+ *
+ * Favorites the wallet already has are not added again. Migrated favorites
+ * are removed from the local store; failed ones stay for another attempt.
+ *
+ * @param indexerClient - IndexerClient instance, as taken by the sports hooks
+ * @param walletAddress - Wallet to add the favorites to
+ * @param localFavorites - Store from createLocalFavorites
+ * @returns Migration function, pending local favorites and results
+ *
+ * @example
+ * ```typescript
+ * function ImportFavoritesPrompt() {
+ *   const { migrate, localFavorites, isPending } = useMigrateLocalFavorites(
+ *     indexerClient,
+ *     walletAddress,
+ *     localFavoritesStore
+ *   );
+ *
+ *   if (!walletAddress || localFavorites.length === 0) return null;
+ *   return (
+ *     <button disabled={isPending} onClick={() => migrate()}>
+ *       Save {localFavorites.length} favorites to your wallet
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useMigrateLocalFavorites(
+  indexerClient: FavoritesMigrationClient,
+  walletAddress: string | undefined,
+  localFavorites: LocalFavoritesStore
+): UseMigrateLocalFavoritesResult {
+  const queryClient = useQueryClient();
+  const favorites = useSyncExternalStore(
+    localFavorites.subscribe,
+    localFavorites.getFavorites,
+    localFavorites.getFavorites
+  );
+
+  const mutation = useMutation<LocalFavoriteMigrationResult[], Error, void>({
+    mutationFn: async () => {
+      if (!walletAddress) {
+        throw new Error('Connect a wallet to migrate favorites');
+      }
+      await localFavorites.ready;
+      return migrateFavorites(
+        indexerClient,
+        walletAddress,
+        localFavorites.getFavorites()
+      );
+    },
+    onSuccess: results => {
+      localFavorites.remove(
+        results
+          .filter(result => result.status !== 'failed')
+          .map(result => result.favorite)
+      );
+      if (!walletAddress) return;
+      if (results.some(result => result.status === 'added')) {
+        invalidateWalletFavorites(queryClient, walletAddress);
+      }
+    },
+  });
+
+  return {
+    migrate: () => mutation.mutateAsync(),
+    localFavorites: favorites,
+    results: mutation.data,
+    error: mutation.error,
+    isPending: mutation.isPending,
+    reset: mutation.reset,
+  };
+}
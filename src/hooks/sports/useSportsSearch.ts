@@ -0,0 +1,116 @@
+/**
+ * Hook for the global search over teams, leagues and fighters
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type {
+  SportSearchEntry,
+  SportSearchGroup,
+  SportSearchOptions,
+  SportSearchResult,
+} from '../../types';
+import {
+  createSportsSearchIndex,
+  groupSearchResults,
+  type SportsSearchIndexOptions,
+} from '../../utils';
+
+/**
+ * Delay between the last keystroke and the search, unless overridden
+ */
+export const DEFAULT_SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Options for useSportsSearch hook
+ */
+export interface UseSportsSearchOptions
+  extends SportsSearchIndexOptions, SportSearchOptions {
+  /** Defaults to DEFAULT_SEARCH_DEBOUNCE_MS */
+  debounceMs?: number;
+}
+
+/**
+ * Return type for useSportsSearch hook
+ */
+export interface UseSportsSearchResult {
+  /** Matches of the debounced query, best first */
+  results: SportSearchResult[];
+  /** Results grouped by sport and type, best group first */
+  groups: SportSearchGroup[];
+  /** Query the results belong to */
+  searchedQuery: string;
+  /** The query changed and the results are about to follow */
+  isDebouncing: boolean;
+}
+
+/**
+ * Hook to search entities loaded by the sports hooks
+ *
+ * The entries are indexed again when they change, e.g. when a list loads
+ * or a favorite flips; the query is debounced.
+ *
+ * @param query - Text typed in the search box
+ * @param entries - Entries from the search adapters, memoized
+ * @param options - Debounce, filters, limit, aliases and favorite boost
+ * @returns Debounced results, flat and grouped
+ *
+ * @example
+ * ```typescript
+ * function GlobalSearch({ query }: { query: string }) {
+ *   const { teams } = useFootballTeams(indexerClient, walletAddress, {
+ *     params: { league: 39, season: 2024 },
+ *   });
+ *   const { fighters } = useMmaFighters(indexerClient, walletAddress);
+ *   const entries = useMemo(
+ *     () => [
+ *       ...teams.map(footballTeamToSearchEntry),
+ *       ...fighters.map(mmaFighterToSearchEntry),
+ *     ],
+ *     [teams, fighters]
+ *   );
+ *
+ *   const { groups } = useSportsSearch(query, entries, { limit: 20 });
+ *   return groups.map(group => (
+ *     <SearchSection key={`${group.sport}:${group.type}`} group={group} />
+ *   ));
+ * }
+ * ```
+ */
+export function useSportsSearch(
+  query: string,
+  entries: readonly SportSearchEntry[],
+  options: UseSportsSearchOptions = {}
+): UseSportsSearchResult {
+  const {
+    debounceMs = DEFAULT_SEARCH_DEBOUNCE_MS,
+    aliases,
+    favoriteBoost,
+    limit,
+    sports,
+    types,
+  } = options;
+
+  const [searchedQuery, setSearchedQuery] = useState(query);
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchedQuery(query), debounceMs);
+    return () => clearTimeout(timer);
+  }, [query, debounceMs]);
+
+  const index = useMemo(
+    () => createSportsSearchIndex(entries, { aliases, favoriteBoost }),
+    [entries, aliases, favoriteBoost]
+  );
+
+  const results = useMemo(
+    () => index.search(searchedQuery, { limit, sports, types }),
+    [index, searchedQuery, limit, sports, types]
+  );
+  const groups = useMemo(() => groupSearchResults(results), [results]);
+
+  return {
+    results,
+    groups,
+    searchedQuery,
+    isDebouncing: searchedQuery !== query,
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * Hooks for the recent form of a team, one per team sport
+ * Combine the sports_api_client game hooks with the team form utils
+ */
+
+import { useMemo } from 'react';
+import {
+  useBaseballGames,
+  useBasketballGames,
+  useFootballFixtures,
+  useHandballGames,
+  useHockeyGames,
+  useNflGames,
+  useRugbyGames,
+  useVolleyballGames,
+} from '@sudobility/sports_api_client';
+import type { SportEvent, TeamForm, TeamSport } from '../../types';
+import {
+  computeTeamForm,
+  DEFAULT_FORM_GAMES,
+  SPORT_EVENT_ADAPTERS,
+  type SportEventSourceMap,
+} from '../../utils';
+import type { SportApiListQuery } from './createSportEntityHook';
+
+/**
+ * Options for the team form hooks
+ */
+export interface UseTeamFormOptions {
+  /**
+   * Season to read the games from, e.g. 2024, or '2023-2024' for
+   * basketball. Every API but football's needs it to list a team's games,
+   * so their query stays disabled until it is given.
+   */
+  season?: number | string;
+  /** Latest games to keep, defaults to DEFAULT_FORM_GAMES */
+  last?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Return type for the team form hooks
+ */
+export interface UseTeamFormResult {
+  form: TeamForm;
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+}
+
+/**
+ * Team form hook of one sport
+ */
+export type TeamFormHook = (
+  teamId: number,
+  options?: UseTeamFormOptions
+) => UseTeamFormResult;
+
+interface TeamFormHookConfig<S extends TeamSport, TParams> {
+  sport: S;
+  /** Games hook from sports_api_client */
+  useApi: (options: {
+    params: TParams;
+    enabled: boolean;
+  }) => SportApiListQuery<SportEventSourceMap[S]>;
+  /** Params listing the team's games */
+  toParams: (
+    teamId: number,
+    season: UseTeamFormOptions['season'],
+    last: number
+  ) => TParams;
+  /** Whether the API needs a season to list a team's games */
+  needsSeason: boolean;
+}
+
+function toNumericSeason(
+  season: UseTeamFormOptions['season']
+): number | undefined {
+  return typeof season === 'string' ? Number.parseInt(season, 10) : season;
+}
+
+function createTeamFormHook<S extends TeamSport, TParams>(
+  config: TeamFormHookConfig<S, TParams>
+): TeamFormHook {
+  const { sport, useApi, toParams, needsSeason } = config;
+  const adapt = SPORT_EVENT_ADAPTERS[sport] as (
+    entity: SportEventSourceMap[S]
+  ) => SportEvent;
+
+  return function useSportTeamForm(
+    teamId: number,
+    options: UseTeamFormOptions = {}
+  ): UseTeamFormResult {
+    const { season, last = DEFAULT_FORM_GAMES, enabled = true } = options;
+
+    const query = useApi({
+      params: toParams(teamId, season, last),
+      enabled: enabled && (!needsSeason || season !== undefined),
+    });
+    const response = query.data?.response;
+
+    const form = useMemo(
+      () => computeTeamForm((response ?? []).map(adapt), teamId, { last }),
+      [response, teamId, last]
+    );
+
+    return {
+      form,
+      isLoading: query.isLoading,
+      isError: query.isError,
+      error: query.error,
+    };
+  };
+}
+
+/**
+ * Hook to fetch the latest results of a football team with its streak and
+ * averages
+ *
+ * Needs ApiFootballProvider from sports_api_client above the calling
+ * component. Without a season, the team's latest fixtures are asked for
+ * directly.
+ *
+ * @param teamId - Id of the team in API-Football
+ * @param options - Season, number of games and query options
+ * @returns Form, streak, and overall and home/away records
+ *
+ * @example
+ * ```typescript
+ * function TeamFormBadge({ teamId }: { teamId: number }) {
+ *   const { form } = useFootballTeamForm(teamId, { last: 5 });
+ *   return <FormString value={form.form} streak={form.streak} />;
+ * }
+ * ```
+ */
+export const useFootballTeamForm: TeamFormHook = createTeamFormHook({
+  sport: 'football',
+  useApi: useFootballFixtures,
+  toParams: (team, season, last) => {
+    const numericSeason = toNumericSeason(season);
+    return numericSeason === undefined
+      ? { team, last }
+      : { team, season: numericSeason };
+  },
+  needsSeason: false,
+});
+
+/**
+ * Hook to fetch the latest results of a basketball team, see
+ * useFootballTeamForm
+ *
+ * Needs ApiBasketballProvider, and stays disabled until a season such as
+ * '2023-2024' is given.
+ */
+export const useBasketballTeamForm: TeamFormHook = createTeamFormHook({
+  sport: 'basketball',
+  useApi: useBasketballGames,
+  toParams: (team, season) => ({
+    team,
+    season: season === undefined ? undefined : String(season),
+  }),
+  needsSeason: true,
+});
+
+/**
+ * Hook to fetch the latest results of an NFL team, see useFootballTeamForm
+ *
+ * Needs ApiNflProvider, and stays disabled until a season is given.
+ */
+export const useNflTeamForm: TeamFormHook = createTeamFormHook({
+  sport: 'nfl',
+  useApi: useNflGames,
+  toParams: (team, season) => ({ team, season: toNumericSeason(season) }),
+  needsSeason: true,
+});
+
+/**
+ * Hook to fetch the latest results of a baseball team, see
+ * useFootballTeamForm
+ *
+ * Needs ApiBaseballProvider, and stays disabled until a season is given.
+ */
+export const useBaseballTeamForm: TeamFormHook = createTeamFormHook({
+  sport: 'baseball',
+  useApi: useBaseballGames,
+  toParams: (team, season) => ({ team, season: toNumericSeason(season) }),
+  needsSeason: true,
+});
+
+/**
+ * Hook to fetch the latest results of a hockey team, see useFootballTeamForm
+ *
+ * Needs ApiHockeyProvider, and stays disabled until a season is given.
+ */
+export const useHockeyTeamForm: TeamFormHook = createTeamFormHook({
+  sport: 'hockey',
+  useApi: useHockeyGames,
+  toParams: (team, season) => ({ team, season: toNumericSeason(season) }),
+  needsSeason: true,
+});
+
+/**
+ * Hook to fetch the latest results of a rugby team, see useFootballTeamForm
+ *
+ * Needs ApiRugbyProvider, and stays disabled until a season is given.
+ */
+export const useRugbyTeamForm: TeamFormHook = createTeamFormHook({
+  sport: 'rugby',
+  useApi: useRugbyGames,
+  toParams: (team, season) => ({ team, season }),
+  needsSeason: true,
+});
+
+/**
+ * Hook to fetch the latest results of a handball team, see
+ * useFootballTeamForm
+ *
+ * Needs ApiHandballProvider, and stays disabled until a season is given.
+ */
+export const useHandballTeamForm: TeamFormHook = createTeamFormHook({
+  sport: 'handball',
+  useApi: useHandballGames,
+  toParams: (team, season) => ({ team, season: toNumericSeason(season) }),
+  needsSeason: true,
+});
+
+/**
+ * Hook to fetch the latest results of a volleyball team, see
+ * useFootballTeamForm
+ *
+ * Needs ApiVolleyballProvider, and stays disabled until a season is given.
+ */
+export const useVolleyballTeamForm: TeamFormHook = createTeamFormHook({
+  sport: 'volleyball',
+  useApi: useVolleyballGames,
+  toParams: (team, season) => ({ team, season: toNumericSeason(season) }),
+  needsSeason: true,
+});
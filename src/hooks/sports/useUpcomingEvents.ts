@@ -0,0 +1,215 @@
+/**
+ * Hook for a single time-ordered feed of events across every sport
+ * Combines the sports_api_client game hooks with useFavorites from indexer_client
+ */
+
+import { useMemo } from 'react';
+import {
+  useBaseballGames,
+  useBasketballGames,
+  useFootballFixtures,
+  useHandballGames,
+  useHockeyGames,
+  useMmaFights,
+  useNflGames,
+  useRugbyGames,
+  useVolleyballGames,
+} from '@sudobility/sports_api_client';
+import {
+  type IndexerClient,
+  useFavorites,
+  type WalletFavoriteData,
+} from '@sudobility/heavymath_indexer_client';
+import {
+  type Sport,
+  type SportEvent,
+  SPORTS,
+  SPORTS_FAVORITES_CATEGORY,
+} from '../../types';
+import {
+  compareSportEvents,
+  SPORT_EVENT_ADAPTERS,
+  SPORT_EVENT_FAVORITE_TYPES,
+  type SportEventSourceMap,
+} from '../../utils';
+import type { SportApiListQuery } from './createSportEntityHook';
+
+/**
+ * Normalized event with favorite status
+ */
+export interface SportEventWithFavorite extends SportEvent {
+  favorited: boolean;
+}
+
+/**
+ * Options for useUpcomingEvents hook
+ */
+export interface UseUpcomingEventsOptions {
+  /** Sports to include, defaults to every sport */
+  sports?: readonly Sport[];
+  /** Day to fetch as YYYY-MM-DD, defaults to today (UTC) */
+  date?: string;
+  /** IANA timezone passed to the sports APIs */
+  timezone?: string;
+  /** Keep finished events in the feed */
+  includeFinished?: boolean;
+  enabled?: boolean;
+}
+
+/**
+ * Return type for useUpcomingEvents hook
+ */
+export interface UseUpcomingEventsResult {
+  events: SportEventWithFavorite[];
+  isLoading: boolean;
+  isError: boolean;
+  error: Error | null;
+  favoritesLoading: boolean;
+}
+
+type EventsQueries = {
+  [S in Sport]: SportApiListQuery<SportEventSourceMap[S]>;
+};
+
+/**
+ * Hook to fetch one day of events from every sport as a single feed
+ *
+ * Events are normalized to {@link SportEvent}, ordered by start time and
+ * flagged with the wallet's favorites. Finished events are dropped unless
+ * `includeFinished` is set. Requires the sports_api_client provider of every
+ * included sport to be mounted above the calling component.
+ *
+ * @param indexerClient - IndexerClient instance for favorites operations
+ * @param walletAddress - User's wallet address for favorites
+ * @param options - Sports, day and query options
+ * @returns Time-ordered events with favorite status
+ *
+ * @example
+ * ```typescript
+ * function Schedule() {
+ *   const { events, isLoading } = useUpcomingEvents(
+ *     indexerClient,
+ *     walletAddress,
+ *     { sports: ['football', 'basketball'] }
+ *   );
+ *
+ *   return events.map(event => <EventRow key={event.key} event={event} />);
+ * }
+ * ```
+ */
+export function useUpcomingEvents(
+  indexerClient: IndexerClient,
+  walletAddress: string | undefined,
+  options: UseUpcomingEventsOptions = {}
+): UseUpcomingEventsResult {
+  const {
+    sports = SPORTS,
+    date = new Date().toISOString().split('T')[0],
+    timezone,
+    includeFinished = false,
+    enabled = true,
+  } = options;
+
+  const params = timezone ? { date, timezone } : { date };
+  const queryOptions = (sport: Sport) => ({
+    params,
+    enabled: enabled && sports.includes(sport),
+  });
+
+  // Fetch the day's events of every sport; excluded sports stay disabled
+  const football = useFootballFixtures(queryOptions('football'));
+  const basketball = useBasketballGames(queryOptions('basketball'));
+  const nfl = useNflGames(queryOptions('nfl'));
+  const baseball = useBaseballGames(queryOptions('baseball'));
+  const hockey = useHockeyGames(queryOptions('hockey'));
+  const rugby = useRugbyGames(queryOptions('rugby'));
+  const mma = useMmaFights(queryOptions('mma'));
+  const handball = useHandballGames(queryOptions('handball'));
+  const volleyball = useVolleyballGames(queryOptions('volleyball'));
+
+  // Fetch every sports favorite of the wallet
+  const { favorites, isLoading: favoritesLoading } = useFavorites(
+    indexerClient,
+    walletAddress,
+    { category: SPORTS_FAVORITES_CATEGORY }
+  );
+
+  // Create a set of favorite keys for O(1) lookup
+  const favoriteKeys = useMemo(() => {
+    return new Set(
+      favorites.map(
+        (f: WalletFavoriteData) => `${f.subcategory}:${f.type}:${f.itemId}`
+      )
+    );
+  }, [favorites]);
+
+  const sportsKey = sports.join();
+
+  // Normalize, filter and order every included sport's events
+  const events = useMemo(() => {
+    const responses: { [S in Sport]: SportEventSourceMap[S][] | undefined } = {
+      football: football.data?.response,
+      basketball: basketball.data?.response,
+      nfl: nfl.data?.response,
+      baseball: baseball.data?.response,
+      hockey: hockey.data?.response,
+      rugby: rugby.data?.response,
+      mma: mma.data?.response,
+      handball: handball.data?.response,
+      volleyball: volleyball.data?.response,
+    };
+
+    return SPORTS.filter(sport => sportsKey.split(',').includes(sport))
+      .flatMap(sport => {
+        const adapt = SPORT_EVENT_ADAPTERS[sport] as (
+          entity: SportEventSourceMap[Sport]
+        ) => SportEvent;
+        return (responses[sport] ?? []).map(adapt);
+      })
+      .filter(event => includeFinished || event.status.phase !== 'finished')
+      .sort(compareSportEvents)
+      .map(event => ({
+        ...event,
+        favorited: favoriteKeys.has(
+          `${event.sport}:${SPORT_EVENT_FAVORITE_TYPES[event.sport]}:${event.id}`
+        ),
+      }));
+  }, [
+    football.data?.response,
+    basketball.data?.response,
+    nfl.data?.response,
+    baseball.data?.response,
+    hockey.data?.response,
+    rugby.data?.response,
+    mma.data?.response,
+    handball.data?.response,
+    volleyball.data?.response,
+    sportsKey,
+    includeFinished,
+    favoriteKeys,
+  ]);
+
+  const queries: EventsQueries = {
+    football,
+    basketball,
+    nfl,
+    baseball,
+    hockey,
+    rugby,
+    mma,
+    handball,
+    volleyball,
+  };
+  const activeQueries = SPORTS.filter(sport => sports.includes(sport)).map(
+    sport => queries[sport]
+  );
+  const failedQuery = activeQueries.find(query => query.isError);
+
+  return {
+    events,
+    isLoading: activeQueries.some(query => query.isLoading) || favoritesLoading,
+    isError: failedQuery !== undefined,
+    error: failedQuery?.error ?? null,
+    favoritesLoading,
+  };
+}
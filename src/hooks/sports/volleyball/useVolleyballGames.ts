@@ -2,27 +2,35 @@
  * Hook for volleyball games with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiVolleyballClient,
   useVolleyballGames as useVolleyballGamesApi,
   type VolleyballGame,
   type VolleyballGamesParams,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'volleyball';
-const FAVORITES_TYPE = 'game';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
+import { type SportLiveOptions } from '../livePolling';
 
 export interface VolleyballGameWithFavorite extends VolleyballGame {
   favorited: boolean;
 }
 
-export interface UseVolleyballGamesOptions {
+export interface UseVolleyballGamesOptions
+  extends
+    SportEntityListOptions<VolleyballGameWithFavorite>,
+    SportLiveOptions,
+    SportFavoritesSyncOptions {
   params?: VolleyballGamesParams;
   enabled?: boolean;
 }
@@ -33,71 +41,67 @@ export interface UseVolleyballGamesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (gameId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    gameIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useVolleyballGames(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseVolleyballGamesOptions
-): UseVolleyballGamesResult {
-  const gamesQuery = useVolleyballGamesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useVolleyballGames: SportEntityHook<
+  UseVolleyballGamesOptions | undefined,
+  UseVolleyballGamesResult
+> = createSportEntityHook({
+  useApi: useVolleyballGamesApi,
+  subcategory: 'volleyball',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteVolleyballGamesOptions
+  extends
+    Omit<
+      UseVolleyballGamesOptions,
+      keyof SportEntityListOptions<VolleyballGameWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const games = useMemo<VolleyballGameWithFavorite[]>(() => {
-    const response = gamesQuery.data?.response ?? [];
-    return response.map(game => ({
-      ...game,
-      favorited: favoritedIds.has(String(game.id)),
-    }));
-  }, [gamesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteVolleyballGamesResult
+  extends
+    UseVolleyballGamesResult,
+    SportEntityPageResult<VolleyballGameWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (gameId: number, favorited: boolean) => {
-      const itemId = String(gameId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useVolleyballGames, handing the games out a page at a time
+ */
+export const useInfiniteVolleyballGames: SportEntityHook<
+  UseInfiniteVolleyballGamesOptions | undefined,
+  UseInfiniteVolleyballGamesResult
+> = createInfiniteSportEntityHook({
+  useApi: useVolleyballGamesApi,
+  subcategory: 'volleyball',
+  type: 'game',
+  listKey: 'games',
+  getId: game => game.id,
+  getStatus: game => game.status.short,
+});
 
-  return {
-    games,
-    isLoading: gamesQuery.isLoading || favoritesLoading,
-    isError: gamesQuery.isError,
-    error: gamesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the games and favorites read by useVolleyballGames, e.g. on the server
+ */
+export const prefetchVolleyballGames = createSportPrefetch<
+  ApiVolleyballClient,
+  VolleyballGamesParams
+>({
+  queryKey: heavymathKeys.sports.volleyball.games,
+  queryFn: (client, params) => client.getGames(params),
+  subcategory: 'volleyball',
+  type: 'game',
+});
@@ -2,27 +2,33 @@
  * Hook for volleyball leagues with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiVolleyballClient,
   useVolleyballLeagues as useVolleyballLeaguesApi,
   type VolleyballLeagueResponse,
   type VolleyballLeaguesParams,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'volleyball';
-const FAVORITES_TYPE = 'league';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface VolleyballLeagueWithFavorite extends VolleyballLeagueResponse {
   favorited: boolean;
 }
 
-export interface UseVolleyballLeaguesOptions {
+export interface UseVolleyballLeaguesOptions
+  extends
+    SportEntityListOptions<VolleyballLeagueWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: VolleyballLeaguesParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseVolleyballLeaguesResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (leagueId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    leagueIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useVolleyballLeagues(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseVolleyballLeaguesOptions
-): UseVolleyballLeaguesResult {
-  const leaguesQuery = useVolleyballLeaguesApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useVolleyballLeagues: SportEntityHook<
+  UseVolleyballLeaguesOptions | undefined,
+  UseVolleyballLeaguesResult
+> = createSportEntityHook({
+  useApi: useVolleyballLeaguesApi,
+  subcategory: 'volleyball',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteVolleyballLeaguesOptions
+  extends
+    Omit<
+      UseVolleyballLeaguesOptions,
+      keyof SportEntityListOptions<VolleyballLeagueWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const leagues = useMemo<VolleyballLeagueWithFavorite[]>(() => {
-    const response = leaguesQuery.data?.response ?? [];
-    return response.map(league => ({
-      ...league,
-      favorited: favoritedIds.has(String(league.id)),
-    }));
-  }, [leaguesQuery.data?.response, favoritedIds]);
+export interface UseInfiniteVolleyballLeaguesResult
+  extends
+    UseVolleyballLeaguesResult,
+    SportEntityPageResult<VolleyballLeagueWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (leagueId: number, favorited: boolean) => {
-      const itemId = String(leagueId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useVolleyballLeagues, handing the leagues out a page at a time
+ */
+export const useInfiniteVolleyballLeagues: SportEntityHook<
+  UseInfiniteVolleyballLeaguesOptions | undefined,
+  UseInfiniteVolleyballLeaguesResult
+> = createInfiniteSportEntityHook({
+  useApi: useVolleyballLeaguesApi,
+  subcategory: 'volleyball',
+  type: 'league',
+  listKey: 'leagues',
+  getId: league => league.id,
+});
 
-  return {
-    leagues,
-    isLoading: leaguesQuery.isLoading || favoritesLoading,
-    isError: leaguesQuery.isError,
-    error: leaguesQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the leagues and favorites read by useVolleyballLeagues, e.g. on the server
+ */
+export const prefetchVolleyballLeagues = createSportPrefetch<
+  ApiVolleyballClient,
+  VolleyballLeaguesParams
+>({
+  queryKey: heavymathKeys.sports.volleyball.leagues,
+  queryFn: (client, params) => client.getLeagues(params),
+  subcategory: 'volleyball',
+  type: 'league',
+});
@@ -2,27 +2,33 @@
  * Hook for volleyball teams with favorites support
  */
 
-import { useCallback, useMemo } from 'react';
 import {
+  type ApiVolleyballClient,
   useVolleyballTeams as useVolleyballTeamsApi,
   type VolleyballTeamResponse,
   type VolleyballTeamsParams,
 } from '@sudobility/sports_api_client';
+import type { FavoriteBulkResult } from '../../../types';
+import { heavymathKeys } from '../../queryKeys';
 import {
-  type IndexerClient,
-  useFavorites,
-  type WalletFavoriteData,
-} from '@sudobility/heavymath_indexer_client';
-
-const FAVORITES_CATEGORY = 'sports';
-const FAVORITES_SUBCATEGORY = 'volleyball';
-const FAVORITES_TYPE = 'team';
+  createInfiniteSportEntityHook,
+  createSportEntityHook,
+  type SportEntityHook,
+  type SportEntityListOptions,
+  type SportEntityPageOptions,
+  type SportEntityPageResult,
+} from '../createSportEntityHook';
+import { createSportPrefetch } from '../createSportPrefetch';
+import { type SportFavoritesSyncOptions } from '../favoritesSync';
 
 export interface VolleyballTeamWithFavorite extends VolleyballTeamResponse {
   favorited: boolean;
 }
 
-export interface UseVolleyballTeamsOptions {
+export interface UseVolleyballTeamsOptions
+  extends
+    SportEntityListOptions<VolleyballTeamWithFavorite>,
+    SportFavoritesSyncOptions {
   params?: VolleyballTeamsParams;
   enabled?: boolean;
 }
@@ -33,71 +39,65 @@ export interface UseVolleyballTeamsResult {
   isError: boolean;
   error: Error | null;
   setFavorited: (teamId: number, favorited: boolean) => Promise<void>;
+  setManyFavorited: (
+    teamIds: readonly number[],
+    favorited: boolean
+  ) => Promise<FavoriteBulkResult<number>[]>;
   favoritesLoading: boolean;
   addFavoritePending: boolean;
   removeFavoritePending: boolean;
+  favoriteError: Error | null;
+  favoritedCount: number;
+  totalCount: number;
 }
 
-export function useVolleyballTeams(
-  indexerClient: IndexerClient,
-  walletAddress: string | undefined,
-  options?: UseVolleyballTeamsOptions
-): UseVolleyballTeamsResult {
-  const teamsQuery = useVolleyballTeamsApi(options);
-
-  const {
-    favorites,
-    isLoading: favoritesLoading,
-    addFavorite,
-    removeFavorite,
-  } = useFavorites(indexerClient, walletAddress, {
-    category: FAVORITES_CATEGORY,
-    subcategory: FAVORITES_SUBCATEGORY,
-    type: FAVORITES_TYPE,
-  });
+export const useVolleyballTeams: SportEntityHook<
+  UseVolleyballTeamsOptions | undefined,
+  UseVolleyballTeamsResult
+> = createSportEntityHook({
+  useApi: useVolleyballTeamsApi,
+  subcategory: 'volleyball',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  const favoritedIds = useMemo(() => {
-    return new Set(favorites.map((f: WalletFavoriteData) => f.itemId));
-  }, [favorites]);
+export interface UseInfiniteVolleyballTeamsOptions
+  extends
+    Omit<
+      UseVolleyballTeamsOptions,
+      keyof SportEntityListOptions<VolleyballTeamWithFavorite>
+    >,
+    SportEntityPageOptions {}
 
-  const teams = useMemo<VolleyballTeamWithFavorite[]>(() => {
-    const response = teamsQuery.data?.response ?? [];
-    return response.map(team => ({
-      ...team,
-      favorited: favoritedIds.has(String(team.id)),
-    }));
-  }, [teamsQuery.data?.response, favoritedIds]);
+export interface UseInfiniteVolleyballTeamsResult
+  extends
+    UseVolleyballTeamsResult,
+    SportEntityPageResult<VolleyballTeamWithFavorite> {}
 
-  const setFavorited = useCallback(
-    async (teamId: number, favorited: boolean) => {
-      const itemId = String(teamId);
-      if (favorited) {
-        await addFavorite.mutateAsync({
-          category: FAVORITES_CATEGORY,
-          subcategory: FAVORITES_SUBCATEGORY,
-          type: FAVORITES_TYPE,
-          id: itemId,
-        });
-      } else {
-        const favorite = favorites.find(
-          (f: WalletFavoriteData) => f.itemId === itemId
-        );
-        if (favorite) {
-          await removeFavorite.mutateAsync(favorite.id);
-        }
-      }
-    },
-    [addFavorite, removeFavorite, favorites]
-  );
+/**
+ * Infinite variant of useVolleyballTeams, handing the teams out a page at a time
+ */
+export const useInfiniteVolleyballTeams: SportEntityHook<
+  UseInfiniteVolleyballTeamsOptions | undefined,
+  UseInfiniteVolleyballTeamsResult
+> = createInfiniteSportEntityHook({
+  useApi: useVolleyballTeamsApi,
+  subcategory: 'volleyball',
+  type: 'team',
+  listKey: 'teams',
+  getId: team => team.id,
+});
 
-  return {
-    teams,
-    isLoading: teamsQuery.isLoading || favoritesLoading,
-    isError: teamsQuery.isError,
-    error: teamsQuery.error,
-    setFavorited,
-    favoritesLoading,
-    addFavoritePending: addFavorite.isPending,
-    removeFavoritePending: removeFavorite.isPending,
-  };
-}
+/**
+ * Prefetch the teams and favorites read by useVolleyballTeams, e.g. on the server
+ */
+export const prefetchVolleyballTeams = createSportPrefetch<
+  ApiVolleyballClient,
+  VolleyballTeamsParams
+>({
+  queryKey: heavymathKeys.sports.volleyball.teams,
+  queryFn: (client, params) => client.getTeams(params),
+  subcategory: 'volleyball',
+  type: 'team',
+});
@@ -0,0 +1,138 @@
+/**
+ * Transaction lifecycle shared by the hooks that write to a contracts client
+ */
+
+import { useCallback, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ContractTransactionError } from '../utils';
+
+/**
+ * Lifecycle of a contract transaction
+ * - `'idle'`              - Nothing submitted yet, or reset
+ * - `'validating'`        - Checking the input, e.g. market status and balance
+ * - `'awaitingSignature'` - Waiting for the wallet to sign
+ * - `'submitted'`         - Broadcast, waiting to be mined; txHash is set
+ * - `'confirmed'`         - Mined successfully
+ * - `'failed'`            - Rejected by validation, the wallet or the chain
+ */
+export type ContractTxStage =
+  | 'idle'
+  | 'validating'
+  | 'awaitingSignature'
+  | 'submitted'
+  | 'confirmed'
+  | 'failed';
+
+/**
+ * Configuration for useContractTransaction
+ */
+export interface ContractTransactionConfig<TInput> {
+  /** Error message without a connected wallet, e.g. 'Connect a wallet to bid' */
+  walletRequiredMessage: string;
+  /** Checks before signing; throw the validation error to reject the input */
+  validate?: (input: TInput, walletAddress: string) => Promise<void> | void;
+  /** Ask the wallet to sign and submit, resolves with the tx hash */
+  submit: (input: TInput) => Promise<string>;
+  waitForTransaction: (txHash: string) => Promise<{ status: string }>;
+  /** Called once mined, e.g. to invalidate the changed queries */
+  onConfirmed?: (input: TInput, txHash: string) => void;
+}
+
+/**
+ * Return type for useContractTransaction hook
+ */
+export interface UseContractTransactionResult<TInput> {
+  /** Validate and submit, resolves with the tx hash once mined */
+  submit: (input: TInput) => Promise<string>;
+  stage: ContractTxStage;
+  txHash: string | undefined;
+  /** Validation error, or ContractTransactionError with the revert reason */
+  error: Error | null;
+  isPending: boolean;
+  reset: () => void;
+}
+
+/**
+ * Hook running a contract write through its lifecycle stages
+ *
+ * Validation errors are thrown as they are; failures of signing or mining
+ * are wrapped in ContractTransactionError so the revert reason is decoded.
+ *
+ * @param walletAddress - Address of the connected wallet
+ * @param config - Validation, submission and confirmation of the write
+ * @returns Mutation function and its lifecycle state
+ *
+ * @example
+ * ```typescript
+ * const { submit, stage } = useContractTransaction<BidInput>(walletAddress, {
+ *   walletRequiredMessage: 'Connect a wallet to place a bid',
+ *   submit: input => auctionsClient.placeBid(input.auctionId, input.amount),
+ *   waitForTransaction: hash => auctionsClient.waitForTransaction(hash),
+ * });
+ * ```
+ */
+export function useContractTransaction<TInput>(
+  walletAddress: string | undefined,
+  config: ContractTransactionConfig<TInput>
+): UseContractTransactionResult<TInput> {
+  const {
+    walletRequiredMessage,
+    validate,
+    submit,
+    waitForTransaction,
+    onConfirmed,
+  } = config;
+  const [stage, setStage] = useState<ContractTxStage>('idle');
+  const [txHash, setTxHash] = useState<string | undefined>(undefined);
+
+  const mutation = useMutation<string, Error, TInput>({
+    mutationFn: async input => {
+      setTxHash(undefined);
+      setStage('validating');
+
+      if (!walletAddress) {
+        throw new Error(walletRequiredMessage);
+      }
+      await validate?.(input, walletAddress);
+
+      try {
+        setStage('awaitingSignature');
+        const hash = await submit(input);
+
+        setTxHash(hash);
+        setStage('submitted');
+        const receipt = await waitForTransaction(hash);
+        if (receipt.status !== 'success') {
+          throw new Error('Transaction reverted');
+        }
+
+        return hash;
+      } catch (err) {
+        // Decode the revert reason for display
+        throw new ContractTransactionError(err);
+      }
+    },
+    onSuccess: (hash, input) => {
+      setStage('confirmed');
+      onConfirmed?.(input, hash);
+    },
+    onError: () => setStage('failed'),
+  });
+
+  const { reset: resetMutation } = mutation;
+
+  const reset = useCallback(() => {
+    resetMutation();
+    setStage('idle');
+    setTxHash(undefined);
+  }, [resetMutation]);
+
+  return {
+    submit: mutation.mutateAsync,
+    stage,
+    txHash,
+    error: mutation.error,
+    isPending: mutation.isPending,
+    reset,
+  };
+}
@@ -17,6 +17,12 @@
 // React hooks
 export * from './hooks';
 
+// Shared types
+export * from './types';
+
+// Utilities
+export * from './utils';
+
 /**
  * Library version
  */
@@ -0,0 +1,84 @@
+/**
+ * Auction model shared by the auction hooks
+ */
+
+import type { AuctionsClient } from '@sudobility/auctions_contracts';
+
+/**
+ * Auction as stored on-chain
+ */
+export interface AuctionData {
+  id: bigint;
+  /** Address of the seller */
+  seller: string;
+  title: string;
+  /** Lowest first bid, in the bid token's smallest unit */
+  startingPrice: bigint;
+  /** Lowest winning bid; below it the auction ends unsold */
+  reservePrice: bigint;
+  /** Amount each bid must add to the highest bid */
+  minIncrement: bigint;
+  /** `0n` until the first bid */
+  highestBid: bigint;
+  /** `null` until the first bid */
+  highestBidder: string | null;
+  /** Unix timestamp (seconds) after which no bids are accepted */
+  endTime: bigint;
+  /** Whether the item and proceeds have been transferred */
+  settled: boolean;
+}
+
+/**
+ * A bid on an auction
+ */
+export interface AuctionBid {
+  bidder: string;
+  amount: bigint;
+  /** Unix timestamp (seconds) of the bid */
+  timestamp: bigint;
+}
+
+/**
+ * Chain an auctions_contracts client is bound to, EVM or Solana
+ */
+export type AuctionChainId = AuctionsClient['chainId'];
+
+/**
+ * Subset of the auctions_contracts client used by the auction hooks
+ */
+export type AuctionsContractClient = Pick<
+  AuctionsClient,
+  | 'chainId'
+  | 'getActiveAuctions'
+  | 'getAuction'
+  | 'getBids'
+  | 'getBidderAuctions'
+  | 'getBidTokenBalance'
+  | 'placeBid'
+  | 'waitForTransaction'
+>;
+
+/**
+ * Where a wallet stands on an auction
+ * - `'none'`    - Has not bid
+ * - `'leading'` - Highest bidder of a running auction
+ * - `'outbid'`  - Bid, but someone else is highest on a running auction
+ * - `'won'`     - Highest bidder once ended, reserve met
+ * - `'lost'`    - Ended without the wallet winning it
+ */
+export type AuctionWalletStatus =
+  'none' | 'leading' | 'outbid' | 'won' | 'lost';
+
+/**
+ * Auction with its derived bidding state
+ */
+export interface Auction extends AuctionData {
+  chainId: AuctionChainId;
+  /** Still accepting bids */
+  isActive: boolean;
+  /** Lowest amount the next bid may be */
+  minimumBid: bigint;
+  reserveMet: boolean;
+  /** Status of the wallet passed to the hook; `'none'` without one */
+  walletStatus: AuctionWalletStatus;
+}
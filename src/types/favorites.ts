@@ -0,0 +1,198 @@
+/**
+ * Offline and local favorites model
+ */
+
+import type { IndexerClient } from '@sudobility/heavymath_indexer_client';
+
+/**
+ * Persistent key-value store holding the favorites queue
+ *
+ * Matches AsyncStorage directly; see createLocalStorageAdapter for the web.
+ */
+export interface FavoritesStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Favorites list of one wallet and entity type, as read by a sports hook
+ */
+export interface FavoriteScope {
+  walletAddress: string;
+  category: string;
+  subcategory: string;
+  type: string;
+}
+
+/**
+ * Favorite as listed by the indexer
+ */
+export interface ServerFavorite {
+  id: string | number;
+  itemId: string;
+}
+
+/**
+ * Favorite change waiting to be replayed to the indexer
+ */
+export interface QueuedFavoriteChange extends FavoriteScope {
+  /** Unique id of the change */
+  id: string;
+  itemId: string;
+  favorited: boolean;
+  /** Server favorite id of the item when the change was made */
+  baseFavoriteId: string | null;
+  /** When the change was made, in ms */
+  queuedAt: number;
+  /**
+   * When the indexer accepted the change, in ms; the change is kept until
+   * the favorites list reflects it
+   */
+  appliedAt: number | null;
+}
+
+/**
+ * Which side wins when a queued removal finds the item favorited again
+ * on the server under another favorite, e.g. from another device
+ * - `'local'`  - Replay the removal
+ * - `'server'` - Drop the removal and keep the server favorite
+ */
+export type FavoriteConflictPolicy = 'local' | 'server';
+
+/**
+ * Outcome of replaying one queued change
+ * - `'applied'`    - Accepted by the indexer
+ * - `'superseded'` - The server state already matched; dropped
+ * - `'conflict'`   - Dropped under the `'server'` conflict policy
+ * - `'failed'`     - Rejected by the indexer; dropped, error is set
+ * - `'pending'`    - Kept for a later replay, e.g. while offline
+ */
+export type FavoriteSyncStatus =
+  'applied' | 'superseded' | 'conflict' | 'failed' | 'pending';
+
+/**
+ * Result of replaying one queued change
+ */
+export interface FavoriteSyncResult {
+  change: QueuedFavoriteChange;
+  status: FavoriteSyncStatus;
+  error: Error | null;
+}
+
+/**
+ * Indexer calls used to replay queued changes
+ */
+export interface FavoriteSyncHandlers {
+  add(change: QueuedFavoriteChange): Promise<unknown>;
+  remove(change: QueuedFavoriteChange, favoriteId: string): Promise<unknown>;
+  /** Whether a failure should keep the change queued, e.g. a network error */
+  isRetryable?(error: Error): boolean;
+}
+
+/**
+ * Ordered, persistent queue of favorite changes shared by the sports hooks
+ */
+export interface FavoritesQueue {
+  /** Resolves once the persisted changes are loaded */
+  ready: Promise<void>;
+  /** Every queued change in order; a new array after each update */
+  getChanges(): readonly QueuedFavoriteChange[];
+  /** Listen for queue updates, returns the unsubscribe function */
+  subscribe(listener: () => void): () => void;
+  /**
+   * Queue a change on top of the server favorites and earlier changes
+   *
+   * @returns The queued change, or `null` when it cancelled an earlier
+   * change or changed nothing
+   */
+  enqueue(
+    scope: FavoriteScope,
+    itemId: string,
+    favorited: boolean,
+    serverFavorites: readonly ServerFavorite[]
+  ): QueuedFavoriteChange | null;
+  /**
+   * Replay the changes of a scope in order; concurrent calls run one after
+   * the other
+   */
+  flush(
+    scope: FavoriteScope,
+    serverFavorites: readonly ServerFavorite[],
+    handlers: FavoriteSyncHandlers
+  ): Promise<FavoriteSyncResult[]>;
+}
+
+/**
+ * Category, subcategory and type of a favorites list, e.g. football matches
+ */
+export type FavoriteFilter = Omit<FavoriteScope, 'walletAddress'>;
+
+/**
+ * Favorite kept on the device while no wallet is connected
+ */
+export interface LocalFavorite extends FavoriteFilter {
+  itemId: string;
+  /** When the item was favorited, in ms */
+  addedAt: number;
+}
+
+/**
+ * Device-only favorites, migrated to a wallet once one connects
+ */
+export interface LocalFavoritesStore {
+  /** Resolves once the persisted favorites are loaded */
+  ready: Promise<void>;
+  /** Every local favorite; a new array after each update */
+  getFavorites(): readonly LocalFavorite[];
+  /** Listen for updates, returns the unsubscribe function */
+  subscribe(listener: () => void): () => void;
+  setFavorited(
+    filter: FavoriteFilter,
+    itemId: string,
+    favorited: boolean
+  ): void;
+  /** Forget the given favorites, e.g. once migrated */
+  remove(favorites: readonly LocalFavorite[]): void;
+  clear(): void;
+}
+
+/**
+ * Subset of the indexer_client IndexerClient used to migrate local favorites
+ */
+export type FavoritesMigrationClient = Pick<
+  IndexerClient,
+  'getWalletFavorites' | 'addFavorite'
+>;
+
+/**
+ * Outcome of migrating one local favorite
+ * - `'added'`     - Added to the wallet
+ * - `'duplicate'` - The wallet already had it
+ * - `'failed'`    - Rejected by the indexer; kept locally, error is set
+ */
+export interface LocalFavoriteMigrationResult {
+  favorite: LocalFavorite;
+  status: 'added' | 'duplicate' | 'failed';
+  error: Error | null;
+}
+
+/**
+ * Subset of the indexer_client IndexerClient used by bulk favorite changes
+ */
+export type FavoritesBulkClient = Pick<
+  IndexerClient,
+  'getWalletFavorites' | 'addFavorite' | 'removeFavorite'
+>;
+
+/**
+ * Outcome of one id of a bulk favorite change
+ * - `'updated'`   - Favorited or unfavorited, or queued to be
+ * - `'unchanged'` - Already in the requested state
+ * - `'failed'`    - Rejected by the indexer; error is set
+ */
+export interface FavoriteBulkResult<TId extends string | number = string> {
+  id: TId;
+  status: 'updated' | 'unchanged' | 'failed';
+  error: Error | null;
+}
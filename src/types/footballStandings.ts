@@ -0,0 +1,65 @@
+/**
+ * Football league tables computed from fixture results
+ */
+
+/**
+ * Criterion separating teams level on points
+ *
+ * Head-to-head criteria only count the matches between the teams still
+ * level when the criterion is reached.
+ */
+export type StandingsTiebreaker =
+  | 'goalDifference'
+  | 'goalsFor'
+  | 'wins'
+  | 'awayGoalsFor'
+  | 'headToHeadPoints'
+  | 'headToHeadGoalDifference'
+  | 'headToHeadGoalsFor'
+  | 'headToHeadAwayGoalsFor';
+
+/**
+ * Points and tiebreakers of a competition
+ */
+export interface StandingsRules {
+  pointsForWin: number;
+  pointsForDraw: number;
+  pointsForLoss: number;
+  /** Applied in order to teams level on points */
+  tiebreakers: readonly StandingsTiebreaker[];
+  /** Number of results in the form string */
+  formLength: number;
+}
+
+/**
+ * Result of a match from one team's side
+ */
+export type StandingsResult = 'W' | 'D' | 'L';
+
+/**
+ * Team of a league table
+ */
+export interface StandingsTeam {
+  id: number;
+  name: string;
+  logo: string | null;
+}
+
+/**
+ * Row of a league table
+ */
+export interface StandingsRow {
+  /** 1-based; teams level on every criterion share a rank */
+  rank: number;
+  team: StandingsTeam;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+  /** Latest results, oldest first, e.g. 'WWDLW' */
+  form: string;
+}
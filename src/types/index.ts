@@ -0,0 +1,14 @@
+/**
+ * Shared type definitions for Heavymath business logic
+ */
+
+export * from './sports';
+export * from './sportEvents';
+export * from './sportsSearch';
+export * from './footballStandings';
+export * from './teamForm';
+export * from './outcomeModel';
+export * from './markets';
+export * from './portfolio';
+export * from './auctions';
+export * from './favorites';
@@ -0,0 +1,171 @@
+/**
+ * Prediction market model shared by the market hooks
+ */
+
+import type { HeavymathClient } from '@sudobility/heavymath_contracts';
+import type { MarketStatus } from '@sudobility/heavymath_types';
+import type { Sport } from './sports';
+
+/**
+ * Market as stored on-chain, before outcome pools are attached
+ */
+export interface MarketContractData {
+  /** Address of the dealer who created the market */
+  dealer: string;
+  /** Dealer NFT token ID used to create the market */
+  tokenId: bigint;
+  category: bigint;
+  subCategory: bigint;
+  /** Unix timestamp (seconds) after which no predictions are accepted */
+  deadline: bigint;
+  description: string;
+  /** Dealer fee in basis points */
+  dealerFeeBps: bigint;
+  status: MarketStatus;
+  /** Winning outcome index, `null` until resolved */
+  resolution: bigint | null;
+  /** Outcome labels, indexed like the outcome pools */
+  outcomes: readonly string[];
+  /** Metadata the market was created with, `null` for markets without it */
+  resolutionSource: MarketResolutionSource | null;
+}
+
+/**
+ * Chain a heavymath_contracts client is bound to, EVM or Solana
+ */
+export type MarketChainId = HeavymathClient['chainId'];
+
+/**
+ * Subset of the heavymath_contracts client used by the market hooks
+ */
+export type MarketsContractClient = Pick<
+  HeavymathClient,
+  'chainId' | 'getMarket' | 'getOutcomePools'
+>;
+
+/**
+ * Subset of the heavymath_contracts client used to find a sport event's markets
+ */
+export type SportMarketsContractClient = Pick<
+  HeavymathClient,
+  'chainId' | 'getMarket' | 'getOutcomePools' | 'getMarketIdsByEvent'
+>;
+
+/**
+ * Receipt of a mined transaction
+ */
+export type ContractTransactionReceipt = Awaited<
+  ReturnType<HeavymathClient['waitForTransaction']>
+>;
+
+/**
+ * Subset of the heavymath_contracts client used to place predictions
+ */
+export type PredictionsContractClient = Pick<
+  HeavymathClient,
+  | 'chainId'
+  | 'getMarket'
+  | 'getOutcomePools'
+  | 'getStakeBalance'
+  | 'placePrediction'
+  | 'waitForTransaction'
+>;
+
+/**
+ * Outcome of a market with its pool
+ */
+export interface MarketOutcome {
+  index: number;
+  label: string;
+  /** Total staked on this outcome, in the token's smallest unit */
+  pool: bigint;
+}
+
+/**
+ * Prediction market with its outcome pools
+ */
+export interface Market extends Omit<MarketContractData, 'outcomes'> {
+  id: bigint;
+  chainId: MarketChainId;
+  outcomes: MarketOutcome[];
+  /** Sum of every outcome pool */
+  totalPool: bigint;
+}
+
+/**
+ * Kinds of market that can be derived from a fixture
+ * - `'matchWinner'` - Home/draw/away, home/away, or fighter A/B
+ * - `'overUnder'`   - Total score over or under a line
+ * - `'mmaMethod'`   - How an MMA fight is won: KO/TKO, submission or decision
+ * - `'mmaRound'`    - Round an MMA fight is won in, or a decision
+ */
+export type MarketType = 'matchWinner' | 'overUnder' | 'mmaMethod' | 'mmaRound';
+
+/**
+ * Where and how a market is resolved, stored alongside it
+ */
+export interface MarketResolutionSource {
+  /** Data provider of the result, the API-Sports family behind sports_api_client */
+  provider: 'api-sports';
+  sport: Sport;
+  /** Provider id of the fixture, game or fight */
+  eventId: number;
+  /** Key the market is registered under, see SportEvent.key */
+  eventKey: string;
+  leagueId: number | null;
+  marketType: MarketType;
+  /** Total score line of over/under markets, otherwise `null` */
+  line: number | null;
+}
+
+/**
+ * Parameters of a new market, as submitted to heavymath_contracts
+ */
+export interface CreateMarketParams {
+  /** Dealer NFT token ID used to create the market */
+  tokenId: bigint;
+  category: bigint;
+  subCategory: bigint;
+  /** Unix timestamp (seconds) after which no predictions are accepted */
+  deadline: bigint;
+  description: string;
+  /** Dealer fee in basis points */
+  dealerFeeBps: bigint;
+  outcomes: string[];
+  resolutionSource: MarketResolutionSource;
+}
+
+/**
+ * Subset of the heavymath_contracts client used to create markets
+ */
+export type MarketCreationContractClient = Pick<
+  HeavymathClient,
+  'chainId' | 'createMarket' | 'waitForTransaction'
+>;
+
+/**
+ * Result of an MMA fight, as returned by the API-Sports `fights/results`
+ * endpoint, which sports_api_client does not wrap yet
+ */
+export interface MmaFightResult {
+  fightId: number;
+  /** e.g. 'KO', 'TKO', 'Submission', 'Decision', 'Draw', 'No Contest' */
+  method: string | null;
+  /** Round the fight ended in */
+  round: number | null;
+}
+
+/**
+ * Proposed settlement of a market from its event's final result
+ * - `'resolve'` - Settle on `outcome`
+ * - `'cancel'`  - No outcome matches, e.g. a cancelled event or a tie on a
+ *   market without a draw; stakes should be refunded
+ */
+export interface ResolutionProposal {
+  action: 'resolve' | 'cancel';
+  /** Winning outcome index, `null` when cancelling */
+  outcome: number | null;
+  outcomeLabel: string | null;
+  /** Why, for the operator, e.g. 'Chelsea won on penalties (4-3)' */
+  reason: string;
+}
@@ -0,0 +1,77 @@
+/**
+ * Statistical outcome models estimating fair odds of team games
+ */
+
+import type { TeamSport } from './sports';
+
+/**
+ * Model fitted to a sport's results
+ * - `'poisson'` - Attack and defence strengths predicting the score
+ * - `'elo'`     - Ratings updated after each game, for high-scoring sports
+ */
+export type OutcomeModelKind = 'poisson' | 'elo';
+
+/**
+ * Probabilities of the regular result, summing to 1
+ */
+export interface OutcomeProbabilities {
+  home: number;
+  /** 0 in sports without draws */
+  draw: number;
+  away: number;
+}
+
+/**
+ * Decimal odds of a fair book, `null` for impossible outcomes
+ */
+export interface FairOdds {
+  home: number | null;
+  draw: number | null;
+  away: number | null;
+}
+
+/**
+ * Model estimate for a game between two teams
+ */
+export interface OutcomePrediction {
+  model: OutcomeModelKind;
+  homeTeamId: number;
+  awayTeamId: number;
+  probabilities: OutcomeProbabilities;
+  fairOdds: FairOdds;
+  /** Expected goals of each side, `null` for Elo models */
+  expectedScore: { home: number; away: number } | null;
+}
+
+/**
+ * Model fitted to historical results
+ */
+export interface OutcomeModel {
+  kind: OutcomeModelKind;
+  sport: TeamSport;
+  /** Games the model was fitted on */
+  gameCount: number;
+  /** Ids of the teams with a fitted strength or rating */
+  teamIds: number[];
+  /** Estimate a game; teams without history count as average */
+  predict(homeTeamId: number, awayTeamId: number): OutcomePrediction;
+}
+
+/**
+ * Model estimate of a market outcome next to its on-chain odds
+ */
+export interface OutcomeValue {
+  index: number;
+  label: string;
+  modelProbability: number;
+  /** Share of the pool staked on the outcome */
+  impliedProbability: number;
+  fairOdds: number | null;
+  /** Parimutuel odds net of the dealer fee, `null` while nothing is staked */
+  marketOdds: number | null;
+  /**
+   * Expected return per unit staked at the market odds, e.g. 0.1 = +10%;
+   * `null` without market odds
+   */
+  edge: number | null;
+}
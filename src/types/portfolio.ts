@@ -0,0 +1,111 @@
+/**
+ * Wallet portfolio model built from the indexer
+ */
+
+import type { HeavymathClient } from '@sudobility/heavymath_contracts';
+import type {
+  MarketData,
+  MarketStatus,
+  PredictionData,
+} from '@sudobility/heavymath_types';
+
+/**
+ * Subset of the indexer_client IndexerClient used by the portfolio hooks
+ */
+export interface PortfolioIndexerClient {
+  /** Every prediction placed by a wallet, across markets and chains */
+  getWalletPredictions(walletAddress: string): Promise<PredictionData[]>;
+  /** Indexed market by its indexer id */
+  getMarket(id: string): Promise<MarketData>;
+}
+
+/**
+ * A wallet's stake on one market outcome
+ *
+ * Amounts that depend on the outcome pools are `null` until the pools are
+ * known, i.e. when no contracts client for the market's chain was given.
+ * Open positions carry no market value: weighted by the outcome's implied
+ * probability, the payout is always the stake net of fees.
+ */
+export interface PortfolioPosition {
+  /** Indexer id of the prediction */
+  id: string;
+  /** Indexer id of the market */
+  marketId: string;
+  chainId: number;
+  /** On-chain market id */
+  onchainMarketId: bigint;
+  title: string;
+  outcome: string;
+  /** Index of the outcome in the market, `null` until pools are known */
+  outcomeIndex: number | null;
+  stake: bigint;
+  status: MarketStatus;
+  /** Resolved, cancelled or abandoned */
+  settled: boolean;
+  /** `null` while unresolved; always `false` for refunded markets */
+  won: boolean | null;
+  /** Payout if the outcome wins, at the current pools */
+  potentialPayout: bigint | null;
+  claimed: boolean;
+  /** Winnings or refund still to claim */
+  claimable: bigint | null;
+  /** Claimed or claimable amount minus stake, for settled positions */
+  realizedPnl: bigint | null;
+}
+
+/**
+ * Totals over every position of a wallet
+ */
+export interface PortfolioTotals {
+  positions: number;
+  openPositions: number;
+  totalStaked: bigint;
+  /** Stake still in open markets */
+  openStake: bigint;
+  claimable: bigint;
+  realizedPnl: bigint;
+}
+
+/**
+ * What a settled position can claim
+ * - `'winnings'` - Share of the pool of a resolved market
+ * - `'refund'`   - Stake of a cancelled or abandoned market
+ */
+export type ClaimKind = 'winnings' | 'refund';
+
+/**
+ * Position with something left to claim
+ */
+export interface ClaimablePosition extends PortfolioPosition {
+  claimKind: ClaimKind;
+}
+
+/**
+ * Subset of the heavymath_contracts client used to claim winnings and refunds
+ *
+ * The batch methods are optional: deployments without them are claimed one
+ * market at a time.
+ */
+export type ClaimsContractClient = Pick<
+  HeavymathClient,
+  | 'chainId'
+  | 'claimWinnings'
+  | 'claimRefund'
+  | 'claimWinningsBatch'
+  | 'claimRefundBatch'
+  | 'waitForTransaction'
+>;
+
+/**
+ * Outcome of claiming one market
+ * - `'claimed'` - Mined successfully
+ * - `'failed'`  - Rejected by the wallet or the chain; error is set
+ * - `'skipped'` - Not attempted after the wallet rejected an earlier claim
+ */
+export interface ClaimResult {
+  marketId: bigint;
+  status: 'claimed' | 'failed' | 'skipped';
+  txHash: string | null;
+  error: Error | null;
+}
@@ -0,0 +1,61 @@
+/**
+ * Normalized event model shared by every sport
+ */
+
+import type { GamePhase, Sport } from './sports';
+
+/**
+ * Team or fighter taking part in an event
+ */
+export interface SportEventParticipant {
+  id: number;
+  name: string;
+  logo: string | null;
+  /** `null` until the API reports a winner */
+  winner: boolean | null;
+}
+
+/**
+ * Competition an event belongs to; MMA fights have none
+ */
+export interface SportEventLeague {
+  id: number;
+  name: string;
+  logo: string | null;
+}
+
+/**
+ * Event status with its derived phase
+ */
+export interface SportEventStatus {
+  short: string;
+  long: string;
+  phase: GamePhase;
+}
+
+/**
+ * Headline score: goals, points, runs or sets won
+ */
+export interface SportEventScore {
+  home: number | null;
+  away: number | null;
+}
+
+/**
+ * A match, game or fight from any supported sport
+ */
+export interface SportEvent {
+  /** Unique across sports, `${sport}:${id}` */
+  key: string;
+  /** Id of the event in its sport's API */
+  id: number;
+  sport: Sport;
+  league: SportEventLeague | null;
+  /** Home team first, or the first fighter */
+  participants: [SportEventParticipant, SportEventParticipant];
+  /** Start time in milliseconds since the epoch */
+  startTime: number;
+  status: SportEventStatus;
+  /** `null` for sports without a running score, e.g. MMA */
+  score: SportEventScore | null;
+}
@@ -0,0 +1,80 @@
+/**
+ * Sport identifiers shared across the sports hooks
+ */
+
+import type { IndexerClient } from '@sudobility/heavymath_indexer_client';
+
+/**
+ * Favorites category used by every sports hook
+ */
+export const SPORTS_FAVORITES_CATEGORY = 'sports';
+
+/**
+ * Sports covered by the hooks, as stored in the favorites subcategory
+ */
+export const SPORTS = [
+  'football',
+  'basketball',
+  'nfl',
+  'baseball',
+  'hockey',
+  'rugby',
+  'mma',
+  'handball',
+  'volleyball',
+] as const;
+
+/**
+ * A sport covered by the hooks
+ */
+export type Sport = (typeof SPORTS)[number];
+
+/**
+ * Sports played between two teams, i.e. every sport but MMA
+ */
+export const TEAM_SPORTS = [
+  'football',
+  'basketball',
+  'nfl',
+  'baseball',
+  'hockey',
+  'rugby',
+  'handball',
+  'volleyball',
+] as const satisfies readonly Sport[];
+
+/**
+ * A sport played between two teams
+ */
+export type TeamSport = (typeof TEAM_SPORTS)[number];
+
+/**
+ * Runtime type guard for {@link Sport}
+ *
+ * @param value - The string to validate
+ * @returns `true` when the value is a supported sport
+ */
+export function isSport(value: string): value is Sport {
+  return (SPORTS as readonly string[]).includes(value);
+}
+
+/**
+ * Runtime type guard for {@link TeamSport}
+ *
+ * @param value - The string to validate
+ * @returns `true` when the value is a sport played between two teams
+ */
+export function isTeamSport(value: string): value is TeamSport {
+  return (TEAM_SPORTS as readonly string[]).includes(value);
+}
+
+/**
+ * Phase of a game derived from its API-Sports short status code
+ */
+export type GamePhase = 'scheduled' | 'live' | 'finished';
+
+/**
+ * Subset of the indexer_client IndexerClient used to prefetch favorites
+ * outside React, e.g. on the server
+ */
+export type FavoritesIndexerClient = Pick<IndexerClient, 'getWalletFavorites'>;
@@ -0,0 +1,67 @@
+/**
+ * Client-side search over teams, leagues and fighters of every sport
+ */
+
+import type { Sport } from './sports';
+
+/**
+ * Searchable entity, normalized from a sports hook item
+ */
+export interface SportSearchEntry {
+  /** Unique across sports and types, `${sport}:${type}:${id}` */
+  key: string;
+  /** Favorite itemId of the entity */
+  id: string;
+  sport: Sport;
+  /** Favorites type, e.g. 'team' or 'fighter' */
+  type: string;
+  name: string;
+  /** Other names the entity is found by, e.g. codes and nicknames */
+  aliases: string[];
+  /** Secondary text shown with the name, e.g. the country */
+  description: string | null;
+  logo: string | null;
+  favorited: boolean;
+}
+
+/**
+ * Entry matching a search query
+ */
+export interface SportSearchResult {
+  entry: SportSearchEntry;
+  /** Relevance, higher first; favorites include the favorite boost */
+  score: number;
+  /** Name or alias the query matched */
+  matched: string;
+}
+
+/**
+ * Search results of one sport and type, e.g. football teams
+ */
+export interface SportSearchGroup {
+  sport: Sport;
+  type: string;
+  results: SportSearchResult[];
+}
+
+/**
+ * Options of a single search
+ */
+export interface SportSearchOptions {
+  /** Maximum number of results, defaults to all */
+  limit?: number;
+  /** Only search these sports */
+  sports?: readonly Sport[];
+  /** Only search these favorites types */
+  types?: readonly string[];
+}
+
+/**
+ * Search index built by createSportsSearchIndex
+ */
+export interface SportsSearchIndex {
+  /** Number of indexed entries */
+  size: number;
+  /** Matching entries, best first */
+  search(query: string, options?: SportSearchOptions): SportSearchResult[];
+}
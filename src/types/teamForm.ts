@@ -0,0 +1,68 @@
+/**
+ * Recent form and head-to-head records of teams
+ */
+
+import type { StandingsResult } from './footballStandings';
+import type { SportEvent } from './sportEvents';
+
+/**
+ * Finished game from one team's side
+ */
+export interface TeamFormGame {
+  event: SportEvent;
+  venue: 'home' | 'away';
+  result: StandingsResult;
+  /** Goals, points, runs or sets won, depending on the sport */
+  scored: number;
+  conceded: number;
+}
+
+/**
+ * Totals and averages over a set of games
+ */
+export interface TeamRecord {
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  scored: number;
+  conceded: number;
+  /** Per game, 0 when no game was played */
+  scoredAverage: number;
+  concededAverage: number;
+}
+
+/**
+ * Run of identical results ending with the latest game
+ */
+export interface TeamStreak {
+  result: StandingsResult;
+  length: number;
+}
+
+/**
+ * Recent form of a team
+ */
+export interface TeamForm {
+  teamId: number;
+  /** Latest game first */
+  games: TeamFormGame[];
+  /** Results oldest first, e.g. 'WWDLW' */
+  form: string;
+  /** `null` before the first game */
+  streak: TeamStreak | null;
+  overall: TeamRecord;
+  home: TeamRecord;
+  away: TeamRecord;
+}
+
+/**
+ * Record of two teams against each other
+ */
+export interface HeadToHead {
+  /** Latest game first */
+  events: SportEvent[];
+  /** Form of the first team over these games, with home/away splits */
+  teamA: TeamForm;
+  teamB: TeamForm;
+}
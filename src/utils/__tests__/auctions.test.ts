@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAuctionWalletStatus,
+  getMinimumBid,
+  isAuctionActive,
+  isReserveMet,
+  validateBid,
+} from '../auctions';
+
+const now = 1_700_000_000_000;
+
+const auction = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: 1n,
+    seller: '0xseller',
+    title: 'Signed jersey',
+    startingPrice: 100n,
+    reservePrice: 500n,
+    minIncrement: 50n,
+    highestBid: 0n,
+    highestBidder: null,
+    endTime: 1_700_000_100n,
+    settled: false,
+    ...overrides,
+  }) as any;
+
+describe('isAuctionActive', () => {
+  it('should be active until the end time unless settled', () => {
+    expect(isAuctionActive(auction(), now)).toBe(true);
+    expect(isAuctionActive(auction({ endTime: 1_700_000_000n }), now)).toBe(
+      false
+    );
+    expect(isAuctionActive(auction({ settled: true }), now)).toBe(false);
+  });
+});
+
+describe('getMinimumBid', () => {
+  it('should start at the starting price, then add the increment', () => {
+    expect(getMinimumBid(auction())).toBe(100n);
+    expect(getMinimumBid(auction({ highestBid: 300n }))).toBe(350n);
+  });
+});
+
+describe('isReserveMet', () => {
+  it('should compare the highest bid with the reserve', () => {
+    expect(isReserveMet(auction({ highestBid: 499n }))).toBe(false);
+    expect(isReserveMet(auction({ highestBid: 500n }))).toBe(true);
+    expect(isReserveMet(auction({ reservePrice: 0n }))).toBe(false);
+  });
+});
+
+describe('getAuctionWalletStatus', () => {
+  const leading = auction({ highestBid: 600n, highestBidder: '0xABC' });
+
+  it('should report leading or outbid while running', () => {
+    expect(getAuctionWalletStatus(leading, '0xabc', true, now)).toBe('leading');
+    expect(getAuctionWalletStatus(leading, '0xdef', true, now)).toBe('outbid');
+    expect(getAuctionWalletStatus(leading, '0xdef', false, now)).toBe('none');
+  });
+
+  it('should report won only when the reserve is met', () => {
+    const ended = { ...leading, endTime: 1n };
+
+    expect(getAuctionWalletStatus(ended, '0xabc', true, now)).toBe('won');
+    expect(
+      getAuctionWalletStatus({ ...ended, highestBid: 400n }, '0xabc', true, now)
+    ).toBe('lost');
+    expect(getAuctionWalletStatus(ended, '0xdef', true, now)).toBe('lost');
+  });
+});
+
+describe('validateBid', () => {
+  const live = auction({ highestBid: 300n, highestBidder: '0xabc' });
+
+  it('should accept a bid meeting the increment and the balance', () => {
+    expect(validateBid(live, 350n, 1000n, now)).toBeNull();
+  });
+
+  it('should reject bids in order of the checks', () => {
+    expect(validateBid(live, 0n, 1000n, now)?.code).toBe('INVALID_AMOUNT');
+    expect(validateBid({ ...live, endTime: 1n }, 350n, 1000n, now)?.code).toBe(
+      'AUCTION_ENDED'
+    );
+    expect(validateBid(live, 349n, 1000n, now)?.code).toBe('BID_TOO_LOW');
+    expect(validateBid(live, 350n, 349n, now)?.code).toBe(
+      'INSUFFICIENT_BALANCE'
+    );
+  });
+});
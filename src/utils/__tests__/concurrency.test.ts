@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../concurrency';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('mapWithConcurrency', () => {
+  it('should keep at most limit calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick();
+      inFlight -= 1;
+      return item * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should return results in item order', async () => {
+    const results = await mapWithConcurrency(
+      [3, 1, 2],
+      3,
+      async (item, index) => {
+        for (let i = 0; i < item; i += 1) await tick();
+        return `${index}:${item}`;
+      }
+    );
+
+    expect(results).toEqual(['0:3', '1:1', '2:2']);
+  });
+
+  it('should run one at a time below a limit of 1', async () => {
+    const order: string[] = [];
+
+    await mapWithConcurrency(['a', 'b'], 0, async item => {
+      order.push(`start ${item}`);
+      await tick();
+      order.push(`end ${item}`);
+    });
+
+    expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('should resolve empty input', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
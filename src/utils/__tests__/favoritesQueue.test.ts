@@ -0,0 +1,257 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createFavoritesQueue,
+  FAVORITES_QUEUE_STORAGE_KEY,
+  isNetworkError,
+} from '../favoritesQueue';
+import { createMemoryStorage } from '../favoritesStorage';
+
+const scope = {
+  walletAddress: '0xwallet',
+  category: 'sports',
+  subcategory: 'football',
+  type: 'match',
+};
+
+const otherScope = { ...scope, type: 'team' };
+
+const networkError = () => new TypeError('Failed to fetch');
+
+function handlers() {
+  return {
+    add: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('isNetworkError', () => {
+  it('should recognise connection failures', () => {
+    expect(isNetworkError(networkError())).toBe(true);
+    expect(isNetworkError(new TypeError('Network request failed'))).toBe(true);
+    expect(
+      isNetworkError(Object.assign(new Error('x'), { code: 'ERR_NETWORK' }))
+    ).toBe(true);
+    expect(isNetworkError(new Error('Request timed out'))).toBe(true);
+  });
+
+  it('should not treat server rejections as network errors', () => {
+    expect(isNetworkError(new Error('Invalid signature'))).toBe(false);
+    expect(isNetworkError('Failed to fetch')).toBe(false);
+  });
+});
+
+describe('createFavoritesQueue', () => {
+  it('should queue changes and cancel a change toggled back before sending', async () => {
+    const queue = createFavoritesQueue(createMemoryStorage());
+    await queue.ready;
+
+    const change = queue.enqueue(scope, '1', true, []);
+    expect(change).toMatchObject({
+      itemId: '1',
+      favorited: true,
+      baseFavoriteId: null,
+      appliedAt: null,
+    });
+    expect(queue.getChanges()).toHaveLength(1);
+
+    expect(queue.enqueue(scope, '1', true, [])).toBeNull();
+    expect(queue.enqueue(scope, '1', false, [])).toBeNull();
+    expect(queue.getChanges()).toEqual([]);
+  });
+
+  it('should ignore changes matching the server state', async () => {
+    const queue = createFavoritesQueue(createMemoryStorage());
+    await queue.ready;
+
+    expect(queue.enqueue(scope, '1', true, [{ id: 9, itemId: '1' }])).toBe(
+      null
+    );
+    expect(
+      queue.enqueue(scope, '1', false, [{ id: 9, itemId: '1' }])
+    ).toMatchObject({ baseFavoriteId: '9' });
+  });
+
+  it('should notify subscribers and persist the queue', async () => {
+    const storage = createMemoryStorage();
+    const queue = createFavoritesQueue(storage);
+    await queue.ready;
+    const listener = vi.fn();
+    const unsubscribe = queue.subscribe(listener);
+
+    queue.enqueue(scope, '1', true, []);
+    unsubscribe();
+    queue.enqueue(scope, '2', true, []);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    await vi.waitFor(async () => {
+      const stored = await storage.getItem(FAVORITES_QUEUE_STORAGE_KEY);
+      expect(JSON.parse(stored as string)).toHaveLength(2);
+    });
+
+    const restored = createFavoritesQueue(storage);
+    await restored.ready;
+    expect(restored.getChanges().map(change => change.itemId)).toEqual([
+      '1',
+      '2',
+    ]);
+  });
+
+  it('should discard an unreadable stored queue', async () => {
+    const storage = createMemoryStorage();
+    await storage.setItem(FAVORITES_QUEUE_STORAGE_KEY, '{not json');
+
+    const queue = createFavoritesQueue(storage);
+    await queue.ready;
+
+    expect(queue.getChanges()).toEqual([]);
+  });
+
+  it('should replay the changes of a scope in order', async () => {
+    const queue = createFavoritesQueue(createMemoryStorage());
+    await queue.ready;
+    const calls: string[] = [];
+    const sync = {
+      add: vi.fn(async change => calls.push(`add ${change.itemId}`)),
+      remove: vi.fn(async (change, id) =>
+        calls.push(`remove ${change.itemId}#${id}`)
+      ),
+    };
+    const server = [{ id: 7, itemId: '2' }];
+
+    queue.enqueue(scope, '1', true, server);
+    queue.enqueue(otherScope, '5', true, []);
+    queue.enqueue(scope, '2', false, server);
+
+    const results = await queue.flush(scope, server, sync);
+
+    expect(calls).toEqual(['add 1', 'remove 2#7']);
+    expect(results.map(result => result.status)).toEqual([
+      'applied',
+      'applied',
+    ]);
+    // Applied changes stay until the list shows them
+    expect(queue.getChanges().map(change => change.appliedAt !== null)).toEqual(
+      [true, false, true]
+    );
+
+    await queue.flush(scope, [{ id: 8, itemId: '1' }], sync);
+    expect(queue.getChanges().map(change => change.itemId)).toEqual(['5']);
+  });
+
+  it('should drop changes the server already reflects', async () => {
+    const queue = createFavoritesQueue(createMemoryStorage());
+    await queue.ready;
+    const sync = handlers();
+
+    queue.enqueue(scope, '1', true, []);
+    const results = await queue.flush(scope, [{ id: 3, itemId: '1' }], sync);
+
+    expect(results[0].status).toBe('superseded');
+    expect(sync.add).not.toHaveBeenCalled();
+    expect(queue.getChanges()).toEqual([]);
+  });
+
+  it('should keep a removal of an item favorited elsewhere under the server policy', async () => {
+    const sync = handlers();
+    const local = createFavoritesQueue(createMemoryStorage());
+    const server = createFavoritesQueue(createMemoryStorage(), {
+      conflictPolicy: 'server',
+    });
+    await Promise.all([local.ready, server.ready]);
+
+    local.enqueue(scope, '1', false, [{ id: 3, itemId: '1' }]);
+    server.enqueue(scope, '1', false, [{ id: 3, itemId: '1' }]);
+    const readded = [{ id: 4, itemId: '1' }];
+
+    expect((await server.flush(scope, readded, sync))[0].status).toBe(
+      'conflict'
+    );
+    expect(sync.remove).not.toHaveBeenCalled();
+
+    expect((await local.flush(scope, readded, sync))[0].status).toBe('applied');
+    expect(sync.remove).toHaveBeenCalledWith(expect.anything(), '4');
+  });
+
+  it('should keep changes queued after a network error', async () => {
+    const queue = createFavoritesQueue(createMemoryStorage());
+    await queue.ready;
+    const sync = handlers();
+    sync.add.mockRejectedValueOnce(networkError());
+
+    queue.enqueue(scope, '1', true, []);
+    queue.enqueue(scope, '2', true, []);
+    const results = await queue.flush(scope, [], sync);
+
+    expect(results.map(result => result.status)).toEqual([
+      'pending',
+      'pending',
+    ]);
+    expect(sync.add).toHaveBeenCalledTimes(1);
+    expect(queue.getChanges()).toHaveLength(2);
+
+    await queue.flush(scope, [], sync);
+    expect(sync.add).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop changes the indexer rejects', async () => {
+    const queue = createFavoritesQueue(createMemoryStorage());
+    await queue.ready;
+    const sync = handlers();
+    sync.add.mockRejectedValueOnce(new Error('Invalid signature'));
+
+    queue.enqueue(scope, '1', true, []);
+    const [result] = await queue.flush(scope, [], sync);
+
+    expect(result.status).toBe('failed');
+    expect(result.error?.message).toBe('Invalid signature');
+    expect(queue.getChanges()).toEqual([]);
+  });
+
+  it('should wait for the id of a just-added favorite before removing it', async () => {
+    const queue = createFavoritesQueue(createMemoryStorage());
+    await queue.ready;
+    const sync = handlers();
+
+    queue.enqueue(scope, '1', true, []);
+    await queue.flush(scope, [], sync);
+    queue.enqueue(scope, '1', false, []);
+
+    const [result] = await queue.flush(scope, [], sync);
+    expect(result.status).toBe('pending');
+    expect(sync.remove).not.toHaveBeenCalled();
+
+    await queue.flush(scope, [{ id: 6, itemId: '1' }], sync);
+    expect(sync.remove).toHaveBeenCalledWith(expect.anything(), '6');
+  });
+
+  it('should forget applied changes the list never shows', async () => {
+    let time = 1_000;
+    const queue = createFavoritesQueue(createMemoryStorage(), {
+      confirmTimeout: 500,
+      now: () => time,
+    });
+    await queue.ready;
+
+    queue.enqueue(scope, '1', true, []);
+    await queue.flush(scope, [], handlers());
+    expect(queue.getChanges()).toHaveLength(1);
+
+    time = 2_000;
+    await queue.flush(scope, [], handlers());
+    expect(queue.getChanges()).toEqual([]);
+  });
+
+  it('should run concurrent replays of a scope one after the other', async () => {
+    const queue = createFavoritesQueue(createMemoryStorage());
+    await queue.ready;
+    const sync = handlers();
+
+    queue.enqueue(scope, '1', true, []);
+    await Promise.all([
+      queue.flush(scope, [], sync),
+      queue.flush(scope, [], sync),
+    ]);
+
+    expect(sync.add).toHaveBeenCalledTimes(1);
+  });
+});
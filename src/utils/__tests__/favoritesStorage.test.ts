@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createAsyncStorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorage,
+} from '../favoritesStorage';
+
+describe('createLocalStorageAdapter', () => {
+  it('should read and write Web Storage', async () => {
+    const storage = createLocalStorageAdapter();
+
+    await storage.setItem('key', 'value');
+    expect(localStorage.getItem('key')).toBe('value');
+    expect(await storage.getItem('key')).toBe('value');
+
+    await storage.removeItem('key');
+    expect(await storage.getItem('key')).toBeNull();
+  });
+
+  it('should reject when the storage throws', async () => {
+    const storage = createLocalStorageAdapter({
+      getItem: () => null,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+      removeItem: () => undefined,
+    });
+
+    await expect(storage.setItem('key', 'value')).rejects.toThrow(
+      'QuotaExceededError'
+    );
+  });
+});
+
+describe('createAsyncStorageAdapter', () => {
+  it('should delegate to AsyncStorage', async () => {
+    const asyncStorage = {
+      getItem: vi.fn().mockResolvedValue('value'),
+      setItem: vi.fn().mockResolvedValue(undefined),
+      removeItem: vi.fn().mockResolvedValue(undefined),
+    };
+    const storage = createAsyncStorageAdapter(asyncStorage);
+
+    expect(await storage.getItem('key')).toBe('value');
+    await storage.setItem('key', 'next');
+    await storage.removeItem('key');
+
+    expect(asyncStorage.setItem).toHaveBeenCalledWith('key', 'next');
+    expect(asyncStorage.removeItem).toHaveBeenCalledWith('key');
+  });
+});
+
+describe('createMemoryStorage', () => {
+  it('should keep values per key', async () => {
+    const storage = createMemoryStorage();
+
+    await storage.setItem('a', '1');
+    expect(await storage.getItem('a')).toBe('1');
+    expect(await storage.getItem('b')).toBeNull();
+  });
+});
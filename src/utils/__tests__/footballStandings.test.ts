@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeFootballStandings,
+  DEFAULT_STANDINGS_RULES,
+  getStandingsRules,
+} from '../footballStandings';
+
+const TEAMS: Record<number, string> = {
+  1: 'Arsenal',
+  2: 'Brighton',
+  3: 'Chelsea',
+  4: 'Everton',
+};
+
+let nextId = 1;
+const fixture = (
+  home: number,
+  away: number,
+  homeGoals: number | null,
+  awayGoals: number | null,
+  status = 'FT',
+  id = nextId++
+) =>
+  ({
+    fixture: { id, timestamp: id * 1000, status: { short: status } },
+    teams: {
+      home: { id: home, name: TEAMS[home], logo: `${home}.png` },
+      away: { id: away, name: TEAMS[away], logo: `${away}.png` },
+    },
+    goals: { home: homeGoals, away: awayGoals },
+  }) as any;
+
+const names = (rows: ReturnType<typeof computeFootballStandings>) =>
+  rows.map(row => row.team.name);
+
+describe('getStandingsRules', () => {
+  it('should use the league tiebreakers and apply overrides', () => {
+    expect(getStandingsRules()).toEqual(DEFAULT_STANDINGS_RULES);
+    expect(getStandingsRules(140).tiebreakers[0]).toBe('headToHeadPoints');
+    expect(getStandingsRules(140, { formLength: 3 })).toMatchObject({
+      pointsForWin: 3,
+      formLength: 3,
+    });
+  });
+});
+
+describe('computeFootballStandings', () => {
+  it('should total points, goals and form', () => {
+    const rows = computeFootballStandings([
+      fixture(1, 2, 2, 0),
+      fixture(3, 1, 1, 1),
+      fixture(2, 3, 0, 3),
+    ]);
+
+    expect(names(rows)).toEqual(['Chelsea', 'Arsenal', 'Brighton']);
+    expect(rows[1]).toMatchObject({
+      rank: 2,
+      played: 2,
+      won: 1,
+      drawn: 1,
+      lost: 0,
+      goalsFor: 3,
+      goalsAgainst: 1,
+      goalDifference: 2,
+      points: 4,
+      form: 'WD',
+    });
+    expect(rows[2].form).toBe('LL');
+  });
+
+  it('should skip unplayed fixtures but list their teams', () => {
+    const rows = computeFootballStandings([
+      fixture(1, 2, 1, 0),
+      fixture(3, 4, null, null, 'NS'),
+      fixture(1, 3, 2, 0, '2H'),
+    ]);
+
+    expect(rows.find(row => row.team.id === 1)?.played).toBe(1);
+    expect(names(rows.filter(row => row.played === 0))).toEqual([
+      'Chelsea',
+      'Everton',
+    ]);
+  });
+
+  it('should count a fixture listed twice once', () => {
+    const rows = computeFootballStandings([
+      fixture(1, 2, 1, 0, 'FT', 500),
+      fixture(1, 2, 1, 0, 'FT', 500),
+    ]);
+
+    expect(rows[0].points).toBe(3);
+  });
+
+  it('should break ties with head-to-head when the league does', () => {
+    // Arsenal beat Chelsea, Chelsea has the better goal difference
+    const fixtures = [
+      fixture(1, 3, 1, 0),
+      fixture(3, 2, 5, 0),
+      fixture(1, 2, 0, 0),
+      fixture(3, 4, 0, 0),
+    ];
+
+    expect(names(computeFootballStandings(fixtures)).slice(0, 2)).toEqual([
+      'Chelsea',
+      'Arsenal',
+    ]);
+    expect(
+      names(computeFootballStandings(fixtures, getStandingsRules(140))).slice(
+        0,
+        2
+      )
+    ).toEqual(['Arsenal', 'Chelsea']);
+  });
+
+  it('should rank by the mini-table of the teams still level', () => {
+    const rules = { tiebreakers: ['headToHeadGoalsFor' as const] };
+    const rows = computeFootballStandings(
+      [fixture(1, 2, 3, 3), fixture(3, 4, 1, 1), fixture(1, 3, 0, 0)],
+      rules
+    );
+
+    expect(names(rows)).toEqual(['Arsenal', 'Chelsea', 'Brighton', 'Everton']);
+    expect(rows.map(row => row.rank)).toEqual([1, 1, 3, 3]);
+  });
+
+  it('should apply custom points and form length', () => {
+    const rows = computeFootballStandings(
+      [fixture(1, 2, 1, 0), fixture(2, 1, 0, 0), fixture(1, 2, 0, 1)],
+      { pointsForWin: 2, formLength: 2 }
+    );
+
+    expect(rows.map(row => [row.team.name, row.points, row.form])).toEqual([
+      ['Arsenal', 3, 'DL'],
+      ['Brighton', 3, 'DW'],
+    ]);
+  });
+});
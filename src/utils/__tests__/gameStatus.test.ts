@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getGamePhase, isVoidStatus } from '../gameStatus';
+
+describe('getGamePhase', () => {
+  it('should classify scheduled statuses', () => {
+    expect(getGamePhase('NS')).toBe('scheduled');
+    expect(getGamePhase('TBD')).toBe('scheduled');
+    expect(getGamePhase('PST')).toBe('scheduled');
+  });
+
+  it('should keep postponed games scheduled in every sport', () => {
+    expect(getGamePhase('POST')).toBe('scheduled');
+    expect(getGamePhase('post')).toBe('scheduled');
+  });
+
+  it('should classify finished statuses', () => {
+    expect(getGamePhase('FT')).toBe('finished');
+    expect(getGamePhase('AET')).toBe('finished');
+    expect(getGamePhase('AOT')).toBe('finished');
+    expect(getGamePhase('CANC')).toBe('finished');
+  });
+
+  it('should classify in-play statuses of every sport as live', () => {
+    ['1H', 'HT', 'Q3', 'P2', 'IN7', 'S4', 'OT', 'BT', 'LIVE'].forEach(status =>
+      expect(getGamePhase(status)).toBe('live')
+    );
+  });
+
+  it('should ignore case', () => {
+    expect(getGamePhase('ft')).toBe('finished');
+  });
+});
+
+describe('isVoidStatus', () => {
+  it('should void cancelled and abandoned games only', () => {
+    expect(isVoidStatus('CANC')).toBe(true);
+    expect(isVoidStatus('abd')).toBe(true);
+    expect(isVoidStatus('PST')).toBe(false);
+    expect(isVoidStatus('POST')).toBe(false);
+    expect(isVoidStatus('FT')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMemoryStorage } from '../favoritesStorage';
+import {
+  createLocalFavorites,
+  LOCAL_FAVORITES_STORAGE_KEY,
+} from '../localFavorites';
+
+const matches = { category: 'sports', subcategory: 'football', type: 'match' };
+const teams = { ...matches, type: 'team' };
+
+describe('createLocalFavorites', () => {
+  it('should add and remove favorites per list', async () => {
+    const store = createLocalFavorites(createMemoryStorage(), {
+      now: () => 42,
+    });
+    await store.ready;
+
+    store.setFavorited(matches, '1', true);
+    store.setFavorited(matches, '1', true);
+    store.setFavorited(teams, '1', true);
+
+    expect(store.getFavorites()).toEqual([
+      { ...matches, itemId: '1', addedAt: 42 },
+      { ...teams, itemId: '1', addedAt: 42 },
+    ]);
+
+    store.setFavorited(matches, '1', false);
+    expect(store.getFavorites().map(favorite => favorite.type)).toEqual([
+      'team',
+    ]);
+  });
+
+  it('should notify subscribers only on changes', async () => {
+    const store = createLocalFavorites(createMemoryStorage());
+    await store.ready;
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.setFavorited(matches, '1', true);
+    store.setFavorited(matches, '1', true);
+    store.clear();
+    store.clear();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should restore persisted favorites', async () => {
+    const storage = createMemoryStorage();
+    const store = createLocalFavorites(storage);
+    await store.ready;
+    store.setFavorited(matches, '1', true);
+    store.setFavorited(matches, '2', true);
+
+    await vi.waitFor(async () =>
+      expect(
+        JSON.parse(
+          (await storage.getItem(LOCAL_FAVORITES_STORAGE_KEY)) as string
+        )
+      ).toHaveLength(2)
+    );
+
+    const restored = createLocalFavorites(storage);
+    await restored.ready;
+    expect(restored.getFavorites().map(favorite => favorite.itemId)).toEqual([
+      '1',
+      '2',
+    ]);
+  });
+
+  it('should forget removed favorites', async () => {
+    const store = createLocalFavorites(createMemoryStorage());
+    await store.ready;
+    store.setFavorited(matches, '1', true);
+    store.setFavorited(matches, '2', true);
+
+    store.remove([store.getFavorites()[0]]);
+
+    expect(store.getFavorites().map(favorite => favorite.itemId)).toEqual([
+      '2',
+    ]);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest';
+import { SPORTS } from '../../types';
+import {
+  buildMarketParams,
+  MarketValidationError,
+  SPORT_MARKET_SUBCATEGORIES,
+  validateMarketParams,
+} from '../marketCreation';
+
+const now = 1_700_000_000_000;
+const kickOff = 1_700_003_600; // an hour after now, in seconds
+
+const fixture = (short = 'NS') =>
+  ({
+    fixture: {
+      id: 1001,
+      timestamp: kickOff,
+      status: { short, long: 'Not Started', elapsed: null },
+    },
+    league: { id: 39, name: 'Premier League', logo: null },
+    teams: {
+      home: { id: 1, name: 'Arsenal', logo: null },
+      away: { id: 2, name: 'Chelsea', logo: null },
+    },
+    goals: { home: null, away: null },
+  }) as any;
+
+const game = {
+  id: 5,
+  timestamp: kickOff,
+  status: { short: 'NS', long: 'Not Started', timer: null },
+  league: { id: 12, name: 'NBA', logo: null },
+  teams: {
+    home: { id: 1, name: 'Lakers', logo: null },
+    away: { id: 2, name: 'Celtics', logo: null },
+  },
+  scores: { home: { total: null }, away: { total: null } },
+} as any;
+
+const fight = {
+  id: 8,
+  timestamp: kickOff,
+  status: { short: 'NS', long: 'Not Started' },
+  fighters: {
+    first: { id: 77, name: 'Jon Jones', logo: null },
+    second: { id: 78, name: 'Stipe Miocic', logo: null },
+  },
+} as any;
+
+const options = { tokenId: 3n, dealerFeeBps: 200n };
+
+const codeOf = (build: () => unknown) => {
+  try {
+    build();
+  } catch (err) {
+    return (err as MarketValidationError).code;
+  }
+  return null;
+};
+
+describe('buildMarketParams', () => {
+  it('should give football winner markets a draw outcome', () => {
+    const params = buildMarketParams(
+      'football',
+      fixture(),
+      { ...options, type: 'matchWinner', closeBeforeStart: 5 * 60_000 },
+      now
+    );
+
+    expect(params).toEqual({
+      tokenId: 3n,
+      category: 1n,
+      subCategory: 0n,
+      deadline: BigInt(kickOff - 300),
+      description: 'Arsenal vs Chelsea (Premier League) - Winner',
+      dealerFeeBps: 200n,
+      outcomes: ['Arsenal', 'Draw', 'Chelsea'],
+      resolutionSource: {
+        provider: 'api-sports',
+        sport: 'football',
+        eventId: 1001,
+        eventKey: 'football:1001',
+        leagueId: 39,
+        marketType: 'matchWinner',
+        line: null,
+      },
+    });
+  });
+
+  it('should build home/away winner markets for sports without draws', () => {
+    const params = buildMarketParams(
+      'basketball',
+      game,
+      { ...options, type: 'matchWinner' },
+      now
+    );
+
+    expect(params.outcomes).toEqual(['Lakers', 'Celtics']);
+    expect(params.subCategory).toBe(1n);
+    expect(params.deadline).toBe(BigInt(kickOff));
+  });
+
+  it('should build fighter A/B markets for MMA', () => {
+    const params = buildMarketParams(
+      'mma',
+      fight,
+      { ...options, type: 'matchWinner' },
+      now
+    );
+
+    expect(params.outcomes).toEqual(['Jon Jones', 'Stipe Miocic']);
+    expect(params.description).toBe('Jon Jones vs Stipe Miocic - Winner');
+    expect(params.resolutionSource.leagueId).toBeNull();
+  });
+
+  it('should build MMA method and round markets', () => {
+    expect(
+      buildMarketParams('mma', fight, { ...options, type: 'mmaMethod' }, now)
+        .outcomes
+    ).toEqual(['KO/TKO', 'Submission', 'Decision']);
+
+    const params = buildMarketParams(
+      'mma',
+      fight,
+      { ...options, type: 'mmaRound', rounds: 3 },
+      now
+    );
+    expect(params.outcomes).toEqual([
+      'Round 1',
+      'Round 2',
+      'Round 3',
+      'Decision',
+    ]);
+    expect(params.resolutionSource.marketType).toBe('mmaRound');
+    expect(
+      codeOf(() =>
+        buildMarketParams('mma', fight, { ...options, type: 'mmaRound' }, now)
+      )
+    ).toBe('INVALID_ROUNDS');
+    expect(
+      codeOf(() =>
+        buildMarketParams(
+          'basketball',
+          game,
+          { ...options, type: 'mmaMethod' },
+          now
+        )
+      )
+    ).toBe('UNSUPPORTED_MARKET_TYPE');
+  });
+
+  it('should build over/under markets on a half line', () => {
+    const params = buildMarketParams(
+      'basketball',
+      game,
+      { ...options, type: 'overUnder', line: 215.5 },
+      now
+    );
+
+    expect(params.outcomes).toEqual(['Over 215.5', 'Under 215.5']);
+    expect(params.resolutionSource.line).toBe(215.5);
+  });
+
+  it('should reject invalid lines and unscored sports', () => {
+    expect(
+      codeOf(() =>
+        buildMarketParams(
+          'football',
+          fixture(),
+          { ...options, type: 'overUnder', line: 2 },
+          now
+        )
+      )
+    ).toBe('INVALID_LINE');
+    expect(
+      codeOf(() =>
+        buildMarketParams(
+          'mma',
+          fight,
+          { ...options, type: 'overUnder', line: 2.5 },
+          now
+        )
+      )
+    ).toBe('UNSUPPORTED_MARKET_TYPE');
+  });
+
+  it('should reject events that have started or close in the past', () => {
+    expect(
+      codeOf(() =>
+        buildMarketParams(
+          'football',
+          fixture('1H'),
+          { ...options, type: 'matchWinner' },
+          now
+        )
+      )
+    ).toBe('EVENT_NOT_SCHEDULED');
+    expect(
+      codeOf(() =>
+        buildMarketParams(
+          'football',
+          fixture(),
+          { ...options, type: 'matchWinner', closeBeforeStart: 2 * 3_600_000 },
+          now
+        )
+      )
+    ).toBe('DEADLINE_PASSED');
+  });
+});
+
+describe('SPORT_MARKET_SUBCATEGORIES', () => {
+  it('should keep the subcategories markets were created with', () => {
+    expect(SPORTS.map(sport => SPORT_MARKET_SUBCATEGORIES[sport])).toEqual([
+      0n,
+      1n,
+      2n,
+      3n,
+      4n,
+      5n,
+      6n,
+      7n,
+      8n,
+    ]);
+    expect(Object.isFrozen(SPORT_MARKET_SUBCATEGORIES)).toBe(true);
+  });
+});
+
+describe('validateMarketParams', () => {
+  const params = buildMarketParams(
+    'football',
+    fixture(),
+    { ...options, type: 'matchWinner' },
+    now
+  );
+
+  it('should accept valid parameters', () => {
+    expect(validateMarketParams(params, now)).toBeNull();
+  });
+
+  it('should reject duplicate or missing outcomes', () => {
+    expect(
+      validateMarketParams({ ...params, outcomes: ['A', 'A'] }, now)?.code
+    ).toBe('INVALID_OUTCOMES');
+    expect(
+      validateMarketParams({ ...params, outcomes: ['A', ' '] }, now)?.code
+    ).toBe('INVALID_OUTCOMES');
+  });
+
+  it('should reject fees above 100%', () => {
+    expect(
+      validateMarketParams({ ...params, dealerFeeBps: 10_001n }, now)?.code
+    ).toBe('INVALID_FEE');
+  });
+});
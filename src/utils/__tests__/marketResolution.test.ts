@@ -0,0 +1,349 @@
+import { describe, it, expect } from 'vitest';
+import type { MarketResolutionSource, MarketType } from '../../types';
+import { normalizeMmaMethod, proposeResolution } from '../marketResolution';
+
+const teams = (homeWinner: boolean | null, awayWinner: boolean | null) => ({
+  home: { id: 1, name: 'Arsenal', logo: null, winner: homeWinner },
+  away: { id: 2, name: 'Chelsea', logo: null, winner: awayWinner },
+});
+
+const fixture = (
+  short: string,
+  goals: { home: number | null; away: number | null },
+  score: Record<string, { home: number | null; away: number | null }> = {},
+  winners: [boolean | null, boolean | null] = [null, null]
+) =>
+  ({
+    fixture: {
+      id: 1001,
+      timestamp: 1700000000,
+      status: { short, long: short, elapsed: 90 },
+    },
+    league: { id: 39, name: 'Premier League', logo: null },
+    teams: teams(...winners),
+    goals,
+    score: {
+      halftime: { home: null, away: null },
+      fulltime: goals,
+      extratime: { home: null, away: null },
+      penalty: { home: null, away: null },
+      ...score,
+    },
+  }) as any;
+
+const basketballGame = (short: string, home: number, away: number) =>
+  ({
+    id: 5,
+    timestamp: 1700000000,
+    status: { short, long: short, timer: null },
+    league: { id: 12, name: 'NBA', logo: null },
+    teams: {
+      home: { id: 1, name: 'Lakers', logo: null },
+      away: { id: 2, name: 'Celtics', logo: null },
+    },
+    scores: { home: { total: home }, away: { total: away } },
+  }) as any;
+
+const fight = (winners: [boolean | null, boolean | null] = [true, false]) =>
+  ({
+    id: 8,
+    timestamp: 1700000000,
+    status: { short: 'FT', long: 'Finished' },
+    fighters: {
+      first: { id: 77, name: 'Jon Jones', logo: null, winner: winners[0] },
+      second: { id: 78, name: 'Stipe Miocic', logo: null, winner: winners[1] },
+    },
+  }) as any;
+
+// Metadata buildMarketParams stores with a market on the event
+const source = (
+  eventKey: string,
+  marketType: MarketType,
+  line: number | null = null
+) =>
+  ({
+    provider: 'api-sports',
+    sport: eventKey.split(':')[0],
+    eventId: Number(eventKey.split(':')[1]),
+    eventKey,
+    leagueId: null,
+    marketType,
+    line,
+  }) as MarketResolutionSource;
+
+const winner1x2 = ['Arsenal', 'Draw', 'Chelsea'];
+const footballWinner = source('football:1001', 'matchWinner');
+const basketballWinner = source('basketball:5', 'matchWinner');
+const fightWinner = source('mma:8', 'matchWinner');
+
+describe('proposeResolution', () => {
+  it('should wait until the event is finished', () => {
+    expect(
+      proposeResolution(
+        'football',
+        fixture('2H', { home: 1, away: 0 }),
+        winner1x2,
+        footballWinner
+      )
+    ).toBeNull();
+  });
+
+  it('should resolve football 1X2 markets on the final score', () => {
+    expect(
+      proposeResolution(
+        'football',
+        fixture('FT', { home: 2, away: 1 }),
+        winner1x2,
+        footballWinner
+      )
+    ).toEqual({
+      action: 'resolve',
+      outcome: 0,
+      outcomeLabel: 'Arsenal',
+      reason: 'Arsenal won 2-1',
+    });
+  });
+
+  it('should not propose without metadata for the event', () => {
+    const match = fixture('FT', { home: 2, away: 1 });
+
+    expect(proposeResolution('football', match, winner1x2, null)).toBeNull();
+    expect(
+      proposeResolution(
+        'football',
+        match,
+        winner1x2,
+        source('football:1002', 'matchWinner')
+      )
+    ).toBeNull();
+    expect(
+      proposeResolution(
+        'football',
+        fixture('CANC', { home: null, away: null }),
+        winner1x2,
+        null
+      )
+    ).toBeNull();
+  });
+
+  it('should settle football 1X2 markets on regular time after penalties', () => {
+    const match = fixture(
+      'PEN',
+      { home: 1, away: 1 },
+      { penalty: { home: 3, away: 4 } },
+      [false, true]
+    );
+
+    expect(
+      proposeResolution('football', match, winner1x2, footballWinner)
+    ).toMatchObject({
+      outcome: 1,
+      reason: 'Draw 1-1 after regular time',
+    });
+    // Two-way markets follow the winner after penalties
+    expect(
+      proposeResolution(
+        'football',
+        match,
+        ['Arsenal', 'Chelsea'],
+        footballWinner
+      )
+    ).toMatchObject({
+      outcome: 1,
+      reason: 'Chelsea won on penalties (3-4)',
+    });
+  });
+
+  it('should settle over/under markets on the regular-time total', () => {
+    const match = fixture(
+      'AET',
+      { home: 2, away: 1 },
+      { fulltime: { home: 1, away: 1 } },
+      [true, false]
+    );
+
+    expect(
+      proposeResolution(
+        'football',
+        match,
+        ['Over 2.5', 'Under 2.5'],
+        source('football:1001', 'overUnder', 2.5)
+      )
+    ).toMatchObject({ outcome: 1, outcomeLabel: 'Under 2.5' });
+    expect(
+      proposeResolution(
+        'basketball',
+        basketballGame('FT', 110, 106),
+        ['Over 215.5', 'Under 215.5'],
+        source('basketball:5', 'overUnder', 215.5)
+      )
+    ).toMatchObject({ outcome: 0 });
+  });
+
+  it('should push over/under markets landing on the line', () => {
+    expect(
+      proposeResolution(
+        'basketball',
+        basketballGame('FT', 110, 105),
+        ['Over 215', 'Under 215'],
+        source('basketball:5', 'overUnder', 215)
+      )?.action
+    ).toBe('cancel');
+  });
+
+  it('should go by the stored market type, not the labels', () => {
+    // Team names that read like over/under outcomes
+    expect(
+      proposeResolution(
+        'basketball',
+        basketballGame('FT', 110, 106),
+        ['Over 1', 'Under 1'],
+        basketballWinner
+      )
+    ).toMatchObject({ outcome: 0, outcomeLabel: 'Over 1' });
+    expect(
+      proposeResolution(
+        'basketball',
+        basketballGame('FT', 110, 106),
+        ['Over 215.5', 'Under 215.5'],
+        source('basketball:5', 'overUnder')
+      )
+    ).toBeNull();
+  });
+
+  it('should cancel markets on events that will not be played', () => {
+    expect(
+      proposeResolution(
+        'football',
+        fixture('CANC', { home: null, away: null }),
+        winner1x2,
+        footballWinner
+      )
+    ).toMatchObject({ action: 'cancel', outcome: null });
+  });
+
+  it('should wait for postponed events to be played', () => {
+    expect(
+      proposeResolution(
+        'football',
+        fixture('PST', { home: null, away: null }),
+        winner1x2,
+        footballWinner
+      )
+    ).toBeNull();
+    expect(
+      proposeResolution(
+        'basketball',
+        basketballGame('POST', 0, 0),
+        ['Lakers', 'Celtics'],
+        basketballWinner
+      )
+    ).toBeNull();
+  });
+
+  it('should decide games without winner flags by score', () => {
+    expect(
+      proposeResolution(
+        'basketball',
+        basketballGame('AOT', 101, 99),
+        ['Lakers', 'Celtics'],
+        basketballWinner
+      )
+    ).toMatchObject({
+      outcome: 0,
+      reason: 'Lakers won 101-99 after extra time',
+    });
+  });
+
+  it('should cancel ties on markets without a draw', () => {
+    expect(
+      proposeResolution(
+        'basketball',
+        basketballGame('FT', 100, 100),
+        ['Lakers', 'Celtics'],
+        basketballWinner
+      )?.action
+    ).toBe('cancel');
+  });
+
+  it('should describe MMA wins with method and round', () => {
+    expect(
+      proposeResolution(
+        'mma',
+        fight(),
+        ['Jon Jones', 'Stipe Miocic'],
+        fightWinner,
+        { fightId: 8, method: 'TKO', round: 3 }
+      )
+    ).toMatchObject({
+      outcome: 0,
+      reason: 'Jon Jones won by KO/TKO in round 3',
+    });
+  });
+
+  it('should resolve MMA method and round markets from the fight result', () => {
+    const result = { fightId: 8, method: 'Submission', round: 2 };
+    const methods = ['KO/TKO', 'Submission', 'Decision'];
+    const rounds = ['Round 1', 'Round 2', 'Round 3', 'Decision'];
+
+    expect(
+      proposeResolution(
+        'mma',
+        fight(),
+        methods,
+        source('mma:8', 'mmaMethod'),
+        result
+      )
+    ).toMatchObject({ outcome: 1 });
+    expect(
+      proposeResolution(
+        'mma',
+        fight(),
+        rounds,
+        source('mma:8', 'mmaRound'),
+        result
+      )
+    ).toMatchObject({ outcome: 1 });
+    expect(
+      proposeResolution('mma', fight(), rounds, source('mma:8', 'mmaRound'), {
+        fightId: 8,
+        method: 'Decision - Unanimous',
+        round: 3,
+      })
+    ).toMatchObject({ outcome: 3, outcomeLabel: 'Decision' });
+    // Without the fight result there is nothing to go on
+    expect(
+      proposeResolution('mma', fight(), methods, source('mma:8', 'mmaMethod'))
+    ).toBeNull();
+  });
+
+  it('should cancel MMA markets after a no contest', () => {
+    expect(
+      proposeResolution(
+        'mma',
+        fight([null, null]),
+        ['Jon Jones', 'Stipe Miocic'],
+        fightWinner,
+        { fightId: 8, method: 'No Contest', round: 1 }
+      )?.action
+    ).toBe('cancel');
+  });
+});
+
+describe('normalizeMmaMethod', () => {
+  it('should map API-Sports methods', () => {
+    expect(
+      ['KO', 'TKO', 'SUB', 'Decision - Split', 'NC', 'Draw', 'Other'].map(
+        normalizeMmaMethod
+      )
+    ).toEqual([
+      'KO/TKO',
+      'KO/TKO',
+      'Submission',
+      'Decision',
+      'No Contest',
+      'Draw',
+      null,
+    ]);
+  });
+});
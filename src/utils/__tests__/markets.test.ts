@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { isMarketOpen } from '../markets';
+
+describe('isMarketOpen', () => {
+  const now = 1_700_000_000_000;
+
+  it('should be open while active and before the deadline', () => {
+    expect(
+      isMarketOpen({ status: 'Active', deadline: 1_700_000_001n }, now)
+    ).toBe(true);
+  });
+
+  it('should be closed once the deadline has passed', () => {
+    expect(
+      isMarketOpen({ status: 'Active', deadline: 1_700_000_000n }, now)
+    ).toBe(false);
+  });
+
+  it('should be closed when the market is no longer active', () => {
+    expect(
+      isMarketOpen({ status: 'Resolved', deadline: 1_700_000_001n }, now)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decimalOdds,
+  estimatePayout,
+  getMarketOdds,
+  impliedProbabilities,
+  impliedProbability,
+  parimutuelPayout,
+  priceImpact,
+  ratioToNumber,
+  toAmericanOdds,
+  toFractionalOdds,
+  totalPool,
+} from '../odds';
+
+const ETH = 10n ** 18n;
+
+describe('ratioToNumber', () => {
+  it('should divide bigints beyond the safe integer range', () => {
+    expect(ratioToNumber(3n * 10n ** 30n, 4n * 10n ** 30n)).toBe(0.75);
+    expect(ratioToNumber(10n ** 40n + 1n, 10n ** 20n)).toBeCloseTo(1e20);
+  });
+
+  it('should reject a zero denominator', () => {
+    expect(() => ratioToNumber(1n, 0n)).toThrow(RangeError);
+  });
+});
+
+describe('implied probabilities', () => {
+  const pools = [600n * ETH, 300n * ETH, 100n * ETH];
+
+  it('should sum the pools', () => {
+    expect(totalPool(pools)).toBe(1000n * ETH);
+    expect(totalPool([])).toBe(0n);
+  });
+
+  it('should return the share of the pool on each outcome', () => {
+    expect(impliedProbability(pools, 0)).toBe(0.6);
+    expect(impliedProbabilities(pools)).toEqual([0.6, 0.3, 0.1]);
+  });
+
+  it('should return 0 for an empty pool', () => {
+    expect(impliedProbabilities([0n, 0n])).toEqual([0, 0]);
+  });
+
+  it('should reject unknown outcomes', () => {
+    expect(() => impliedProbability(pools, 3)).toThrow(RangeError);
+    expect(() => impliedProbability(pools, -1)).toThrow(RangeError);
+    expect(() => impliedProbability(pools, 0.5)).toThrow(RangeError);
+  });
+});
+
+describe('decimalOdds', () => {
+  const pools = [750n * ETH, 250n * ETH];
+
+  it('should pay the whole pool to the winning side', () => {
+    expect(decimalOdds(pools, 0)).toBeCloseTo(4 / 3);
+    expect(decimalOdds(pools, 1)).toBe(4);
+  });
+
+  it('should take fees from the pool', () => {
+    expect(decimalOdds(pools, 1, 200n)).toBe(3.92);
+  });
+
+  it('should return null while nothing is staked on the outcome', () => {
+    expect(decimalOdds([ETH, 0n], 1)).toBeNull();
+  });
+
+  it('should reject fees outside 0-100%', () => {
+    expect(() => decimalOdds(pools, 0, -1n)).toThrow(RangeError);
+    expect(() => decimalOdds(pools, 0, 10_001n)).toThrow(RangeError);
+  });
+});
+
+describe('toFractionalOdds', () => {
+  it('should convert to the simplest fraction', () => {
+    expect(toFractionalOdds(3.5)).toEqual({ numerator: 5, denominator: 2 });
+    expect(toFractionalOdds(2)).toEqual({ numerator: 1, denominator: 1 });
+    expect(toFractionalOdds(1.25)).toEqual({ numerator: 1, denominator: 4 });
+    expect(toFractionalOdds(1)).toEqual({ numerator: 0, denominator: 1 });
+  });
+
+  it('should approximate within the maximum denominator', () => {
+    expect(toFractionalOdds(1 + 1 / 3)).toEqual({
+      numerator: 1,
+      denominator: 3,
+    });
+    expect(toFractionalOdds(1 + Math.PI - 3, 10)).toEqual({
+      numerator: 1,
+      denominator: 7,
+    });
+  });
+
+  it('should reject odds below 1', () => {
+    expect(() => toFractionalOdds(0.5)).toThrow(RangeError);
+    expect(() => toFractionalOdds(Number.NaN)).toThrow(RangeError);
+  });
+});
+
+describe('toAmericanOdds', () => {
+  it('should use positive odds for underdogs', () => {
+    expect(toAmericanOdds(2.5)).toBe(150);
+    expect(toAmericanOdds(2)).toBe(100);
+  });
+
+  it('should use negative odds for favourites', () => {
+    expect(toAmericanOdds(1.5)).toBe(-200);
+    expect(toAmericanOdds(1.25)).toBe(-400);
+  });
+
+  it('should reject odds of 1 or less', () => {
+    expect(() => toAmericanOdds(1)).toThrow(RangeError);
+  });
+});
+
+describe('estimatePayout', () => {
+  it('should include the stake in both pools', () => {
+    // 100 joins 100 on the outcome, total becomes 400
+    const estimate = estimatePayout([100n, 200n], 0, 100n);
+    expect(estimate).toEqual({ payout: 200n, profit: 100n, decimalOdds: 2 });
+  });
+
+  it('should apply fees to the payout', () => {
+    const estimate = estimatePayout(
+      [100n * ETH, 200n * ETH],
+      0,
+      100n * ETH,
+      100n
+    );
+    expect(estimate.payout).toBe(198n * ETH);
+    expect(estimate.decimalOdds).toBe(1.98);
+  });
+
+  it('should price the first stake on an empty outcome', () => {
+    expect(estimatePayout([0n, 300n], 0, 100n).payout).toBe(400n);
+  });
+
+  it('should report a loss when fees exceed the winnings', () => {
+    expect(estimatePayout([0n, 0n], 1, 100n, 500n).profit).toBe(-5n);
+  });
+
+  it('should reject a non-positive stake', () => {
+    expect(() => estimatePayout([1n, 1n], 0, 0n)).toThrow(RangeError);
+  });
+});
+
+describe('parimutuelPayout', () => {
+  it('should pay a share of the net pool proportional to the stake', () => {
+    expect(parimutuelPayout([100n, 300n], 0, 25n)).toBe(100n);
+    expect(parimutuelPayout([100n * ETH, 300n * ETH], 0, 25n * ETH, 100n)).toBe(
+      99n * ETH
+    );
+  });
+
+  it('should pay nothing from an empty outcome pool', () => {
+    expect(parimutuelPayout([0n, 300n], 0, 0n)).toBe(0n);
+  });
+});
+
+describe('priceImpact', () => {
+  it('should measure how much the stake worsens the odds', () => {
+    const { oddsBefore, oddsAfter, impact } = priceImpact(
+      [100n, 300n],
+      0,
+      100n
+    );
+    expect(oddsBefore).toBe(4);
+    expect(oddsAfter).toBe(2.5);
+    expect(impact).toBeCloseTo(0.375);
+  });
+
+  it('should be negligible for small stakes on deep pools', () => {
+    expect(
+      priceImpact([1000n * ETH, 1000n * ETH], 0, ETH / 1000n).impact
+    ).toBeLessThan(1e-6);
+  });
+
+  it('should report no impact without prior odds', () => {
+    expect(priceImpact([0n, 100n], 0, 100n)).toEqual({
+      oddsBefore: null,
+      oddsAfter: 2,
+      impact: 0,
+    });
+  });
+});
+
+describe('getMarketOdds', () => {
+  it('should compute the odds of every market outcome', () => {
+    const odds = getMarketOdds({
+      dealerFeeBps: 0n,
+      outcomes: [
+        { index: 0, label: 'Home', pool: 300n },
+        { index: 1, label: 'Draw', pool: 0n },
+        { index: 2, label: 'Away', pool: 100n },
+      ],
+    });
+
+    expect(odds).toEqual([
+      { index: 0, label: 'Home', impliedProbability: 0.75, decimalOdds: 4 / 3 },
+      { index: 1, label: 'Draw', impliedProbability: 0, decimalOdds: null },
+      { index: 2, label: 'Away', impliedProbability: 0.25, decimalOdds: 4 },
+    ]);
+  });
+});
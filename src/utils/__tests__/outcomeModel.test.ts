@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import type { MarketResolutionSource, MarketType } from '../../types';
+import {
+  compareWithMarketOdds,
+  fitEloModel,
+  fitOutcomeModel,
+  fitPoissonModel,
+} from '../outcomeModel';
+import { basketballGameToEvent, footballMatchToEvent } from '../sportEvents';
+
+const TEAMS: Record<number, string> = {
+  33: 'Manchester United',
+  34: 'Newcastle',
+  40: 'Liverpool',
+  50: 'Arsenal',
+};
+
+const fixture = (
+  id: number,
+  home: number,
+  away: number,
+  goals: [number, number],
+  status = 'FT'
+) =>
+  footballMatchToEvent({
+    fixture: {
+      id,
+      timestamp: 1705330800 + id * 86400,
+      status: { long: 'Match Finished', short: status, elapsed: 90 },
+    },
+    league: { id: 39, name: 'Premier League', logo: '' },
+    teams: {
+      home: { id: home, name: TEAMS[home], logo: '', winner: null },
+      away: { id: away, name: TEAMS[away], logo: '', winner: null },
+    },
+    goals: { home: goals[0], away: goals[1] },
+  } as any);
+
+// Liverpool outscore everyone, Newcastle concede the most
+const season = [
+  fixture(1, 40, 34, [4, 0]),
+  fixture(2, 50, 33, [1, 1]),
+  fixture(3, 33, 40, [0, 2]),
+  fixture(4, 34, 50, [1, 2]),
+  fixture(5, 40, 50, [3, 1]),
+  fixture(6, 33, 34, [2, 1]),
+  fixture(7, 34, 40, [0, 3]),
+  fixture(8, 33, 50, [1, 1]),
+  fixture(9, 40, 33, [2, 0]),
+  fixture(10, 50, 34, [2, 0]),
+  fixture(11, 50, 40, [1, 1]),
+  fixture(12, 34, 33, [1, 1]),
+];
+
+const game = (id: number, home: number, away: number, scores: number[]) =>
+  basketballGameToEvent({
+    id,
+    timestamp: id * 86400,
+    status: { short: 'FT', long: 'Game Finished' },
+    league: { id: 12, name: 'NBA', logo: null },
+    teams: {
+      home: { id: home, name: `Team ${home}`, logo: null },
+      away: { id: away, name: `Team ${away}`, logo: null },
+    },
+    scores: { home: { total: scores[0] }, away: { total: scores[1] } },
+  } as any);
+
+const sumOf = ({ home, draw, away }: Record<string, number>) =>
+  home + draw + away;
+
+describe('fitPoissonModel', () => {
+  it('should favour the stronger side and sum to 1', () => {
+    const model = fitPoissonModel('football', season);
+    const prediction = model.predict(40, 34);
+
+    expect(model.gameCount).toBe(12);
+    expect(model.teamIds).toEqual([33, 34, 40, 50]);
+    expect(prediction.probabilities.home).toBeGreaterThan(0.6);
+    expect(prediction.probabilities.away).toBeLessThan(0.15);
+    expect(sumOf({ ...prediction.probabilities })).toBeCloseTo(1, 10);
+    expect(prediction.expectedScore?.home).toBeGreaterThan(
+      prediction.expectedScore?.away ?? Infinity
+    );
+    expect(prediction.fairOdds.home).toBeCloseTo(
+      1 / prediction.probabilities.home,
+      10
+    );
+  });
+
+  it('should be deterministic whatever the order of the events', () => {
+    const forward = fitPoissonModel('football', season).predict(33, 50);
+    const backward = fitPoissonModel('football', [...season].reverse()).predict(
+      33,
+      50
+    );
+
+    expect(backward).toEqual(forward);
+  });
+
+  it('should ignore unfinished games and treat unknown teams as average', () => {
+    const model = fitPoissonModel('football', [
+      ...season,
+      fixture(13, 34, 40, [5, 0], 'NS'),
+      fixture(14, 34, 40, [5, 0], 'CANC'),
+    ]);
+    const prediction = model.predict(99, 98);
+
+    expect(model.gameCount).toBe(12);
+    expect(prediction.probabilities.home).toBeGreaterThan(
+      prediction.probabilities.away
+    );
+  });
+
+  it('should split draws between the sides in sports without them', () => {
+    const events = season.map(event => ({
+      ...event,
+      sport: 'hockey' as const,
+    }));
+    const { probabilities } = fitPoissonModel('hockey', events).predict(40, 50);
+
+    expect(probabilities.draw).toBe(0);
+    expect(probabilities.home + probabilities.away).toBeCloseTo(1, 10);
+  });
+});
+
+describe('fitEloModel', () => {
+  const games = [
+    game(1, 1, 2, [110, 100]),
+    game(2, 2, 3, [105, 95]),
+    game(3, 1, 3, [120, 90]),
+    game(4, 3, 1, [99, 101]),
+  ];
+
+  it('should rate winners above losers without draws', () => {
+    const model = fitEloModel('basketball', games);
+    const { probabilities, expectedScore } = model.predict(1, 3);
+
+    expect(probabilities.draw).toBe(0);
+    expect(probabilities.home).toBeGreaterThan(0.7);
+    expect(probabilities.home + probabilities.away).toBeCloseTo(1, 10);
+    expect(expectedScore).toBeNull();
+  });
+
+  it('should include the home advantage', () => {
+    const model = fitEloModel('basketball', [], { homeAdvantage: 100 });
+
+    expect(model.predict(1, 2).probabilities.home).toBeCloseTo(0.64, 2);
+    expect(
+      fitEloModel('basketball', []).predict(1, 2).probabilities.home
+    ).toBeCloseTo(0.64, 2);
+  });
+
+  it('should use the share of draws in sports with draws', () => {
+    const events = season.map(event => ({ ...event, sport: 'rugby' as const }));
+    const { probabilities } = fitEloModel('rugby', events).predict(40, 34);
+
+    expect(probabilities.draw).toBeCloseTo(4 / 12, 10);
+    expect(sumOf({ ...probabilities })).toBeCloseTo(1, 10);
+  });
+});
+
+describe('fitOutcomeModel', () => {
+  it('should pick the model of the sport unless overridden', () => {
+    expect(fitOutcomeModel('football', season).kind).toBe('poisson');
+    expect(fitOutcomeModel('basketball', []).kind).toBe('elo');
+    expect(fitOutcomeModel('football', season, { kind: 'elo' }).kind).toBe(
+      'elo'
+    );
+  });
+});
+
+describe('compareWithMarketOdds', () => {
+  const prediction = {
+    model: 'poisson' as const,
+    homeTeamId: 40,
+    awayTeamId: 34,
+    probabilities: { home: 0.6, draw: 0.25, away: 0.15 },
+    fairOdds: { home: 1 / 0.6, draw: 4, away: 1 / 0.15 },
+    expectedScore: { home: 2, away: 0.7 },
+  };
+  const outcome = (index: number, label: string, pool: bigint) => ({
+    index,
+    label,
+    pool,
+  });
+  const upcoming = fixture(13, 40, 34, [0, 0], 'NS');
+  const source = (marketType: MarketType) =>
+    ({
+      provider: 'api-sports',
+      sport: 'football',
+      eventId: 13,
+      eventKey: 'football:13',
+      leagueId: 39,
+      marketType,
+      line: marketType === 'overUnder' ? 2.5 : null,
+    }) as MarketResolutionSource;
+  const winner = source('matchWinner');
+
+  it('should compute the edge of every outcome against the pools', () => {
+    const values = compareWithMarketOdds(
+      prediction,
+      {
+        dealerFeeBps: 0n,
+        resolutionSource: winner,
+        outcomes: [
+          outcome(0, 'Liverpool', 700n),
+          outcome(1, 'Draw', 200n),
+          outcome(2, 'Newcastle', 100n),
+        ],
+      },
+      upcoming
+    );
+
+    expect(values?.map(value => value.impliedProbability)).toEqual([
+      0.7, 0.2, 0.1,
+    ]);
+    expect(values?.[1]).toMatchObject({ modelProbability: 0.25, fairOdds: 4 });
+    expect(values?.[1].edge).toBeCloseTo(0.25, 10);
+    expect(values?.[0].edge).toBeCloseTo(0.6 / 0.7 - 1, 10);
+  });
+
+  it('should split the draw on two-outcome markets', () => {
+    const values = compareWithMarketOdds(
+      prediction,
+      {
+        dealerFeeBps: 0n,
+        resolutionSource: winner,
+        outcomes: [outcome(0, 'Liverpool', 0n), outcome(1, 'Newcastle', 10n)],
+      },
+      upcoming
+    );
+
+    expect(values?.map(value => value.modelProbability)).toEqual([
+      0.725, 0.275,
+    ]);
+    expect(values?.[0]).toMatchObject({ marketOdds: null, edge: null });
+  });
+
+  it('should skip markets that are not winner markets of the game', () => {
+    const compare = (
+      labels: string[],
+      resolutionSource: MarketResolutionSource | null = winner
+    ) =>
+      compareWithMarketOdds(
+        prediction,
+        {
+          dealerFeeBps: 0n,
+          resolutionSource,
+          outcomes: labels.map((label, index) => outcome(index, label, 10n)),
+        },
+        upcoming
+      );
+
+    expect(compare(['Over 2.5', 'Under 2.5'])).toBeNull();
+    expect(compare(['Newcastle', 'Liverpool'])).toBeNull();
+    expect(compare(['Liverpool', 'Draw', 'Arsenal'])).toBeNull();
+    expect(compare([])).toBeNull();
+    // Labels alone don't make a winner market
+    expect(compare(['Liverpool', 'Newcastle'], source('overUnder'))).toBeNull();
+    expect(compare(['Liverpool', 'Newcastle'], null)).toBeNull();
+  });
+});
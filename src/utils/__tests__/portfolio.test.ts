@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPortfolioPosition,
+  getClaimKind,
+  summarizePortfolio,
+} from '../portfolio';
+
+const prediction = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: 'p1',
+    marketId: 'm1',
+    outcome: 'Home',
+    amount: '100',
+    hasClaimed: false,
+    claimedAmount: null,
+    ...overrides,
+  }) as any;
+
+const marketData = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: 'm1',
+    marketId: '7',
+    chainId: 1,
+    title: 'Home vs Away',
+    status: 'Active',
+    outcome: null,
+    ...overrides,
+  }) as any;
+
+const market = {
+  id: 7n,
+  chainId: 1,
+  dealerFeeBps: 0n,
+  outcomes: [
+    { index: 0, label: 'Home', pool: 100n },
+    { index: 1, label: 'Away', pool: 300n },
+  ],
+} as any;
+
+describe('buildPortfolioPosition', () => {
+  it('should price the payout of an open position at the current pools', () => {
+    const position = buildPortfolioPosition(prediction(), marketData(), market);
+
+    expect(position.onchainMarketId).toBe(7n);
+    expect(position.outcomeIndex).toBe(0);
+    expect(position.settled).toBe(false);
+    expect(position.won).toBeNull();
+    expect(position.potentialPayout).toBe(400n);
+    expect(position.claimable).toBeNull();
+  });
+
+  it('should leave pool-dependent amounts unknown without pools', () => {
+    const position = buildPortfolioPosition(prediction(), marketData());
+
+    expect(position.outcomeIndex).toBeNull();
+    expect(position.potentialPayout).toBeNull();
+  });
+
+  it('should make winnings claimable once resolved in its favour', () => {
+    const position = buildPortfolioPosition(
+      prediction(),
+      marketData({ status: 'Resolved', outcome: 'Home' }),
+      market
+    );
+
+    expect(position.won).toBe(true);
+    expect(position.claimable).toBe(400n);
+    expect(position.realizedPnl).toBe(300n);
+    expect(position.potentialPayout).toBeNull();
+  });
+
+  it('should realize the loss of a losing position', () => {
+    const position = buildPortfolioPosition(
+      prediction(),
+      marketData({ status: 'Resolved', outcome: 'Away' }),
+      market
+    );
+
+    expect(position.won).toBe(false);
+    expect(position.claimable).toBe(0n);
+    expect(position.realizedPnl).toBe(-100n);
+  });
+
+  it('should refund the stake of a cancelled market', () => {
+    const position = buildPortfolioPosition(
+      prediction(),
+      marketData({ status: 'Cancelled' })
+    );
+
+    expect(position.won).toBe(false);
+    expect(position.claimable).toBe(100n);
+    expect(position.realizedPnl).toBe(0n);
+  });
+
+  it('should use the claimed amount once claimed', () => {
+    const position = buildPortfolioPosition(
+      prediction({ hasClaimed: true, claimedAmount: '380' }),
+      marketData({ status: 'Resolved', outcome: 'Home' }),
+      market
+    );
+
+    expect(position.claimable).toBe(0n);
+    expect(position.realizedPnl).toBe(280n);
+  });
+});
+
+describe('summarizePortfolio', () => {
+  it('should total the positions, counting unknown amounts as zero', () => {
+    const open = buildPortfolioPosition(prediction(), marketData(), market);
+    const won = buildPortfolioPosition(
+      prediction({ id: 'p2', amount: '50' }),
+      marketData({ status: 'Resolved', outcome: 'Home' }),
+      market
+    );
+    const unpriced = buildPortfolioPosition(
+      prediction({ id: 'p3', amount: '20' }),
+      marketData()
+    );
+
+    expect(summarizePortfolio([open, won, unpriced])).toEqual({
+      positions: 3,
+      openPositions: 2,
+      totalStaked: 170n,
+      openStake: 120n,
+      claimable: 200n,
+      realizedPnl: 150n,
+    });
+  });
+});
+
+describe('getClaimKind', () => {
+  it('should claim winnings of unclaimed winners', () => {
+    const position = buildPortfolioPosition(
+      prediction(),
+      marketData({ status: 'Resolved', outcome: 'Home' })
+    );
+
+    expect(getClaimKind(position)).toBe('winnings');
+  });
+
+  it('should claim refunds of cancelled and abandoned markets', () => {
+    ['Cancelled', 'Abandoned'].forEach(status => {
+      const position = buildPortfolioPosition(
+        prediction(),
+        marketData({ status })
+      );
+      expect(getClaimKind(position)).toBe('refund');
+    });
+  });
+
+  it('should have nothing to claim for open, lost or claimed positions', () => {
+    const open = buildPortfolioPosition(prediction(), marketData());
+    const lost = buildPortfolioPosition(
+      prediction(),
+      marketData({ status: 'Resolved', outcome: 'Away' })
+    );
+    const claimed = buildPortfolioPosition(
+      prediction({ hasClaimed: true, claimedAmount: '400' }),
+      marketData({ status: 'Resolved', outcome: 'Home' })
+    );
+
+    expect([open, lost, claimed].map(getClaimKind)).toEqual([null, null, null]);
+  });
+});
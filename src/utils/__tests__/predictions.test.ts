@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ContractTransactionError,
+  getRevertReason,
+  isUserRejection,
+  validatePrediction,
+} from '../predictions';
+
+const now = 1_700_000_000_000;
+
+const market = {
+  status: 'Active',
+  deadline: 1_700_000_600n,
+  outcomes: [
+    { index: 0, label: 'Home', pool: 0n },
+    { index: 1, label: 'Away', pool: 0n },
+  ],
+} as any;
+
+describe('validatePrediction', () => {
+  it('should accept a stake within the balance on an open market', () => {
+    expect(
+      validatePrediction(market, { outcome: 1, amount: 100n }, 100n, now)
+    ).toBeNull();
+  });
+
+  it('should reject a non-positive stake', () => {
+    expect(
+      validatePrediction(market, { outcome: 0, amount: 0n }, 100n, now)?.code
+    ).toBe('INVALID_AMOUNT');
+  });
+
+  it('should reject an unknown outcome', () => {
+    expect(
+      validatePrediction(market, { outcome: 2, amount: 1n }, 100n, now)?.code
+    ).toBe('INVALID_OUTCOME');
+  });
+
+  it('should reject a closed market', () => {
+    expect(
+      validatePrediction(
+        { ...market, status: 'Cancelled' },
+        { outcome: 0, amount: 1n },
+        100n,
+        now
+      )?.code
+    ).toBe('MARKET_CLOSED');
+    expect(
+      validatePrediction(market, { outcome: 0, amount: 1n }, 100n, 1e15)?.code
+    ).toBe('MARKET_CLOSED');
+  });
+
+  it('should reject a stake above the balance', () => {
+    expect(
+      validatePrediction(market, { outcome: 0, amount: 101n }, 100n, now)?.code
+    ).toBe('INSUFFICIENT_BALANCE');
+  });
+});
+
+describe('getRevertReason', () => {
+  it('should prefer the decoded reason from the cause chain', () => {
+    const error = {
+      shortMessage: 'The contract function "placePrediction" reverted.',
+      cause: { reason: 'Market closed' },
+    };
+    expect(getRevertReason(error)).toBe('Market closed');
+  });
+
+  it('should strip the execution reverted prefix', () => {
+    expect(
+      getRevertReason(new Error('execution reverted: "Deadline passed"'))
+    ).toBe('Deadline passed');
+  });
+
+  it('should report wallet rejections', () => {
+    expect(getRevertReason({ code: 4001, message: 'User denied' })).toBe(
+      'Transaction rejected in wallet'
+    );
+  });
+
+  it('should fall back to the outermost message', () => {
+    expect(getRevertReason(new Error('nonce too low'))).toBe('nonce too low');
+    expect(getRevertReason(undefined)).toBe('Transaction failed');
+  });
+
+  it('should keep the original error on ContractTransactionError', () => {
+    const original = { reason: 'Market closed' };
+    const error = new ContractTransactionError(original);
+    expect(error.message).toBe('Market closed');
+    expect(error.originalError).toBe(original);
+  });
+});
+
+describe('isUserRejection', () => {
+  it('should detect a rejection nested in the cause chain', () => {
+    expect(
+      isUserRejection({ message: 'Request failed', cause: { code: 4001 } })
+    ).toBe(true);
+  });
+
+  it('should not flag reverts', () => {
+    expect(isUserRejection(new Error('execution reverted: Closed'))).toBe(
+      false
+    );
+    expect(isUserRejection(undefined)).toBe(false);
+  });
+});
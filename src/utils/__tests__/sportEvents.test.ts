@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  basketballGameToEvent,
+  compareSportEvents,
+  footballMatchToEvent,
+  handballGameToEvent,
+  mmaFightToEvent,
+  volleyballGameToEvent,
+} from '../sportEvents';
+
+const teams = {
+  home: { id: 1, name: 'Home', logo: 'home.png' },
+  away: { id: 2, name: 'Away', logo: null },
+};
+const league = { id: 12, name: 'League', type: 'League', logo: null };
+
+describe('sport event adapters', () => {
+  it('should normalize a football fixture', () => {
+    const event = footballMatchToEvent({
+      fixture: {
+        id: 1001,
+        timestamp: 1700000000,
+        status: { short: '2H', long: 'Second Half', elapsed: 60 },
+      },
+      league: { id: 39, name: 'Premier League', logo: 'pl.png' },
+      teams: {
+        home: { ...teams.home, winner: true },
+        away: { ...teams.away, winner: false },
+      },
+      goals: { home: 2, away: 1 },
+    } as any);
+
+    expect(event).toEqual({
+      key: 'football:1001',
+      id: 1001,
+      sport: 'football',
+      league: { id: 39, name: 'Premier League', logo: 'pl.png' },
+      participants: [
+        { id: 1, name: 'Home', logo: 'home.png', winner: true },
+        { id: 2, name: 'Away', logo: null, winner: false },
+      ],
+      startTime: 1700000000000,
+      status: { short: '2H', long: 'Second Half', phase: 'live' },
+      score: { home: 2, away: 1 },
+    });
+  });
+
+  it('should use the total score of games with a running total', () => {
+    const event = basketballGameToEvent({
+      id: 5,
+      timestamp: 1700000000,
+      status: { short: 'NS', long: 'Not Started', timer: null },
+      league,
+      teams,
+      scores: { home: { total: null }, away: { total: null } },
+    } as any);
+
+    expect(event.key).toBe('basketball:5');
+    expect(event.status.phase).toBe('scheduled');
+    expect(event.participants[0].winner).toBeNull();
+    expect(event.score).toEqual({ home: null, away: null });
+  });
+
+  it('should total handball period scores', () => {
+    const event = handballGameToEvent({
+      id: 6,
+      timestamp: 1700000000,
+      status: { short: 'FT', long: 'Finished' },
+      league,
+      teams,
+      scores: {
+        home: { first: 14, second: 15, overtime: null },
+        away: { first: 12, second: 13, overtime: null },
+      },
+    } as any);
+
+    expect(event.score).toEqual({ home: 29, away: 25 });
+  });
+
+  it('should score volleyball by sets won', () => {
+    const event = volleyballGameToEvent({
+      id: 7,
+      timestamp: 1700000000,
+      status: { short: 'S4', long: 'Set 4' },
+      league,
+      teams,
+      scores: {
+        home: { 1: 25, 2: 20, 3: 25, 4: null, 5: null },
+        away: { 1: 18, 2: 25, 3: 23, 4: null, 5: null },
+      },
+    } as any);
+
+    expect(event.score).toEqual({ home: 2, away: 1 });
+  });
+
+  it('should normalize an MMA fight without league or score', () => {
+    const event = mmaFightToEvent({
+      id: 8,
+      timestamp: 1700000000,
+      status: { short: 'FT', long: 'Finished' },
+      fighters: {
+        first: { id: 77, name: 'Jon Jones', logo: null, winner: true },
+        second: { id: 78, name: 'Stipe Miocic', logo: null, winner: false },
+      },
+    } as any);
+
+    expect(event.key).toBe('mma:8');
+    expect(event.league).toBeNull();
+    expect(event.score).toBeNull();
+    expect(event.participants.map(p => p.winner)).toEqual([true, false]);
+    expect(event.status.phase).toBe('finished');
+  });
+});
+
+describe('compareSportEvents', () => {
+  it('should order by start time, then by key', () => {
+    const events = [
+      { key: 'nfl:1', startTime: 2 },
+      { key: 'mma:1', startTime: 2 },
+      { key: 'football:1', startTime: 1 },
+    ] as any[];
+
+    expect(events.sort(compareSportEvents).map(e => e.key)).toEqual([
+      'football:1',
+      'mma:1',
+      'nfl:1',
+    ]);
+  });
+});
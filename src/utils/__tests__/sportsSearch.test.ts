@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSportsSearchIndex,
+  footballTeamToSearchEntry,
+  groupSearchResults,
+  leagueToSearchEntry,
+  mmaFighterToSearchEntry,
+  normalizeSearchText,
+  teamToSearchEntry,
+} from '../sportsSearch';
+
+const footballTeam = (id: number, name: string, favorited = false) =>
+  footballTeamToSearchEntry({
+    team: {
+      id,
+      name,
+      code: null,
+      country: 'England',
+      founded: null,
+      national: false,
+      logo: `${id}.png`,
+    },
+    venue: {} as any,
+    favorited,
+  });
+
+const fighter = (id: number, name: string, nickname: string | null) =>
+  mmaFighterToSearchEntry({
+    id,
+    name,
+    nickname,
+    photo: null,
+    category: 'Lightweight',
+  } as any);
+
+const entries = [
+  footballTeam(33, 'Manchester United'),
+  footballTeam(50, 'Manchester City'),
+  footballTeam(529, 'Barcelona'),
+  footballTeam(530, 'Atlético Madrid'),
+  teamToSearchEntry('basketball', {
+    id: 133,
+    name: 'Boston Celtics',
+    logo: null,
+    country: { name: 'USA' },
+  }),
+  leagueToSearchEntry('basketball', { id: 12, name: 'NBA' }),
+  fighter(1, 'Conor McGregor', 'The Notorious'),
+  fighter(2, 'Israel Adesanya', 'The Last Stylebender'),
+];
+
+const search = (query: string) =>
+  createSportsSearchIndex(entries)
+    .search(query)
+    .map(result => result.entry.name);
+
+describe('normalizeSearchText', () => {
+  it('should drop case, diacritics and punctuation', () => {
+    expect(normalizeSearchText('  Atlético-Madrid ')).toBe('atletico madrid');
+    expect(normalizeSearchText('Bayern München')).toBe('bayern munchen');
+    expect(normalizeSearchText('Ødegaard, Łódź')).toBe('odegaard lodz');
+  });
+});
+
+describe('createSportsSearchIndex', () => {
+  it('should find teams by alias and abbreviation', () => {
+    expect(search('man utd')[0]).toBe('Manchester United');
+    expect(search('man city')[0]).toBe('Manchester City');
+  });
+
+  it('should ignore diacritics in names and queries', () => {
+    expect(search('atletico')).toEqual(['Atlético Madrid']);
+    expect(search('ATLÉTICO mad')).toEqual(['Atlético Madrid']);
+  });
+
+  it('should find a word inside the name and tolerate typos', () => {
+    expect(search('Celtics')).toEqual(['Boston Celtics']);
+    expect(search('celtcs')).toEqual(['Boston Celtics']);
+    expect(search('barcelnoa')).toEqual(['Barcelona']);
+  });
+
+  it('should find fighters by nickname', () => {
+    const [result] = createSportsSearchIndex(entries).search('notorious');
+
+    expect(result.entry.name).toBe('Conor McGregor');
+    expect(result.matched).toBe('The Notorious');
+  });
+
+  it('should rank favorites above similar matches', () => {
+    const index = createSportsSearchIndex([
+      footballTeam(1, 'Manchester United'),
+      footballTeam(2, 'Manchester City', true),
+    ]);
+
+    expect(index.search('manchester').map(r => r.entry.id)).toEqual(['2', '1']);
+  });
+
+  it('should filter by sport and type and apply the limit', () => {
+    const index = createSportsSearchIndex(entries);
+
+    expect(index.search('the', { sports: ['mma'] })).toHaveLength(2);
+    expect(index.search('nba', { types: ['team'] })).toEqual([]);
+    expect(index.search('manchester', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('should keep the last entry of a key and skip empty queries', () => {
+    const index = createSportsSearchIndex([
+      footballTeam(33, 'Manchester United'),
+      footballTeam(33, 'Manchester United', true),
+    ]);
+
+    expect(index.size).toBe(1);
+    expect(index.search('united')[0].entry.favorited).toBe(true);
+    expect(index.search(' - ')).toEqual([]);
+  });
+});
+
+describe('groupSearchResults', () => {
+  it('should group by sport and type in rank order', () => {
+    const results = createSportsSearchIndex(entries).search('b');
+    const groups = groupSearchResults(results);
+
+    expect(groups.map(group => `${group.sport}:${group.type}`)).toEqual([
+      'football:team',
+      'basketball:team',
+    ]);
+    expect(groups[0].results[0].entry.name).toBe('Barcelona');
+  });
+});
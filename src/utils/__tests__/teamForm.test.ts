@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { SportEvent } from '../../types';
+import { computeHeadToHead, computeTeamForm } from '../teamForm';
+
+const event = (
+  id: number,
+  home: number,
+  away: number,
+  homeScore: number | null,
+  awayScore: number | null,
+  options: { status?: string; homeWinner?: boolean | null } = {}
+): SportEvent => {
+  const { status = 'FT', homeWinner = null } = options;
+  return {
+    key: `hockey:${id}`,
+    id,
+    sport: 'hockey',
+    league: null,
+    participants: [
+      { id: home, name: `Team ${home}`, logo: null, winner: homeWinner },
+      {
+        id: away,
+        name: `Team ${away}`,
+        logo: null,
+        winner: homeWinner === null ? null : !homeWinner,
+      },
+    ],
+    startTime: id * 1000,
+    status: {
+      short: status,
+      long: status,
+      phase: status === 'NS' ? 'scheduled' : 'finished',
+    },
+    score: { home: homeScore, away: awayScore },
+  };
+};
+
+describe('computeTeamForm', () => {
+  const events = [
+    event(1, 1, 2, 3, 1),
+    event(2, 3, 1, 2, 2),
+    event(3, 1, 4, 0, 2),
+    event(4, 5, 1, 1, 4),
+    event(5, 1, 3, 5, 2),
+    event(6, 1, 2, null, null, { status: 'NS' }),
+  ];
+
+  it('should return results, streak and averages of the latest games', () => {
+    const form = computeTeamForm(events, 1);
+
+    expect(form.form).toBe('WDLWW');
+    expect(form.streak).toEqual({ result: 'W', length: 2 });
+    expect(form.games.map(game => game.event.id)).toEqual([5, 4, 3, 2, 1]);
+    expect(form.overall).toMatchObject({
+      played: 5,
+      won: 3,
+      drawn: 1,
+      lost: 1,
+      scored: 14,
+      conceded: 8,
+    });
+    expect(form.overall.scoredAverage).toBeCloseTo(2.8);
+  });
+
+  it('should split home and away games', () => {
+    const form = computeTeamForm(events, 1);
+
+    expect(form.home).toMatchObject({ played: 3, won: 2, lost: 1 });
+    expect(form.home.concededAverage).toBeCloseTo(5 / 3);
+    expect(form.away).toMatchObject({ played: 2, won: 1, drawn: 1 });
+    expect(form.away.scoredAverage).toBe(3);
+  });
+
+  it('should keep the requested number of games', () => {
+    expect(computeTeamForm(events, 1, { last: 3 }).form).toBe('LWW');
+    expect(computeTeamForm(events, 1, { last: 0 })).toMatchObject({
+      form: '',
+      streak: null,
+      overall: { played: 0, scoredAverage: 0 },
+    });
+  });
+
+  it('should skip void games and use the winner flag on level scores', () => {
+    const form = computeTeamForm(
+      [
+        event(1, 1, 2, 2, 2, { homeWinner: true }),
+        event(2, 1, 2, 1, 1, { status: 'CANC' }),
+        event(3, 2, 1, 3, 3, { homeWinner: true }),
+      ],
+      1
+    );
+
+    expect(form.form).toBe('WL');
+  });
+});
+
+describe('computeHeadToHead', () => {
+  it('should compute both sides over their meetings only', () => {
+    const headToHead = computeHeadToHead(
+      [
+        event(1, 1, 2, 3, 1),
+        event(2, 2, 1, 0, 0),
+        event(3, 1, 3, 4, 0),
+        event(4, 2, 1, 2, 1),
+      ],
+      1,
+      2
+    );
+
+    expect(headToHead.events.map(e => e.id)).toEqual([4, 2, 1]);
+    expect(headToHead.teamA.form).toBe('WDL');
+    expect(headToHead.teamB.form).toBe('LDW');
+    expect(headToHead.teamB.home).toMatchObject({ played: 2, won: 1 });
+    expect(headToHead.teamA.overall.scoredAverage).toBeCloseTo(4 / 3);
+  });
+});
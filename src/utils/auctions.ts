@@ -0,0 +1,159 @@
+/**
+ * Auction bidding rules and validation
+ */
+
+import type {
+  Auction,
+  AuctionChainId,
+  AuctionData,
+  AuctionWalletStatus,
+} from '../types';
+
+/**
+ * Reason a bid is rejected before it is submitted
+ */
+export type BidValidationCode =
+  'INVALID_AMOUNT' | 'AUCTION_ENDED' | 'BID_TOO_LOW' | 'INSUFFICIENT_BALANCE';
+
+/**
+ * Error thrown when a bid fails validation
+ */
+export class BidValidationError extends Error {
+  readonly code: BidValidationCode;
+
+  constructor(code: BidValidationCode, message: string) {
+    super(message);
+    this.name = 'BidValidationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Whether an auction still accepts bids
+ *
+ * @param auction - Auction to check
+ * @param now - Current time in milliseconds, defaults to Date.now()
+ */
+export function isAuctionActive(
+  auction: Pick<AuctionData, 'settled' | 'endTime'>,
+  now: number = Date.now()
+): boolean {
+  return !auction.settled && auction.endTime * 1000n > BigInt(now);
+}
+
+/**
+ * Lowest amount the next bid may be
+ *
+ * @param auction - Auction to bid on
+ * @returns The starting price before any bid, then the highest bid plus
+ * the minimum increment
+ */
+export function getMinimumBid(
+  auction: Pick<AuctionData, 'startingPrice' | 'highestBid' | 'minIncrement'>
+): bigint {
+  return auction.highestBid === 0n
+    ? auction.startingPrice
+    : auction.highestBid + auction.minIncrement;
+}
+
+/**
+ * Whether the highest bid reaches the reserve
+ */
+export function isReserveMet(
+  auction: Pick<AuctionData, 'highestBid' | 'reservePrice'>
+): boolean {
+  return auction.highestBid > 0n && auction.highestBid >= auction.reservePrice;
+}
+
+/**
+ * Where a wallet stands on an auction
+ *
+ * @param auction - Auction to check
+ * @param walletAddress - Wallet to check, addresses compare case-insensitively
+ * @param hasBid - Whether the wallet has bid on the auction
+ * @param now - Current time in milliseconds, defaults to Date.now()
+ */
+export function getAuctionWalletStatus(
+  auction: AuctionData,
+  walletAddress: string | undefined,
+  hasBid: boolean,
+  now: number = Date.now()
+): AuctionWalletStatus {
+  if (!walletAddress || !hasBid) return 'none';
+
+  const isHighest =
+    auction.highestBidder?.toLowerCase() === walletAddress.toLowerCase();
+  if (isAuctionActive(auction, now)) {
+    return isHighest ? 'leading' : 'outbid';
+  }
+  return isHighest && isReserveMet(auction) ? 'won' : 'lost';
+}
+
+/**
+ * Check a bid against the auction and the wallet balance
+ *
+ * @param auction - Auction the bid is placed on
+ * @param amount - Bid in the token's smallest unit
+ * @param balance - Bid token balance of the wallet
+ * @param now - Current time in milliseconds, defaults to Date.now()
+ * @returns The first failed check, or `null` when the bid is valid
+ */
+export function validateBid(
+  auction: AuctionData,
+  amount: bigint,
+  balance: bigint,
+  now: number = Date.now()
+): BidValidationError | null {
+  if (amount <= 0n) {
+    return new BidValidationError(
+      'INVALID_AMOUNT',
+      'Bid must be greater than zero'
+    );
+  }
+  if (!isAuctionActive(auction, now)) {
+    return new BidValidationError(
+      'AUCTION_ENDED',
+      'Auction is no longer accepting bids'
+    );
+  }
+  const minimumBid = getMinimumBid(auction);
+  if (amount < minimumBid) {
+    return new BidValidationError(
+      'BID_TOO_LOW',
+      `Bid must be at least ${minimumBid}`
+    );
+  }
+  if (amount > balance) {
+    return new BidValidationError(
+      'INSUFFICIENT_BALANCE',
+      'Bid exceeds wallet balance'
+    );
+  }
+  return null;
+}
+
+/**
+ * Add the derived bidding state to an auction
+ *
+ * @param chainId - Chain the auction lives on
+ * @param auction - Auction from the contracts client
+ * @param walletAddress - Wallet to report the status of
+ * @param hasBid - Whether that wallet has bid on the auction
+ * @param now - Current time in milliseconds, defaults to Date.now()
+ */
+export function toAuction(
+  chainId: AuctionChainId,
+  auction: AuctionData,
+  walletAddress: string | undefined,
+  hasBid: boolean,
+  now: number = Date.now()
+): Auction {
+  return {
+    ...auction,
+    chainId,
+    isActive: isAuctionActive(auction, now),
+    minimumBid: getMinimumBid(auction),
+    reserveMet: isReserveMet(auction),
+    walletStatus: getAuctionWalletStatus(auction, walletAddress, hasBid, now),
+  };
+}
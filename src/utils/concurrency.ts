@@ -0,0 +1,33 @@
+/**
+ * Bounded concurrency for batches of async calls
+ */
+
+/**
+ * Map items through an async function, running at most `limit` at a time
+ *
+ * @param items - Items to map
+ * @param limit - Maximum number of calls in flight, at least 1
+ * @param fn - Async mapper
+ * @returns Results in the order of the items; rejects with the first error
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  // Each worker takes the next item until none are left
+  const work = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workers }, work));
+  return results;
+}
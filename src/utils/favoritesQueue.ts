@@ -0,0 +1,345 @@
+/**
+ * Persistent queue of favorite changes, replayed to the indexer in order
+ */
+
+import type {
+  FavoriteConflictPolicy,
+  FavoriteScope,
+  FavoritesQueue,
+  FavoritesStorage,
+  FavoriteSyncHandlers,
+  FavoriteSyncResult,
+  QueuedFavoriteChange,
+  ServerFavorite,
+} from '../types';
+
+/**
+ * Storage key of the queue unless overridden
+ */
+export const FAVORITES_QUEUE_STORAGE_KEY = 'heavymath:favorites-queue';
+
+/**
+ * How long an applied change waits for the favorites list to show it, in ms
+ */
+export const DEFAULT_FAVORITE_CONFIRM_TIMEOUT = 60_000;
+
+/**
+ * Options for createFavoritesQueue
+ */
+export interface FavoritesQueueOptions {
+  /** Defaults to FAVORITES_QUEUE_STORAGE_KEY */
+  storageKey?: string;
+  /** Defaults to `'local'`, replaying the user's last intent */
+  conflictPolicy?: FavoriteConflictPolicy;
+  /** Defaults to DEFAULT_FAVORITE_CONFIRM_TIMEOUT */
+  confirmTimeout?: number;
+  /** Clock in ms, defaults to Date.now */
+  now?: () => number;
+}
+
+/**
+ * Whether an error means the request never reached the indexer
+ *
+ * @param error - Error thrown by a fetch-based client
+ * @returns `true` for connection failures and timeouts
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const code = (error as { code?: unknown }).code;
+  if (
+    typeof code === 'string' &&
+    /^(ERR_NETWORK|ECONNABORTED|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT)$/.test(
+      code
+    )
+  ) {
+    return true;
+  }
+  // fetch rejects with a TypeError when the request fails to go out
+  if (
+    error.name === 'TypeError' &&
+    /fetch|network|load failed/i.test(error.message)
+  ) {
+    return true;
+  }
+  return /network|offline|timed? ?out/i.test(error.message);
+}
+
+/**
+ * Whether a queued change belongs to a wallet's favorites of one type
+ *
+ * @param change - Queued change
+ * @param scope - Wallet, category, subcategory and type to match
+ * @returns `true` when every field matches
+ */
+export function isInFavoriteScope(
+  change: QueuedFavoriteChange,
+  scope: FavoriteScope
+): boolean {
+  return (
+    change.walletAddress === scope.walletAddress &&
+    change.category === scope.category &&
+    change.subcategory === scope.subcategory &&
+    change.type === scope.type
+  );
+}
+
+function scopeKey(scope: FavoriteScope): string {
+  return JSON.stringify([
+    scope.walletAddress,
+    scope.category,
+    scope.subcategory,
+    scope.type,
+  ]);
+}
+
+function isQueuedChange(value: unknown): value is QueuedFavoriteChange {
+  const change = value as QueuedFavoriteChange | null;
+  return (
+    typeof change === 'object' &&
+    change !== null &&
+    typeof change.id === 'string' &&
+    typeof change.walletAddress === 'string' &&
+    typeof change.itemId === 'string' &&
+    typeof change.favorited === 'boolean'
+  );
+}
+
+// Stored queues from older or broken writes are discarded
+function parseChanges(raw: string | null): QueuedFavoriteChange[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isQueuedChange) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Create the queue of favorite changes shared by the sports hooks
+ *
+ * Changes are applied optimistically by the hooks and replayed per wallet
+ * and entity type, in the order they were made. Replays reconcile with the
+ * server favorites first: changes the server already reflects are dropped,
+ * and removals of items favorited again elsewhere follow `conflictPolicy`.
+ *
+ * @param storage - Where the queue survives restarts
+ * @param options - Storage key, conflict policy and timings
+ * @returns Queue to pass to the sports hooks as `favoritesQueue`
+ *
+ * @example
+ * ```typescript
+ * const favoritesQueue = createFavoritesQueue(createLocalStorageAdapter());
+ *
+ * const { matches, setFavorited } = useFootballMatches(
+ *   indexerClient,
+ *   walletAddress,
+ *   { favoritesQueue }
+ * );
+ * ```
+ */
+export function createFavoritesQueue(
+  storage: FavoritesStorage,
+  options: FavoritesQueueOptions = {}
+): FavoritesQueue {
+  const {
+    storageKey = FAVORITES_QUEUE_STORAGE_KEY,
+    conflictPolicy = 'local',
+    confirmTimeout = DEFAULT_FAVORITE_CONFIRM_TIMEOUT,
+    now = Date.now,
+  } = options;
+
+  let changes: readonly QueuedFavoriteChange[] = [];
+  const listeners = new Set<() => void>();
+  const inFlight = new Set<string>();
+  const running = new Map<string, Promise<FavoriteSyncResult[]>>();
+  let writes: Promise<void> = Promise.resolve();
+  let counter = 0;
+
+  function update(next: readonly QueuedFavoriteChange[]) {
+    changes = next;
+    listeners.forEach(listener => listener());
+    // Writes run in order; a failed write keeps the queue for this session
+    writes = writes
+      .then(() =>
+        changes.length > 0
+          ? storage.setItem(storageKey, JSON.stringify(changes))
+          : storage.removeItem(storageKey)
+      )
+      .catch(() => undefined);
+  }
+
+  function drop(change: QueuedFavoriteChange) {
+    update(changes.filter(queued => queued.id !== change.id));
+  }
+
+  // Persisted changes go ahead of any queued while loading
+  const ready = storage.getItem(storageKey).then(
+    raw => {
+      const stored = parseChanges(raw);
+      if (stored.length > 0) update([...stored, ...changes]);
+    },
+    () => undefined
+  );
+
+  async function replay(
+    scope: FavoriteScope,
+    serverFavorites: readonly ServerFavorite[],
+    handlers: FavoriteSyncHandlers
+  ): Promise<FavoriteSyncResult[]> {
+    const { isRetryable = isNetworkError } = handlers;
+    const server = new Map(
+      serverFavorites.map(favorite => [favorite.itemId, String(favorite.id)])
+    );
+    const time = now();
+
+    // Forget applied changes once listed, or when the list never shows them
+    const settled = changes.filter(
+      change =>
+        isInFavoriteScope(change, scope) &&
+        change.appliedAt !== null &&
+        (server.has(change.itemId) === change.favorited ||
+          time - change.appliedAt > confirmTimeout)
+    );
+    if (settled.length > 0) {
+      update(changes.filter(change => !settled.includes(change)));
+    }
+
+    // Server favorites with the applied changes not listed yet; `null` is a
+    // favorite whose id is not known yet
+    const view = new Map<string, string | null>(server);
+    changes.forEach(change => {
+      if (!isInFavoriteScope(change, scope) || change.appliedAt === null)
+        return;
+      if (change.favorited) view.set(change.itemId, null);
+      else view.delete(change.itemId);
+    });
+
+    const results: FavoriteSyncResult[] = [];
+    const waiting = new Set<string>();
+    let stopped = false;
+
+    const queued = changes.filter(
+      change => isInFavoriteScope(change, scope) && change.appliedAt === null
+    );
+    for (const change of queued) {
+      if (stopped || waiting.has(change.itemId)) {
+        results.push({ change, status: 'pending', error: null });
+        continue;
+      }
+
+      const favoriteId = view.get(change.itemId);
+      if (view.has(change.itemId) === change.favorited) {
+        drop(change);
+        results.push({ change, status: 'superseded', error: null });
+        continue;
+      }
+      if (!change.favorited && favoriteId === null) {
+        // Removing needs the id of a favorite the list does not show yet
+        waiting.add(change.itemId);
+        results.push({ change, status: 'pending', error: null });
+        continue;
+      }
+      if (
+        !change.favorited &&
+        conflictPolicy === 'server' &&
+        change.baseFavoriteId !== null &&
+        favoriteId !== change.baseFavoriteId
+      ) {
+        drop(change);
+        results.push({ change, status: 'conflict', error: null });
+        continue;
+      }
+
+      inFlight.add(change.id);
+      try {
+        if (change.favorited) await handlers.add(change);
+        else await handlers.remove(change, favoriteId as string);
+
+        const applied = { ...change, appliedAt: now() };
+        update(
+          changes.map(queuedChange =>
+            queuedChange.id === change.id ? applied : queuedChange
+          )
+        );
+        if (change.favorited) view.set(change.itemId, null);
+        else view.delete(change.itemId);
+        results.push({ change: applied, status: 'applied', error: null });
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        if (isRetryable(error)) {
+          // Keep this and every later change for the next replay
+          stopped = true;
+          results.push({ change, status: 'pending', error });
+        } else {
+          drop(change);
+          results.push({ change, status: 'failed', error });
+        }
+      } finally {
+        inFlight.delete(change.id);
+      }
+    }
+
+    return results;
+  }
+
+  return {
+    ready,
+    getChanges: () => changes,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    enqueue(scope, itemId, favorited, serverFavorites) {
+      const itemChanges = changes.filter(
+        change => isInFavoriteScope(change, scope) && change.itemId === itemId
+      );
+      const latest = itemChanges[itemChanges.length - 1];
+      const serverFavorite = serverFavorites.find(
+        favorite => favorite.itemId === itemId
+      );
+      const current = latest ? latest.favorited : serverFavorite !== undefined;
+      if (current === favorited) return null;
+
+      // Toggling back cancels a change that was not sent yet
+      if (latest && latest.appliedAt === null && !inFlight.has(latest.id)) {
+        drop(latest);
+        return null;
+      }
+
+      const time = now();
+      const change: QueuedFavoriteChange = {
+        id: `${time.toString(36)}-${(counter += 1).toString(36)}-${Math.random()
+          .toString(36)
+          .slice(2, 8)}`,
+        walletAddress: scope.walletAddress,
+        category: scope.category,
+        subcategory: scope.subcategory,
+        type: scope.type,
+        itemId,
+        favorited,
+        baseFavoriteId: serverFavorite ? String(serverFavorite.id) : null,
+        queuedAt: time,
+        appliedAt: null,
+      };
+      update([...changes, change]);
+      return change;
+    },
+    flush(scope, serverFavorites, handlers) {
+      const key = scopeKey(scope);
+      const previous = running.get(key) ?? Promise.resolve([]);
+      const run = previous
+        .catch(() => [])
+        .then(() => ready)
+        .then(() => replay(scope, serverFavorites, handlers));
+      running.set(key, run);
+      const cleanup = () => {
+        if (running.get(key) === run) running.delete(key);
+      };
+      run.then(cleanup, cleanup);
+      return run;
+    },
+  };
+}
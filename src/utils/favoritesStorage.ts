@@ -0,0 +1,83 @@
+/**
+ * Storage adapters for the favorites queue
+ */
+
+import type { FavoritesStorage } from '../types';
+
+/**
+ * Synchronous Web Storage, e.g. window.localStorage
+ */
+export interface WebStorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Asynchronous key-value store, e.g. AsyncStorage from
+ * @react-native-async-storage/async-storage
+ */
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Store the favorites queue in Web Storage
+ *
+ * @param storage - Storage to write to, defaults to localStorage
+ * @returns Adapter for createFavoritesQueue
+ */
+export function createLocalStorageAdapter(
+  storage: WebStorageLike = globalThis.localStorage
+): FavoritesStorage {
+  return {
+    getItem: async key => storage.getItem(key),
+    setItem: async (key, value) => storage.setItem(key, value),
+    removeItem: async key => storage.removeItem(key),
+  };
+}
+
+/**
+ * Store the favorites queue in React Native's AsyncStorage
+ *
+ * @param asyncStorage - The AsyncStorage default export
+ * @returns Adapter for createFavoritesQueue
+ *
+ * @example
+ * ```typescript
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * const favoritesQueue = createFavoritesQueue(
+ *   createAsyncStorageAdapter(AsyncStorage)
+ * );
+ * ```
+ */
+export function createAsyncStorageAdapter(
+  asyncStorage: AsyncStorageLike
+): FavoritesStorage {
+  return {
+    getItem: key => asyncStorage.getItem(key),
+    setItem: (key, value) => asyncStorage.setItem(key, value),
+    removeItem: key => asyncStorage.removeItem(key),
+  };
+}
+
+/**
+ * Keep the favorites queue in memory only, e.g. on the server or in tests
+ *
+ * @returns Adapter for createFavoritesQueue
+ */
+export function createMemoryStorage(): FavoritesStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: async key => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async key => {
+      items.delete(key);
+    },
+  };
+}
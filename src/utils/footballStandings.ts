@@ -0,0 +1,312 @@
+/**
+ * League table computation from football fixture results
+ */
+
+import type { FootballFixtureResponse } from '@sudobility/sports_api_client';
+import type {
+  StandingsResult,
+  StandingsRow,
+  StandingsRules,
+  StandingsTeam,
+  StandingsTiebreaker,
+} from '../types';
+
+/**
+ * Three points for a win, then goal difference and goals scored
+ */
+export const DEFAULT_STANDINGS_RULES: StandingsRules = {
+  pointsForWin: 3,
+  pointsForDraw: 1,
+  pointsForLoss: 0,
+  tiebreakers: ['goalDifference', 'goalsFor'],
+  formLength: 5,
+};
+
+/**
+ * Tiebreakers of competitions that differ from the default, by API-Football
+ * league id
+ */
+export const STANDINGS_RULES_BY_LEAGUE: Readonly<
+  Record<number, Partial<StandingsRules>>
+> = {
+  // Premier League
+  39: {
+    tiebreakers: [
+      'goalDifference',
+      'goalsFor',
+      'headToHeadPoints',
+      'headToHeadAwayGoalsFor',
+    ],
+  },
+  // Bundesliga
+  78: {
+    tiebreakers: [
+      'goalDifference',
+      'goalsFor',
+      'headToHeadPoints',
+      'headToHeadAwayGoalsFor',
+      'awayGoalsFor',
+    ],
+  },
+  // Serie A
+  135: {
+    tiebreakers: [
+      'headToHeadPoints',
+      'headToHeadGoalDifference',
+      'goalDifference',
+      'goalsFor',
+    ],
+  },
+  // La Liga
+  140: {
+    tiebreakers: [
+      'headToHeadPoints',
+      'headToHeadGoalDifference',
+      'goalDifference',
+      'goalsFor',
+    ],
+  },
+};
+
+/**
+ * Rules of a competition
+ *
+ * @param leagueId - API-Football league id, the default rules when unknown
+ * @param overrides - Rules replacing the competition's
+ * @returns Complete rules
+ */
+export function getStandingsRules(
+  leagueId?: number,
+  overrides: Partial<StandingsRules> = {}
+): StandingsRules {
+  return {
+    ...DEFAULT_STANDINGS_RULES,
+    ...(leagueId === undefined ? {} : STANDINGS_RULES_BY_LEAGUE[leagueId]),
+    ...overrides,
+  };
+}
+
+// Statuses whose score counts: played to the end, awarded or walkover
+const COUNTED_STATUSES = new Set(['FT', 'AET', 'PEN', 'AWD', 'WO']);
+
+interface PlayedMatch {
+  timestamp: number;
+  homeId: number;
+  awayId: number;
+  homeGoals: number;
+  awayGoals: number;
+}
+
+interface Totals {
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  awayGoalsFor: number;
+  points: number;
+}
+
+const emptyTotals = (): Totals => ({
+  played: 0,
+  won: 0,
+  drawn: 0,
+  lost: 0,
+  goalsFor: 0,
+  goalsAgainst: 0,
+  awayGoalsFor: 0,
+  points: 0,
+});
+
+function resultOf(goalsFor: number, goalsAgainst: number): StandingsResult {
+  if (goalsFor > goalsAgainst) return 'W';
+  return goalsFor === goalsAgainst ? 'D' : 'L';
+}
+
+function tally(
+  matches: readonly PlayedMatch[],
+  rules: StandingsRules
+): Map<number, Totals> {
+  const totals = new Map<number, Totals>();
+  const add = (teamId: number, own: number, other: number, away: boolean) => {
+    const team = totals.get(teamId) ?? emptyTotals();
+    const result = resultOf(own, other);
+    team.played += 1;
+    team.goalsFor += own;
+    team.goalsAgainst += other;
+    if (away) team.awayGoalsFor += own;
+    if (result === 'W') {
+      team.won += 1;
+      team.points += rules.pointsForWin;
+    } else if (result === 'D') {
+      team.drawn += 1;
+      team.points += rules.pointsForDraw;
+    } else {
+      team.lost += 1;
+      team.points += rules.pointsForLoss;
+    }
+    totals.set(teamId, team);
+  };
+  matches.forEach(match => {
+    add(match.homeId, match.homeGoals, match.awayGoals, false);
+    add(match.awayId, match.awayGoals, match.homeGoals, true);
+  });
+  return totals;
+}
+
+function criterionValue(
+  criterion: 'points' | StandingsTiebreaker,
+  totals: Totals
+): number {
+  switch (criterion) {
+    case 'points':
+    case 'headToHeadPoints':
+      return totals.points;
+    case 'goalDifference':
+    case 'headToHeadGoalDifference':
+      return totals.goalsFor - totals.goalsAgainst;
+    case 'goalsFor':
+    case 'headToHeadGoalsFor':
+      return totals.goalsFor;
+    case 'awayGoalsFor':
+    case 'headToHeadAwayGoalsFor':
+      return totals.awayGoalsFor;
+    case 'wins':
+      return totals.won;
+  }
+}
+
+// Split teams into groups ordered by the criteria, each group still level
+function orderTeams(
+  teamIds: number[],
+  criteria: readonly ('points' | StandingsTiebreaker)[],
+  matches: readonly PlayedMatch[],
+  overall: Map<number, Totals>,
+  rules: StandingsRules
+): number[][] {
+  if (teamIds.length <= 1 || criteria.length === 0) return [teamIds];
+  const [criterion, ...rest] = criteria;
+
+  // Head-to-head criteria form a mini-league of the teams still level
+  const level = new Set(teamIds);
+  const totals = criterion.startsWith('headToHead')
+    ? tally(
+        matches.filter(
+          match => level.has(match.homeId) && level.has(match.awayId)
+        ),
+        rules
+      )
+    : overall;
+  const value = (teamId: number) =>
+    criterionValue(criterion, totals.get(teamId) ?? emptyTotals());
+
+  const groups = new Map<number, number[]>();
+  teamIds.forEach(teamId => {
+    const key = value(teamId);
+    groups.set(key, [...(groups.get(key) ?? []), teamId]);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => b - a)
+    .flatMap(([, group]) => orderTeams(group, rest, matches, overall, rules));
+}
+
+/**
+ * Compute a league table from fixtures
+ *
+ * Only fixtures played to the end, awarded or walked over count; every
+ * team of the list gets a row, so a season not started yet lists all teams
+ * with zeros. Pass the fixtures of one table: split group stages first.
+ *
+ * @param fixtures - Fixtures of one league and season, in any order
+ * @param rules - Rules replacing the default ones, see getStandingsRules
+ * @returns Rows ordered by rank, level teams by name
+ *
+ * @example
+ * ```typescript
+ * const table = computeFootballStandings(
+ *   fixtures,
+ *   getStandingsRules(140)
+ * );
+ * ```
+ */
+export function computeFootballStandings(
+  fixtures: readonly FootballFixtureResponse[],
+  rules: Partial<StandingsRules> = {}
+): StandingsRow[] {
+  const fullRules = { ...DEFAULT_STANDINGS_RULES, ...rules };
+
+  const teams = new Map<number, StandingsTeam>();
+  const matches = new Map<number, PlayedMatch>();
+  fixtures.forEach(({ fixture, teams: { home, away }, goals }) => {
+    [home, away].forEach(team =>
+      teams.set(team.id, {
+        id: team.id,
+        name: team.name,
+        logo: team.logo || null,
+      })
+    );
+    if (
+      !COUNTED_STATUSES.has(fixture.status.short) ||
+      goals.home == null ||
+      goals.away == null
+    ) {
+      return;
+    }
+    matches.set(fixture.id, {
+      timestamp: fixture.timestamp,
+      homeId: home.id,
+      awayId: away.id,
+      homeGoals: goals.home,
+      awayGoals: goals.away,
+    });
+  });
+
+  const played = [...matches.values()].sort(
+    (a, b) => a.timestamp - b.timestamp
+  );
+  const overall = tally(played, fullRules);
+
+  const form = new Map<number, StandingsResult[]>();
+  played.forEach(match => {
+    const add = (teamId: number, result: StandingsResult) =>
+      form.set(teamId, [...(form.get(teamId) ?? []), result]);
+    add(match.homeId, resultOf(match.homeGoals, match.awayGoals));
+    add(match.awayId, resultOf(match.awayGoals, match.homeGoals));
+  });
+
+  const byName = (a: number, b: number) =>
+    (teams.get(a)?.name ?? '').localeCompare(teams.get(b)?.name ?? '');
+  const groups = orderTeams(
+    [...teams.keys()],
+    ['points', ...fullRules.tiebreakers],
+    played,
+    overall,
+    fullRules
+  );
+
+  const rows: StandingsRow[] = [];
+  groups.forEach(group => {
+    const rank = rows.length + 1;
+    [...group].sort(byName).forEach(teamId => {
+      const totals = overall.get(teamId) ?? emptyTotals();
+      rows.push({
+        rank,
+        team: teams.get(teamId) as StandingsTeam,
+        played: totals.played,
+        won: totals.won,
+        drawn: totals.drawn,
+        lost: totals.lost,
+        goalsFor: totals.goalsFor,
+        goalsAgainst: totals.goalsAgainst,
+        goalDifference: totals.goalsFor - totals.goalsAgainst,
+        points: totals.points,
+        form:
+          fullRules.formLength > 0
+            ? (form.get(teamId) ?? []).slice(-fullRules.formLength).join('')
+            : '',
+      });
+    });
+  });
+  return rows;
+}
@@ -0,0 +1,54 @@
+/**
+ * Game status helpers shared by the sports hooks and event adapters
+ */
+
+import type { GamePhase } from '../types';
+
+// Status codes used across the API-Sports APIs; postponed games are
+// 'PST' in football and 'POST' in basketball, baseball and hockey
+const SCHEDULED_STATUSES = new Set(['TBD', 'NS', 'PST', 'POST', 'SUSP', 'DEL']);
+
+const FINISHED_STATUSES = new Set([
+  'FT',
+  'AET',
+  'PEN',
+  'AOT',
+  'AP',
+  'AW',
+  'CANC',
+  'ABD',
+  'AWD',
+  'WO',
+]);
+
+// Finished without a result: cancelled or abandoned
+const VOID_STATUSES = new Set(['CANC', 'ABD']);
+
+/**
+ * Classify a short status code into a game phase
+ *
+ * Codes that are neither scheduled nor finished (1H, Q3, P2, IN7, S4,
+ * HT, BT, ...) are treated as in play.
+ *
+ * @param status - Short status code, e.g. 'NS', '2H', 'FT'
+ * @returns The game phase
+ */
+export function getGamePhase(status: string): GamePhase {
+  const code = status.toUpperCase();
+  if (SCHEDULED_STATUSES.has(code)) return 'scheduled';
+  if (FINISHED_STATUSES.has(code)) return 'finished';
+  return 'live';
+}
+
+/**
+ * Whether a status code means the game will not be played to a result
+ *
+ * Postponed games ('PST', 'POST') are still to be played, so they are not
+ * void.
+ *
+ * @param status - Short status code, e.g. 'CANC', 'ABD', 'FT'
+ * @returns `true` for cancelled and abandoned games
+ */
+export function isVoidStatus(status: string): boolean {
+  return VOID_STATUSES.has(status.toUpperCase());
+}
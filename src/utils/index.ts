@@ -0,0 +1,21 @@
+/**
+ * Pure helpers shared by the hooks
+ */
+
+export * from './gameStatus';
+export * from './sportEvents';
+export * from './sportsSearch';
+export * from './footballStandings';
+export * from './teamForm';
+export * from './outcomeModel';
+export * from './markets';
+export * from './predictions';
+export * from './odds';
+export * from './portfolio';
+export * from './marketCreation';
+export * from './marketResolution';
+export * from './auctions';
+export * from './favoritesStorage';
+export * from './favoritesQueue';
+export * from './localFavorites';
+export * from './concurrency';
@@ -0,0 +1,164 @@
+/**
+ * Device-only favorites used while no wallet is connected
+ */
+
+import type {
+  FavoriteFilter,
+  FavoritesStorage,
+  LocalFavorite,
+  LocalFavoritesStore,
+} from '../types';
+
+/**
+ * Storage key of the local favorites unless overridden
+ */
+export const LOCAL_FAVORITES_STORAGE_KEY = 'heavymath:local-favorites';
+
+/**
+ * Options for createLocalFavorites
+ */
+export interface LocalFavoritesOptions {
+  /** Defaults to LOCAL_FAVORITES_STORAGE_KEY */
+  storageKey?: string;
+  /** Clock in ms, defaults to Date.now */
+  now?: () => number;
+}
+
+function isSameFavorite(
+  favorite: LocalFavorite,
+  filter: FavoriteFilter,
+  itemId: string
+): boolean {
+  return (
+    favorite.itemId === itemId &&
+    favorite.category === filter.category &&
+    favorite.subcategory === filter.subcategory &&
+    favorite.type === filter.type
+  );
+}
+
+function isLocalFavorite(value: unknown): value is LocalFavorite {
+  const favorite = value as LocalFavorite | null;
+  return (
+    typeof favorite === 'object' &&
+    favorite !== null &&
+    typeof favorite.category === 'string' &&
+    typeof favorite.subcategory === 'string' &&
+    typeof favorite.type === 'string' &&
+    typeof favorite.itemId === 'string'
+  );
+}
+
+// Unreadable stored favorites are discarded
+function parseFavorites(raw: string | null): LocalFavorite[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isLocalFavorite) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Create the store of favorites made without a wallet
+ *
+ * Pass it to the sports hooks as `localFavorites`; they read and change it
+ * while `walletAddress` is undefined. Once a wallet connects, move the
+ * favorites over with useMigrateLocalFavorites.
+ *
+ * @param storage - Where the favorites survive restarts
+ * @param options - Storage key and clock
+ * @returns Store shared by the sports hooks
+ *
+ * @example
+ * ```typescript
+ * const localFavorites = createLocalFavorites(createLocalStorageAdapter());
+ *
+ * const { matches, setFavorited } = useFootballMatches(
+ *   indexerClient,
+ *   walletAddress,
+ *   { localFavorites }
+ * );
+ * ```
+ */
+export function createLocalFavorites(
+  storage: FavoritesStorage,
+  options: LocalFavoritesOptions = {}
+): LocalFavoritesStore {
+  const { storageKey = LOCAL_FAVORITES_STORAGE_KEY, now = Date.now } = options;
+
+  let favorites: readonly LocalFavorite[] = [];
+  const listeners = new Set<() => void>();
+  let writes: Promise<void> = Promise.resolve();
+
+  function update(next: readonly LocalFavorite[]) {
+    favorites = next;
+    listeners.forEach(listener => listener());
+    // Writes run in order; a failed write keeps the favorites for this session
+    writes = writes
+      .then(() =>
+        favorites.length > 0
+          ? storage.setItem(storageKey, JSON.stringify(favorites))
+          : storage.removeItem(storageKey)
+      )
+      .catch(() => undefined);
+  }
+
+  // Favorites made while loading are kept, after the persisted ones
+  const ready = storage.getItem(storageKey).then(
+    raw => {
+      const stored = parseFavorites(raw).filter(
+        favorite =>
+          !favorites.some(current =>
+            isSameFavorite(current, favorite, favorite.itemId)
+          )
+      );
+      if (stored.length > 0) update([...stored, ...favorites]);
+    },
+    () => undefined
+  );
+
+  return {
+    ready,
+    getFavorites: () => favorites,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setFavorited(filter, itemId, favorited) {
+      const exists = favorites.some(favorite =>
+        isSameFavorite(favorite, filter, itemId)
+      );
+      if (exists === favorited) return;
+      update(
+        favorited
+          ? [
+              ...favorites,
+              {
+                category: filter.category,
+                subcategory: filter.subcategory,
+                type: filter.type,
+                itemId,
+                addedAt: now(),
+              },
+            ]
+          : favorites.filter(
+              favorite => !isSameFavorite(favorite, filter, itemId)
+            )
+      );
+    },
+    remove(removed) {
+      const next = favorites.filter(
+        favorite =>
+          !removed.some(other => isSameFavorite(favorite, other, other.itemId))
+      );
+      if (next.length !== favorites.length) update(next);
+    },
+    clear() {
+      if (favorites.length > 0) update([]);
+    },
+  };
+}
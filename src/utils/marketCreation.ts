@@ -0,0 +1,252 @@
+/**
+ * Market parameters derived from sports fixtures, games and fights
+ */
+
+import type { CreateMarketParams, MarketType, Sport } from '../types';
+import { BPS_DENOMINATOR } from './odds';
+import { type SportEventSourceMap, toSportEvent } from './sportEvents';
+
+/**
+ * Default category of sports markets
+ */
+export const SPORTS_MARKET_CATEGORY = 1n;
+
+/**
+ * Default subcategory of each sport's markets
+ *
+ * These ids are stored on-chain, so existing entries must never change.
+ */
+export const SPORT_MARKET_SUBCATEGORIES: Readonly<Record<Sport, bigint>> =
+  Object.freeze({
+    football: 0n,
+    basketball: 1n,
+    nfl: 2n,
+    baseball: 3n,
+    hockey: 4n,
+    rugby: 5n,
+    mma: 6n,
+    handball: 7n,
+    volleyball: 8n,
+  });
+
+/**
+ * Sports whose regular result can be a draw, given a draw outcome
+ */
+export const SPORTS_WITH_DRAWS: readonly Sport[] = [
+  'football',
+  'rugby',
+  'handball',
+];
+
+/**
+ * Label of the draw outcome of winner markets
+ */
+export const MARKET_DRAW_LABEL = 'Draw';
+
+/**
+ * Outcomes of MMA method markets, in order
+ */
+export const MMA_METHOD_OUTCOMES: readonly string[] = [
+  'KO/TKO',
+  'Submission',
+  'Decision',
+];
+
+/**
+ * Label of the decision outcome of MMA round markets, after the rounds
+ */
+export const MMA_DECISION_LABEL = 'Decision';
+
+/**
+ * Reason market parameters are rejected
+ */
+export type MarketValidationCode =
+  | 'EVENT_NOT_SCHEDULED'
+  | 'UNSUPPORTED_MARKET_TYPE'
+  | 'INVALID_LINE'
+  | 'INVALID_ROUNDS'
+  | 'INVALID_OUTCOMES'
+  | 'INVALID_FEE'
+  | 'DEADLINE_PASSED';
+
+/**
+ * Error thrown when market parameters fail validation
+ */
+export class MarketValidationError extends Error {
+  readonly code: MarketValidationCode;
+
+  constructor(code: MarketValidationCode, message: string) {
+    super(message);
+    this.name = 'MarketValidationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Choices of the market creator
+ */
+export interface MarketBuildOptions {
+  type: MarketType;
+  /** Total score line of over/under markets, e.g. 2.5 */
+  line?: number;
+  /** Scheduled rounds of the fight for MMA round markets, 3 or 5 */
+  rounds?: number;
+  /** How long before kick-off predictions close, in ms; defaults to 0 */
+  closeBeforeStart?: number;
+  /** Dealer NFT token ID used to create the market */
+  tokenId: bigint;
+  /** Dealer fee in basis points */
+  dealerFeeBps: bigint;
+  category?: bigint;
+  subCategory?: bigint;
+}
+
+/**
+ * Check market parameters before they are submitted
+ *
+ * @param params - Parameters to check
+ * @param now - Current time in milliseconds, defaults to Date.now()
+ * @returns The first failed check, or `null` when the parameters are valid
+ */
+export function validateMarketParams(
+  params: CreateMarketParams,
+  now: number = Date.now()
+): MarketValidationError | null {
+  const labels = params.outcomes.map(outcome => outcome.trim());
+  if (
+    labels.length < 2 ||
+    labels.some(label => !label) ||
+    new Set(labels).size !== labels.length
+  ) {
+    return new MarketValidationError(
+      'INVALID_OUTCOMES',
+      'Market needs at least two distinct, non-empty outcomes'
+    );
+  }
+  if (params.dealerFeeBps < 0n || params.dealerFeeBps > BPS_DENOMINATOR) {
+    return new MarketValidationError(
+      'INVALID_FEE',
+      `Fee must be between 0 and ${BPS_DENOMINATOR} bps`
+    );
+  }
+  if (params.deadline * 1000n <= BigInt(now)) {
+    return new MarketValidationError(
+      'DEADLINE_PASSED',
+      'Market would close before it opens'
+    );
+  }
+  return null;
+}
+
+// Over/under lines end in .5 so the total can never land on them
+function isHalfLine(line: number | undefined): line is number {
+  return line !== undefined && line > 0 && (line * 2) % 2 === 1;
+}
+
+/**
+ * Derive the parameters of a market on a fixture, game or fight
+ *
+ * Outcomes come from the participants: home/draw/away for sports with
+ * draws, home/away otherwise, and fighter A/B for MMA. MMA fights can also
+ * take method and round markets. Predictions close at kick-off, or
+ * `closeBeforeStart` earlier.
+ *
+ * @param sport - Sport the entity comes from
+ * @param entity - Fixture, game or fight from the sports hooks
+ * @param options - Market type, line or rounds, dealer token and fee
+ * @param now - Current time in milliseconds, defaults to Date.now()
+ * @returns Validated parameters for useCreateMarket
+ * @throws MarketValidationError when no valid market can be built
+ */
+export function buildMarketParams<S extends Sport>(
+  sport: S,
+  entity: SportEventSourceMap[S],
+  options: MarketBuildOptions,
+  now: number = Date.now()
+): CreateMarketParams {
+  const event = toSportEvent(sport, entity);
+  const [home, away] = event.participants;
+  const { type, line } = options;
+
+  if (event.status.phase !== 'scheduled') {
+    throw new MarketValidationError(
+      'EVENT_NOT_SCHEDULED',
+      `${home.name} vs ${away.name} has already started`
+    );
+  }
+
+  let outcomes: string[];
+  let title: string;
+  if (type === 'matchWinner') {
+    outcomes = SPORTS_WITH_DRAWS.includes(sport)
+      ? [home.name, MARKET_DRAW_LABEL, away.name]
+      : [home.name, away.name];
+    title = 'Winner';
+  } else if (type === 'overUnder') {
+    // MMA results have no score to total
+    if (sport === 'mma') {
+      throw new MarketValidationError(
+        'UNSUPPORTED_MARKET_TYPE',
+        'Over/under markets need a scored sport'
+      );
+    }
+    if (!isHalfLine(line)) {
+      throw new MarketValidationError(
+        'INVALID_LINE',
+        'Over/under line must be positive and end in .5'
+      );
+    }
+    outcomes = [`Over ${line}`, `Under ${line}`];
+    title = `Total over/under ${line}`;
+  } else {
+    if (sport !== 'mma') {
+      throw new MarketValidationError(
+        'UNSUPPORTED_MARKET_TYPE',
+        'Method and round markets are only offered on MMA fights'
+      );
+    }
+    if (type === 'mmaMethod') {
+      outcomes = [...MMA_METHOD_OUTCOMES];
+      title = 'Method of victory';
+    } else {
+      const { rounds } = options;
+      if (rounds !== 3 && rounds !== 5) {
+        throw new MarketValidationError(
+          'INVALID_ROUNDS',
+          'Round markets need a fight of 3 or 5 rounds'
+        );
+      }
+      outcomes = [
+        ...Array.from({ length: rounds }, (_, index) => `Round ${index + 1}`),
+        MMA_DECISION_LABEL,
+      ];
+      title = 'Round of victory';
+    }
+  }
+
+  const league = event.league ? ` (${event.league.name})` : '';
+  const closeTime = event.startTime - (options.closeBeforeStart ?? 0);
+
+  const params: CreateMarketParams = {
+    tokenId: options.tokenId,
+    category: options.category ?? SPORTS_MARKET_CATEGORY,
+    subCategory: options.subCategory ?? SPORT_MARKET_SUBCATEGORIES[sport],
+    deadline: BigInt(Math.floor(closeTime / 1000)),
+    description: `${home.name} vs ${away.name}${league} - ${title}`,
+    dealerFeeBps: options.dealerFeeBps,
+    outcomes,
+    resolutionSource: {
+      provider: 'api-sports',
+      sport,
+      eventId: event.id,
+      eventKey: event.key,
+      leagueId: event.league?.id ?? null,
+      marketType: type,
+      line: type === 'overUnder' ? (line as number) : null,
+    },
+  };
+
+  const validationError = validateMarketParams(params, now);
+  if (validationError) throw validationError;
+  return params;
+}
@@ -0,0 +1,314 @@
+/**
+ * Market resolution proposals derived from final sports results
+ *
+ * The market kind and line come from the resolution source stored with the
+ * market, and outcomes are taken in the order buildMarketParams writes
+ * them. Markets without that metadata get no proposal.
+ */
+
+import type {
+  FootballFixtureResponse,
+  MmaFight,
+} from '@sudobility/sports_api_client';
+import type {
+  MarketResolutionSource,
+  MmaFightResult,
+  ResolutionProposal,
+  Sport,
+  SportEvent,
+  SportEventScore,
+} from '../types';
+import { isVoidStatus } from './gameStatus';
+import { MMA_METHOD_OUTCOMES } from './marketCreation';
+import { type SportEventSourceMap, toSportEvent } from './sportEvents';
+
+/**
+ * Normalized way an MMA fight ended
+ */
+export type MmaMethod =
+  'KO/TKO' | 'Submission' | 'Decision' | 'Draw' | 'No Contest';
+
+/**
+ * Map an API-Sports result method or an outcome label to an MmaMethod
+ *
+ * @param method - e.g. 'TKO', 'SUB', 'Decision - Unanimous', 'NC'
+ * @returns The method, or `null` when unrecognised
+ */
+export function normalizeMmaMethod(
+  method: string | null | undefined
+): MmaMethod | null {
+  const value = method?.trim().toLowerCase() ?? '';
+  if (/^t?ko\b/.test(value)) return 'KO/TKO';
+  if (value.startsWith('sub')) return 'Submission';
+  if (value.startsWith('dec') || value === 'points') return 'Decision';
+  if (value.startsWith('draw')) return 'Draw';
+  if (value === 'nc' || value.startsWith('no contest')) return 'No Contest';
+  return null;
+}
+
+function resolve(
+  outcomes: readonly string[],
+  outcome: number,
+  reason: string
+): ResolutionProposal {
+  return {
+    action: 'resolve',
+    outcome,
+    outcomeLabel: outcomes[outcome],
+    reason,
+  };
+}
+
+function cancel(reason: string): ResolutionProposal {
+  return { action: 'cancel', outcome: null, outcomeLabel: null, reason };
+}
+
+// Scores of the sports APIs may leave either side undefined
+interface PartialScore {
+  home?: number | null;
+  away?: number | null;
+}
+
+function hasScore(
+  score: PartialScore | null | undefined
+): score is { home: number; away: number } {
+  return score != null && score.home != null && score.away != null;
+}
+
+function formatScore(score: { home: number; away: number }): string {
+  return `${score.home}-${score.away}`;
+}
+
+// Score the markets of a sport are settled on: regular time for football
+function settlementScore(
+  sport: Sport,
+  entity: unknown,
+  event: SportEvent
+): SportEventScore | null {
+  if (sport === 'football') {
+    const fulltime = (entity as FootballFixtureResponse).score?.fulltime;
+    if (hasScore(fulltime)) return fulltime;
+  }
+  return event.score;
+}
+
+// Over/under outcomes are [over, under]
+function proposeOverUnder(
+  sport: Sport,
+  entity: unknown,
+  event: SportEvent,
+  outcomes: readonly string[],
+  line: number | null
+): ResolutionProposal | null {
+  if (line === null || outcomes.length !== 2) return null;
+
+  const score = settlementScore(sport, entity, event);
+  if (!hasScore(score)) return null;
+
+  const total = score.home + score.away;
+  const reason = `Total ${total} (${formatScore(score)}) against a line of ${line}`;
+  if (total === line) return cancel(`${reason}, stakes are pushed`);
+  return resolve(outcomes, total > line ? 0 : 1, reason);
+}
+
+function proposeMmaMethod(
+  outcomes: readonly string[],
+  result: MmaFightResult | undefined
+): ResolutionProposal | null {
+  if (outcomes.length !== MMA_METHOD_OUTCOMES.length) return null;
+  const method = normalizeMmaMethod(result?.method);
+  if (!method) return null;
+  if (method === 'No Contest' || method === 'Draw') {
+    return cancel(`Fight ended in a ${method.toLowerCase()}`);
+  }
+
+  return resolve(
+    outcomes,
+    MMA_METHOD_OUTCOMES.indexOf(method),
+    `Fight won by ${method}`
+  );
+}
+
+function proposeMmaRound(
+  outcomes: readonly string[],
+  result: MmaFightResult | undefined
+): ResolutionProposal | null {
+  const method = normalizeMmaMethod(result?.method);
+  if (!method) return null;
+  if (method === 'No Contest' || method === 'Draw') {
+    return cancel(`Fight ended in a ${method.toLowerCase()}`);
+  }
+
+  // Round outcomes are round 1 to n, then the decision
+  const rounds = outcomes.length - 1;
+  if (method === 'Decision') {
+    return resolve(outcomes, rounds, 'Fight went to a decision');
+  }
+  const round = result?.round;
+  if (round == null || round < 1 || round > rounds) return null;
+  return resolve(
+    outcomes,
+    round - 1,
+    `Fight won by ${method} in round ${round}`
+  );
+}
+
+function proposeWinner(
+  sport: Sport,
+  entity: unknown,
+  event: SportEvent,
+  outcomes: readonly string[],
+  result: MmaFightResult | undefined
+): ResolutionProposal | null {
+  // Outcomes are [home, away], or [home, draw, away] for sports with draws
+  if (outcomes.length !== 2 && outcomes.length !== 3) return null;
+  const drawIndex = outcomes.length === 3 ? 1 : -1;
+  const sides = [0, outcomes.length - 1];
+
+  const status = event.status.short;
+  const names = event.participants.map(participant => participant.name);
+
+  // Football 1X2 markets are settled on regular time only
+  if (sport === 'football' && drawIndex >= 0) {
+    const regular = settlementScore(sport, entity, event);
+    if (!hasScore(regular)) return null;
+    const suffix = status === 'FT' ? '' : ' after regular time';
+    if (regular.home === regular.away) {
+      return resolve(
+        outcomes,
+        drawIndex,
+        `Draw ${formatScore(regular)}${suffix}`
+      );
+    }
+    const side = regular.home > regular.away ? 0 : 1;
+    return resolve(
+      outcomes,
+      sides[side],
+      `${names[side]} won ${formatScore(regular)}${suffix}`
+    );
+  }
+
+  let side = event.participants.findIndex(
+    participant => participant.winner === true
+  );
+  if (
+    side < 0 &&
+    hasScore(event.score) &&
+    event.score.home !== event.score.away
+  ) {
+    side = event.score.home > event.score.away ? 0 : 1;
+  }
+
+  if (side < 0) {
+    const method = normalizeMmaMethod(result?.method);
+    if (method === 'No Contest') return cancel('Fight ended in a no contest');
+    if (sport === 'mma' && method !== 'Draw') return null;
+    const tie = hasScore(event.score)
+      ? `Tied ${formatScore(event.score)}`
+      : 'Ended in a draw';
+    return drawIndex >= 0
+      ? resolve(outcomes, drawIndex, tie)
+      : cancel(`${tie}, which the market does not offer`);
+  }
+
+  return resolve(
+    outcomes,
+    sides[side],
+    describeWin(sport, entity, event, side, result)
+  );
+}
+
+function describeWin(
+  sport: Sport,
+  entity: unknown,
+  event: SportEvent,
+  side: number,
+  result: MmaFightResult | undefined
+): string {
+  const name = event.participants[side].name;
+  const status = event.status.short;
+
+  if (sport === 'mma') {
+    const method = normalizeMmaMethod(result?.method);
+    if (!method) return `${name} won`;
+    return result?.round != null && method !== 'Decision'
+      ? `${name} won by ${method} in round ${result.round}`
+      : `${name} won by ${method}`;
+  }
+  if (sport === 'football' && status === 'PEN') {
+    const penalty = (entity as FootballFixtureResponse).score?.penalty;
+    if (hasScore(penalty)) {
+      return `${name} won on penalties (${formatScore(penalty)})`;
+    }
+  }
+  if (status === 'AWD' || status === 'WO') return `${name} was awarded the win`;
+
+  const score = hasScore(event.score) ? ` ${formatScore(event.score)}` : '';
+  const overtime =
+    status === 'AET' || status === 'AOT' || status === 'AP'
+      ? ' after extra time'
+      : '';
+  return `${name} won${score}${overtime}`;
+}
+
+/**
+ * Propose how to settle a market from its event's final result
+ *
+ * Football 1X2 markets are settled on the regular-time score, while
+ * two-way football markets follow the winner after extra time and
+ * penalties. MMA method and round markets need the fight's result.
+ *
+ * @param sport - Sport the entity comes from
+ * @param entity - Fixture, game or fight from the sports hooks
+ * @param outcomes - Outcome labels of the market
+ * @param resolutionSource - Metadata stored with the market
+ * @param mmaResult - Method and round of an MMA fight, when known
+ * @returns The proposal, or `null` while the event is not finished, when
+ * the metadata is missing or for another event, or when the result doesn't
+ * map to the market's outcomes
+ */
+export function proposeResolution<S extends Sport>(
+  sport: S,
+  entity: SportEventSourceMap[S],
+  outcomes: readonly string[],
+  resolutionSource: MarketResolutionSource | null,
+  mmaResult?: MmaFightResult
+): ResolutionProposal | null {
+  const event = toSportEvent(sport, entity);
+  if (
+    resolutionSource?.sport !== sport ||
+    resolutionSource.eventKey !== event.key
+  ) {
+    return null;
+  }
+
+  const matchup = event.participants.map(p => p.name).join(' vs ');
+  if (isVoidStatus(event.status.short)) {
+    return cancel(`${matchup}: ${event.status.long}`);
+  }
+  if (event.status.phase !== 'finished') return null;
+
+  const result =
+    sport === 'mma' && mmaResult?.fightId === (entity as MmaFight).id
+      ? mmaResult
+      : undefined;
+
+  switch (resolutionSource.marketType) {
+    case 'matchWinner':
+      return proposeWinner(sport, entity, event, outcomes, result);
+    case 'overUnder':
+      return proposeOverUnder(
+        sport,
+        entity,
+        event,
+        outcomes,
+        resolutionSource.line
+      );
+    case 'mmaMethod':
+      return sport === 'mma' ? proposeMmaMethod(outcomes, result) : null;
+    case 'mmaRound':
+      return sport === 'mma' ? proposeMmaRound(outcomes, result) : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Market state helpers
+ */
+
+import type { Market } from '../types';
+
+/**
+ * Whether a market still accepts predictions
+ *
+ * @param market - Market to check
+ * @param now - Current time in milliseconds, defaults to Date.now()
+ * @returns `true` while the market is active and before its deadline
+ */
+export function isMarketOpen(
+  market: Pick<Market, 'status' | 'deadline'>,
+  now: number = Date.now()
+): boolean {
+  return market.status === 'Active' && market.deadline * 1000n > BigInt(now);
+}
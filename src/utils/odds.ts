@@ -0,0 +1,297 @@
+/**
+ * Odds and implied-probability math for parimutuel pools
+ *
+ * Token amounts stay bigint throughout; only ratios meant for display
+ * (probabilities, odds) are converted to numbers, after the division.
+ * Fees are in basis points and taken from the whole pool before payout.
+ */
+
+import type { Market } from '../types';
+
+/**
+ * Basis points in 100%
+ */
+export const BPS_DENOMINATOR = 10_000n;
+
+/**
+ * Fractional odds, e.g. 5/2
+ */
+export interface FractionalOdds {
+  numerator: number;
+  denominator: number;
+}
+
+/**
+ * Payout of a hypothetical stake if its outcome wins
+ */
+export interface PayoutEstimate {
+  /** Stake plus winnings, after fees */
+  payout: bigint;
+  /** Payout minus stake; negative when fees exceed the winnings */
+  profit: bigint;
+  /** Effective decimal odds of the stake, payout / stake */
+  decimalOdds: number;
+}
+
+/**
+ * Effect of adding a stake on an outcome's odds
+ */
+export interface PriceImpact {
+  /** Decimal odds before the stake, `null` if nothing was staked yet */
+  oddsBefore: number | null;
+  /** Decimal odds once the stake is in the pool */
+  oddsAfter: number;
+  /** Relative drop in odds, 0.05 = odds 5% worse; 0 without prior odds */
+  impact: number;
+}
+
+/**
+ * Odds of a market outcome
+ */
+export interface OutcomeOdds {
+  index: number;
+  label: string;
+  impliedProbability: number;
+  decimalOdds: number | null;
+}
+
+// Digits kept when converting a bigint ratio to a number
+const RATIO_PRECISION = 10n ** 18n;
+
+/**
+ * Convert a bigint ratio to a number without overflowing either operand
+ *
+ * @param numerator - Dividend
+ * @param denominator - Divisor, must not be zero
+ * @returns numerator / denominator as a number
+ */
+export function ratioToNumber(numerator: bigint, denominator: bigint): number {
+  if (denominator === 0n) {
+    throw new RangeError('Division by zero');
+  }
+  const whole = numerator / denominator;
+  const fraction = ((numerator % denominator) * RATIO_PRECISION) / denominator;
+  return Number(whole) + Number(fraction) / Number(RATIO_PRECISION);
+}
+
+/**
+ * Sum of every outcome pool
+ */
+export function totalPool(pools: readonly bigint[]): bigint {
+  return pools.reduce((total, pool) => total + pool, 0n);
+}
+
+function assertOutcome(pools: readonly bigint[], outcome: number): void {
+  if (!Number.isInteger(outcome) || outcome < 0 || outcome >= pools.length) {
+    throw new RangeError(`No pool for outcome ${outcome}`);
+  }
+}
+
+function assertFeeBps(feeBps: bigint): void {
+  if (feeBps < 0n || feeBps > BPS_DENOMINATOR) {
+    throw new RangeError(`Fee must be between 0 and ${BPS_DENOMINATOR} bps`);
+  }
+}
+
+// Pool left for winners once fees are taken
+function netOf(amount: bigint, feeBps: bigint): bigint {
+  return (amount * (BPS_DENOMINATOR - feeBps)) / BPS_DENOMINATOR;
+}
+
+/**
+ * Share of the total pool staked on an outcome
+ *
+ * @param pools - Stake per outcome
+ * @param outcome - Outcome index
+ * @returns Probability between 0 and 1; 0 while the pool is empty
+ */
+export function impliedProbability(
+  pools: readonly bigint[],
+  outcome: number
+): number {
+  assertOutcome(pools, outcome);
+  const total = totalPool(pools);
+  return total === 0n ? 0 : ratioToNumber(pools[outcome], total);
+}
+
+/**
+ * Implied probability of every outcome
+ *
+ * @param pools - Stake per outcome
+ * @returns Probabilities in outcome order, summing to 1 unless all are 0
+ */
+export function impliedProbabilities(pools: readonly bigint[]): number[] {
+  return pools.map((_, outcome) => impliedProbability(pools, outcome));
+}
+
+/**
+ * Current parimutuel decimal odds of an outcome
+ *
+ * @param pools - Stake per outcome
+ * @param outcome - Outcome index
+ * @param feeBps - Fees taken from the pool, in basis points
+ * @returns Payout per unit staked, or `null` while nothing is staked on it
+ */
+export function decimalOdds(
+  pools: readonly bigint[],
+  outcome: number,
+  feeBps: bigint = 0n
+): number | null {
+  assertOutcome(pools, outcome);
+  assertFeeBps(feeBps);
+  const pool = pools[outcome];
+  if (pool === 0n) return null;
+  return ratioToNumber(netOf(totalPool(pools), feeBps), pool);
+}
+
+/**
+ * Convert decimal odds to the closest fractional odds
+ *
+ * Uses the continued fraction expansion of the profit part, so 3.5 becomes
+ * 5/2 rather than 250/100.
+ *
+ * @param odds - Decimal odds, at least 1
+ * @param maxDenominator - Largest denominator to use
+ * @returns Reduced fraction of profit per unit staked
+ */
+export function toFractionalOdds(
+  odds: number,
+  maxDenominator = 100
+): FractionalOdds {
+  if (!(odds >= 1) || !Number.isFinite(odds)) {
+    throw new RangeError('Decimal odds must be a finite number of at least 1');
+  }
+
+  const profit = odds - 1;
+  // Convergents h/k of the continued fraction of profit
+  let [h0, h1] = [0, 1];
+  let [k0, k1] = [1, 0];
+  let remainder = profit;
+
+  for (let step = 0; step < 64; step++) {
+    const term = Math.floor(remainder);
+    const [h2, k2] = [term * h1 + h0, term * k1 + k0];
+    if (k2 > maxDenominator) break;
+    [h0, h1, k0, k1] = [h1, h2, k1, k2];
+    const fraction = remainder - term;
+    if (fraction < 1e-9) break;
+    remainder = 1 / fraction;
+  }
+
+  return { numerator: h1, denominator: k1 };
+}
+
+/**
+ * Convert decimal odds to American (moneyline) odds
+ *
+ * @param odds - Decimal odds, greater than 1
+ * @returns +150 for 2.5, -200 for 1.5, rounded to whole units
+ */
+export function toAmericanOdds(odds: number): number {
+  if (!(odds > 1) || !Number.isFinite(odds)) {
+    throw new RangeError('Decimal odds must be a finite number above 1');
+  }
+  return odds >= 2
+    ? Math.round((odds - 1) * 100)
+    : Math.round(-100 / (odds - 1));
+}
+
+/**
+ * Payout of adding a stake to an outcome, if that outcome wins
+ *
+ * The stake joins both the outcome pool and the total pool, so the result
+ * already includes the odds moving against it.
+ *
+ * @param pools - Stake per outcome before the new stake
+ * @param outcome - Outcome index
+ * @param stake - Hypothetical stake, in the token's smallest unit
+ * @param feeBps - Fees taken from the pool, in basis points
+ * @returns Payout, profit and effective odds
+ */
+export function estimatePayout(
+  pools: readonly bigint[],
+  outcome: number,
+  stake: bigint,
+  feeBps: bigint = 0n
+): PayoutEstimate {
+  assertOutcome(pools, outcome);
+  assertFeeBps(feeBps);
+  if (stake <= 0n) {
+    throw new RangeError('Stake must be greater than zero');
+  }
+
+  const netTotal = netOf(totalPool(pools) + stake, feeBps);
+  const payout = (stake * netTotal) / (pools[outcome] + stake);
+
+  return {
+    payout,
+    profit: payout - stake,
+    decimalOdds: ratioToNumber(payout, stake),
+  };
+}
+
+/**
+ * Payout of a stake already in the pools, if its outcome wins
+ *
+ * @param pools - Stake per outcome, including the stake itself
+ * @param outcome - Outcome index
+ * @param stake - Stake on the outcome, in the token's smallest unit
+ * @param feeBps - Fees taken from the pool, in basis points
+ * @returns Share of the net pool owed to the stake; 0 if the pool is empty
+ */
+export function parimutuelPayout(
+  pools: readonly bigint[],
+  outcome: number,
+  stake: bigint,
+  feeBps: bigint = 0n
+): bigint {
+  assertOutcome(pools, outcome);
+  assertFeeBps(feeBps);
+  const pool = pools[outcome];
+  if (pool === 0n) return 0n;
+  return (stake * netOf(totalPool(pools), feeBps)) / pool;
+}
+
+/**
+ * How much a stake worsens the odds of its own outcome
+ *
+ * @param pools - Stake per outcome before the new stake
+ * @param outcome - Outcome index
+ * @param stake - Hypothetical stake, in the token's smallest unit
+ * @param feeBps - Fees taken from the pool, in basis points
+ * @returns Odds before and after, and the relative change
+ */
+export function priceImpact(
+  pools: readonly bigint[],
+  outcome: number,
+  stake: bigint,
+  feeBps: bigint = 0n
+): PriceImpact {
+  const oddsBefore = decimalOdds(pools, outcome, feeBps);
+  const oddsAfter = estimatePayout(pools, outcome, stake, feeBps).decimalOdds;
+
+  return {
+    oddsBefore,
+    oddsAfter,
+    impact: oddsBefore === null ? 0 : 1 - oddsAfter / oddsBefore,
+  };
+}
+
+/**
+ * Implied probability and decimal odds of every outcome of a market
+ *
+ * @param market - Market with its outcome pools
+ * @returns Odds in outcome order, net of the dealer fee
+ */
+export function getMarketOdds(
+  market: Pick<Market, 'outcomes' | 'dealerFeeBps'>
+): OutcomeOdds[] {
+  const pools = market.outcomes.map(outcome => outcome.pool);
+
+  return market.outcomes.map(outcome => ({
+    index: outcome.index,
+    label: outcome.label,
+    impliedProbability: impliedProbability(pools, outcome.index),
+    decimalOdds: decimalOdds(pools, outcome.index, market.dealerFeeBps),
+  }));
+}
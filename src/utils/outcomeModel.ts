@@ -0,0 +1,448 @@
+/**
+ * Outcome models fitted to historical results: Poisson goals models for
+ * low-scoring sports, Elo ratings for the others
+ *
+ * Fitting is deterministic: the same events give the same model, whatever
+ * their order.
+ */
+
+import type {
+  FairOdds,
+  Market,
+  OutcomeModel,
+  OutcomeModelKind,
+  OutcomePrediction,
+  OutcomeProbabilities,
+  OutcomeValue,
+  SportEvent,
+  TeamSport,
+} from '../types';
+import { MARKET_DRAW_LABEL, SPORTS_WITH_DRAWS } from './marketCreation';
+import { getMarketOdds } from './odds';
+import { compareSportEvents } from './sportEvents';
+import { hasFinalScore } from './teamForm';
+
+/**
+ * Model fitted for each team sport
+ */
+export const OUTCOME_MODEL_BY_SPORT: Readonly<
+  Record<TeamSport, OutcomeModelKind>
+> = {
+  football: 'poisson',
+  hockey: 'poisson',
+  handball: 'poisson',
+  basketball: 'elo',
+  nfl: 'elo',
+  baseball: 'elo',
+  volleyball: 'elo',
+  rugby: 'elo',
+};
+
+/**
+ * Rating of a team without history
+ */
+export const DEFAULT_ELO_RATING = 1500;
+
+/**
+ * Update speed and home advantage, in rating points, of each Elo sport
+ */
+export const ELO_SETTINGS_BY_SPORT: Readonly<
+  Record<TeamSport, { kFactor: number; homeAdvantage: number }>
+> = {
+  football: { kFactor: 20, homeAdvantage: 60 },
+  hockey: { kFactor: 8, homeAdvantage: 30 },
+  handball: { kFactor: 20, homeAdvantage: 60 },
+  basketball: { kFactor: 20, homeAdvantage: 100 },
+  nfl: { kFactor: 20, homeAdvantage: 48 },
+  baseball: { kFactor: 4, homeAdvantage: 24 },
+  volleyball: { kFactor: 20, homeAdvantage: 50 },
+  rugby: { kFactor: 20, homeAdvantage: 50 },
+};
+
+/**
+ * Options of the Poisson goals model
+ */
+export interface PoissonModelOptions {
+  /**
+   * Goals of an average team added to each side's record, pulling teams
+   * with few games towards the average; defaults to 2
+   */
+  priorGoals?: number;
+  /** Fitting passes, defaults to 25 */
+  iterations?: number;
+  /** Highest score summed per side when predicting, defaults to 15 */
+  maxGoals?: number;
+}
+
+/**
+ * Options of the Elo model, defaulting to the sport's ELO_SETTINGS_BY_SPORT
+ */
+export interface EloModelOptions {
+  kFactor?: number;
+  /** Rating points added to the home team */
+  homeAdvantage?: number;
+  initialRating?: number;
+}
+
+/**
+ * Options of fitOutcomeModel
+ */
+export interface OutcomeModelOptions
+  extends PoissonModelOptions, EloModelOptions {
+  /** Model to fit, defaults to OUTCOME_MODEL_BY_SPORT */
+  kind?: OutcomeModelKind;
+}
+
+interface GameResult {
+  homeId: number;
+  awayId: number;
+  homeScore: number;
+  awayScore: number;
+  /** 1 home win, 0.5 draw, 0 away win */
+  homeResult: number;
+}
+
+// Finished games of the sport in start order, each counted once
+function toGameResults(
+  sport: TeamSport,
+  events: readonly SportEvent[]
+): GameResult[] {
+  const byKey = new Map<string, SportEvent>();
+  events.forEach(event => {
+    if (event.sport === sport && hasFinalScore(event)) {
+      byKey.set(event.key, event);
+    }
+  });
+  return [...byKey.values()].sort(compareSportEvents).map(event => {
+    const [home, away] = event.participants;
+    const homeScore = event.score?.home ?? 0;
+    const awayScore = event.score?.away ?? 0;
+    let homeResult = 0.5;
+    if (homeScore !== awayScore) homeResult = homeScore > awayScore ? 1 : 0;
+    else if (home.winner !== null) homeResult = home.winner ? 1 : 0;
+    return {
+      homeId: home.id,
+      awayId: away.id,
+      homeScore,
+      awayScore,
+      homeResult,
+    };
+  });
+}
+
+function teamIdsOf(games: readonly GameResult[]): number[] {
+  const ids = new Set<number>();
+  games.forEach(game => ids.add(game.homeId).add(game.awayId));
+  return [...ids].sort((a, b) => a - b);
+}
+
+function toFairOdds(probabilities: OutcomeProbabilities): FairOdds {
+  const odds = (probability: number) =>
+    probability > 0 ? 1 / probability : null;
+  return {
+    home: odds(probabilities.home),
+    draw: odds(probabilities.draw),
+    away: odds(probabilities.away),
+  };
+}
+
+// Without draws the level results go to extra time, taken as a coin flip
+function settleDraws(
+  sport: TeamSport,
+  probabilities: OutcomeProbabilities
+): OutcomeProbabilities {
+  if (SPORTS_WITH_DRAWS.includes(sport)) return probabilities;
+  const half = probabilities.draw / 2;
+  return {
+    home: probabilities.home + half,
+    draw: 0,
+    away: probabilities.away + half,
+  };
+}
+
+function poissonPmf(rate: number, maxGoals: number): number[] {
+  const pmf = [Math.exp(-rate)];
+  for (let goals = 1; goals <= maxGoals; goals += 1) {
+    pmf.push((pmf[goals - 1] * rate) / goals);
+  }
+  return pmf;
+}
+
+const mean = (values: Iterable<number>) => {
+  const list = [...values];
+  return list.length
+    ? list.reduce((sum, value) => sum + value, 0) / list.length
+    : 1;
+};
+
+/**
+ * Fit a Poisson goals model
+ *
+ * Each team gets an attack and a defence strength such that the expected
+ * goals of a side are the league's home or away scoring rate times its
+ * attack and the opponent's defence, fitted by iterative proportional
+ * scaling.
+ *
+ * @param sport - Sport of the events; others are ignored
+ * @param events - Normalized events, finished ones are used
+ * @param options - Prior weight, fitting passes and score range
+ * @returns Model predicting win/draw/loss probabilities
+ */
+export function fitPoissonModel(
+  sport: TeamSport,
+  events: readonly SportEvent[],
+  options: PoissonModelOptions = {}
+): OutcomeModel {
+  const { priorGoals = 2, iterations = 25, maxGoals = 15 } = options;
+  const games = toGameResults(sport, events);
+  const teamIds = teamIdsOf(games);
+
+  const attack = new Map(teamIds.map(id => [id, 1]));
+  const defence = new Map(teamIds.map(id => [id, 1]));
+  const totalHome = games.reduce((sum, game) => sum + game.homeScore, 0);
+  const totalAway = games.reduce((sum, game) => sum + game.awayScore, 0);
+  let homeRate = games.length ? totalHome / games.length : 1;
+  let awayRate = games.length ? totalAway / games.length : 1;
+
+  const strength = (map: Map<number, number>, id: number) => map.get(id) ?? 1;
+  const refit = (
+    map: Map<number, number>,
+    goalsOf: (game: GameResult, id: number) => number,
+    expectedOf: (game: GameResult, id: number) => number
+  ) => {
+    const next = new Map<number, number>();
+    teamIds.forEach(id => {
+      let goals = priorGoals;
+      let expected = priorGoals;
+      games.forEach(game => {
+        if (game.homeId !== id && game.awayId !== id) return;
+        goals += goalsOf(game, id);
+        expected += expectedOf(game, id);
+      });
+      next.set(id, expected > 0 ? goals / expected : 1);
+    });
+    // Keep the average strength at 1 so the rates carry the scoring level
+    const average = mean(next.values());
+    next.forEach((value, id) => map.set(id, value / average));
+  };
+
+  for (let pass = 0; pass < iterations && games.length; pass += 1) {
+    refit(
+      attack,
+      (game, id) => (game.homeId === id ? game.homeScore : game.awayScore),
+      (game, id) =>
+        game.homeId === id
+          ? homeRate * strength(defence, game.awayId)
+          : awayRate * strength(defence, game.homeId)
+    );
+    refit(
+      defence,
+      (game, id) => (game.homeId === id ? game.awayScore : game.homeScore),
+      (game, id) =>
+        game.homeId === id
+          ? awayRate * strength(attack, game.awayId)
+          : homeRate * strength(attack, game.homeId)
+    );
+    const expectedHome = games.reduce(
+      (sum, game) =>
+        sum + strength(attack, game.homeId) * strength(defence, game.awayId),
+      0
+    );
+    const expectedAway = games.reduce(
+      (sum, game) =>
+        sum + strength(attack, game.awayId) * strength(defence, game.homeId),
+      0
+    );
+    homeRate = expectedHome > 0 ? totalHome / expectedHome : homeRate;
+    awayRate = expectedAway > 0 ? totalAway / expectedAway : awayRate;
+  }
+
+  return {
+    kind: 'poisson',
+    sport,
+    gameCount: games.length,
+    teamIds,
+    predict(homeTeamId, awayTeamId) {
+      const home =
+        homeRate * strength(attack, homeTeamId) * strength(defence, awayTeamId);
+      const away =
+        awayRate * strength(attack, awayTeamId) * strength(defence, homeTeamId);
+      const homePmf = poissonPmf(home, maxGoals);
+      const awayPmf = poissonPmf(away, maxGoals);
+
+      let homeWin = 0;
+      let draw = 0;
+      let awayWin = 0;
+      homePmf.forEach((homeProbability, homeGoals) =>
+        awayPmf.forEach((awayProbability, awayGoals) => {
+          const probability = homeProbability * awayProbability;
+          if (homeGoals > awayGoals) homeWin += probability;
+          else if (homeGoals === awayGoals) draw += probability;
+          else awayWin += probability;
+        })
+      );
+      // Scores beyond maxGoals are left out; rescale what was summed
+      const total = homeWin + draw + awayWin;
+      const probabilities = settleDraws(sport, {
+        home: homeWin / total,
+        draw: draw / total,
+        away: awayWin / total,
+      });
+
+      return {
+        model: 'poisson',
+        homeTeamId,
+        awayTeamId,
+        probabilities,
+        fairOdds: toFairOdds(probabilities),
+        expectedScore: { home, away },
+      };
+    },
+  };
+}
+
+/**
+ * Fit an Elo model
+ *
+ * Ratings are updated game by game in start order. In sports with draws the
+ * draw probability is the share of drawn games in the history.
+ *
+ * @param sport - Sport of the events; others are ignored
+ * @param events - Normalized events, finished ones are used
+ * @param options - Update speed, home advantage and initial rating
+ * @returns Model predicting win/draw/loss probabilities
+ */
+export function fitEloModel(
+  sport: TeamSport,
+  events: readonly SportEvent[],
+  options: EloModelOptions = {}
+): OutcomeModel {
+  const {
+    kFactor = ELO_SETTINGS_BY_SPORT[sport].kFactor,
+    homeAdvantage = ELO_SETTINGS_BY_SPORT[sport].homeAdvantage,
+    initialRating = DEFAULT_ELO_RATING,
+  } = options;
+  const games = toGameResults(sport, events);
+
+  const ratings = new Map<number, number>();
+  const rating = (id: number) => ratings.get(id) ?? initialRating;
+  const expectedHome = (homeId: number, awayId: number) =>
+    1 / (1 + 10 ** ((rating(awayId) - rating(homeId) - homeAdvantage) / 400));
+
+  games.forEach(game => {
+    const change =
+      kFactor * (game.homeResult - expectedHome(game.homeId, game.awayId));
+    ratings.set(game.homeId, rating(game.homeId) + change);
+    ratings.set(game.awayId, rating(game.awayId) - change);
+  });
+
+  const drawRate =
+    SPORTS_WITH_DRAWS.includes(sport) && games.length
+      ? games.filter(game => game.homeResult === 0.5).length / games.length
+      : 0;
+
+  return {
+    kind: 'elo',
+    sport,
+    gameCount: games.length,
+    teamIds: teamIdsOf(games),
+    predict(homeTeamId, awayTeamId) {
+      const expected = expectedHome(homeTeamId, awayTeamId);
+      const probabilities = {
+        home: expected * (1 - drawRate),
+        draw: drawRate,
+        away: (1 - expected) * (1 - drawRate),
+      };
+      return {
+        model: 'elo',
+        homeTeamId,
+        awayTeamId,
+        probabilities,
+        fairOdds: toFairOdds(probabilities),
+        expectedScore: null,
+      };
+    },
+  };
+}
+
+/**
+ * Fit the sport's outcome model to historical results
+ *
+ * @param sport - Team sport to model
+ * @param events - Normalized events, e.g. a league's past seasons
+ * @param options - Model kind and its options
+ * @returns Model predicting win/draw/loss probabilities
+ *
+ * @example
+ * ```typescript
+ * const model = fitOutcomeModel(
+ *   'football',
+ *   fixtures.map(footballMatchToEvent)
+ * );
+ * const { probabilities, fairOdds } = model.predict(33, 40);
+ * ```
+ */
+export function fitOutcomeModel(
+  sport: TeamSport,
+  events: readonly SportEvent[],
+  options: OutcomeModelOptions = {}
+): OutcomeModel {
+  const { kind = OUTCOME_MODEL_BY_SPORT[sport], ...modelOptions } = options;
+  return kind === 'poisson'
+    ? fitPoissonModel(sport, events, modelOptions)
+    : fitEloModel(sport, events, modelOptions);
+}
+
+/**
+ * Compare a model estimate with the odds of a winner market
+ *
+ * Only markets stored as `'matchWinner'` markets are compared, and their
+ * labels must be as buildMarketParams creates them: home, draw, away, or
+ * home, away without a draw outcome, in which case the draw probability is
+ * split between the two sides.
+ *
+ * @param prediction - Model estimate of the market's game
+ * @param market - Market with its outcome pools and resolution metadata
+ * @param event - Game the market is on, its participants name the outcomes
+ * @returns Value of every outcome, or `null` when the market is not a
+ * winner market of the game, e.g. an over/under market
+ */
+export function compareWithMarketOdds(
+  prediction: OutcomePrediction,
+  market: Pick<Market, 'outcomes' | 'dealerFeeBps' | 'resolutionSource'>,
+  event: Pick<SportEvent, 'participants'>
+): OutcomeValue[] | null {
+  if (market.resolutionSource?.marketType !== 'matchWinner') return null;
+
+  const { home, draw, away } = prediction.probabilities;
+  const [homeTeam, awayTeam] = event.participants;
+  const labels = market.outcomes.map(outcome => outcome.label.trim());
+  const isWinnerMarket = (expected: string[]) =>
+    labels.length === expected.length &&
+    labels.every((label, index) => label === expected[index]);
+
+  let modelProbabilities: number[];
+  if (isWinnerMarket([homeTeam.name, MARKET_DRAW_LABEL, awayTeam.name])) {
+    modelProbabilities = [home, draw, away];
+  } else if (isWinnerMarket([homeTeam.name, awayTeam.name])) {
+    modelProbabilities = [home + draw / 2, away + draw / 2];
+  } else {
+    return null;
+  }
+
+  return getMarketOdds(market).map(odds => {
+    const modelProbability = modelProbabilities[odds.index];
+    return {
+      index: odds.index,
+      label: odds.label,
+      modelProbability,
+      impliedProbability: odds.impliedProbability,
+      fairOdds: modelProbability > 0 ? 1 / modelProbability : null,
+      marketOdds: odds.decimalOdds,
+      edge:
+        odds.decimalOdds === null
+          ? null
+          : modelProbability * odds.decimalOdds - 1,
+    };
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Position valuation for wallet portfolios
+ */
+
+import type { MarketData, PredictionData } from '@sudobility/heavymath_types';
+import type {
+  ClaimKind,
+  Market,
+  PortfolioPosition,
+  PortfolioTotals,
+} from '../types';
+import { parimutuelPayout } from './odds';
+
+/**
+ * Value a prediction against its market
+ *
+ * @param prediction - Prediction from the indexer
+ * @param marketData - Its market from the indexer
+ * @param market - Its market with outcome pools, when available
+ * @returns The position with everything computable from the inputs
+ */
+export function buildPortfolioPosition(
+  prediction: PredictionData,
+  marketData: MarketData,
+  market?: Market
+): PortfolioPosition {
+  const stake = BigInt(prediction.amount);
+  const status = marketData.status;
+  const settled = status !== 'Active';
+  const refunded = status === 'Cancelled' || status === 'Abandoned';
+  const won =
+    status === 'Resolved' ? marketData.outcome === prediction.outcome : null;
+  const claimed = prediction.hasClaimed;
+  const claimedAmount =
+    prediction.claimedAmount != null ? BigInt(prediction.claimedAmount) : 0n;
+
+  const outcomeIndex = market
+    ? market.outcomes.findIndex(outcome => outcome.label === prediction.outcome)
+    : -1;
+  const payout =
+    market && outcomeIndex >= 0
+      ? parimutuelPayout(
+          market.outcomes.map(outcome => outcome.pool),
+          outcomeIndex,
+          stake,
+          market.dealerFeeBps
+        )
+      : null;
+
+  let owed: bigint | null;
+  if (refunded) owed = stake;
+  else if (won === false) owed = 0n;
+  else if (won === true) owed = payout;
+  else owed = null;
+
+  const returned = claimed ? claimedAmount : owed;
+
+  return {
+    id: prediction.id,
+    marketId: prediction.marketId,
+    chainId: marketData.chainId,
+    onchainMarketId: BigInt(marketData.marketId),
+    title: marketData.title,
+    outcome: prediction.outcome,
+    outcomeIndex: outcomeIndex >= 0 ? outcomeIndex : null,
+    stake,
+    status,
+    settled,
+    won: refunded ? false : won,
+    potentialPayout: settled ? null : payout,
+    claimed,
+    claimable: claimed ? 0n : owed,
+    realizedPnl: settled && returned !== null ? returned - stake : null,
+  };
+}
+
+/**
+ * Sum a wallet's positions; unknown amounts count as zero
+ *
+ * @param positions - Positions to total
+ * @returns Aggregated stake, claimable amount and realized P&L
+ */
+export function summarizePortfolio(
+  positions: readonly PortfolioPosition[]
+): PortfolioTotals {
+  const sum = (pick: (position: PortfolioPosition) => bigint | null) =>
+    positions.reduce((total, position) => total + (pick(position) ?? 0n), 0n);
+  const open = positions.filter(position => !position.settled);
+
+  return {
+    positions: positions.length,
+    openPositions: open.length,
+    totalStaked: sum(position => position.stake),
+    openStake: open.reduce((total, position) => total + position.stake, 0n),
+    claimable: sum(position => position.claimable),
+    realizedPnl: sum(position => position.realizedPnl),
+  };
+}
+
+/**
+ * What a position can still claim
+ *
+ * @param position - Position to check
+ * @returns `'winnings'` for unclaimed winners, `'refund'` for unclaimed stakes
+ * of cancelled or abandoned markets, otherwise `null`
+ */
+export function getClaimKind(position: PortfolioPosition): ClaimKind | null {
+  if (!position.settled || position.claimed) return null;
+  if (position.status === 'Cancelled' || position.status === 'Abandoned') {
+    return 'refund';
+  }
+  return position.won ? 'winnings' : null;
+}
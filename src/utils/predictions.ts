@@ -0,0 +1,172 @@
+/**
+ * Prediction validation and contract error helpers
+ */
+
+import type { Market } from '../types';
+import { isMarketOpen } from './markets';
+
+/**
+ * Reason a prediction is rejected before it is submitted
+ */
+export type PredictionValidationCode =
+  | 'INVALID_AMOUNT'
+  | 'INVALID_OUTCOME'
+  | 'MARKET_CLOSED'
+  | 'INSUFFICIENT_BALANCE';
+
+/**
+ * Error thrown when a prediction fails validation
+ */
+export class PredictionValidationError extends Error {
+  readonly code: PredictionValidationCode;
+
+  constructor(code: PredictionValidationCode, message: string) {
+    super(message);
+    this.name = 'PredictionValidationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Prediction a wallet wants to place
+ */
+export interface PredictionInput {
+  marketId: bigint;
+  /** Index of the outcome to stake on */
+  outcome: number;
+  /** Stake in the token's smallest unit */
+  amount: bigint;
+}
+
+/**
+ * Check a prediction against the market and the wallet balance
+ *
+ * @param market - Market the prediction is placed on
+ * @param input - Outcome and stake
+ * @param balance - Stake token balance of the wallet
+ * @param now - Current time in milliseconds, defaults to Date.now()
+ * @returns The first failed check, or `null` when the prediction is valid
+ */
+export function validatePrediction(
+  market: Market,
+  input: Pick<PredictionInput, 'outcome' | 'amount'>,
+  balance: bigint,
+  now: number = Date.now()
+): PredictionValidationError | null {
+  if (input.amount <= 0n) {
+    return new PredictionValidationError(
+      'INVALID_AMOUNT',
+      'Stake must be greater than zero'
+    );
+  }
+  if (
+    !Number.isInteger(input.outcome) ||
+    input.outcome < 0 ||
+    input.outcome >= market.outcomes.length
+  ) {
+    return new PredictionValidationError(
+      'INVALID_OUTCOME',
+      `Market has no outcome ${input.outcome}`
+    );
+  }
+  if (!isMarketOpen(market, now)) {
+    return new PredictionValidationError(
+      'MARKET_CLOSED',
+      'Market is no longer accepting predictions'
+    );
+  }
+  if (input.amount > balance) {
+    return new PredictionValidationError(
+      'INSUFFICIENT_BALANCE',
+      'Stake exceeds wallet balance'
+    );
+  }
+  return null;
+}
+
+/**
+ * Error thrown when the wallet or the chain rejects a transaction
+ */
+export class ContractTransactionError extends Error {
+  /** Original error from the client */
+  readonly originalError: unknown;
+
+  constructor(originalError: unknown) {
+    super(getRevertReason(originalError));
+    this.name = 'ContractTransactionError';
+    this.originalError = originalError;
+  }
+}
+
+// Error fields set by viem and the wallet providers
+interface ContractErrorLike {
+  reason?: unknown;
+  shortMessage?: unknown;
+  message?: unknown;
+  code?: unknown;
+  cause?: unknown;
+}
+
+const REVERTED_PREFIX =
+  /^(?:execution reverted:?|reverted with reason string)\s*/i;
+
+/**
+ * Extract a readable revert reason from a contract or wallet error
+ *
+ * Walks the error's cause chain and prefers the decoded revert reason over
+ * the generic transport message.
+ *
+ * @param error - Error thrown while submitting or confirming a transaction
+ * @returns Human-readable reason
+ */
+export function getRevertReason(error: unknown): string {
+  let current: unknown = error;
+  let fallback: string | undefined;
+
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (typeof current !== 'object') {
+      return String(current);
+    }
+    const candidate = current as ContractErrorLike;
+
+    if (candidate.code === 4001) {
+      return 'Transaction rejected in wallet';
+    }
+    if (typeof candidate.reason === 'string' && candidate.reason) {
+      return candidate.reason;
+    }
+    const message =
+      typeof candidate.shortMessage === 'string'
+        ? candidate.shortMessage
+        : typeof candidate.message === 'string'
+          ? candidate.message
+          : undefined;
+    if (message && REVERTED_PREFIX.test(message)) {
+      const reason = message.replace(REVERTED_PREFIX, '').trim();
+      if (reason) return reason.replace(/^["']|["']\.?$/g, '');
+    }
+    fallback ??= message;
+    current = candidate.cause;
+  }
+
+  return fallback ?? 'Transaction failed';
+}
+
+/**
+ * Whether a contract or wallet error comes from the user declining to sign
+ *
+ * @param error - Error thrown while submitting a transaction
+ * @returns `true` for EIP-1193 user rejections anywhere in the cause chain
+ */
+export function isUserRejection(error: unknown): boolean {
+  let current: unknown = error;
+
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (typeof current !== 'object') return false;
+    const candidate = current as ContractErrorLike;
+    if (candidate.code === 4001) return true;
+    current = candidate.cause;
+  }
+
+  return false;
+}
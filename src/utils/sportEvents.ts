@@ -0,0 +1,280 @@
+/**
+ * Adapters from sports_api_client entities to the normalized SportEvent
+ */
+
+import type {
+  BaseballGame,
+  BasketballGame,
+  FootballFixtureResponse,
+  HandballGame,
+  HandballPeriodScores,
+  HockeyGame,
+  MmaFight,
+  NflGame,
+  RugbyGame,
+  VolleyballGame,
+  VolleyballSetScores,
+} from '@sudobility/sports_api_client';
+import type {
+  Sport,
+  SportEvent,
+  SportEventLeague,
+  SportEventParticipant,
+  SportEventScore,
+} from '../types';
+import { getGamePhase } from './gameStatus';
+
+/**
+ * Source entity of each sport's events
+ */
+export interface SportEventSourceMap {
+  football: FootballFixtureResponse;
+  basketball: BasketballGame;
+  nfl: NflGame;
+  baseball: BaseballGame;
+  hockey: HockeyGame;
+  rugby: RugbyGame;
+  mma: MmaFight;
+  handball: HandballGame;
+  volleyball: VolleyballGame;
+}
+
+/**
+ * Favorites type of each sport's events, as used by the sports hooks
+ */
+export const SPORT_EVENT_FAVORITE_TYPES = {
+  football: 'match',
+  basketball: 'game',
+  nfl: 'game',
+  baseball: 'game',
+  hockey: 'game',
+  rugby: 'game',
+  mma: 'fight',
+  handball: 'game',
+  volleyball: 'game',
+} as const satisfies Record<Sport, string>;
+
+// Team or fighter as returned by the sports APIs
+interface SourceParticipant {
+  id: number;
+  name: string;
+  logo?: string | null;
+  winner?: boolean | null;
+}
+
+// Fields shared by every team sport game
+interface TeamGame {
+  id: number;
+  timestamp: number;
+  status: { short: string; long: string };
+  league: { id: number; name: string; logo?: string | null };
+  teams: { home: SourceParticipant; away: SourceParticipant };
+}
+
+function toParticipant(team: SourceParticipant): SportEventParticipant {
+  return {
+    id: team.id,
+    name: team.name,
+    logo: team.logo ?? null,
+    winner: team.winner ?? null,
+  };
+}
+
+function toLeague(league: TeamGame['league']): SportEventLeague {
+  return { id: league.id, name: league.name, logo: league.logo ?? null };
+}
+
+function teamGameToEvent(
+  sport: Sport,
+  game: TeamGame,
+  score: SportEventScore
+): SportEvent {
+  return {
+    key: `${sport}:${game.id}`,
+    id: game.id,
+    sport,
+    league: toLeague(game.league),
+    participants: [
+      toParticipant(game.teams.home),
+      toParticipant(game.teams.away),
+    ],
+    startTime: game.timestamp * 1000,
+    status: {
+      short: game.status.short,
+      long: game.status.long,
+      phase: getGamePhase(game.status.short),
+    },
+    score,
+  };
+}
+
+// Handball only reports per-period scores
+function handballTotal(scores: HandballPeriodScores): number | null {
+  const periods = [scores.first, scores.second, scores.overtime];
+  if (periods.every(period => period === null)) return null;
+  return periods.reduce<number>((total, period) => total + (period ?? 0), 0);
+}
+
+// Volleyball scores count sets won
+function volleyballSetsWon(
+  own: VolleyballSetScores,
+  other: VolleyballSetScores
+): number | null {
+  let played = 0;
+  let won = 0;
+  ([1, 2, 3, 4, 5] as const).forEach(set => {
+    const ownPoints = own[set];
+    const otherPoints = other[set];
+    if (ownPoints === null || otherPoints === null) return;
+    played += 1;
+    if (ownPoints > otherPoints) won += 1;
+  });
+  return played === 0 ? null : won;
+}
+
+/**
+ * Normalize a football fixture
+ */
+export function footballMatchToEvent(
+  fixture: FootballFixtureResponse
+): SportEvent {
+  return teamGameToEvent(
+    'football',
+    { ...fixture.fixture, league: fixture.league, teams: fixture.teams },
+    { home: fixture.goals.home ?? null, away: fixture.goals.away ?? null }
+  );
+}
+
+/**
+ * Normalize a basketball game
+ */
+export function basketballGameToEvent(game: BasketballGame): SportEvent {
+  return teamGameToEvent('basketball', game, {
+    home: game.scores.home.total ?? null,
+    away: game.scores.away.total ?? null,
+  });
+}
+
+/**
+ * Normalize an NFL game
+ */
+export function nflGameToEvent(game: NflGame): SportEvent {
+  return teamGameToEvent('nfl', game, {
+    home: game.scores.home.total ?? null,
+    away: game.scores.away.total ?? null,
+  });
+}
+
+/**
+ * Normalize a baseball game
+ */
+export function baseballGameToEvent(game: BaseballGame): SportEvent {
+  return teamGameToEvent('baseball', game, {
+    home: game.scores.home.total,
+    away: game.scores.away.total,
+  });
+}
+
+/**
+ * Normalize a hockey game
+ */
+export function hockeyGameToEvent(game: HockeyGame): SportEvent {
+  return teamGameToEvent('hockey', game, {
+    home: game.scores.home.total ?? null,
+    away: game.scores.away.total ?? null,
+  });
+}
+
+/**
+ * Normalize a rugby game
+ */
+export function rugbyGameToEvent(game: RugbyGame): SportEvent {
+  return teamGameToEvent('rugby', game, {
+    home: game.scores.home.total,
+    away: game.scores.away.total,
+  });
+}
+
+/**
+ * Normalize a handball game, totalling its period scores
+ */
+export function handballGameToEvent(game: HandballGame): SportEvent {
+  return teamGameToEvent('handball', game, {
+    home: handballTotal(game.scores.home),
+    away: handballTotal(game.scores.away),
+  });
+}
+
+/**
+ * Normalize a volleyball game, scoring it by sets won
+ */
+export function volleyballGameToEvent(game: VolleyballGame): SportEvent {
+  return teamGameToEvent('volleyball', game, {
+    home: volleyballSetsWon(game.scores.home, game.scores.away),
+    away: volleyballSetsWon(game.scores.away, game.scores.home),
+  });
+}
+
+/**
+ * Normalize an MMA fight; fights have no league or running score
+ */
+export function mmaFightToEvent(fight: MmaFight): SportEvent {
+  return {
+    key: `mma:${fight.id}`,
+    id: fight.id,
+    sport: 'mma',
+    league: null,
+    participants: [
+      toParticipant(fight.fighters.first),
+      toParticipant(fight.fighters.second),
+    ],
+    startTime: fight.timestamp * 1000,
+    status: {
+      short: fight.status.short,
+      long: fight.status.long,
+      phase: getGamePhase(fight.status.short),
+    },
+    score: null,
+  };
+}
+
+/**
+ * Adapter for each sport
+ */
+export const SPORT_EVENT_ADAPTERS: {
+  [S in Sport]: (entity: SportEventSourceMap[S]) => SportEvent;
+} = {
+  football: footballMatchToEvent,
+  basketball: basketballGameToEvent,
+  nfl: nflGameToEvent,
+  baseball: baseballGameToEvent,
+  hockey: hockeyGameToEvent,
+  rugby: rugbyGameToEvent,
+  mma: mmaFightToEvent,
+  handball: handballGameToEvent,
+  volleyball: volleyballGameToEvent,
+};
+
+/**
+ * Normalize an entity of any sport
+ *
+ * @param sport - Sport the entity comes from
+ * @param entity - Fixture, game or fight from sports_api_client
+ * @returns The normalized event
+ */
+export function toSportEvent<S extends Sport>(
+  sport: S,
+  entity: SportEventSourceMap[S]
+): SportEvent {
+  const adapt = SPORT_EVENT_ADAPTERS[sport] as (
+    entity: SportEventSourceMap[S]
+  ) => SportEvent;
+  return adapt(entity);
+}
+
+/**
+ * Order events by start time, then by key for a stable feed
+ */
+export function compareSportEvents(a: SportEvent, b: SportEvent): number {
+  return a.startTime - b.startTime || a.key.localeCompare(b.key);
+}
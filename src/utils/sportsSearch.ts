@@ -0,0 +1,410 @@
+/**
+ * Fuzzy search over teams, leagues and fighters of every sport
+ * Includes the adapters from sports hook items to search entries
+ */
+
+import type {
+  FootballLeagueResponse,
+  FootballTeamResponse,
+  MmaFighter,
+  NflLeagueResponse,
+} from '@sudobility/sports_api_client';
+import type {
+  Sport,
+  SportSearchEntry,
+  SportSearchGroup,
+  SportSearchOptions,
+  SportSearchResult,
+  SportsSearchIndex,
+} from '../types';
+
+/**
+ * Score added to favorited entries, ranking them above similar matches
+ */
+export const FAVORITE_SEARCH_BOOST = 0.2;
+
+/**
+ * Well-known alternative names, keyed by normalized entity name
+ */
+export const DEFAULT_SEARCH_ALIASES: Readonly<
+  Record<string, readonly string[]>
+> = {
+  'manchester united': ['man utd', 'man united'],
+  'manchester city': ['man city'],
+  tottenham: ['spurs'],
+  'paris saint germain': ['psg'],
+  'bayern munchen': ['bayern munich'],
+  inter: ['inter milan', 'internazionale'],
+  'borussia dortmund': ['bvb'],
+  'atletico madrid': ['atleti'],
+  'los angeles lakers': ['la lakers'],
+  'los angeles clippers': ['la clippers'],
+  'golden state warriors': ['gsw'],
+  'new york knicks': ['ny knicks'],
+};
+
+/**
+ * Options for createSportsSearchIndex
+ */
+export interface SportsSearchIndexOptions {
+  /** Alternative names by normalized entity name, defaults to DEFAULT_SEARCH_ALIASES */
+  aliases?: Readonly<Record<string, readonly string[]>>;
+  /** Defaults to FAVORITE_SEARCH_BOOST */
+  favoriteBoost?: number;
+}
+
+// Letters NFD does not decompose into a base letter and a mark
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  đ: 'd',
+  ð: 'd',
+  ł: 'l',
+  þ: 'th',
+  ı: 'i',
+};
+
+/**
+ * Lowercase text without diacritics or punctuation, for matching
+ *
+ * @param text - Name or query, e.g. 'Atlético  Madrid'
+ * @returns Space-separated words, e.g. 'atletico madrid'
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[ßæœøđðłþı]/g, letter => SPECIAL_LETTERS[letter])
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function isSubsequence(query: string, word: string): boolean {
+  let position = 0;
+  for (const letter of word) {
+    if (letter === query[position]) position += 1;
+    if (position === query.length) return true;
+  }
+  return false;
+}
+
+// Edits between two words, counting a swap of neighbours as one
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : 0))
+  );
+  for (let i = 1; i <= a.length; i += 1) {
+    rows[i][0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Similarity of a query word to a name word, 0 when unrelated
+function scoreWord(query: string, word: string): number {
+  if (word === query) return 1;
+  if (word.startsWith(query)) return 0.8;
+  // Abbreviations keep the first letter and the order, e.g. utd -> united
+  if (query.length >= 2 && query[0] === word[0] && isSubsequence(query, word)) {
+    return 0.6;
+  }
+  // Typos, compared with the whole word and the part typed so far
+  const allowed = query.length >= 7 ? 2 : query.length >= 4 ? 1 : 0;
+  if (allowed === 0) return 0;
+  const distance = Math.min(
+    editDistance(query, word),
+    editDistance(query, word.slice(0, query.length))
+  );
+  return distance <= allowed ? 0.5 : 0;
+}
+
+// Every query word must match a word of the text
+function scoreText(query: string, queryWords: string[], text: string): number {
+  if (text === query) return 1;
+  const words = text.split(' ');
+  let total = 0;
+  for (const queryWord of queryWords) {
+    const best = Math.max(...words.map(word => scoreWord(queryWord, word)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  const average = total / queryWords.length;
+  return average * 0.9 + (text.startsWith(query) ? 0.1 : 0);
+}
+
+interface IndexedEntry {
+  entry: SportSearchEntry;
+  /** Name and aliases, as given and normalized */
+  texts: { original: string; normalized: string }[];
+}
+
+/**
+ * Build a search index over normalized entries
+ *
+ * Matching ignores case, diacritics and punctuation. Query words may be
+ * prefixes, abbreviations keeping the first letter ('utd' finds 'United')
+ * or contain a typo. Favorited entries get a boost so they rank first among
+ * similar matches. Entries sharing a key keep the last one.
+ *
+ * @param entries - Entries from the search adapters
+ * @param options - Extra aliases and favorite boost
+ * @returns Index searched with `search(query)`
+ *
+ * @example
+ * ```typescript
+ * const index = createSportsSearchIndex([
+ *   ...teams.map(footballTeamToSearchEntry),
+ *   ...fighters.map(mmaFighterToSearchEntry),
+ * ]);
+ *
+ * index.search('man utd', { limit: 5 });
+ * ```
+ */
+export function createSportsSearchIndex(
+  entries: readonly SportSearchEntry[],
+  options: SportsSearchIndexOptions = {}
+): SportsSearchIndex {
+  const {
+    aliases = DEFAULT_SEARCH_ALIASES,
+    favoriteBoost = FAVORITE_SEARCH_BOOST,
+  } = options;
+
+  const byKey = new Map<string, IndexedEntry>();
+  entries.forEach(entry => {
+    const originals = [
+      entry.name,
+      ...entry.aliases,
+      ...(aliases[normalizeSearchText(entry.name)] ?? []),
+    ];
+    const texts = originals
+      .map(original => ({
+        original,
+        normalized: normalizeSearchText(original),
+      }))
+      .filter(
+        (text, index, all) =>
+          text.normalized !== '' &&
+          all.findIndex(other => other.normalized === text.normalized) === index
+      );
+    byKey.delete(entry.key);
+    byKey.set(entry.key, { entry, texts });
+  });
+  const indexed = [...byKey.values()];
+
+  return {
+    size: indexed.length,
+    search(query, searchOptions: SportSearchOptions = {}) {
+      const { limit, sports, types } = searchOptions;
+      const normalized = normalizeSearchText(query);
+      if (!normalized) return [];
+      const queryWords = normalized.split(' ');
+
+      const results: SportSearchResult[] = [];
+      indexed.forEach(({ entry, texts }) => {
+        if (sports && !sports.includes(entry.sport)) return;
+        if (types && !types.includes(entry.type)) return;
+
+        let best = 0;
+        let matched = entry.name;
+        texts.forEach(text => {
+          const score = scoreText(normalized, queryWords, text.normalized);
+          if (score > best) {
+            best = score;
+            matched = text.original;
+          }
+        });
+        if (best === 0) return;
+
+        results.push({
+          entry,
+          score: best + (entry.favorited ? favoriteBoost : 0),
+          matched,
+        });
+      });
+
+      results.sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.entry.name.length - b.entry.name.length ||
+          a.entry.name.localeCompare(b.entry.name)
+      );
+      return limit === undefined ? results : results.slice(0, limit);
+    },
+  };
+}
+
+/**
+ * Group ranked results by sport and type, best group first
+ *
+ * @param results - Results of SportsSearchIndex.search
+ * @returns Groups in order of their best result, results keep their rank
+ */
+export function groupSearchResults(
+  results: readonly SportSearchResult[]
+): SportSearchGroup[] {
+  const groups = new Map<string, SportSearchGroup>();
+  results.forEach(result => {
+    const { sport, type } = result.entry;
+    const key = `${sport}:${type}`;
+    const group = groups.get(key) ?? { sport, type, results: [] };
+    group.results.push(result);
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+}
+
+// Sports hook items carry their favorite status
+interface Favorited {
+  favorited?: boolean;
+}
+
+// Team or league as returned by the API-Sports APIs other than football
+interface SearchSource extends Favorited {
+  id: number;
+  name: string;
+  logo?: string | null;
+  code?: string | null;
+  country?: { name: string } | null;
+}
+
+function toSearchEntry(
+  sport: Sport,
+  type: string,
+  id: string | number,
+  fields: Pick<SportSearchEntry, 'name' | 'description' | 'logo'> & {
+    aliases: (string | null | undefined)[];
+    favorited?: boolean;
+  }
+): SportSearchEntry {
+  return {
+    key: `${sport}:${type}:${id}`,
+    id: String(id),
+    sport,
+    type,
+    name: fields.name,
+    aliases: fields.aliases.filter((alias): alias is string => !!alias),
+    description: fields.description,
+    logo: fields.logo,
+    favorited: fields.favorited ?? false,
+  };
+}
+
+/**
+ * Normalize a team of any sport but football
+ */
+export function teamToSearchEntry(
+  sport: Sport,
+  team: SearchSource
+): SportSearchEntry {
+  return toSearchEntry(sport, 'team', team.id, {
+    name: team.name,
+    aliases: [team.code],
+    description: team.country?.name ?? null,
+    logo: team.logo ?? null,
+    favorited: team.favorited,
+  });
+}
+
+/**
+ * Normalize a league of any sport but football and NFL
+ */
+export function leagueToSearchEntry(
+  sport: Sport,
+  league: SearchSource
+): SportSearchEntry {
+  return toSearchEntry(sport, 'league', league.id, {
+    name: league.name,
+    aliases: [],
+    description: league.country?.name ?? null,
+    logo: league.logo ?? null,
+    favorited: league.favorited,
+  });
+}
+
+/**
+ * Normalize a football team
+ */
+export function footballTeamToSearchEntry(
+  team: FootballTeamResponse & Favorited
+): SportSearchEntry {
+  return toSearchEntry('football', 'team', team.team.id, {
+    name: team.team.name,
+    aliases: [team.team.code],
+    description: team.team.country,
+    logo: team.team.logo,
+    favorited: team.favorited,
+  });
+}
+
+/**
+ * Normalize a football league
+ */
+export function footballLeagueToSearchEntry(
+  league: FootballLeagueResponse & Favorited
+): SportSearchEntry {
+  return toSearchEntry('football', 'league', league.league.id, {
+    name: league.league.name,
+    aliases: [],
+    description: league.country.name,
+    logo: league.league.logo,
+    favorited: league.favorited,
+  });
+}
+
+/**
+ * Normalize an NFL league
+ */
+export function nflLeagueToSearchEntry(
+  league: NflLeagueResponse & Favorited
+): SportSearchEntry {
+  return toSearchEntry('nfl', 'league', league.league.id, {
+    name: league.league.name,
+    aliases: [],
+    description: league.country.name,
+    logo: league.league.logo ?? null,
+    favorited: league.favorited,
+  });
+}
+
+/**
+ * Normalize an MMA fighter, found by nickname as well
+ */
+export function mmaFighterToSearchEntry(
+  fighter: MmaFighter & Favorited
+): SportSearchEntry {
+  return toSearchEntry('mma', 'fighter', fighter.id, {
+    name: fighter.name,
+    aliases: [fighter.nickname],
+    description: fighter.category,
+    logo: fighter.photo,
+    favorited: fighter.favorited,
+  });
+}
+
+/**
+ * Normalize an MMA weight category, as returned by useMmaCategories
+ */
+export function mmaCategoryToSearchEntry(
+  category: { name: string } & Favorited
+): SportSearchEntry {
+  return toSearchEntry('mma', 'category', category.name, {
+    name: category.name,
+    aliases: [],
+    description: null,
+    logo: null,
+    favorited: category.favorited,
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Recent form and head-to-head records from normalized events
+ */
+
+import type {
+  HeadToHead,
+  SportEvent,
+  StandingsResult,
+  TeamForm,
+  TeamFormGame,
+  TeamRecord,
+} from '../types';
+import { isVoidStatus } from './gameStatus';
+
+/**
+ * Games in a form or head-to-head record, unless overridden
+ */
+export const DEFAULT_FORM_GAMES = 5;
+
+/**
+ * Options for computeTeamForm and computeHeadToHead
+ */
+export interface TeamFormOptions {
+  /** Latest games to keep, defaults to DEFAULT_FORM_GAMES */
+  last?: number;
+}
+
+/**
+ * Whether an event ended with a score that counts as a result
+ *
+ * Cancelled and abandoned games are finished without one; postponed games
+ * are still scheduled.
+ */
+export function hasFinalScore(
+  event: SportEvent
+): event is SportEvent & { score: { home: number; away: number } } {
+  const { score, status } = event;
+  return (
+    status.phase === 'finished' &&
+    !isVoidStatus(status.short) &&
+    score?.home != null &&
+    score.away != null
+  );
+}
+
+function toFormGame(event: SportEvent, teamId: number): TeamFormGame | null {
+  if (!hasFinalScore(event)) return null;
+  const { participants, score } = event;
+  const venue =
+    participants[0].id === teamId
+      ? 'home'
+      : participants[1].id === teamId
+        ? 'away'
+        : null;
+  if (!venue) return null;
+
+  const scored = venue === 'home' ? score.home : score.away;
+  const conceded = venue === 'home' ? score.away : score.home;
+  // The winner flag settles games level on the headline score, e.g. shootouts
+  const winner = participants[venue === 'home' ? 0 : 1].winner;
+  let result: StandingsResult = 'D';
+  if (scored !== conceded) result = scored > conceded ? 'W' : 'L';
+  else if (winner !== null) result = winner ? 'W' : 'L';
+
+  return { event, venue, result, scored, conceded };
+}
+
+function toRecord(games: readonly TeamFormGame[]): TeamRecord {
+  const count = (result: StandingsResult) =>
+    games.filter(game => game.result === result).length;
+  const scored = games.reduce((sum, game) => sum + game.scored, 0);
+  const conceded = games.reduce((sum, game) => sum + game.conceded, 0);
+  return {
+    played: games.length,
+    won: count('W'),
+    drawn: count('D'),
+    lost: count('L'),
+    scored,
+    conceded,
+    scoredAverage: games.length ? scored / games.length : 0,
+    concededAverage: games.length ? conceded / games.length : 0,
+  };
+}
+
+/**
+ * Compute the recent form of a team
+ *
+ * Only finished games with a score count; cancelled, abandoned and
+ * postponed games are skipped. Games level on the headline score are
+ * draws unless the API names a winner.
+ *
+ * @param events - Normalized events of any sport, in any order
+ * @param teamId - Id of the team in its sport's API
+ * @param options - Number of games to keep
+ * @returns Latest games, results, streak and home/away splits
+ *
+ * @example
+ * ```typescript
+ * const { form, streak } = computeTeamForm(
+ *   games.map(basketballGameToEvent),
+ *   133
+ * );
+ * ```
+ */
+export function computeTeamForm(
+  events: readonly SportEvent[],
+  teamId: number,
+  options: TeamFormOptions = {}
+): TeamForm {
+  const { last = DEFAULT_FORM_GAMES } = options;
+
+  const byKey = new Map<string, TeamFormGame>();
+  events.forEach(event => {
+    const game = toFormGame(event, teamId);
+    if (game) byKey.set(event.key, game);
+  });
+  const games = [...byKey.values()]
+    .sort(
+      (a, b) =>
+        b.event.startTime - a.event.startTime ||
+        b.event.key.localeCompare(a.event.key)
+    )
+    .slice(0, Math.max(0, last));
+
+  const latest = games[0]?.result;
+  const streakLength = games.findIndex(game => game.result !== latest);
+
+  return {
+    teamId,
+    games,
+    form: games
+      .map(game => game.result)
+      .reverse()
+      .join(''),
+    streak: latest
+      ? {
+          result: latest,
+          length: streakLength === -1 ? games.length : streakLength,
+        }
+      : null,
+    overall: toRecord(games),
+    home: toRecord(games.filter(game => game.venue === 'home')),
+    away: toRecord(games.filter(game => game.venue === 'away')),
+  };
+}
+
+/**
+ * Compute the record of two teams against each other
+ *
+ * Events not played between the two teams are ignored, so the team games
+ * of either side can be passed as they are.
+ *
+ * @param events - Normalized events of any sport, in any order
+ * @param teamA - Id of the first team
+ * @param teamB - Id of the second team
+ * @param options - Number of games to keep
+ * @returns Latest meetings and each side's form over them
+ */
+export function computeHeadToHead(
+  events: readonly SportEvent[],
+  teamA: number,
+  teamB: number,
+  options: TeamFormOptions = {}
+): HeadToHead {
+  const meetings = events.filter(({ participants: [home, away] }) =>
+    home.id === teamA
+      ? away.id === teamB
+      : home.id === teamB && away.id === teamA
+  );
+  const formA = computeTeamForm(meetings, teamA, options);
+  return {
+    events: formA.games.map(game => game.event),
+    teamA: formA,
+    teamB: computeTeamForm(meetings, teamB, options),
+  };
+}